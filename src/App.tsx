@@ -6,12 +6,21 @@ import BetaCampaignView from './components/beta/BetaCampaignView';
 import ShortlistView from './components/ShortlistView';
 import JobPostingsView from './components/JobPostingsView';
 import CompanyBrandingView from './components/CompanyBrandingView';
+import DuplicatesView from './components/DuplicatesView';
+import CandidateImportView from './components/CandidateImportView';
 import ProjectSelector from './components/ProjectSelector';
-import { SearchQuery, CandidateMatch, Candidate } from './types';
-import { Project, getCandidates, getRecentSearches, saveSearch, getSearchResults } from './lib/supabase';
+import { SearchQuery, CandidateMatch, Candidate, FacetSelections } from './types';
+import { Project, SavedSearch, getCandidates, getCandidateCount, getCandidatePage, getRecentSearches, saveSearch, getSearchResults, getCachedSearchResultsByKey, getSavedSearches, createSavedSearch, updateSavedSearch, deleteSavedSearch } from './lib/supabase';
 import { seedCandidates } from './utils/candidateSeeder';
 import { searchCandidates } from './utils/searchUtils';
+import { isStructuredQuery, buildStructuredSearchQuery } from './utils/queryParser';
+import { getProjectRankingConfig } from './config/ranking';
+import { getProjectTaxonomy, setActiveTaxonomy } from './utils/taxonomy';
+import { buildSearchCacheKey, getCachedSearchResults, setCachedSearchResults, hydrateSearchResults } from './utils/searchCache';
+import { getSavedSearchQuery, runSavedSearch, refreshSavedSearches, getDueDigest, SavedSearchDigest } from './utils/savedSearches';
 import { convertDatabaseCandidatesToCandidates } from './utils/dataConverters';
+import { resetCandidateIndex } from './utils/semanticIndex';
+import { CandidatePool, CandidateSource, CANDIDATE_PAGE_SIZE, LOCAL_POOL_LIMIT, createSupabaseCandidateSource, resolveCandidatePool } from './utils/candidateSource';
 
 function AppContent() {
   const { user, signOut } = useContext(AuthContext);
@@ -23,10 +32,18 @@ function AppContent() {
   const [isCreatingCampaign, setIsCreatingCampaign] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+  // Set when the pool is too large to load; searches then filter server-side
+  const [candidateSource, setCandidateSource] = useState<CandidateSource | null>(null);
+  const [candidateTotal, setCandidateTotal] = useState(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchDigest, setSavedSearchDigest] = useState<SavedSearchDigest | null>(null);
+  const [activeFacets, setActiveFacets] = useState<FacetSelections | undefined>(undefined);
+  const [similarCandidate, setSimilarCandidate] = useState<Candidate | null>(null);
 
   // Load project data when project changes
   useEffect(() => {
     if (currentProject) {
+      setActiveTaxonomy(getProjectTaxonomy(currentProject.settings));
       loadProjectData();
     }
   }, [currentProject]);
@@ -35,8 +52,26 @@ function AppContent() {
     if (!currentProject || !user) return;
 
     console.log('📊 Loading project data for:', currentProject.name);
+    // Start the semantic index over with this project's pool, so other projects' and deleted
+    // candidates no longer affect scores
+    resetCandidateIndex();
 
     try {
+      // Large pools stay in Postgres: load the first page for display and search through the RPC
+      const { count: candidateCount } = await getCandidateCount(currentProject.id);
+      setCandidateTotal(candidateCount);
+      if (candidateCount > LOCAL_POOL_LIMIT) {
+        const { data: firstPage } = await getCandidatePage(currentProject.id, 0, CANDIDATE_PAGE_SIZE);
+        const source = createSupabaseCandidateSource(currentProject.id);
+        setCandidates(convertDatabaseCandidatesToCandidates(firstPage || []));
+        setCandidateSource(source);
+        console.log(`🗄️ ${candidateCount} candidates, using server-side filtering`);
+        await loadSavedSearches(source);
+        await loadRecentSearches();
+        return;
+      }
+      setCandidateSource(null);
+
       // Load candidates
       const { data: candidatesData, error: candidatesError } = await getCandidates(currentProject.id);
       
@@ -56,29 +91,138 @@ function AppContent() {
         const { data: seededCandidates } = await getCandidates(currentProject.id);
         const convertedCandidates = convertDatabaseCandidatesToCandidates(seededCandidates || []);
         setCandidates(convertedCandidates);
+        setCandidateTotal(convertedCandidates.length);
         console.log('✅ Seeded and loaded', convertedCandidates.length, 'candidates');
+        await loadSavedSearches(convertedCandidates);
       } else {
         // Convert database candidates to frontend format
         const convertedCandidates = convertDatabaseCandidatesToCandidates(candidatesData);
         setCandidates(convertedCandidates);
         console.log('✅ Converted and loaded', convertedCandidates.length, 'candidates');
+        await loadSavedSearches(convertedCandidates);
       }
 
-      // Load recent searches
-      const { data: searchesData, error: searchesError } = await getRecentSearches(user.id, currentProject.id, 10);
-      
-      if (searchesError) {
-        console.error('❌ Error loading recent searches:', searchesError);
-      } else {
-        const searchQueries = searchesData?.map(search => search.query) || [];
-        setRecentSearches(searchQueries);
-        console.log('🔍 Loaded recent searches:', searchQueries.length);
-      }
+      await loadRecentSearches();
     } catch (error) {
       console.error('❌ Error loading project data:', error);
     }
   };
 
+  const loadRecentSearches = async () => {
+    if (!currentProject || !user) return;
+
+    const { data: searchesData, error: searchesError } = await getRecentSearches(user.id, currentProject.id, 10);
+    
+    if (searchesError) {
+      console.error('❌ Error loading recent searches:', searchesError);
+    } else {
+      const searchQueries = searchesData?.map(search => search.query) || [];
+      setRecentSearches(searchQueries);
+      console.log('🔍 Loaded recent searches:', searchQueries.length);
+    }
+  };
+
+  // Saved searches re-run whenever the candidate pool is (re)loaded, e.g. after an import
+  const loadSavedSearches = async (projectCandidates: CandidatePool) => {
+    if (!currentProject || !user) return;
+
+    const { data, error } = await getSavedSearches(user.id, currentProject.id);
+    if (error) {
+      console.error('❌ Error loading saved searches:', error);
+      return;
+    }
+
+    const refreshed = await refreshSavedSearches(
+      data || [],
+      projectCandidates,
+      getProjectRankingConfig(currentProject.settings),
+      async (savedSearch) => {
+        await updateSavedSearch(savedSearch.id, {
+          last_result_ids: savedSearch.last_result_ids,
+          new_match_ids: savedSearch.new_match_ids,
+          last_run_at: savedSearch.last_run_at
+        });
+      }
+    );
+    setSavedSearches(refreshed);
+    setSavedSearchDigest(getDueDigest(refreshed));
+    console.log('🔖 Loaded saved searches:', refreshed.length);
+  };
+
+  const handleSaveSearch = async (query: SearchQuery) => {
+    if (!currentProject || !user) return;
+
+    const name = window.prompt('Name this saved search', query.originalQuery);
+    if (!name || !name.trim()) return;
+
+    // The current result set is the baseline later runs are diffed against
+    const matches = await runSavedSearch(query, candidateSource || candidates, getProjectRankingConfig(currentProject.settings));
+    const { data, error } = await createSavedSearch({
+      user_id: user.id,
+      project_id: currentProject.id,
+      name: name.trim(),
+      query: query.originalQuery,
+      extracted_entities: query.extractedEntities || {},
+      clauses: query.clauses || null,
+      facets: query.facets || null,
+      last_result_ids: matches.map(match => match.candidate.id),
+      new_match_ids: [],
+      last_run_at: new Date().toISOString(),
+      digest_enabled: false
+    });
+
+    if (error || !data) {
+      alert('Failed to save search. Please try again.');
+      return;
+    }
+    setSavedSearches(prev => [data, ...prev]);
+  };
+
+  const handleSavedSearchClick = async (savedSearch: SavedSearch) => {
+    if (!currentProject) return;
+
+    console.log('🔖 Running saved search:', savedSearch.name);
+    // Show the unrefined results with the saved facets pre-selected, so they can still be toggled off
+    const { facets, ...searchQuery } = getSavedSearchQuery(savedSearch);
+    const searchResults = await runSavedSearch(searchQuery, candidateSource || candidates, getProjectRankingConfig(currentProject.settings));
+    setMatches(searchResults);
+    setActiveFacets({ ...facets });
+
+    // Opening the search marks its new matches as seen
+    if (savedSearch.new_match_ids.length > 0) {
+      const { data } = await updateSavedSearch(savedSearch.id, { new_match_ids: [] });
+      if (data) {
+        setSavedSearches(prev => prev.map(search => search.id === data.id ? data : search));
+      }
+    }
+  };
+
+  const handleToggleSavedSearchDigest = async (savedSearch: SavedSearch) => {
+    const { data } = await updateSavedSearch(savedSearch.id, { digest_enabled: !savedSearch.digest_enabled });
+    if (data) {
+      setSavedSearches(prev => prev.map(search => search.id === data.id ? data : search));
+    }
+  };
+
+  const handleDeleteSavedSearch = async (savedSearch: SavedSearch) => {
+    if (!confirm(`Delete saved search "${savedSearch.name}"?`)) return;
+
+    const { error } = await deleteSavedSearch(savedSearch.id);
+    if (!error) {
+      setSavedSearches(prev => prev.filter(search => search.id !== savedSearch.id));
+    }
+  };
+
+  const handleDismissDigest = async () => {
+    if (!savedSearchDigest) return;
+
+    const now = new Date().toISOString();
+    const digestIds = savedSearchDigest.searches.map(search => search.id);
+    await Promise.all(digestIds.map(id => updateSavedSearch(id, { last_digest_at: now })));
+    setSavedSearches(prev => prev.map(search => digestIds.includes(search.id) ? { ...search, last_digest_at: now } : search));
+    setSavedSearchDigest(null);
+  };
+
   const handleSearch = async (query: SearchQuery) => {
     if (!currentProject || !user) {
       console.error('❌ Cannot search: Missing project or user');
@@ -101,10 +245,25 @@ function AppContent() {
         return;
       }
 
-      console.log('📊 Searching through', candidates.length, 'candidates');
+      // Large pools are narrowed by the server-side filters first; the cache is keyed on that subset
+      const pool = candidateSource ? await resolveCandidatePool(candidateSource, query) : candidates;
+      console.log('📊 Searching through', pool.length, 'candidates');
       
-      // Search candidates using the existing search logic
-      const searchResults = await searchCandidates(candidates, query);
+      // Reuse results for the same criteria, candidate pool and AI settings before spending AI calls
+      const rankingConfig = getProjectRankingConfig(currentProject.settings);
+      const cacheKey = buildSearchCacheKey(query, pool, rankingConfig);
+      let searchResults = getCachedSearchResults(cacheKey);
+
+      if (!searchResults) {
+        const { data: storedResults } = await getCachedSearchResultsByKey(cacheKey, currentProject.id);
+        if (storedResults && storedResults.length > 0) {
+          console.log('⚡ Using stored results for cache key:', cacheKey);
+          searchResults = hydrateSearchResults(storedResults, pool);
+        } else {
+          searchResults = await searchCandidates(pool, query, undefined, rankingConfig);
+        }
+        setCachedSearchResults(cacheKey, searchResults);
+      }
       setMatches(searchResults);
       
       console.log('✅ Search completed:', searchResults.length, 'matches found');
@@ -117,6 +276,7 @@ function AppContent() {
           query: query.originalQuery,
           extracted_entities: query.extractedEntities || {},
           filters: {},
+          cache_key: cacheKey,
           results_count: searchResults.length,
           results: searchResults.map(match => ({
             candidate_id: match.candidate?.id || 'unknown',
@@ -159,20 +319,38 @@ function AppContent() {
 
     try {
       // Try to load saved search results
-      const { data: searchResults, error } = await getSearchResults(searchQuery, currentProject.id);
+      const { data: searchResults, error, extracted_entities, cache_key } = await getSearchResults(searchQuery, currentProject.id);
       
       if (error) {
         console.error('❌ Error loading search results:', error);
         return;
       }
 
+      // Stored results are stale once the candidate pool or AI settings change; re-run with the saved criteria
+      if (extracted_entities && cache_key) {
+        const storedQuery: SearchQuery = {
+          originalQuery: searchQuery,
+          extractedEntities: extracted_entities,
+          clauses: isStructuredQuery(searchQuery) ? buildStructuredSearchQuery(searchQuery).clauses : undefined
+        };
+        const pool = candidateSource ? await resolveCandidatePool(candidateSource, storedQuery) : candidates;
+        if (buildSearchCacheKey(storedQuery, pool, getProjectRankingConfig(currentProject.settings)) !== cache_key) {
+          console.log('♻️ Stored results are stale, re-running search:', searchQuery);
+          await handleSearch(storedQuery);
+          return;
+        }
+      }
+
       if (searchResults && searchResults.length > 0) {
         console.log('✅ Loaded saved search results:', searchResults.length);
         
         // Convert database candidates to frontend format
+        const resultCandidates = candidateSource
+          ? await candidateSource.getByIds(searchResults.map((result: { candidate_id: string }) => result.candidate_id))
+          : candidates;
         const candidateMatches: CandidateMatch[] = searchResults.map((result: any) => {
           // Find the candidate in our current candidates array
-          const candidate = candidates.find(c => c.id === result.candidate_id);
+          const candidate = resultCandidates.find(c => c.id === result.candidate_id);
           if (!candidate) {
             console.warn('⚠️ Candidate not found for result:', result.candidate_id);
             return null;
@@ -198,6 +376,12 @@ function AppContent() {
     }
   };
 
+  // "More like this" from a shortlist runs in the search view
+  const handleFindSimilar = (candidate: Candidate) => {
+    setSimilarCandidate(candidate);
+    handleViewChange('search');
+  };
+
   const handleViewChange = (view: string) => {
     setCurrentView(view);
     if (view !== 'beta-campaigns') {
@@ -214,8 +398,17 @@ function AppContent() {
             matches={matches}
             isLoading={isLoading}
             recentSearches={recentSearches}
+            savedSearches={savedSearches}
             candidates={candidates}
+            candidateSource={candidateSource}
+            totalCandidates={candidateTotal}
             currentProject={currentProject}
+            onSaveSearch={handleSaveSearch}
+            activeFacets={activeFacets}
+            similarCandidate={similarCandidate}
+            onSimilarCandidateHandled={() => setSimilarCandidate(null)}
+            onCandidatesImported={loadProjectData}
+            onCandidateUpdated={loadProjectData}
           />
         );
       case 'beta-campaigns':
@@ -230,12 +423,30 @@ function AppContent() {
         return (
           <ShortlistView 
             currentProject={currentProject}
+            onFindSimilar={handleFindSimilar}
+            onCandidatesImported={loadProjectData}
+            onCandidateUpdated={loadProjectData}
           />
         );
       case 'job-postings':
         return (
           <JobPostingsView 
             currentProject={currentProject}
+            candidatePool={candidateSource || candidates}
+          />
+        );
+      case 'duplicates':
+        return (
+          <DuplicatesView
+            currentProject={currentProject}
+            onCandidatesMerged={loadProjectData}
+          />
+        );
+      case 'import':
+        return (
+          <CandidateImportView
+            currentProject={currentProject}
+            onCandidatesImported={loadProjectData}
           />
         );
       case 'company-branding':
@@ -275,6 +486,12 @@ function AppContent() {
         user={user}
         onSignOut={signOut}
         onRecentSearchClick={handleRecentSearchClick}
+        savedSearches={savedSearches}
+        savedSearchDigest={savedSearchDigest}
+        onSavedSearchClick={handleSavedSearchClick}
+        onToggleSavedSearchDigest={handleToggleSavedSearchDigest}
+        onDeleteSavedSearch={handleDeleteSavedSearch}
+        onDismissDigest={handleDismissDigest}
       />
       
       {/* Main Content */}
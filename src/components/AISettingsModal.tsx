@@ -1,30 +1,104 @@
-import React, { useState } from 'react';
-import { X, Settings, Cpu, Sparkles, Zap, Sliders, Save, RotateCcw, Info } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Settings, Cpu, Sparkles, Zap, Sliders, Save, RotateCcw, Info, ListOrdered, ChevronUp, ChevronDown, Tags, Plus, Trash2, Gauge } from 'lucide-react';
 import { 
   AI_MODELS, 
   AI_TASK_MODELS, 
   AI_PROMPTS, 
   updateTaskModel, 
   updatePrompt,
-  getAIConfiguration
+  getAIConfiguration,
+  ENTITY_EXTRACTION_MODES,
+  EntityExtractionMode,
+  getEntityExtractionMode,
+  setEntityExtractionMode
 } from '../config/ai';
+import { DEFAULT_RANKING_PIPELINE, MAX_AI_RERANK_BUDGET, getProjectRankingConfig } from '../config/ranking';
+import { getRankingStage } from '../utils/rankingPipeline';
+import { Project, updateProject } from '../lib/supabase';
+import { RankingStageConfig, TaxonomyCategory, TaxonomyEntry } from '../types';
+import { HEALTHCARE_TAXONOMY } from '../data/healthcareTaxonomy';
+import { TAXONOMY_CATEGORY_LABELS, TaxonomyExtension } from '../utils/taxonomy';
+import { invalidateSearchCache } from '../utils/searchCache';
 import Button from './shared/Button';
+import SearchEvaluationPanel from './SearchEvaluationPanel';
+import ExtractionComparison from './ExtractionComparison';
 
 interface AISettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  currentProject?: Project | null;
+  onProjectChange?: (project: Project) => void;
 }
 
-const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'models' | 'prompts'>('models');
+const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose, currentProject, onProjectChange }) => {
+  const [activeTab, setActiveTab] = useState<'models' | 'prompts' | 'ranking' | 'taxonomy' | 'evaluation'>('models');
   const [modelAssignments, setModelAssignments] = useState({ ...AI_TASK_MODELS });
   const [prompts, setPrompts] = useState({ ...AI_PROMPTS });
+  const [extractionMode, setExtractionMode] = useState<EntityExtractionMode>(getEntityExtractionMode());
   const [editingPrompt, setEditingPrompt] = useState<string | null>(null);
   const [promptContent, setPromptContent] = useState('');
   const [hasChanges, setHasChanges] = useState(false);
+  const [rankingStages, setRankingStages] = useState<RankingStageConfig[]>([]);
+  const [hasRankingChanges, setHasRankingChanges] = useState(false);
+  const [taxonomyEntries, setTaxonomyEntries] = useState<TaxonomyEntry[]>([]);
+  const [hasTaxonomyChanges, setHasTaxonomyChanges] = useState(false);
+  const [newTaxonomyCategory, setNewTaxonomyCategory] = useState<TaxonomyCategory>('title');
+  const [newTaxonomyTarget, setNewTaxonomyTarget] = useState('');
+  const [newTaxonomyLabel, setNewTaxonomyLabel] = useState('');
+  const [newTaxonomySynonyms, setNewTaxonomySynonyms] = useState('');
+
+  // Ranking and taxonomy settings are per project, so reload them whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setRankingStages(getProjectRankingConfig(currentProject?.settings).stages.map(stage => ({ ...stage })));
+      setHasRankingChanges(false);
+      const extension: TaxonomyExtension | undefined = currentProject?.settings?.taxonomy;
+      setTaxonomyEntries(Array.isArray(extension?.entries) ? extension.entries.map(entry => ({ ...entry })) : []);
+      setHasTaxonomyChanges(false);
+    }
+  }, [isOpen, currentProject]);
 
   if (!isOpen) return null;
 
+  const updateRankingStage = (index: number, updates: Partial<RankingStageConfig>) => {
+    setRankingStages(prev => prev.map((stage, i) => i === index ? { ...stage, ...updates } : stage));
+    setHasRankingChanges(true);
+  };
+
+  const moveRankingStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rankingStages.length) return;
+
+    setRankingStages(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setHasRankingChanges(true);
+  };
+
+  const handleAddTaxonomyEntry = () => {
+    const synonyms = newTaxonomySynonyms.split(',').map(synonym => synonym.trim()).filter(Boolean);
+    const target = HEALTHCARE_TAXONOMY.entries.find(entry => entry.id === newTaxonomyTarget);
+    const label = target ? target.label : newTaxonomyLabel.trim();
+    if (!label || (target && synonyms.length === 0)) return;
+
+    const id = target ? target.id : `custom-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+    const existing = taxonomyEntries.find(entry => entry.id === id);
+    setTaxonomyEntries(existing
+      ? taxonomyEntries.map(entry => entry.id === id ? { ...entry, synonyms: [...new Set([...entry.synonyms, ...synonyms])] } : entry)
+      : [...taxonomyEntries, { id, category: target ? target.category : newTaxonomyCategory, label, synonyms }]
+    );
+    setNewTaxonomyLabel('');
+    setNewTaxonomySynonyms('');
+    setHasTaxonomyChanges(true);
+  };
+
+  const removeTaxonomyEntry = (id: string) => {
+    setTaxonomyEntries(taxonomyEntries.filter(entry => entry.id !== id));
+    setHasTaxonomyChanges(true);
+  };
+
   const handleModelChange = (task: string, model: string) => {
     setModelAssignments(prev => ({
       ...prev,
@@ -33,6 +107,11 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
     setHasChanges(true);
   };
 
+  const handleExtractionModeChange = (mode: EntityExtractionMode) => {
+    setExtractionMode(mode);
+    setHasChanges(true);
+  };
+
   const handleEditPrompt = (promptKey: string) => {
     setEditingPrompt(promptKey);
     setPromptContent(prompts[promptKey].system);
@@ -52,7 +131,7 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
     setHasChanges(true);
   };
 
-  const handleSaveChanges = () => {
+  const handleSaveChanges = async () => {
     // Update model assignments
     Object.entries(modelAssignments).forEach(([task, model]) => {
       if (AI_TASK_MODELS[task as keyof typeof AI_TASK_MODELS] !== model) {
@@ -67,7 +146,40 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
       }
     });
 
+    if (extractionMode !== getEntityExtractionMode()) {
+      setEntityExtractionMode(extractionMode);
+    }
+
+    // Cached results were scored with the previous models and prompts
+    if (hasChanges) {
+      invalidateSearchCache('AI settings changed');
+    }
+
+    // Ranking pipeline and taxonomy extensions are stored on the project
+    if ((hasRankingChanges || hasTaxonomyChanges) && currentProject) {
+      const settings = { ...(currentProject.settings || {}) };
+      if (hasRankingChanges) {
+        settings.ranking = { stages: rankingStages };
+      }
+      if (hasTaxonomyChanges) {
+        const taxonomy: TaxonomyExtension = { baseVersion: HEALTHCARE_TAXONOMY.version, entries: taxonomyEntries };
+        settings.taxonomy = taxonomy;
+      }
+
+      const { data, error } = await updateProject(currentProject.id, { settings });
+      if (error) {
+        alert('Failed to save project settings. Please try again.');
+        return;
+      }
+      if (data && onProjectChange) {
+        onProjectChange(data as Project);
+      }
+      invalidateSearchCache('project ranking or taxonomy changed');
+    }
+
     setHasChanges(false);
+    setHasRankingChanges(false);
+    setHasTaxonomyChanges(false);
     onClose();
   };
 
@@ -75,7 +187,12 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
     if (confirm('Are you sure you want to reset all AI settings to defaults?')) {
       setModelAssignments({ ...AI_TASK_MODELS });
       setPrompts({ ...AI_PROMPTS });
+      setExtractionMode(getEntityExtractionMode());
+      setRankingStages(DEFAULT_RANKING_PIPELINE.stages.map(stage => ({ ...stage })));
       setHasChanges(false);
+      setHasRankingChanges(!!currentProject);
+      setTaxonomyEntries([]);
+      setHasTaxonomyChanges(!!currentProject);
     }
   };
 
@@ -131,6 +248,48 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
                 System Prompts
               </div>
             </button>
+
+            <button
+              onClick={() => setActiveTab('ranking')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'ranking'
+                  ? 'border-purple-500 text-purple-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <ListOrdered className="w-4 h-4" />
+                Ranking Pipeline
+              </div>
+            </button>
+
+            <button
+              onClick={() => setActiveTab('taxonomy')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'taxonomy'
+                  ? 'border-purple-500 text-purple-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <Tags className="w-4 h-4" />
+                Taxonomy
+              </div>
+            </button>
+
+            <button
+              onClick={() => setActiveTab('evaluation')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'evaluation'
+                  ? 'border-purple-500 text-purple-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <Gauge className="w-4 h-4" />
+                Search Quality
+              </div>
+            </button>
           </div>
         </div>
 
@@ -191,6 +350,33 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
                   ))}
                 </div>
               </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Entity Extraction</h3>
+                  <p className="text-sm text-gray-600">How free-text searches are turned into criteria. Fielded and boolean queries are always parsed locally.</p>
+                </div>
+
+                <div className="space-y-3">
+                  {(Object.keys(ENTITY_EXTRACTION_MODES) as EntityExtractionMode[]).map(mode => (
+                    <label key={mode} className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="entity-extraction-mode"
+                        checked={extractionMode === mode}
+                        onChange={() => handleExtractionModeChange(mode)}
+                        className="mt-1 text-purple-600 focus:ring-purple-500"
+                      />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{ENTITY_EXTRACTION_MODES[mode].label}</div>
+                        <div className="text-xs text-gray-600">{ENTITY_EXTRACTION_MODES[mode].description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                <ExtractionComparison />
+              </div>
             </div>
           )}
 
@@ -278,6 +464,224 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
               )}
             </div>
           )}
+          {activeTab === 'ranking' && (
+            <div className="space-y-6">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <h4 className="font-medium text-blue-900 mb-1">How ranking works</h4>
+                    <p className="text-sm text-blue-700">
+                      Stages run from top to bottom. Filters narrow the candidate list (semantic retrieval only orders it,
+                      unless given a budget), the AI rerank scores only the
+                      top candidates within its budget, and boosts add up to their weight in points to every match.
+                      Candidates outside the AI budget keep their basic score.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {!currentProject ? (
+                <p className="text-sm text-gray-600">Select a project to configure its ranking pipeline.</p>
+              ) : (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Stages for {currentProject.name}</h3>
+
+                  <div className="space-y-3">
+                    {rankingStages.map((stageConfig, index) => {
+                      const stage = getRankingStage(stageConfig.id);
+                      return (
+                        <div key={stageConfig.id} className="border border-gray-200 rounded-lg p-4 flex items-center gap-4">
+                          <div className="flex flex-col">
+                            <button
+                              onClick={() => moveRankingStage(index, -1)}
+                              disabled={index === 0}
+                              className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                            >
+                              <ChevronUp className="w-4 h-4 text-gray-500" />
+                            </button>
+                            <button
+                              onClick={() => moveRankingStage(index, 1)}
+                              disabled={index === rankingStages.length - 1}
+                              className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                            >
+                              <ChevronDown className="w-4 h-4 text-gray-500" />
+                            </button>
+                          </div>
+
+                          <label className="flex items-center gap-3 flex-1">
+                            <input
+                              type="checkbox"
+                              checked={stageConfig.enabled}
+                              onChange={(e) => updateRankingStage(index, { enabled: e.target.checked })}
+                              className="w-4 h-4 text-purple-600 rounded focus:ring-purple-500"
+                            />
+                            <div>
+                              <h5 className="font-medium text-gray-900">{stage?.label || stageConfig.id}</h5>
+                              <p className="text-sm text-gray-600">
+                                {stage ? `${stage.kind} stage` : 'Unknown stage (ignored)'}
+                              </p>
+                            </div>
+                          </label>
+
+                          {stage?.kind === 'score' && (
+                            <div className="w-32">
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Weight (points)</label>
+                              <input
+                                type="number"
+                                min={0}
+                                max={50}
+                                value={stageConfig.weight ?? stage.defaultWeight}
+                                onChange={(e) => updateRankingStage(index, { weight: Number(e.target.value) })}
+                                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                              />
+                            </div>
+                          )}
+
+                          {(stage?.kind === 'rerank' || (stage?.kind === 'filter' && stage.budgeted)) && (
+                            <div className="w-32">
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Budget (top N)</label>
+                              <input
+                                type="number"
+                                min={0}
+                                max={stage.kind === 'rerank' ? MAX_AI_RERANK_BUDGET : undefined}
+                                value={stageConfig.budget ?? (stage.kind === 'rerank' ? stage.defaultBudget : '')}
+                                placeholder="All"
+                                onChange={(e) => updateRankingStage(index, { budget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {activeTab === 'evaluation' && (
+            <SearchEvaluationPanel rankingConfig={{ stages: rankingStages }} />
+          )}
+
+          {activeTab === 'taxonomy' && (
+            <div className="space-y-6">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <h4 className="font-medium text-blue-900 mb-1">Healthcare taxonomy v{HEALTHCARE_TAXONOMY.version}</h4>
+                    <p className="text-sm text-blue-700">
+                      {HEALTHCARE_TAXONOMY.entries.length} built-in titles, specialties, units, certifications, licenses and skills
+                      drive query extraction, filter suggestions and candidate matching. Add synonyms to an existing entry or
+                      add new entries for this project.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {!currentProject ? (
+                <p className="text-sm text-gray-600">Select a project to extend its taxonomy.</p>
+              ) : (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Extensions for {currentProject.name}</h3>
+
+                  <div className="border border-gray-200 rounded-lg p-4 grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Category</label>
+                      <select
+                        value={newTaxonomyCategory}
+                        onChange={(e) => {
+                          setNewTaxonomyCategory(e.target.value as TaxonomyCategory);
+                          setNewTaxonomyTarget('');
+                        }}
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        {Object.entries(TAXONOMY_CATEGORY_LABELS).map(([category, label]) => (
+                          <option key={category} value={category}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Entry</label>
+                      <select
+                        value={newTaxonomyTarget}
+                        onChange={(e) => setNewTaxonomyTarget(e.target.value)}
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        <option value="">New entry</option>
+                        {HEALTHCARE_TAXONOMY.entries
+                          .filter(entry => entry.category === newTaxonomyCategory)
+                          .map(entry => (
+                            <option key={entry.id} value={entry.id}>{entry.label}</option>
+                          ))}
+                      </select>
+                    </div>
+                    {!newTaxonomyTarget && (
+                      <div className="col-span-2">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={newTaxonomyLabel}
+                          onChange={(e) => setNewTaxonomyLabel(e.target.value)}
+                          placeholder="e.g. Cardiac Sonographer"
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                      </div>
+                    )}
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Synonyms (comma separated)</label>
+                      <input
+                        type="text"
+                        value={newTaxonomySynonyms}
+                        onChange={(e) => setNewTaxonomySynonyms(e.target.value)}
+                        placeholder="e.g. Echo Tech, RDCS"
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div className="col-span-2 flex justify-end">
+                      <Button
+                        variant="outline"
+                        onClick={handleAddTaxonomyEntry}
+                        icon={<Plus className="w-4 h-4" />}
+                      >
+                        {newTaxonomyTarget ? 'Add Synonyms' : 'Add Entry'}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {taxonomyEntries.length === 0 ? (
+                    <p className="text-sm text-gray-600">No project extensions yet.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {taxonomyEntries.map(entry => {
+                        const extendsBase = HEALTHCARE_TAXONOMY.entries.some(base => base.id === entry.id);
+                        return (
+                          <div key={entry.id} className="border border-gray-200 rounded-lg p-4 flex items-start gap-4">
+                            <div className="flex-1">
+                              <h5 className="font-medium text-gray-900">
+                                {entry.label}
+                                <span className="ml-2 text-xs font-normal text-gray-500">
+                                  {TAXONOMY_CATEGORY_LABELS[entry.category]} · {extendsBase ? 'extra synonyms' : 'new entry'}
+                                </span>
+                              </h5>
+                              <p className="text-sm text-gray-600">{entry.synonyms.join(', ') || 'No synonyms'}</p>
+                            </div>
+                            <button
+                              onClick={() => removeTaxonomyEntry(entry.id)}
+                              className="p-1 hover:bg-gray-100 rounded"
+                            >
+                              <Trash2 className="w-4 h-4 text-gray-500" />
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -300,7 +704,7 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
               </Button>
               <Button
                 onClick={handleSaveChanges}
-                disabled={!hasChanges}
+                disabled={!hasChanges && !hasRankingChanges && !hasTaxonomyChanges}
                 icon={<Save className="w-4 h-4" />}
               >
                 Save Changes
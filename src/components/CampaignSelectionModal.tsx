@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useContext } from 'react';
 import { X, Plus, Mail, Users, Loader2, Sparkles } from 'lucide-react';
 import { AuthContext } from './AuthWrapper';
-import { getCampaigns, Project } from '../lib/supabase';
+import { getCampaigns, addCandidatesToCampaign, Project } from '../lib/supabase';
 
 interface CampaignSelectionModalProps {
   isOpen: boolean;
@@ -9,6 +9,7 @@ interface CampaignSelectionModalProps {
   candidateIds: string[];
   onSuccess: () => void;
   currentProject?: Project | null;
+  sourceContext?: { type: 'search' | 'shortlist' | 'manual'; context?: string; jobPostingId?: string };
 }
 
 interface Campaign {
@@ -26,7 +27,8 @@ const CampaignSelectionModal: React.FC<CampaignSelectionModalProps> = ({
   onClose,
   candidateIds,
   onSuccess,
-  currentProject
+  currentProject,
+  sourceContext = { type: 'search' }
 }) => {
   const { user } = useContext(AuthContext);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
@@ -70,8 +72,11 @@ const CampaignSelectionModal: React.FC<CampaignSelectionModalProps> = ({
     setAdding(true);
     try {
       console.log('📧 Adding candidates to campaign:', campaignId, candidateIds);
-      // TODO: Implement adding candidates to existing campaign
-      alert(`Adding ${candidateIds.length} candidates to campaign - functionality will be implemented soon!`);
+      const { error } = await addCandidatesToCampaign(campaignId, candidateIds, sourceContext);
+      if (error) {
+        alert('Failed to add candidates to the campaign. Please try again.');
+        return;
+      }
       onSuccess();
     } catch (error) {
       console.error('❌ Error adding candidates to campaign:', error);
@@ -0,0 +1,110 @@
+import React from 'react';
+import { AlertTriangle, Briefcase, ShieldCheck } from 'lucide-react';
+import { Candidate, WorkHistoryEntry } from '../types';
+import { CredentialStatus, getCredentialStatus, getLicenseLabel } from '../utils/credentials';
+
+interface CandidateCredentialsProps {
+  candidate: Candidate;
+}
+
+const STATUS_STYLES: Record<CredentialStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expiring: 'bg-amber-100 text-amber-800',
+  expired: 'bg-red-100 text-red-800',
+  'no-expiry': 'bg-gray-100 text-gray-600'
+};
+
+// Dates are stored as YYYY-MM-DD and YYYY-MM; read them as local dates
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+const formatMonth = (date: string) =>
+  new Date(`${date}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+const getStatusLabel = (status: CredentialStatus, expiresOn?: string) => {
+  if (!expiresOn) return 'No expiry date';
+  if (status === 'expired') return `Expired ${formatDay(expiresOn)}`;
+  return `${status === 'expiring' ? 'Expires soon' : 'Valid'} · ${formatDay(expiresOn)}`;
+};
+
+const formatPeriod = ({ startDate, endDate, current }: WorkHistoryEntry) => {
+  if (!startDate && !endDate) return current ? 'Current' : '';
+  return `${startDate ? formatMonth(startDate) : '?'} – ${current || !endDate ? 'Present' : formatMonth(endDate)}`;
+};
+
+/**
+ * Licenses and certifications with their expiry status, and the candidate's work history, for
+ * the candidate detail panels
+ */
+const CandidateCredentials: React.FC<CandidateCredentialsProps> = ({ candidate }) => {
+  const licenses = candidate.licenses || [];
+  const certifications = candidate.certifications || [];
+  const workHistory = candidate.workHistory || [];
+  const now = new Date();
+
+  const credentials = [
+    ...licenses.map(license => ({
+      label: getLicenseLabel(license),
+      detail: license.number ? `#${license.number}` : undefined,
+      expiresOn: license.expiresOn
+    })),
+    ...certifications.map(certification => ({
+      label: certification.name,
+      detail: certification.issuer,
+      expiresOn: certification.expiresOn
+    }))
+  ];
+
+  if (credentials.length === 0 && workHistory.length === 0) return null;
+
+  return (
+    <>
+      {credentials.length > 0 && (
+        <div>
+          <h5 className="font-semibold text-gray-900 mb-3">Licenses & Certifications</h5>
+          <ul className="space-y-2">
+            {credentials.map(({ label, detail, expiresOn }, index) => {
+              const status = getCredentialStatus(expiresOn, now);
+              return (
+                <li key={index} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="flex items-start gap-2 min-w-0">
+                    {status === 'expiring' || status === 'expired'
+                      ? <AlertTriangle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${status === 'expired' ? 'text-red-500' : 'text-amber-500'}`} />
+                      : <ShieldCheck className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />}
+                    <div className="min-w-0">
+                      <div className="text-gray-900 font-medium">{label}</div>
+                      {detail && <div className="text-xs text-gray-500 truncate">{detail}</div>}
+                    </div>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[status]}`}>
+                    {getStatusLabel(status, expiresOn)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {workHistory.length > 0 && (
+        <div>
+          <h5 className="font-semibold text-gray-900 mb-3">Work History</h5>
+          <ul className="space-y-3">
+            {workHistory.map((position, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                <Briefcase className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                <div>
+                  <div className="text-gray-900 font-medium">{position.title}</div>
+                  {(position.employer || position.location) && (
+                    <div className="text-gray-600">{[position.employer, position.location].filter(Boolean).join(' · ')}</div>
+                  )}
+                  {formatPeriod(position) && <div className="text-xs text-gray-500">{formatPeriod(position)}</div>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CandidateCredentials;
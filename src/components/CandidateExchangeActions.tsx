@@ -0,0 +1,173 @@
+import React, { useState, useContext } from 'react';
+import { ArrowLeftRight, Download, Upload, Loader2, ChevronDown } from 'lucide-react';
+import { AuthContext } from './AuthWrapper';
+import { Project, DatabaseCandidate, getCandidates, bulkAddCandidatesToShortlist, createCandidateImport, updateCandidateImport } from '../lib/supabase';
+import { Candidate } from '../types';
+import { CANDIDATE_EXCHANGE_FORMATS, CandidateExchangeFormat, convertCandidateToDatabaseCandidate, exportCandidateDocument } from '../utils/dataConverters';
+import { importCandidateRows, readCandidateDocument } from '../utils/candidateImport';
+
+interface CandidateExchangeActionsProps {
+  candidates: Candidate[]; // exported as shown; the stored records add positions and education when they exist
+  currentProject?: Project | null;
+  fileName: string; // exported file name without extension
+  shortlistId?: string; // imported candidates are also added to this shortlist
+  onImported?: (candidateIds: string[]) => void;
+  menuPlacement?: 'above' | 'below';
+}
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Bulk export to and import from JSON Resume and HR-XML, for exchanging candidates with other
+ * systems
+ */
+const CandidateExchangeActions: React.FC<CandidateExchangeActionsProps> = ({ candidates, currentProject, fileName, shortlistId, onImported, menuPlacement = 'above' }) => {
+  const { user } = useContext(AuthContext);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const handleExport = async (format: CandidateExchangeFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      // Stored records carry the parsed resume (positions, education, certifications)
+      const { data } = currentProject ? await getCandidates(currentProject.id) : { data: null };
+      const stored = new Map(((data || []) as DatabaseCandidate[]).map(candidate => [candidate.id, candidate]));
+      const records = candidates.map(candidate =>
+        stored.get(candidate.id) || { ...convertCandidateToDatabaseCandidate(candidate, currentProject?.id || ''), id: candidate.id }
+      );
+
+      const { extension, mimeType, label } = CANDIDATE_EXCHANGE_FORMATS[format];
+      downloadFile(exportCandidateDocument(records, format), `${fileName}.${extension}`, mimeType);
+      console.log(`✅ Exported ${records.length} candidates as ${label}`);
+      setMessage({ text: `Exported ${records.length} candidates as ${label}` });
+    } catch (err) {
+      console.error('❌ Candidate export failed:', err);
+      setMessage({ text: 'Export failed', error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (!currentProject || !user) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { data: existing } = await getCandidates(currentProject.id);
+      const { format, rows } = readCandidateDocument(await file.text(), {
+        projectId: currentProject.id,
+        fileName: file.name,
+        existingCandidates: (existing || []) as DatabaseCandidate[]
+      });
+
+      const { data: record } = await createCandidateImport({
+        project_id: currentProject.id,
+        user_id: user.id,
+        file_name: file.name,
+        status: 'running',
+        total_rows: rows.length,
+        imported_count: 0,
+        skipped_count: 0,
+        failed_count: 0,
+        warning_count: 0
+      });
+      const report = await importCandidateRows(rows, { fileName: file.name, importId: record?.id });
+      if (record) {
+        await updateCandidateImport(record.id, {
+          status: report.importedCount > 0 || report.failedCount === 0 ? 'completed' : 'failed',
+          imported_count: report.importedCount,
+          skipped_count: report.skippedCount,
+          failed_count: report.failedCount,
+          warning_count: report.warningCount,
+          errors: report.errors,
+          completed_at: new Date().toISOString()
+        });
+      }
+
+      if (shortlistId && report.candidateIds.length > 0) {
+        const { error } = await bulkAddCandidatesToShortlist(shortlistId, report.candidateIds);
+        if (error) console.error('❌ Imported candidates could not be added to the shortlist:', error);
+      }
+
+      const notImported = report.skippedCount + report.failedCount;
+      setMessage({
+        text: `Imported ${report.importedCount} of ${report.totalRows} ${CANDIDATE_EXCHANGE_FORMATS[format].label} candidates` +
+          (notImported > 0 ? ` • ${notImported} not imported: ${report.errors.slice(0, 3).map(({ row, message }) => `#${row} ${message}`).join('; ')}` : ''),
+        error: report.importedCount === 0
+      });
+      if (report.importedCount > 0) onImported?.(report.candidateIds);
+    } catch (err) {
+      console.error('❌ Candidate document import failed:', err);
+      setMessage({ text: err instanceof Error ? err.message : `Could not import ${file.name}`, error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-3">
+      {message && (
+        <span className={`text-xs max-w-xs truncate ${message.error ? 'text-red-700' : 'text-gray-600'}`} title={message.text}>
+          {message.text}
+        </span>
+      )}
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+      >
+        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowLeftRight className="w-4 h-4" />}
+        JSON Resume / HR-XML
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className={`absolute right-0 ${menuPlacement === 'above' ? 'bottom-full mb-2' : 'top-full mt-2'} w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-20`}>
+          {(Object.keys(CANDIDATE_EXCHANGE_FORMATS) as CandidateExchangeFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={candidates.length === 0}
+              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 text-gray-500" />
+              Export {candidates.length} as {CANDIDATE_EXCHANGE_FORMATS[format].label}
+            </button>
+          ))}
+          {currentProject && (
+            <label className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 cursor-pointer border-t border-gray-100">
+              <Upload className="w-4 h-4 text-gray-500" />
+              Import JSON Resume or HR-XML...
+              <input
+                type="file"
+                accept=".json,.xml,application/json,application/xml,text/xml"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  setOpen(false);
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateExchangeActions;
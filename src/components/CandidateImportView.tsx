@@ -0,0 +1,549 @@
+import React, { useState, useEffect, useContext, useMemo, useCallback } from 'react';
+import { Upload, FileSpreadsheet, FileText, ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, XCircle, Download, History, Loader2 } from 'lucide-react';
+import { AuthContext } from './AuthWrapper';
+import { Project, CandidateImport, DatabaseCandidate, getCandidates, getCandidateImports, createCandidateImport, updateCandidateImport } from '../lib/supabase';
+import { SpreadsheetData, readSpreadsheetFile } from '../utils/spreadsheet';
+import { CandidateImportReport, ColumnMapping, IMPORT_FIELDS, ImportField, ImportRowResult, importCandidateRows, suggestColumnMapping, validateImportRows } from '../utils/candidateImport';
+import ResumeImportPanel from './ResumeImportPanel';
+import Button from './shared/Button';
+
+interface CandidateImportViewProps {
+  currentProject?: Project | null;
+  onCandidatesImported?: () => void; // reload the project's candidates after an import
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review' | 'report';
+
+// Spreadsheets go through the column-mapping wizard; resumes are parsed one candidate per file
+type ImportSource = 'spreadsheet' | 'resumes';
+
+const STEPS: { id: ImportStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'mapping', label: 'Map columns' },
+  { id: 'review', label: 'Review' },
+  { id: 'report', label: 'Report' }
+];
+
+// Rows shown in the review table; the counts cover every row
+const PREVIEW_ROWS = 100;
+
+// Row errors stored with the import record
+const MAX_STORED_ERRORS = 500;
+
+const downloadCSV = (rows: string[][], filename: string) => {
+  const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+const CandidateImportView: React.FC<CandidateImportViewProps> = ({ currentProject, onCandidatesImported }) => {
+  const { user } = useContext(AuthContext);
+  const [source, setSource] = useState<ImportSource>('spreadsheet');
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [rowResults, setRowResults] = useState<ImportRowResult[]>([]);
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false);
+  const [report, setReport] = useState<CandidateImportReport | null>(null);
+  const [recentImports, setRecentImports] = useState<CandidateImport[]>([]);
+  const [reading, setReading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecentImports = useCallback(async () => {
+    if (!currentProject) return;
+    const { data, error: importsError } = await getCandidateImports(currentProject.id);
+    if (importsError) {
+      console.error('❌ Error loading candidate imports:', importsError);
+      return;
+    }
+    setRecentImports(data || []);
+  }, [currentProject]);
+
+  useEffect(() => {
+    loadRecentImports();
+  }, [loadRecentImports]);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setSpreadsheet(null);
+    setMapping([]);
+    setRowResults([]);
+    setReport(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    setError(null);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        setError(`${file.name} has a header row but no candidates.`);
+        return;
+      }
+      setFileName(file.name);
+      setSpreadsheet(data);
+      setMapping(suggestColumnMapping(data.headers));
+      setStep('mapping');
+    } catch (err) {
+      console.error('❌ Error reading spreadsheet:', err);
+      setError(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const mappedFields = useMemo(() => new Set(mapping.filter((field): field is ImportField => field !== null)), [mapping]);
+  const missingFields = [
+    !mappedFields.has('name') && !mappedFields.has('first_name') && !mappedFields.has('last_name') && 'name',
+    !mappedFields.has('job_title') && 'job title',
+    !mappedFields.has('location') && !mappedFields.has('city') && !mappedFields.has('state') && 'location'
+  ].filter((field): field is string => !!field);
+
+  const handleMappingChange = (column: number, field: ImportField | null) => {
+    // A field comes from one column, so picking it elsewhere unmaps it here
+    setMapping(prev => prev.map((current, index) => (index === column ? field : current === field ? null : current)));
+  };
+
+  const handleValidate = async () => {
+    if (!spreadsheet || !currentProject) return;
+
+    setValidating(true);
+    setError(null);
+    try {
+      // Existing candidates are only used to warn about likely duplicates
+      const { data: existing } = await getCandidates(currentProject.id);
+      setRowResults(validateImportRows(spreadsheet, mapping, {
+        projectId: currentProject.id,
+        fileName,
+        existingCandidates: (existing || []) as DatabaseCandidate[]
+      }));
+      setShowIssuesOnly(false);
+      setStep('review');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!spreadsheet || !currentProject || !user) return;
+
+    setImporting(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const columnMapping = Object.fromEntries(
+        spreadsheet.headers.map((header, column) => [header, mapping[column]]).filter(([, field]) => field)
+      );
+      const { data: record, error: recordError } = await createCandidateImport({
+        project_id: currentProject.id,
+        user_id: user.id,
+        file_name: fileName,
+        status: 'running',
+        total_rows: rowResults.length,
+        imported_count: 0,
+        skipped_count: 0,
+        failed_count: 0,
+        warning_count: 0,
+        column_mapping: columnMapping
+      });
+      if (recordError) {
+        console.warn('⚠️ Could not record the import, continuing without a report record:', recordError);
+      }
+
+      const importReport = await importCandidateRows(rowResults, {
+        fileName,
+        importId: record?.id,
+        onProgress: (processed, total) => setProgress(total > 0 ? processed / total : 1)
+      });
+
+      if (record) {
+        await updateCandidateImport(record.id, {
+          status: importReport.importedCount > 0 || importReport.failedCount === 0 ? 'completed' : 'failed',
+          imported_count: importReport.importedCount,
+          skipped_count: importReport.skippedCount,
+          failed_count: importReport.failedCount,
+          warning_count: importReport.warningCount,
+          errors: importReport.errors.slice(0, MAX_STORED_ERRORS),
+          completed_at: new Date().toISOString()
+        });
+      }
+
+      setReport(importReport);
+      setStep('report');
+      if (importReport.importedCount > 0) onCandidatesImported?.();
+      loadRecentImports();
+    } catch (err) {
+      console.error('❌ Candidate import failed:', err);
+      setError('The import stopped unexpectedly. Rows saved before the failure stay in the project.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const readyCount = rowResults.filter(row => row.candidate).length;
+  const errorCount = rowResults.length - readyCount;
+  const warningCount = rowResults.filter(row => row.warnings.length > 0).length;
+  const shownRows = showIssuesOnly ? rowResults.filter(row => row.errors.length > 0 || row.warnings.length > 0) : rowResults;
+  const previewRows = shownRows.slice(0, PREVIEW_ROWS);
+
+  const getSampleValues = (column: number) =>
+    (spreadsheet?.rows || []).map(row => row[column]).filter(Boolean).slice(0, 3);
+
+  if (!currentProject) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Upload className="h-16 w-16 text-gray-300 mx-auto mb-6" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-3">No Project Selected</h3>
+          <p className="text-gray-600">Please select a project to import candidates into.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderUpload = () => (
+    <div className="space-y-6">
+      <label
+        className={`block border-2 border-dashed rounded-xl p-10 text-center transition-colors ${reading ? 'border-purple-300 bg-purple-50' : 'border-gray-300 bg-white hover:border-purple-400 cursor-pointer'}`}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          const file = e.dataTransfer.files?.[0];
+          if (file && !reading) handleFile(file);
+        }}
+      >
+        {reading ? (
+          <Loader2 className="w-10 h-10 text-purple-600 mx-auto mb-4 animate-spin" />
+        ) : (
+          <FileSpreadsheet className="w-10 h-10 text-purple-600 mx-auto mb-4" />
+        )}
+        <p className="font-medium text-gray-900">{reading ? 'Reading file...' : 'Drop a CSV or Excel file here, or click to choose one'}</p>
+        <p className="text-sm text-gray-600 mt-1">
+          .csv, .tsv and .xlsx files with a header row. Only the first worksheet of a workbook is imported.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,.xls"
+          className="hidden"
+          disabled={reading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {recentImports.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+            <History className="w-4 h-4 text-gray-500" />
+            Recent imports
+          </h3>
+          <div className="divide-y divide-gray-100">
+            {recentImports.map(candidateImport => (
+              <div key={candidateImport.id} className="py-2 flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{candidateImport.file_name}</span>
+                  <span className="ml-2 text-gray-500">{new Date(candidateImport.created_at).toLocaleString()}</span>
+                </div>
+                <span className={candidateImport.status === 'failed' ? 'text-red-700' : 'text-gray-600'}>
+                  {candidateImport.status === 'running'
+                    ? 'Did not finish'
+                    : `${candidateImport.imported_count} of ${candidateImport.total_rows} imported`}
+                  {candidateImport.skipped_count + candidateImport.failed_count > 0 && ` • ${candidateImport.skipped_count + candidateImport.failed_count} rows not imported`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMapping = () => spreadsheet && (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+              <th className="px-4 py-3">Column</th>
+              <th className="px-4 py-3">Sample values</th>
+              <th className="px-4 py-3 w-64">Import as</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {spreadsheet.headers.map((header, column) => (
+              <tr key={column}>
+                <td className="px-4 py-3 font-medium text-gray-900">{header}</td>
+                <td className="px-4 py-3 text-gray-600 truncate max-w-xs">{getSampleValues(column).join(' · ') || '—'}</td>
+                <td className="px-4 py-3">
+                  <select
+                    value={mapping[column] || ''}
+                    onChange={(e) => handleMappingChange(column, (e.target.value || null) as ImportField | null)}
+                    className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent ${mapping[column] ? 'border-purple-300 bg-purple-50' : 'border-gray-300'}`}
+                  >
+                    <option value="">Don't import (kept in metadata)</option>
+                    {IMPORT_FIELDS.map(({ field, label }) => (
+                      <option key={field} value={field}>
+                        {label}{mappedFields.has(field) && mapping[column] !== field ? ' (in use)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFields.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          Map a column to {missingFields.join(', ')}; every candidate needs a name, job title and location.
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={resetWizard} icon={<ArrowLeft className="w-4 h-4" />}>
+          Choose another file
+        </Button>
+        <Button
+          onClick={handleValidate}
+          loading={validating}
+          disabled={missingFields.length > 0 || validating}
+          icon={<ArrowRight className="w-4 h-4" />}
+        >
+          Validate {spreadsheet.rows.length.toLocaleString()} rows
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderReview = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="flex items-center gap-2 text-green-700 text-sm font-medium"><CheckCircle className="w-4 h-4" />Ready to import</div>
+          <div className="text-2xl font-semibold text-gray-900 mt-1">{readyCount.toLocaleString()}</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="flex items-center gap-2 text-red-700 text-sm font-medium"><XCircle className="w-4 h-4" />Rows with errors (skipped)</div>
+          <div className="text-2xl font-semibold text-gray-900 mt-1">{errorCount.toLocaleString()}</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="flex items-center gap-2 text-yellow-700 text-sm font-medium"><AlertTriangle className="w-4 h-4" />Rows with warnings</div>
+          <div className="text-2xl font-semibold text-gray-900 mt-1">{warningCount.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Showing {previewRows.length.toLocaleString()} of {shownRows.length.toLocaleString()} rows
+          </span>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showIssuesOnly}
+              onChange={(e) => setShowIssuesOnly(e.target.checked)}
+              className="rounded text-purple-600 focus:ring-purple-500"
+            />
+            Only rows with issues
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                <th className="px-4 py-2">Row</th>
+                <th className="px-4 py-2">Name</th>
+                <th className="px-4 py-2">Job title</th>
+                <th className="px-4 py-2">Location</th>
+                <th className="px-4 py-2">Exp.</th>
+                <th className="px-4 py-2">Skills</th>
+                <th className="px-4 py-2">Issues</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {previewRows.map(row => (
+                <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.warnings.length > 0 ? 'bg-yellow-50' : ''}>
+                  <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+                  <td className="px-4 py-2 text-gray-900">{row.candidate?.name || '—'}</td>
+                  <td className="px-4 py-2 text-gray-700">{row.candidate?.job_title || '—'}</td>
+                  <td className="px-4 py-2 text-gray-700">{row.candidate?.location || '—'}</td>
+                  <td className="px-4 py-2 text-gray-700">{row.candidate ? row.candidate.experience : '—'}</td>
+                  <td className="px-4 py-2 text-gray-700 truncate max-w-xs">{row.candidate?.skills.join(', ') || '—'}</td>
+                  <td className="px-4 py-2">
+                    {row.errors.map(message => <div key={message} className="text-red-700">{message}</div>)}
+                    {row.warnings.map(message => <div key={message} className="text-yellow-700">{message}</div>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {importing && (
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>Importing candidates...</span>
+            <span>{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-600 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => setStep('mapping')} disabled={importing} icon={<ArrowLeft className="w-4 h-4" />}>
+          Back to mapping
+        </Button>
+        <Button
+          onClick={handleImport}
+          loading={importing}
+          disabled={readyCount === 0 || importing}
+          icon={<Upload className="w-4 h-4" />}
+        >
+          Import {readyCount.toLocaleString()} candidates
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderReport = () => report && (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border border-gray-200 p-6 text-center">
+        {report.importedCount > 0 ? (
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
+        ) : (
+          <XCircle className="w-12 h-12 text-red-500 mx-auto mb-3" />
+        )}
+        <h3 className="text-xl font-semibold text-gray-900">
+          Imported {report.importedCount.toLocaleString()} of {report.totalRows.toLocaleString()} rows from {report.fileName}
+        </h3>
+        <p className="text-gray-600 mt-1">
+          {report.skippedCount.toLocaleString()} skipped for errors • {report.failedCount.toLocaleString()} rejected by the database • {report.warningCount.toLocaleString()} warnings
+        </p>
+      </div>
+
+      {report.errors.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-semibold text-gray-900">Rows not imported</h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadCSV([['Row', 'Error'], ...report.errors.map(({ row, message }) => [String(row), message])], `${report.fileName.replace(/\.[^.]+$/, '')}-import-errors.csv`)}
+              icon={<Download className="w-4 h-4" />}
+            >
+              Download errors
+            </Button>
+          </div>
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {report.errors.slice(0, PREVIEW_ROWS).map(({ row, message }, index) => (
+              <div key={index} className="py-1.5 flex gap-3">
+                <span className="text-gray-500 w-16 flex-shrink-0">Row {row}</span>
+                <span className="text-red-700">{message}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={resetWizard} icon={<Upload className="w-4 h-4" />}>
+          Import another file
+        </Button>
+      </div>
+    </div>
+  );
+
+  const stepIndex = STEPS.findIndex(({ id }) => id === step);
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-50 rounded-lg">
+              <Upload className="h-5 w-5 text-purple-600" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Import Candidates</h1>
+              <p className="text-sm text-gray-600">
+                {source === 'resumes'
+                  ? `Add candidates to ${currentProject.name} from PDF and DOCX resumes`
+                  : `Add candidates to ${currentProject.name} from a CSV or Excel file`}
+                {source === 'spreadsheet' && fileName && ` • ${fileName}`}
+                {source === 'spreadsheet' && spreadsheet?.sheetName && ` (${spreadsheet.sheetName})`}
+              </p>
+            </div>
+          </div>
+          {source === 'spreadsheet' && step !== 'upload' ? (
+            <div className="flex items-center gap-2 text-sm">
+              {STEPS.map(({ id, label }, index) => (
+                <React.Fragment key={id}>
+                  {index > 0 && <span className="text-gray-300">›</span>}
+                  <span className={index === stepIndex ? 'font-medium text-purple-700' : index < stepIndex ? 'text-gray-700' : 'text-gray-400'}>
+                    {label}
+                  </span>
+                </React.Fragment>
+              ))}
+            </div>
+          ) : (
+            <div className="flex bg-gray-100 rounded-lg p-1 text-sm">
+              {([['spreadsheet', 'Spreadsheet', FileSpreadsheet], ['resumes', 'Resumes', FileText]] as const).map(([id, label, Icon]) => (
+                <button
+                  key={id}
+                  onClick={() => setSource(id)}
+                  className={`px-3 py-1.5 rounded-md flex items-center gap-1.5 ${source === id ? 'bg-white text-purple-700 shadow-sm font-medium' : 'text-gray-600 hover:text-gray-900'}`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+          {source === 'resumes' ? (
+            <ResumeImportPanel currentProject={currentProject} onCandidatesImported={() => { onCandidatesImported?.(); loadRecentImports(); }} />
+          ) : (
+            <>
+              {step === 'upload' && renderUpload()}
+              {step === 'mapping' && renderMapping()}
+              {step === 'review' && renderReview()}
+              {step === 'report' && renderReport()}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateImportView;
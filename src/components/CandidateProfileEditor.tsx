@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Edit, History, Loader2, Save, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { AuthContext } from './AuthWrapper';
+import { CandidateChange, DatabaseCandidate, getCandidateChanges, getCandidatesByIds, updateCandidate } from '../lib/supabase';
+import { Candidate } from '../types';
+import { convertDatabaseCandidatesToCandidates } from '../utils/dataConverters';
+import { CandidateEditForm, EditableCandidateField, diffCandidateEdit, formatChangeValue, getChangeFieldLabel, toCandidateEditForm } from '../utils/candidateEditing';
+
+interface CandidateProfileEditorProps {
+  candidate: Candidate;
+  onUpdated?: (candidate: Candidate) => void;
+}
+
+const TEXT_FIELDS: { field: EditableCandidateField; label: string; type?: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'job_title', label: 'Job title' },
+  { field: 'location', label: 'Location (City, ST)' },
+  { field: 'experience', label: 'Years of experience', type: 'number' },
+  { field: 'email', label: 'Email', type: 'email' },
+  { field: 'phone', label: 'Phone', type: 'tel' },
+  { field: 'industry', label: 'Industry' },
+  { field: 'education', label: 'Education' },
+  { field: 'skills', label: 'Skills (comma separated)' }
+];
+
+const CREDENTIAL_FIELDS: { field: EditableCandidateField; label: string; placeholder: string }[] = [
+  { field: 'licenses', label: 'Licenses (one per line)', placeholder: 'RN License (TX) #123456, compact, expires 2027-05-31' },
+  { field: 'certifications', label: 'Certifications (one per line)', placeholder: 'ACLS (American Heart Association), expires 2027-03-31' }
+];
+
+/**
+ * Edit form and per-field change history for a candidate, shown in the candidate detail panels
+ */
+const CandidateProfileEditor: React.FC<CandidateProfileEditorProps> = ({ candidate, onUpdated }) => {
+  const { user } = useContext(AuthContext);
+  const [record, setRecord] = useState<DatabaseCandidate | null>(null);
+  const [form, setForm] = useState<CandidateEditForm | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [changes, setChanges] = useState<CandidateChange[] | null>(null);
+
+  // Another candidate was opened in the panel
+  useEffect(() => {
+    setRecord(null);
+    setForm(null);
+    setErrors([]);
+    setChanges(null);
+  }, [candidate.id]);
+
+  // History loads when first opened and again after each save
+  useEffect(() => {
+    if (!showHistory || changes) return;
+
+    let cancelled = false;
+    getCandidateChanges(candidate.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('❌ Error loading candidate history:', error);
+      setChanges(data || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showHistory, changes, candidate.id]);
+
+  const startEditing = async () => {
+    setLoading(true);
+    setErrors([]);
+    // Edit the stored record: the displayed candidate fills blanks with defaults ("Unknown")
+    const { data, error } = await getCandidatesByIds([candidate.id]);
+    const stored = (data || [])[0] as DatabaseCandidate | undefined;
+    if (error || !stored) {
+      console.error('❌ Error loading candidate for editing:', error);
+      setErrors(['This candidate could not be loaded for editing']);
+    } else {
+      setRecord(stored);
+      setForm(toCandidateEditForm(stored));
+    }
+    setLoading(false);
+  };
+
+  const cancelEditing = () => {
+    setForm(null);
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    if (!record || !form) return;
+
+    const { updates, errors: validationErrors } = diffCandidateEdit(record, form);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+    if (Object.keys(updates).length === 0) {
+      cancelEditing();
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await updateCandidate(record.id, updates);
+    setSaving(false);
+    if (error || !data) {
+      setErrors([error?.message || 'The changes could not be saved']);
+      return;
+    }
+
+    setRecord(data);
+    setForm(null);
+    setChanges(null); // reloaded when the history is open
+    onUpdated?.(convertDatabaseCandidatesToCandidates([data])[0]);
+  };
+
+  const updateField = (field: EditableCandidateField, value: string) => {
+    if (form) setForm({ ...form, [field]: value });
+  };
+
+  const getEditorName = (change: CandidateChange) =>
+    change.changed_by && change.changed_by === user?.id ? 'You' : change.changed_by_name || 'Unknown user';
+
+  return (
+    <div className="space-y-4">
+      {form ? (
+        <div className="border border-purple-200 rounded-lg p-4 space-y-3">
+          <h5 className="font-semibold text-gray-900">Edit Profile</h5>
+          {TEXT_FIELDS.map(({ field, label, type }) => (
+            <label key={field} className="block">
+              <span className="text-xs font-medium text-gray-600">{label}</span>
+              <input
+                type={type || 'text'}
+                value={form[field]}
+                onChange={(e) => updateField(field, e.target.value)}
+                className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </label>
+          ))}
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Availability</span>
+            <select
+              value={form.availability}
+              onChange={(e) => updateField('availability', e.target.value)}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="available">Available</option>
+              <option value="passive">Passive</option>
+              <option value="not-looking">Not Looking</option>
+            </select>
+          </label>
+          {CREDENTIAL_FIELDS.map(({ field, label, placeholder }) => (
+            <label key={field} className="block">
+              <span className="text-xs font-medium text-gray-600">{label}</span>
+              <textarea
+                value={form[field]}
+                onChange={(e) => updateField(field, e.target.value)}
+                rows={3}
+                placeholder={placeholder}
+                className="mt-1 w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </label>
+          ))}
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Summary</span>
+            <textarea
+              value={form.summary}
+              onChange={(e) => updateField('summary', e.target.value)}
+              rows={4}
+              className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </label>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-700 space-y-1">
+              {errors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={cancelEditing}
+              disabled={saving}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 flex items-center gap-1 disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Changes
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <button
+            onClick={startEditing}
+            disabled={loading}
+            className="w-full px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 border border-purple-200 rounded-lg hover:bg-purple-100 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Edit className="w-4 h-4" />}
+            Edit Profile
+          </button>
+          {errors.length > 0 && <p className="mt-2 text-xs text-red-700">{errors[0]}</p>}
+        </div>
+      )}
+
+      <div>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          <History className="w-4 h-4 text-gray-400" />
+          Change History
+          {showHistory ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        {showHistory && (
+          <div className="mt-3">
+            {!changes ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading history...
+              </div>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-gray-500">No edits yet. The profile is as it was imported.</p>
+            ) : (
+              <ul className="space-y-3">
+                {changes.map(change => (
+                  <li key={change.id} className="text-sm border-l-2 border-purple-200 pl-3">
+                    <div className="font-medium text-gray-900">{getChangeFieldLabel(change)}</div>
+                    <div className="text-gray-600 break-words">
+                      <span className="line-through text-gray-400">{formatChangeValue(change.previous_value)}</span>
+                      {' → '}
+                      <span>{formatChangeValue(change.new_value)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {getEditorName(change)} • {new Date(change.created_at).toLocaleString()}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateProfileEditor;
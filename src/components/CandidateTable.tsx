@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Filter, ChevronLeft, ChevronRight, Bookmark, MessageSquare, MoreHorizontal, CheckSquare, Square, Star, MapPin, Briefcase, Clock, Edit, TrendingUp, Zap, ChevronDown, ChevronUp, Plus, Users, Mail, X, Phone, Calendar, Award, Building, Loader2 } from 'lucide-react';
-import { CandidateMatch, Candidate } from '../types';
+import { ArrowLeft, Filter, ChevronLeft, ChevronRight, Bookmark, MessageSquare, MoreHorizontal, CheckSquare, Square, Star, MapPin, Briefcase, Clock, Edit, TrendingUp, Zap, ChevronDown, ChevronUp, Plus, Users, Mail, X, Phone, Calendar, Award, Building, Loader2, ThumbsUp, ThumbsDown, AlertTriangle } from 'lucide-react';
+import { CandidateMatch, Candidate, RelevanceVote } from '../types';
+import { RelevanceVotes } from '../utils/relevanceFeedback';
+import { getCredentialAlerts } from '../utils/credentials';
 import ShortlistModal from './ShortlistModal';
 import CampaignSelectionModal from './CampaignSelectionModal';
+import MatchBreakdown from './MatchBreakdown';
+import CandidateExchangeActions from './CandidateExchangeActions';
+import CandidateProfileEditor from './CandidateProfileEditor';
+import CandidateCredentials from './CandidateCredentials';
 import { Project } from '../lib/supabase';
 
 interface CandidateTableProps {
@@ -11,6 +17,11 @@ interface CandidateTableProps {
   onEditFilters?: () => void;
   currentFilters?: any;
   currentProject?: Project | null;
+  onFindSimilar?: (candidate: Candidate) => void;
+  feedbackVotes?: RelevanceVotes;
+  onFeedback?: (match: CandidateMatch, vote: RelevanceVote) => void; // voting the same way again clears the vote
+  onCandidatesImported?: () => void;
+  onCandidateUpdated?: (candidate: Candidate) => void; // after an edit in the detail panel
 }
 
 const CandidateTable: React.FC<CandidateTableProps> = ({
@@ -18,7 +29,12 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
   onBack,
   onEditFilters,
   currentFilters,
-  currentProject
+  currentProject,
+  onFindSimilar,
+  feedbackVotes = {},
+  onFeedback,
+  onCandidatesImported,
+  onCandidateUpdated
 }) => {
   const [selectedCandidates, setSelectedCandidates] = useState<Set<string>>(new Set());
   const [currentPage, setCurrentPage] = useState(1);
@@ -392,6 +408,8 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                 const { candidate, explanation } = match;
                 const isSelected = selectedCandidates.has(candidate.id);
                 const isExpanded = expandedCandidates.has(candidate.id);
+                const vote = feedbackVotes[candidate.id];
+                const credentialAlerts = getCredentialAlerts(candidate);
 
                 return (
                   <React.Fragment key={candidate.id}>
@@ -420,6 +438,18 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                             <p className="text-sm text-purple-600 font-medium truncate">
                               {candidate.jobTitle}
                             </p>
+                            {credentialAlerts.length > 0 && (
+                              <p
+                                className={`text-xs font-medium mt-1 flex items-center gap-1 ${credentialAlerts[0].status === 'expired' ? 'text-red-600' : 'text-amber-600'}`}
+                                title={credentialAlerts.map(alert => `${alert.label}: ${alert.status === 'expired' ? 'expired' : 'expires'} ${alert.expiresOn}`).join('\n')}
+                              >
+                                <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                                <span className="truncate">
+                                  {credentialAlerts[0].label} {credentialAlerts[0].status === 'expired' ? 'expired' : 'expires'} {new Date(`${credentialAlerts[0].expiresOn}T00:00:00`).toLocaleDateString()}
+                                  {credentialAlerts.length > 1 && ` (+${credentialAlerts.length - 1} more)`}
+                                </span>
+                              </p>
+                            )}
                             <p className="text-xs text-gray-500 mt-1 line-clamp-2">
                               {candidate.summary}
                             </p>
@@ -466,7 +496,7 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                                 <span className="line-clamp-2">{explanation.reasons[0]}</span>
                               )}
                             </div>
-                            {explanation.reasons.length > 1 && !match.streamingExplanation && (
+                            {(explanation.reasons.length > 1 || (explanation.breakdown?.length ?? 0) > 0) && !match.streamingExplanation && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -482,7 +512,7 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                                 ) : (
                                   <>
                                     <ChevronDown className="w-3 h-3" />
-                                    +{explanation.reasons.length - 1} more reasons
+                                    {explanation.reasons.length > 1 ? `+${explanation.reasons.length - 1} more reasons` : 'Show breakdown'}
                                   </>
                                 )}
                               </button>
@@ -502,6 +532,30 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
 
                       <td className="px-4 py-4">
                         <div className="flex items-center gap-2">
+                          {onFeedback && (
+                            <>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onFeedback(match, 'up');
+                                }}
+                                className={`p-1.5 rounded ${vote === 'up' ? 'bg-green-100 text-green-600' : 'hover:bg-gray-100 text-gray-400 hover:text-gray-600'}`}
+                                title={vote === 'up' ? 'Remove good match' : 'Good match: rank similar candidates higher'}
+                              >
+                                <ThumbsUp className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onFeedback(match, 'down');
+                                }}
+                                className={`p-1.5 rounded ${vote === 'down' ? 'bg-red-100 text-red-600' : 'hover:bg-gray-100 text-gray-400 hover:text-gray-600'}`}
+                                title={vote === 'down' ? 'Remove poor match' : 'Poor match: rank similar candidates lower'}
+                              >
+                                <ThumbsDown className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -522,6 +576,18 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                           >
                             <MessageSquare className="w-4 h-4" />
                           </button>
+                          {onFindSimilar && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onFindSimilar(candidate);
+                              }}
+                              className="p-1.5 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600"
+                              title="More like this"
+                            >
+                              <Users className="w-4 h-4" />
+                            </button>
+                          )}
                           <button className="p-1.5 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600">
                             <MoreHorizontal className="w-4 h-4" />
                           </button>
@@ -535,6 +601,11 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                         <td colSpan={6} className="px-4 py-3">
                           <div className="ml-16">
                             <h4 className="text-sm font-medium text-gray-900 mb-2">Complete Match Analysis:</h4>
+                            {explanation.breakdown && explanation.breakdown.length > 0 && (
+                              <div className="max-w-2xl mb-3">
+                                <MatchBreakdown breakdown={explanation.breakdown} compact />
+                              </div>
+                            )}
                             <div className="space-y-1">
                               {explanation.reasons.map((reason, index) => (
                                 <div key={index} className="flex items-start gap-2 text-sm text-gray-700">
@@ -568,6 +639,13 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                 Export {selectedCandidates.size > 0 ? `(${selectedCandidates.size})` : 'All'}
               </button>
 
+              <CandidateExchangeActions
+                candidates={(selectedCandidates.size > 0 ? matches.filter(m => selectedCandidates.has(m.candidate.id)) : matches).map(m => m.candidate)}
+                currentProject={currentProject}
+                fileName={`candidates-export-${new Date().toISOString().split('T')[0]}`}
+                onImported={onCandidatesImported}
+              />
+
               {/* Juicebox-style action buttons */}
               {selectedCandidates.size > 0 && (
                 <div className="flex items-center gap-2">
@@ -649,6 +727,14 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
             </div>
             {/* Detail Content */}
             <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              {/* Edit & History */}
+              <CandidateProfileEditor
+                candidate={selectedCandidateForDetail}
+                onUpdated={(candidate) => {
+                  setSelectedCandidateForDetail(candidate);
+                  onCandidateUpdated?.(candidate);
+                }}
+              />
               {/* Contact Information */}
               <div>
                 <h5 className="font-semibold text-gray-900 mb-3">Contact Information</h5>
@@ -692,6 +778,7 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                   </div>
                 </div>
               )}
+              <CandidateCredentials candidate={selectedCandidateForDetail} />
               {/* Education */}
               {selectedCandidateForDetail.education && (
                 <div>
@@ -735,6 +822,12 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                           <span className="text-sm text-gray-600">Match Score</span>
                           {getMatchBadge(match.explanation.category, match.explanation.score)}
                         </div>
+                        {match.explanation.breakdown && match.explanation.breakdown.length > 0 && (
+                          <div>
+                            <span className="text-sm font-medium text-gray-700 mb-2 block">Breakdown by Criterion:</span>
+                            <MatchBreakdown breakdown={match.explanation.breakdown} />
+                          </div>
+                        )}
                         <div>
                           <span className="text-sm font-medium text-gray-700 mb-2 block">Reasons:</span>
                           <div className="space-y-1">
@@ -769,6 +862,15 @@ const CandidateTable: React.FC<CandidateTableProps> = ({
                   <MessageSquare className="w-4 h-4" />
                   Add to Campaign
                 </button>
+                {onFindSimilar && (
+                  <button
+                    onClick={() => onFindSimilar(selectedCandidateForDetail)}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Users className="w-4 h-4" />
+                    More like this
+                  </button>
+                )}
               </div>
             </div>
           </div>
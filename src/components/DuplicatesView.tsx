@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useContext, useMemo, useCallback } from 'react';
+import { Copy, GitMerge, X, Mail, Phone, MapPin, Briefcase, CheckCircle, Loader2 } from 'lucide-react';
+import { AuthContext } from './AuthWrapper';
+import { Project, DatabaseCandidate, getCandidates, getDuplicateDismissals, dismissDuplicatePair, mergeCandidates } from '../lib/supabase';
+import { DuplicatePair, findDuplicateCandidates, getDuplicatePairKey, mergeCandidateRecords, pickSurvivor } from '../utils/duplicates';
+
+interface DuplicatesViewProps {
+  currentProject?: Project | null;
+  onCandidatesMerged?: () => void; // reload the project's candidates after a merge
+}
+
+// Pairs rendered at once; the rest appear as earlier ones are resolved
+const PAGE_SIZE = 25;
+
+const DuplicatesView: React.FC<DuplicatesViewProps> = ({ currentProject, onCandidatesMerged }) => {
+  const { user } = useContext(AuthContext);
+  const [candidates, setCandidates] = useState<DatabaseCandidate[]>([]);
+  const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set());
+  const [survivorIds, setSurvivorIds] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyPairKey, setBusyPairKey] = useState<string | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCandidates = useCallback(async () => {
+    if (!currentProject) return;
+
+    console.log('🧬 Loading candidates for duplicate review:', currentProject.name);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [{ data: candidatesData, error: candidatesError }, { data: dismissals }] = await Promise.all([
+        getCandidates(currentProject.id),
+        getDuplicateDismissals(currentProject.id)
+      ]);
+
+      if (candidatesError) {
+        console.error('❌ Error loading candidates:', candidatesError);
+        setError('Could not load candidates for this project.');
+        return;
+      }
+
+      setCandidates(candidatesData || []);
+      setDismissedKeys(new Set((dismissals || []).map(dismissal => getDuplicatePairKey(dismissal.candidate_a_id, dismissal.candidate_b_id))));
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProject]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const pairs = useMemo(() => findDuplicateCandidates(candidates, dismissedKeys), [candidates, dismissedKeys]);
+
+  const getSurvivor = (pair: DuplicatePair) => {
+    const chosenId = survivorIds[pair.key];
+    if (chosenId) return chosenId === pair.a.id ? pair.a : pair.b;
+    return pickSurvivor(pair.a, pair.b);
+  };
+
+  const handleMerge = async (pair: DuplicatePair) => {
+    const survivor = getSurvivor(pair);
+    const duplicate = survivor.id === pair.a.id ? pair.b : pair.a;
+
+    setBusyPairKey(pair.key);
+    setError(null);
+    try {
+      const { data, error: mergeError } = await mergeCandidates(survivor.id, duplicate.id, mergeCandidateRecords(survivor, duplicate));
+      if (mergeError || !data) {
+        setError(`Could not merge ${duplicate.name} into ${survivor.name}.`);
+        return;
+      }
+
+      setCandidates(prev => prev.filter(candidate => candidate.id !== duplicate.id).map(candidate => (candidate.id === survivor.id ? data : candidate)));
+      setMergedCount(prev => prev + 1);
+      onCandidatesMerged?.();
+    } finally {
+      setBusyPairKey(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    if (!currentProject || !user) return;
+
+    setBusyPairKey(pair.key);
+    try {
+      const { error: dismissError } = await dismissDuplicatePair(currentProject.id, [pair.a.id, pair.b.id], user.id);
+      if (dismissError) {
+        console.error('❌ Error dismissing duplicate pair:', dismissError);
+        setError('Could not save that these candidates are different people.');
+        return;
+      }
+      setDismissedKeys(prev => new Set(prev).add(pair.key));
+    } finally {
+      setBusyPairKey(null);
+    }
+  };
+
+  const renderRecord = (pair: DuplicatePair, candidate: DatabaseCandidate) => {
+    const isSurvivor = getSurvivor(pair).id === candidate.id;
+    return (
+      <label
+        className={`flex-1 p-4 rounded-lg border cursor-pointer transition-colors ${isSurvivor ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'}`}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <input
+            type="radio"
+            name={`survivor-${pair.key}`}
+            checked={isSurvivor}
+            onChange={() => setSurvivorIds(prev => ({ ...prev, [pair.key]: candidate.id }))}
+            className="text-purple-600 focus:ring-purple-500"
+          />
+          <span className="font-medium text-gray-900">{candidate.name}</span>
+          {isSurvivor && <span className="ml-auto text-xs font-medium text-purple-700">Keep</span>}
+        </div>
+        <div className="space-y-1 text-sm text-gray-600">
+          <div className="flex items-center gap-2"><Briefcase className="w-3.5 h-3.5" />{candidate.job_title} · {candidate.experience} yrs</div>
+          <div className="flex items-center gap-2"><MapPin className="w-3.5 h-3.5" />{candidate.location}</div>
+          <div className="flex items-center gap-2"><Mail className="w-3.5 h-3.5" />{candidate.email || '—'}</div>
+          <div className="flex items-center gap-2"><Phone className="w-3.5 h-3.5" />{candidate.phone || '—'}</div>
+          <div className="text-xs text-gray-500 pt-1">
+            {candidate.skills?.length || 0} skills · source {candidate.source || 'unknown'} · added {new Date(candidate.created_at).toLocaleDateString()}
+          </div>
+        </div>
+      </label>
+    );
+  };
+
+  if (!currentProject) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Copy className="h-16 w-16 text-gray-300 mx-auto mb-6" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-3">No Project Selected</h3>
+          <p className="text-gray-600">Please select a project to review duplicate candidates.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Scanning candidates for duplicates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-50 rounded-lg">
+              <Copy className="h-5 w-5 text-purple-600" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Duplicates</h1>
+              <p className="text-sm text-gray-600">
+                Review and merge suspected duplicate candidates in {currentProject.name}
+              </p>
+            </div>
+          </div>
+          <span className="text-sm text-gray-600">
+            {pairs.length} suspected pairs • {candidates.length.toLocaleString()} candidates
+            {mergedCount > 0 && ` • ${mergedCount} merged`}
+          </span>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {pairs.length === 0 ? (
+            <div className="text-center py-16">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No duplicates to review</h3>
+              <p className="text-gray-600">Every candidate in this project looks like a distinct person.</p>
+            </div>
+          ) : (
+            pairs.slice(0, PAGE_SIZE).map(pair => (
+              <div key={pair.key} className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${pair.score >= 0.9 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                      {Math.round(pair.score * 100)}% likely
+                    </span>
+                    {pair.reasons.map(reason => (
+                      <span key={reason} className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">{reason}</span>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDismiss(pair)}
+                      disabled={busyPairKey !== null}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      Not duplicates
+                    </button>
+                    <button
+                      onClick={() => handleMerge(pair)}
+                      disabled={busyPairKey !== null}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {busyPairKey === pair.key ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+                      Merge
+                    </button>
+                  </div>
+                </div>
+                <div className="flex gap-4">
+                  {renderRecord(pair, pair.a)}
+                  {renderRecord(pair, pair.b)}
+                </div>
+              </div>
+            ))
+          )}
+
+          {pairs.length > PAGE_SIZE && (
+            <p className="text-center text-sm text-gray-500">
+              {pairs.length - PAGE_SIZE} more pairs will appear as these are resolved
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesView;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { GitCompare, CheckCircle, AlertTriangle } from 'lucide-react';
+import { extractEntitiesWithAI } from '../utils/searchUtils';
+import { ExtractionDifference, compareExtractions, extractEntitiesWithRules } from '../utils/ruleBasedExtraction';
+import Button from './shared/Button';
+
+const SAMPLE_QUERY = 'Senior ICU nurse with 3 to 5 years in Texas, ACLS certified, not in Houston';
+
+const ExtractionComparison: React.FC = () => {
+  const [query, setQuery] = useState(SAMPLE_QUERY);
+  const [differences, setDifferences] = useState<ExtractionDifference[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCompare = async () => {
+    if (!query.trim()) return;
+
+    setComparing(true);
+    setError(null);
+    const rules = extractEntitiesWithRules(query.trim());
+    try {
+      const ai = await extractEntitiesWithAI(query.trim());
+      setDifferences(compareExtractions(ai, rules));
+    } catch (err) {
+      console.error('❌ AI extraction failed during comparison:', err);
+      setDifferences(null);
+      setError('AI extraction failed, so there is nothing to compare against. Rule-based mode still works offline.');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const disagreements = differences?.filter(difference => !difference.same).length || 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-medium text-gray-900">Compare AI and rule-based extraction</h4>
+        <p className="text-sm text-gray-600">Runs both extractors on the same query. Uses one AI call.</p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCompare()}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="e.g. Pediatric nurse with 5+ years near Chicago"
+        />
+        <Button
+          variant="outline"
+          onClick={handleCompare}
+          loading={comparing}
+          disabled={comparing || !query.trim()}
+          icon={<GitCompare className="w-4 h-4" />}
+        >
+          Compare
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {differences && (
+        <div className="space-y-2">
+          <div className={`flex items-center gap-2 text-sm ${disagreements === 0 ? 'text-green-700' : 'text-yellow-700'}`}>
+            {disagreements === 0 ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+            {disagreements === 0 ? 'Both extractors agree' : `${disagreements} of ${differences.length} fields differ`}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                <th className="py-2 pr-3">Field</th>
+                <th className="py-2 pr-3">AI</th>
+                <th className="py-2">Rules</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {differences.map(difference => (
+                <tr key={difference.field} className={difference.same ? '' : 'bg-yellow-50'}>
+                  <td className="py-2 pr-3 font-medium text-gray-900">{difference.field}</td>
+                  <td className="py-2 pr-3 text-gray-700">{difference.ai}</td>
+                  <td className="py-2 text-gray-700">{difference.rules}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionComparison;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal, CheckSquare, Square } from 'lucide-react';
+import { CandidateMatch, FacetKey, FacetSelections } from '../types';
+import { computeFacetCounts, hasFacetSelections } from '../utils/facets';
+
+interface FacetSidebarProps {
+  matches: CandidateMatch[];
+  selections: FacetSelections;
+  onToggle: (key: FacetKey, value: string) => void;
+  onClear: () => void;
+  filteredCount: number;
+}
+
+const VISIBLE_VALUES = 6;
+
+const FacetSidebar: React.FC<FacetSidebarProps> = ({ matches, selections, onToggle, onClear, filteredCount }) => {
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<FacetKey>>(new Set());
+  const [expandedGroups, setExpandedGroups] = useState<Set<FacetKey>>(new Set());
+
+  const groups = computeFacetCounts(matches, selections);
+
+  const toggleSet = (set: Set<FacetKey>, key: FacetKey) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 bg-white border-r border-gray-200 overflow-y-auto">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+          <span className="text-sm font-semibold text-gray-900">Refine Results</span>
+        </div>
+        {hasFacetSelections(selections) && (
+          <button onClick={onClear} className="text-xs text-purple-600 hover:text-purple-700">
+            Clear all
+          </button>
+        )}
+      </div>
+      <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+        Showing {filteredCount.toLocaleString()} of {matches.length.toLocaleString()} matches
+      </div>
+
+      {groups.filter(group => group.values.length > 0).map(group => {
+        const isCollapsed = collapsedGroups.has(group.key);
+        const showAll = expandedGroups.has(group.key);
+        const values = showAll ? group.values : group.values.slice(0, VISIBLE_VALUES);
+
+        return (
+          <div key={group.key} className="border-b border-gray-100 px-4 py-3">
+            <button
+              onClick={() => setCollapsedGroups(prev => toggleSet(prev, group.key))}
+              className="w-full flex items-center justify-between text-xs font-semibold text-gray-700 uppercase tracking-wide"
+            >
+              {group.label}
+              {isCollapsed ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
+            </button>
+
+            {!isCollapsed && (
+              <div className="mt-2 space-y-1">
+                {values.map(item => (
+                  <button
+                    key={item.value}
+                    onClick={() => onToggle(group.key, item.value)}
+                    disabled={item.count === 0 && !item.selected}
+                    className="w-full flex items-center gap-2 text-sm text-left text-gray-700 hover:text-gray-900 disabled:text-gray-300"
+                  >
+                    {item.selected ? (
+                      <CheckSquare className="w-4 h-4 text-purple-600 flex-shrink-0" />
+                    ) : (
+                      <Square className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 truncate">{item.value}</span>
+                    <span className="text-xs text-gray-500">{item.count}</span>
+                  </button>
+                ))}
+                {group.values.length > VISIBLE_VALUES && (
+                  <button
+                    onClick={() => setExpandedGroups(prev => toggleSet(prev, group.key))}
+                    className="text-xs text-purple-600 hover:text-purple-700"
+                  >
+                    {showAll ? 'Show fewer' : `Show ${group.values.length - VISIBLE_VALUES} more`}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FacetSidebar;
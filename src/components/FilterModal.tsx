@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, Search, Sparkles, Plus, Trash2, Loader2 } from 'lucide-react';
 import { expandJobTitles } from '../utils/searchUtils';
+import { resolveLocation } from '../utils/geo';
+import { expandTerm, getActiveTaxonomy } from '../utils/taxonomy';
 
 interface FilterModalProps {
   isOpen: boolean;
@@ -17,6 +19,7 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
     skills: [],
     industries: [],
     education: null,
+    locationRadius: null,
     ...filters
   });
   const [isExpanding, setIsExpanding] = useState(false);
@@ -33,7 +36,8 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
         experienceRange: filters.experienceRange || {},
         skills: filters.skills || [],
         industries: filters.industries || [],
-        education: filters.education || null
+        education: filters.education || null,
+        locationRadius: filters.locationRadius || null
       });
     }
   }, [filters]);
@@ -94,10 +98,26 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
   };
 
   const removeLocation = (index: number) => {
-    setLocalFilters(prev => ({
-      ...prev,
-      locations: prev.locations.filter((_, i) => i !== index)
-    }));
+    setLocalFilters(prev => {
+      const locations = prev.locations.filter((_, i) => i !== index);
+      // Drop the radius if its center was the location being removed
+      const locationRadius = prev.locationRadius && locations.some((location: string) =>
+        resolveLocation(location)?.label === prev.locationRadius.center
+      ) ? prev.locationRadius : null;
+      return { ...prev, locations, locationRadius };
+    });
+  };
+
+  // Radius searches are centered on the first location the gazetteer recognizes
+  const radiusCenter = localFilters.locationRadius
+    ? resolveLocation(localFilters.locationRadius.center)
+    : localFilters.locations?.map((location: string) => resolveLocation(location)).find(Boolean) || null;
+
+  const handleRadiusChange = (miles: number) => {
+    setLocalFilters({
+      ...localFilters,
+      locationRadius: miles > 0 && radiusCenter ? { center: radiusCenter.label, miles } : null
+    });
   };
 
   const removeSkill = (index: number) => {
@@ -107,6 +127,24 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
     }));
   };
 
+  // Taxonomy suggestions: synonyms of the selected titles and credentials not yet selected
+  const titleSuggestions = Array.from(new Set<string>(
+    (localFilters.jobTitles || []).flatMap((title: string) => expandTerm(title))
+  )).filter(title => !localFilters.jobTitles?.includes(title)).slice(0, 12);
+
+  const credentialSuggestions = getActiveTaxonomy().entries
+    .filter(entry => entry.category === 'certification' || entry.category === 'license')
+    .map(entry => entry.label)
+    .filter(label => !localFilters.skills?.some((skill: string) => skill.toLowerCase() === label.toLowerCase()));
+
+  const addSuggestedJobTitle = (title: string) => {
+    setLocalFilters({ ...localFilters, jobTitles: [...(localFilters.jobTitles || []), title] });
+  };
+
+  const addSuggestedSkill = (skill: string) => {
+    setLocalFilters({ ...localFilters, skills: [...(localFilters.skills || []), skill] });
+  };
+
   const handleSave = () => {
     console.log('💾 Saving filters:', localFilters);
     onSave(localFilters);
@@ -120,7 +158,8 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
       experienceRange: {},
       skills: [],
       industries: [],
-      education: null
+      education: null,
+      locationRadius: null
     });
   };
 
@@ -207,6 +246,24 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
                 </span>
               ))}
             </div>
+
+            {titleSuggestions.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-500 mb-2">Synonyms from the healthcare taxonomy</p>
+                <div className="flex flex-wrap gap-2">
+                  {titleSuggestions.map(title => (
+                    <button
+                      key={title}
+                      onClick={() => addSuggestedJobTitle(title)}
+                      className="flex items-center gap-1 px-2.5 py-1 border border-dashed border-blue-300 text-blue-700 rounded-full text-xs hover:bg-blue-50"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {title}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Experience Range */}
@@ -299,6 +356,30 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
                 </span>
               ))}
             </div>
+
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Search radius{radiusCenter ? ` around ${radiusCenter.label}` : ''}
+                </label>
+                <span className="text-sm text-gray-600">
+                  {localFilters.locationRadius ? `${localFilters.locationRadius.miles} miles` : 'Exact location match'}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={200}
+                step={5}
+                value={localFilters.locationRadius?.miles || 0}
+                onChange={(e) => handleRadiusChange(parseInt(e.target.value))}
+                disabled={!radiusCenter}
+                className="w-full accent-green-600 disabled:opacity-50"
+              />
+              {!radiusCenter && (
+                <p className="text-xs text-gray-500 mt-1">Add a US city or ZIP code to search by distance</p>
+              )}
+            </div>
           </div>
 
           {/* Skills */}
@@ -348,6 +429,24 @@ const FilterModal: React.FC<FilterModalProps> = ({ isOpen, onClose, filters, onS
                 </span>
               ))}
             </div>
+
+            {credentialSuggestions.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-500 mb-2">Certifications & licenses</p>
+                <div className="flex flex-wrap gap-2">
+                  {credentialSuggestions.map(label => (
+                    <button
+                      key={label}
+                      onClick={() => addSuggestedSkill(label)}
+                      className="flex items-center gap-1 px-2.5 py-1 border border-dashed border-orange-300 text-orange-700 rounded-full text-xs hover:bg-orange-50"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Education */}
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { X, Users, Bookmark, Mail, MapPin, Briefcase, Loader2, CheckSquare, Square } from 'lucide-react';
+import { CandidateMatch } from '../types';
+import { Project, JobPosting } from '../lib/supabase';
+import { searchCandidates } from '../utils/searchUtils';
+import { buildJobPostingQuery } from '../utils/jobPostingMatching';
+import { CandidatePool } from '../utils/candidateSource';
+import { getProjectRankingConfig } from '../config/ranking';
+import ShortlistModal from './ShortlistModal';
+import CampaignSelectionModal from './CampaignSelectionModal';
+
+interface JobPostingMatchesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobPosting: JobPosting;
+  candidatePool: CandidatePool;
+  currentProject?: Project | null;
+}
+
+// Matches listed for a posting; the rest are rarely worth pushing to outreach
+const MAX_LISTED_MATCHES = 50;
+
+const JobPostingMatchesModal: React.FC<JobPostingMatchesModalProps> = ({
+  isOpen,
+  onClose,
+  jobPosting,
+  candidatePool,
+  currentProject
+}) => {
+  const [matches, setMatches] = useState<CandidateMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showShortlistModal, setShowShortlistModal] = useState(false);
+  const [showCampaignModal, setShowCampaignModal] = useState(false);
+
+  const searchQuery = buildJobPostingQuery(jobPosting);
+  const { extractedEntities } = searchQuery;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const rankCandidates = async () => {
+      console.log('💼 Finding candidates for job posting:', jobPosting.title);
+      setLoading(true);
+      setMatches([]);
+      setSelectedIds(new Set());
+
+      try {
+        const results = await searchCandidates(
+          candidatePool,
+          buildJobPostingQuery(jobPosting),
+          partial => !cancelled && setMatches(partial.slice(0, MAX_LISTED_MATCHES)),
+          getProjectRankingConfig(currentProject?.settings)
+        );
+        if (!cancelled) setMatches(results.slice(0, MAX_LISTED_MATCHES));
+      } catch (error) {
+        console.error('❌ Error ranking candidates for job posting:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    rankCandidates();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, jobPosting, candidatePool, currentProject]);
+
+  const toggleCandidate = (candidateId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(candidateId)) {
+        next.delete(candidateId);
+      } else {
+        next.add(candidateId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(prev => prev.size === matches.length ? new Set() : new Set(matches.map(match => match.candidate.id)));
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return 'bg-green-100 text-green-800';
+    if (score >= 60) return 'bg-blue-100 text-blue-800';
+    return 'bg-gray-100 text-gray-700';
+  };
+
+  if (!isOpen) return null;
+
+  const criteria = [
+    ...extractedEntities.jobTitles,
+    extractedEntities.locationRadius
+      ? `Within ${extractedEntities.locationRadius.miles} mi of ${extractedEntities.locationRadius.center}`
+      : extractedEntities.locations[0],
+    extractedEntities.experienceRange.min !== undefined ? `${extractedEntities.experienceRange.min}+ years` : undefined,
+    ...extractedEntities.skills,
+    extractedEntities.education
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div className="flex items-start gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-xl flex items-center justify-center flex-shrink-0">
+              <Users className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Candidates for {jobPosting.title}</h2>
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {criteria.map(criterion => (
+                  <span key={criterion} className="px-2 py-1 bg-blue-50 text-blue-700 rounded-full text-xs">{criterion}</span>
+                ))}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading && matches.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              <span className="ml-2 text-gray-600">Ranking candidates against this posting...</span>
+            </div>
+          ) : matches.length === 0 ? (
+            <div className="text-center py-8">
+              <Users className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No candidates in this project match the posting.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <button
+                onClick={toggleAll}
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-2"
+              >
+                {selectedIds.size === matches.length ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                Select all {matches.length}
+                {loading && <Loader2 className="w-3 h-3 animate-spin ml-2" />}
+              </button>
+              {matches.map(({ candidate, explanation }) => (
+                <div
+                  key={candidate.id}
+                  onClick={() => toggleCandidate(candidate.id)}
+                  className={`flex items-center gap-4 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    selectedIds.has(candidate.id) ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {selectedIds.has(candidate.id) ? <CheckSquare className="w-4 h-4 text-blue-600" /> : <Square className="w-4 h-4 text-gray-400" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900">{candidate.name}</div>
+                    <div className="flex items-center gap-3 text-xs text-gray-600">
+                      <span className="flex items-center gap-1"><Briefcase className="w-3 h-3" />{candidate.jobTitle} · {candidate.experience} yrs</span>
+                      <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{candidate.location}</span>
+                    </div>
+                    {explanation.reasons[0] && (
+                      <p className="text-xs text-gray-500 truncate mt-0.5">{explanation.reasons[0]}</p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreColor(explanation.score)}`}>
+                    {Math.min(100, Math.round(explanation.score))}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              {selectedIds.size === 1 ? '1 candidate selected' : `${selectedIds.size} candidates selected`}
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowShortlistModal(true)}
+                disabled={selectedIds.size === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Bookmark className="w-4 h-4" />
+                Add to Shortlist
+              </button>
+              <button
+                onClick={() => setShowCampaignModal(true)}
+                disabled={selectedIds.size === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+              >
+                <Mail className="w-4 h-4" />
+                Add to Campaign
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {showShortlistModal && (
+        <ShortlistModal
+          isOpen={showShortlistModal}
+          onClose={() => setShowShortlistModal(false)}
+          candidateIds={Array.from(selectedIds)}
+          onSuccess={() => {
+            setShowShortlistModal(false);
+            setSelectedIds(new Set());
+          }}
+          currentProject={currentProject}
+          jobPostingId={jobPosting.id}
+          sourceContext={`Job posting: ${jobPosting.title}`}
+        />
+      )}
+
+      {showCampaignModal && (
+        <CampaignSelectionModal
+          isOpen={showCampaignModal}
+          onClose={() => setShowCampaignModal(false)}
+          candidateIds={Array.from(selectedIds)}
+          onSuccess={() => {
+            setShowCampaignModal(false);
+            setSelectedIds(new Set());
+          }}
+          currentProject={currentProject}
+          sourceContext={{ type: 'search', context: `Job posting: ${jobPosting.title}`, jobPostingId: jobPosting.id }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default JobPostingMatchesModal;
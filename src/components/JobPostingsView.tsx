@@ -1,17 +1,20 @@
 import React, { useState, useEffect, useContext } from 'react';
-import { Plus, Briefcase, MapPin, DollarSign, Clock, Link, Edit, Trash2, Eye, Copy, Play, Pause, Search, Filter } from 'lucide-react';
+import { Plus, Briefcase, MapPin, DollarSign, Clock, Link, Edit, Trash2, Eye, Copy, Play, Pause, Search, Filter, Users } from 'lucide-react';
 import { AuthContext } from './AuthWrapper';
 import { Project, JobPosting, getJobPostings, updateJobPosting } from '../lib/supabase';
 import JobPostingModal from './JobPostingModal';
+import JobPostingMatchesModal from './JobPostingMatchesModal';
+import { CandidatePool } from '../utils/candidateSource';
 import Button from './shared/Button';
 import LoadingSpinner from './shared/LoadingSpinner';
 import Badge from './shared/Badge';
 
 interface JobPostingsViewProps {
   currentProject?: Project | null;
+  candidatePool?: CandidatePool; // the project's candidates, ranked by "Find candidates"
 }
 
-const JobPostingsView: React.FC<JobPostingsViewProps> = ({ currentProject }) => {
+const JobPostingsView: React.FC<JobPostingsViewProps> = ({ currentProject, candidatePool }) => {
   const { user } = useContext(AuthContext);
   const [jobPostings, setJobPostings] = useState<JobPosting[]>([]);
   const [loading, setLoading] = useState(true);
@@ -19,6 +22,7 @@ const JobPostingsView: React.FC<JobPostingsViewProps> = ({ currentProject }) =>
   const [editingJob, setEditingJob] = useState<JobPosting | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [matchingJob, setMatchingJob] = useState<JobPosting | null>(null);
 
   useEffect(() => {
     if (user && currentProject) {
@@ -353,6 +357,18 @@ const JobPostingsView: React.FC<JobPostingsViewProps> = ({ currentProject }) =>
                       </div>
                     )}
 
+                    {candidatePool && (
+                      <Button
+                        onClick={() => setMatchingJob(job)}
+                        icon={<Users className="w-4 h-4" />}
+                        variant="outline"
+                        size="sm"
+                        className="w-full mb-4"
+                      >
+                        Find candidates
+                      </Button>
+                    )}
+
                     {/* Apply URL */}
                     <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
                       <Link className="w-4 h-4 text-gray-400 flex-shrink-0" />
@@ -395,6 +411,16 @@ const JobPostingsView: React.FC<JobPostingsViewProps> = ({ currentProject }) =>
         currentProject={currentProject}
         editingJob={editingJob}
       />
+
+      {matchingJob && candidatePool && (
+        <JobPostingMatchesModal
+          isOpen={!!matchingJob}
+          onClose={() => setMatchingJob(null)}
+          jobPosting={matchingJob}
+          candidatePool={candidatePool}
+          currentProject={currentProject}
+        />
+      )}
     </div>
   );
 };
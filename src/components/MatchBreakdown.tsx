@@ -0,0 +1,59 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, XCircle, MinusCircle } from 'lucide-react';
+import { CriterionBreakdown, CriterionStatus, MatchCriterion } from '../types';
+
+interface MatchBreakdownProps {
+  breakdown: CriterionBreakdown[];
+  compact?: boolean;
+}
+
+const CRITERION_LABELS: Record<MatchCriterion, string> = {
+  title: 'Job Title',
+  location: 'Location',
+  experience: 'Experience',
+  skills: 'Skills',
+  industry: 'Industry',
+  education: 'Education'
+};
+
+const STATUS_STYLES: Record<CriterionStatus, { label: string; icon: React.ElementType; pill: string; bar: string }> = {
+  matched: { label: 'Matched', icon: CheckCircle, pill: 'bg-green-100 text-green-800', bar: 'bg-green-500' },
+  partial: { label: 'Partial', icon: AlertCircle, pill: 'bg-yellow-100 text-yellow-800', bar: 'bg-yellow-500' },
+  missing: { label: 'Missing', icon: XCircle, pill: 'bg-red-100 text-red-800', bar: 'bg-red-400' },
+  'not-specified': { label: 'Not required', icon: MinusCircle, pill: 'bg-gray-100 text-gray-600', bar: 'bg-gray-400' }
+};
+
+const MatchBreakdown: React.FC<MatchBreakdownProps> = ({ breakdown, compact = false }) => {
+  if (breakdown.length === 0) return null;
+
+  return (
+    <div className={compact ? 'space-y-1.5' : 'space-y-2'}>
+      {breakdown.map(item => {
+        const style = STATUS_STYLES[item.status];
+        const Icon = style.icon;
+        const percent = item.weight > 0 ? Math.round((item.points / item.weight) * 100) : 0;
+
+        return (
+          <div key={item.criterion} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className="w-24 flex-shrink-0 font-medium text-gray-700">{CRITERION_LABELS[item.criterion]}</span>
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${style.pill}`}>
+                <Icon className="w-3 h-3" />
+                {style.label}
+              </span>
+              <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden min-w-[40px]">
+                <div className={`h-full ${style.bar}`} style={{ width: `${percent}%` }} />
+              </div>
+              <span className="w-12 text-right text-xs text-gray-500">{item.points}/{item.weight}</span>
+            </div>
+            {item.detail && (
+              <p className={`text-xs text-gray-500 ml-[6.5rem] ${compact ? '' : 'mt-0.5'}`}>{item.detail}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MatchBreakdown;
@@ -0,0 +1,309 @@
+import React, { useState, useContext } from 'react';
+import { FileText, Upload, Loader2, Trash2, CheckCircle, AlertTriangle, XCircle, Sparkles } from 'lucide-react';
+import { AuthContext } from './AuthWrapper';
+import { Project, DatabaseCandidate, getCandidates, createCandidateImport, updateCandidateImport } from '../lib/supabase';
+import { importCandidateRows } from '../utils/candidateImport';
+import { ParsedResume, ResumeParseResult, buildResumeCandidate, ingestResume } from '../utils/resumeParsing';
+import Button from './shared/Button';
+
+interface ResumeImportPanelProps {
+  currentProject: Project;
+  onCandidatesImported?: () => void;
+}
+
+interface ResumeItem {
+  id: string;
+  fileName: string;
+  status: 'parsing' | 'parsed' | 'failed';
+  error?: string;
+  result?: ResumeParseResult;
+}
+
+const formatPosition = (position: ParsedResume['experience'][number]) =>
+  [position.title, position.employer, position.location].filter(Boolean).join(' • ') +
+  ` (${position.startDate || '?'} – ${position.current ? 'present' : position.endDate || '?'})`;
+
+const ResumeImportPanel: React.FC<ResumeImportPanelProps> = ({ currentProject, onCandidatesImported }) => {
+  const { user } = useContext(AuthContext);
+  const [items, setItems] = useState<ResumeItem[]>([]);
+  const [pastedText, setPastedText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [existingCandidates, setExistingCandidates] = useState<DatabaseCandidate[] | null>(null);
+
+  const updateItem = (id: string, changes: Partial<ResumeItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setMessage(null);
+
+    // Existing candidates are only used to warn about likely duplicates
+    let existing = existingCandidates;
+    if (!existing) {
+      const { data } = await getCandidates(currentProject.id);
+      existing = (data || []) as DatabaseCandidate[];
+      setExistingCandidates(existing);
+    }
+
+    const queued = files.map((file, index) => ({ id: `resume-${Date.now()}-${index}`, fileName: file.name, status: 'parsing' as const }));
+    setItems(prev => [...prev, ...queued]);
+
+    // One at a time, so AI calls are not fired in parallel for a large batch
+    for (const [index, file] of files.entries()) {
+      try {
+        const result = await ingestResume(file, { projectId: currentProject.id, existingCandidates: existing });
+        updateItem(queued[index].id, { status: 'parsed', result });
+      } catch (err) {
+        console.error('❌ Error parsing resume:', err);
+        updateItem(queued[index].id, { status: 'failed', error: err instanceof Error ? err.message : `Could not read ${file.name}.` });
+      }
+    }
+  };
+
+  const handlePaste = () => {
+    const text = pastedText.trim();
+    if (!text) return;
+    handleFiles([new File([text], `Pasted resume ${items.length + 1}.txt`, { type: 'text/plain' })]);
+    setPastedText('');
+  };
+
+  // Name, title and location can be corrected here; the candidate is rebuilt from the edited resume
+  const handleEdit = (item: ResumeItem, changes: Partial<Pick<ParsedResume, 'name' | 'location'>> & { title?: string }) => {
+    if (!item.result) return;
+    const { title, ...fields } = changes;
+    const current = item.result.parsed;
+    const parsed: ParsedResume = {
+      ...current,
+      ...fields,
+      titles: title !== undefined ? [title, ...current.titles.slice(1)].filter(Boolean) : current.titles
+    };
+    const rebuilt = buildResumeCandidate(parsed, {
+      projectId: currentProject.id,
+      document: item.result.document,
+      parser: item.result.parser,
+      textLength: item.result.text.length,
+      existingCandidates: existingCandidates || []
+    });
+    updateItem(item.id, { result: { ...item.result, parsed, ...rebuilt } });
+  };
+
+  const readyItems = items.filter(item => item.result?.candidate);
+
+  const handleSave = async () => {
+    if (!user || readyItems.length === 0) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const fileName = readyItems.length === 1 ? readyItems[0].fileName : `${readyItems.length} resumes`;
+      const { data: record, error: recordError } = await createCandidateImport({
+        project_id: currentProject.id,
+        user_id: user.id,
+        file_name: fileName,
+        status: 'running',
+        total_rows: readyItems.length,
+        imported_count: 0,
+        skipped_count: 0,
+        failed_count: 0,
+        warning_count: 0
+      });
+      if (recordError) {
+        console.warn('⚠️ Could not record the import, continuing without a report record:', recordError);
+      }
+
+      const report = await importCandidateRows(
+        readyItems.map((item, index) => ({ rowNumber: index + 1, candidate: item.result!.candidate, errors: [], warnings: item.result!.warnings })),
+        { fileName, importId: record?.id }
+      );
+
+      if (record) {
+        await updateCandidateImport(record.id, {
+          status: report.importedCount > 0 ? 'completed' : 'failed',
+          imported_count: report.importedCount,
+          failed_count: report.failedCount,
+          warning_count: report.warningCount,
+          errors: report.errors,
+          completed_at: new Date().toISOString()
+        });
+      }
+
+      // Saved resumes leave the list; rejected ones stay so they can be retried
+      const failedRows = new Set(report.errors.map(({ row }) => row));
+      const savedIds = new Set(readyItems.filter((_, index) => !failedRows.has(index + 1)).map(item => item.id));
+      setItems(prev => prev.filter(item => !savedIds.has(item.id)));
+      setMessage(`Added ${report.importedCount} candidate${report.importedCount === 1 ? '' : 's'} to ${currentProject.name}${report.failedCount > 0 ? `; ${report.failedCount} could not be saved` : ''}.`);
+      if (report.importedCount > 0) onCandidatesImported?.();
+    } catch (err) {
+      console.error('❌ Resume import failed:', err);
+      setMessage('Saving stopped unexpectedly. Candidates saved before the failure stay in the project.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parsing = items.some(item => item.status === 'parsing');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <label
+          className="block border-2 border-dashed rounded-xl p-8 text-center border-gray-300 bg-white hover:border-purple-400 cursor-pointer transition-colors"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleFiles(Array.from(e.dataTransfer.files || []));
+          }}
+        >
+          <FileText className="w-10 h-10 text-purple-600 mx-auto mb-4" />
+          <p className="font-medium text-gray-900">Drop resumes here, or click to choose files</p>
+          <p className="text-sm text-gray-600 mt-1">
+            PDF, DOCX and plain text. Text is extracted in the browser; scanned PDFs without a text layer can't be read.
+          </p>
+          <input
+            type="file"
+            accept=".pdf,.docx,.doc,.txt,.md"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-4 flex flex-col">
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder="Or paste the text of a resume..."
+            className="flex-1 min-h-[120px] w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+          />
+          <div className="flex justify-end mt-3">
+            <Button size="sm" variant="outline" onClick={handlePaste} disabled={!pastedText.trim()}>
+              Parse pasted text
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          {message}
+        </div>
+      )}
+
+      {items.map(item => {
+        const result = item.result;
+        return (
+          <div key={item.id} className="bg-white rounded-xl border border-gray-200 p-5">
+            <div className="flex items-start justify-between mb-3">
+              <div className="flex items-center gap-2">
+                {item.status === 'parsing' && <Loader2 className="w-4 h-4 text-purple-600 animate-spin" />}
+                {item.status === 'failed' && <XCircle className="w-4 h-4 text-red-600" />}
+                {result && (result.candidate ? <CheckCircle className="w-4 h-4 text-green-600" /> : <AlertTriangle className="w-4 h-4 text-yellow-600" />)}
+                <span className="font-medium text-gray-900">{item.fileName}</span>
+                {result && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 flex items-center gap-1">
+                    {result.parser === 'ai' && <Sparkles className="w-3 h-3" />}
+                    {result.parser === 'ai' ? 'AI' : 'Rule-based'}
+                    {result.document.pageCount ? ` • ${result.document.pageCount} page${result.document.pageCount === 1 ? '' : 's'}` : ''}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => setItems(prev => prev.filter(({ id }) => id !== item.id))}
+                disabled={item.status === 'parsing' || saving}
+                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {item.status === 'parsing' && <p className="text-sm text-gray-600">Reading resume...</p>}
+            {item.status === 'failed' && <p className="text-sm text-red-700">{item.error}</p>}
+
+            {result && (
+              <div className="space-y-3 text-sm">
+                <div className="grid grid-cols-3 gap-3">
+                  {([
+                    ['Name', result.parsed.name, (value: string) => handleEdit(item, { name: value })],
+                    ['Job title', result.parsed.titles[0] || '', (value: string) => handleEdit(item, { title: value })],
+                    ['Location', result.parsed.location || '', (value: string) => handleEdit(item, { location: value || undefined })]
+                  ] as const).map(([label, value, onChange]) => (
+                    <label key={label} className="block">
+                      <span className="text-xs text-gray-500">{label}</span>
+                      <input
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        className={`mt-1 w-full px-3 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent ${value ? 'border-gray-300' : 'border-red-300 bg-red-50'}`}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 text-gray-700">
+                  <div><span className="text-gray-500">Email:</span> {result.parsed.email || '—'}</div>
+                  <div><span className="text-gray-500">Phone:</span> {result.parsed.phone || '—'}</div>
+                  <div><span className="text-gray-500">Experience:</span> {result.parsed.totalYears !== undefined ? `${result.parsed.totalYears} years` : '—'}</div>
+                </div>
+
+                {result.parsed.experience.length > 0 && (
+                  <div>
+                    <div className="text-gray-500 mb-1">Positions</div>
+                    <ul className="space-y-0.5 text-gray-700">
+                      {result.parsed.experience.map((position, index) => <li key={index}>{formatPosition(position)}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {([
+                  ['Skills', result.parsed.skills],
+                  ['Certifications', result.parsed.certifications],
+                  ['Education', result.parsed.education.map(({ degree, institution, year }) => [degree, institution, year].filter(Boolean).join(', '))]
+                ] as [string, string[]][]).map(([label, values]) => values.length > 0 && (
+                  <div key={label}>
+                    <div className="text-gray-500 mb-1">{label}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {values.map(value => (
+                        <span key={value} className="px-2 py-0.5 bg-purple-50 text-purple-700 rounded-full text-xs">{value}</span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {(result.errors.length > 0 || result.warnings.length > 0) && (
+                  <div>
+                    {result.errors.map(error => <div key={error} className="text-red-700">{error}</div>)}
+                    {result.warnings.map(warning => <div key={warning} className="text-yellow-700">{warning}</div>)}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {items.length > 0 && (
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {readyItems.length} of {items.length} resumes ready
+            {parsing && ' • still reading...'}
+          </span>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            disabled={readyItems.length === 0 || saving || parsing}
+            icon={<Upload className="w-4 h-4" />}
+          >
+            Add {readyItems.length} candidate{readyItems.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumeImportPanel;
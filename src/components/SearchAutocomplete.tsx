@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Clock, Bookmark, Briefcase, Award, MapPin, X } from 'lucide-react';
+import { Candidate } from '../types';
+import { SavedSearch } from '../lib/supabase';
+import { AutocompleteSuggestion, EntityChip, EntityChipField, ENTITY_CHIP_LABELS, getAutocompleteSuggestions, removeTypedFragment } from '../utils/autocomplete';
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  chips: EntityChip[];
+  onChipsChange: (chips: EntityChip[]) => void;
+  recentSearches: string[];
+  savedSearches: SavedSearch[];
+  candidates: Candidate[];
+  placeholder?: string;
+  disabled?: boolean;
+  inputRef?: React.RefObject<HTMLInputElement>;
+}
+
+const ENTITY_ICONS: Record<EntityChipField, React.ElementType> = {
+  jobTitles: Briefcase,
+  skills: Award,
+  locations: MapPin
+};
+
+const SearchAutocomplete: React.FC<SearchAutocompleteProps> = ({
+  value,
+  onChange,
+  chips,
+  onChipsChange,
+  recentSearches,
+  savedSearches,
+  candidates,
+  placeholder,
+  disabled = false,
+  inputRef
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = isOpen ? getAutocompleteSuggestions(value, { recentSearches, savedSearches, candidates, chips }) : [];
+
+  const selectSuggestion = (suggestion: AutocompleteSuggestion) => {
+    if (suggestion.kind === 'entity') {
+      onChipsChange([...chips, suggestion.chip]);
+      onChange(removeTypedFragment(value));
+    } else {
+      onChange(suggestion.query);
+      setIsOpen(false);
+    }
+    setActiveIndex(-1);
+    inputRef?.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && activeIndex >= 0 && suggestions[activeIndex]) {
+      // Enter picks the highlighted suggestion instead of submitting the form
+      e.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    } else if (e.key === 'Backspace' && !value && chips.length > 0) {
+      onChipsChange(chips.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="w-full flex flex-wrap items-center gap-1.5 px-3 py-2 pr-12 border border-gray-300 rounded-xl focus-within:ring-2 focus-within:ring-purple-500 focus-within:border-transparent bg-white">
+        {chips.map((chip, index) => {
+          const Icon = ENTITY_ICONS[chip.field];
+          return (
+            <span
+              key={`${chip.field}-${chip.value}`}
+              className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full"
+              title={ENTITY_CHIP_LABELS[chip.field]}
+            >
+              <Icon className="w-3 h-3" />
+              {chip.value}
+              <button
+                type="button"
+                onClick={() => onChipsChange(chips.filter((_, i) => i !== index))}
+                className="hover:text-purple-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          );
+        })}
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          placeholder={chips.length > 0 ? 'Add more criteria...' : placeholder}
+          className="flex-1 min-w-[12rem] py-1 border-none outline-none text-gray-900 placeholder-gray-500 bg-transparent"
+          disabled={disabled}
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-autocomplete="list"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 bottom-full mb-2 bg-white border border-gray-200 rounded-xl shadow-lg py-1 max-h-72 overflow-y-auto" role="listbox">
+          {suggestions.map((suggestion, index) => {
+            const Icon = suggestion.kind === 'entity'
+              ? ENTITY_ICONS[suggestion.chip.field]
+              : suggestion.kind === 'saved' ? Bookmark : Clock;
+            return (
+              <li
+                key={`${suggestion.kind}-${suggestion.kind === 'entity' ? suggestion.chip.field : ''}-${suggestion.label}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-sm ${index === activeIndex ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+              >
+                <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-gray-900">{suggestion.label}</span>
+                <span className="text-xs text-gray-500">
+                  {suggestion.kind === 'entity'
+                    ? `${ENTITY_CHIP_LABELS[suggestion.chip.field]} · ${suggestion.count}`
+                    : suggestion.kind === 'saved' ? 'Saved search' : 'Recent'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Play, Download, Upload, Copy, CheckCircle, XCircle, Info } from 'lucide-react';
+import { RankingPipelineConfig, SearchMetrics } from '../types';
+import { SEARCH_GOLDEN_SET } from '../data/searchGoldenSet';
+import { EvaluationMode, EvaluationRecording, EvaluationReport, runSearchEvaluation } from '../utils/searchEvaluation';
+import Button from './shared/Button';
+
+interface SearchEvaluationPanelProps {
+  rankingConfig: RankingPipelineConfig; // the stages as edited in the modal, saved or not
+}
+
+const MODE_LABELS: Record<EvaluationMode, { label: string; description: string }> = {
+  mock: { label: 'Mock AI', description: 'Basic match scores stand in for the model. No AI calls; measures filters and ranking stages.' },
+  recorded: { label: 'Recorded AI', description: 'Replays a recording from an earlier live run. Requests the recording does not cover fall back to the mock.' },
+  live: { label: 'Live AI (record)', description: 'Calls the model for every AI-reranked candidate and records the responses for replay.' }
+};
+
+const METRIC_LABELS: Record<keyof SearchMetrics, string> = {
+  precisionAtK: `P@${SEARCH_GOLDEN_SET.k}`,
+  recall: 'Recall',
+  ndcg: `NDCG@${SEARCH_GOLDEN_SET.k}`
+};
+
+const formatMetric = (value: number) => value.toFixed(3);
+
+const downloadJSON = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+const SearchEvaluationPanel: React.FC<SearchEvaluationPanelProps> = ({ rankingConfig }) => {
+  const [mode, setMode] = useState<EvaluationMode>('mock');
+  const [recording, setRecording] = useState<EvaluationRecording | null>(null);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      setReport(await runSearchEvaluation(SEARCH_GOLDEN_SET, {
+        mode,
+        recording: recording || undefined,
+        rankingConfig,
+        onProgress: completed => setProgress(completed)
+      }));
+    } catch (err) {
+      console.error('❌ Search evaluation failed:', err);
+      setError('The evaluation could not finish. Check the console for details.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRecordingUpload = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = JSON.parse(await file.text()) as EvaluationRecording;
+      if (!parsed || typeof parsed.responses !== 'object') throw new Error('Missing responses');
+      if (parsed.goldenSetVersion !== SEARCH_GOLDEN_SET.version) {
+        setError(`This recording was made for golden set ${parsed.goldenSetVersion}; most requests may miss.`);
+      }
+      setRecording(parsed);
+    } catch {
+      setError('That file is not an evaluation recording.');
+    }
+  };
+
+  // New baselines to paste into data/searchGoldenSet.ts after an intended quality change
+  const handleCopyBaselines = () => {
+    if (!report) return;
+    const baselines = Object.fromEntries(report.queries.map(query => [query.queryId, query.metrics]));
+    navigator.clipboard.writeText(JSON.stringify(baselines, null, 2));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <h4 className="font-medium text-blue-900 mb-1">Golden set {SEARCH_GOLDEN_SET.version}</h4>
+            <p className="text-sm text-blue-700">
+              {SEARCH_GOLDEN_SET.queries.length} golden queries run against {SEARCH_GOLDEN_SET.candidateCount} seeded candidates,
+              using the Ranking Pipeline tab's stages (saved or not) and the saved candidate matching prompt. A query
+              fails when a metric drops more than {SEARCH_GOLDEN_SET.tolerance} below its baseline.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(MODE_LABELS) as EvaluationMode[]).map(value => (
+          <label key={value} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="radio"
+              name="evaluation-mode"
+              checked={mode === value}
+              onChange={() => setMode(value)}
+              className="mt-1 text-purple-600 focus:ring-purple-500"
+            />
+            <div>
+              <div className="text-sm font-medium text-gray-900">{MODE_LABELS[value].label}</div>
+              <div className="text-xs text-gray-600">{MODE_LABELS[value].description}</div>
+            </div>
+          </label>
+        ))}
+
+        {mode === 'recorded' && (
+          <label className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+            <Upload className="w-4 h-4" />
+            {recording ? `${Object.keys(recording.responses).length} recorded responses` : 'Load recording'}
+            <input
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleRecordingUpload(e.target.files[0])}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={handleRun}
+          loading={running}
+          disabled={running || (mode === 'recorded' && !recording)}
+          icon={<Play className="w-4 h-4" />}
+        >
+          {running ? `Running ${progress}/${SEARCH_GOLDEN_SET.queries.length}` : 'Run Evaluation'}
+        </Button>
+        {report?.recording && (
+          <Button
+            variant="outline"
+            onClick={() => downloadJSON(report.recording, `search-evaluation-recording-${report.goldenSetVersion}.json`)}
+            icon={<Download className="w-4 h-4" />}
+          >
+            Download Recording
+          </Button>
+        )}
+        {report && (
+          <Button variant="ghost" onClick={handleCopyBaselines} icon={<Copy className="w-4 h-4" />}>
+            Copy as Baselines
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {report && (
+        <div className="space-y-3">
+          <div className={`flex items-center gap-2 p-3 rounded-lg ${report.passed ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+            {report.passed ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+            <span className="text-sm font-medium">
+              {report.passed
+                ? 'No regressions against the baselines'
+                : `${report.queries.filter(query => query.regressions.length > 0).length} queries regressed`}
+            </span>
+            <span className="ml-auto text-sm">
+              {(Object.keys(METRIC_LABELS) as (keyof SearchMetrics)[]).map(key => `${METRIC_LABELS[key]} ${formatMetric(report.mean[key])}`).join(' · ')}
+            </span>
+          </div>
+          {report.mode === 'recorded' && report.recordingMisses > 0 && (
+            <p className="text-xs text-yellow-700">
+              {report.recordingMisses} match analyses were not in the recording (prompt or model changed?) and used the mock.
+            </p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                <th className="py-2 pr-3">Query</th>
+                {(Object.keys(METRIC_LABELS) as (keyof SearchMetrics)[]).map(key => (
+                  <th key={key} className="py-2 pr-3">{METRIC_LABELS[key]}</th>
+                ))}
+                <th className="py-2">Results</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.queries.map(query => (
+                <tr key={query.queryId}>
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-2">
+                      {query.regressions.length > 0
+                        ? <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                        : <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />}
+                      <span className="text-gray-900">{query.description}</span>
+                    </div>
+                  </td>
+                  {(Object.keys(METRIC_LABELS) as (keyof SearchMetrics)[]).map(key => (
+                    <td key={key} className={`py-2 pr-3 ${query.regressions.includes(key) ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                      {formatMetric(query.metrics[key])}
+                      <span className="text-xs text-gray-400"> / {formatMetric(query.baseline[key])}</span>
+                    </td>
+                  ))}
+                  <td className="py-2 text-gray-600">{query.resultCount} ({query.relevantCount} relevant)</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchEvaluationPanel;
@@ -1,11 +1,25 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Search, Sparkles, User, Bot, Edit, Share, Plus, FileText, Code, Users, Upload, Loader2, Filter, Eye, Clock, Zap } from 'lucide-react';
-import { SearchQuery, CandidateMatch, Candidate, MatchExplanation } from '../types';
-import { extractEntities, calculateMatchWithAI } from '../utils/searchUtils';
-import { searchCandidatesWithStreaming } from '../utils/streamingSearch';
+import React, { useState, useRef, useEffect, useMemo, useContext } from 'react';
+import { Search, Sparkles, User, Bot, Edit, Share, Plus, FileText, Code, Users, Upload, Loader2, Filter, Eye, Clock, Zap, BookmarkPlus, SlidersHorizontal } from 'lucide-react';
+import { SearchQuery, CandidateMatch, Candidate, FacetSelections, RelevanceVote } from '../types';
+import { extractEntities } from '../utils/searchUtils';
+import { runRankingPipeline, getAIRerankBudget } from '../utils/rankingPipeline';
+import { getProjectRankingConfig } from '../config/ranking';
+import { describeQueryNode } from '../utils/queryParser';
+import { describeCredentialRequirement } from '../utils/credentials';
+import { buildSearchCacheKey, getCachedSearchResults, getSearchCriteriaKey, setCachedSearchResults } from '../utils/searchCache';
+import { streamMatchExplanations } from '../utils/streamingSearch';
+import { CandidateSource, resolveCandidatePool } from '../utils/candidateSource';
+import { applyFacetSelections, hasFacetSelections, normalizeFacetSelections, toggleFacetValue } from '../utils/facets';
+import { buildSimilarCandidateQuery } from '../utils/similarCandidates';
+import { RelevanceVotes, applyRelevanceFeedback } from '../utils/relevanceFeedback';
+import { QueryRelaxation, relaxSearchQuery } from '../utils/queryRelaxation';
 import CandidateTable from './CandidateTable';
 import FilterModal from './FilterModal';
-import { Project, getSearchResults } from '../lib/supabase';
+import FacetSidebar from './FacetSidebar';
+import SearchAutocomplete from './SearchAutocomplete';
+import { AuthContext } from './AuthWrapper';
+import { EntityChip, composeQueryText, mergeEntityChips } from '../utils/autocomplete';
+import { Project, SavedSearch, getSearchResults, getShortlistedCandidateIds, getSearchFeedback, saveSearchFeedback, deleteSearchFeedback } from '../lib/supabase';
 import { convertDatabaseCandidatesToCandidates } from '../utils/dataConverters';
 
 interface Message {
@@ -18,6 +32,7 @@ interface Message {
   isProcessing?: boolean;
   showSearchButton?: boolean;
   noResultsFound?: boolean;
+  relaxation?: QueryRelaxation; // constraints relaxed because the search found no one
   searchProgress?: {
     stage: string;
     current: number;
@@ -31,20 +46,52 @@ interface SearchViewProps {
   matches: CandidateMatch[];
   isLoading: boolean;
   recentSearches?: string[];
+  savedSearches?: SavedSearch[];
   candidates: Candidate[];
+  candidateSource?: CandidateSource | null; // set for pools that are filtered server-side
+  totalCandidates?: number;
   currentProject?: Project | null;
+  onSaveSearch?: (searchQuery: SearchQuery) => void;
+  activeFacets?: FacetSelections; // facet selections restored from a saved search
+  similarCandidate?: Candidate | null; // "more like this" requested from another view
+  onSimilarCandidateHandled?: () => void;
+  onCandidatesImported?: () => void; // reload the project's candidates after an import
+  onCandidateUpdated?: () => void; // reload the project's candidates after an edit
 }
 
+// Extracted criteria as shown in the chat and edited in the filter modal
+const getFilterDisplay = (searchQuery: SearchQuery) => ({
+  jobTitles: searchQuery.extractedEntities.jobTitles,
+  locations: searchQuery.extractedEntities.locations,
+  experienceRange: searchQuery.extractedEntities.experienceRange,
+  skills: searchQuery.extractedEntities.skills,
+  industries: searchQuery.extractedEntities.industries,
+  education: searchQuery.extractedEntities.education,
+  locationRadius: searchQuery.extractedEntities.locationRadius,
+  credentials: (searchQuery.extractedEntities.credentials || []).map(describeCredentialRequirement),
+  excluded: searchQuery.clauses?.exclude.map(describeQueryNode) || []
+});
+
 const SearchView: React.FC<SearchViewProps> = ({
   onSearch,
   matches,
   isLoading,
   recentSearches = [],
+  savedSearches = [],
   candidates,
-  currentProject
+  candidateSource,
+  totalCandidates,
+  currentProject,
+  onSaveSearch,
+  activeFacets,
+  similarCandidate,
+  onSimilarCandidateHandled,
+  onCandidatesImported,
+  onCandidateUpdated
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
+  const [entityChips, setEntityChips] = useState<EntityChip[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [activeSearchMethod, setActiveSearchMethod] = useState('natural');
@@ -54,8 +101,16 @@ const SearchView: React.FC<SearchViewProps> = ({
   const [isSearching, setIsSearching] = useState(false);
   const [currentSearchQuery, setCurrentSearchQuery] = useState<SearchQuery | null>(null);
   const [recentSearchContext, setRecentSearchContext] = useState<string | null>(null);
+  const [facetSelections, setFacetSelections] = useState<FacetSelections>({});
+  // The search whose results the table shows; currentSearchQuery may already hold edited filters
+  const [resultsSearchQuery, setResultsSearchQuery] = useState<SearchQuery | null>(null);
+  const [feedbackVotes, setFeedbackVotes] = useState<RelevanceVotes>({});
+  const { user } = useContext(AuthContext);
+
+  const poolSize = totalCandidates || candidates.length;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const searchMethods = [
@@ -81,6 +136,82 @@ const SearchView: React.FC<SearchViewProps> = ({
     }
   }, [matches]);
 
+  // Don't keep streaming into an unmounted view
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
+  // Restore the facet selections of a saved search when one is opened
+  useEffect(() => {
+    setFacetSelections(normalizeFacetSelections(activeFacets));
+  }, [activeFacets]);
+
+  // Votes are stored per search, so reopening a search restores them and its reranking
+  const feedbackSearchKey = useMemo(() => (resultsSearchQuery ? getSearchCriteriaKey(resultsSearchQuery) : null), [resultsSearchQuery]);
+  useEffect(() => {
+    setFeedbackVotes({});
+    if (!feedbackSearchKey || !currentProject || !user) return;
+
+    let cancelled = false;
+    getSearchFeedback(user.id, currentProject.id, feedbackSearchKey).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.warn('⚠️ Could not load feedback for this search:', error);
+        return;
+      }
+      setFeedbackVotes(Object.fromEntries((data || []).map(feedback => [feedback.candidate_id, feedback.vote])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [feedbackSearchKey, currentProject, user]);
+
+  // Feedback and facets only rerank and filter the scored matches; they never trigger another AI pass
+  const rerankedMatches = useMemo(() => applyRelevanceFeedback(currentMatches, feedbackVotes), [currentMatches, feedbackVotes]);
+  const facetedMatches = useMemo(() => applyFacetSelections(rerankedMatches, facetSelections), [rerankedMatches, facetSelections]);
+
+  // Rates a result for the shown search; voting the same way twice clears the vote
+  const handleFeedback = async (match: CandidateMatch, vote: RelevanceVote) => {
+    if (!resultsSearchQuery || !feedbackSearchKey) return;
+
+    const candidateId = match.candidate.id;
+    const nextVote = feedbackVotes[candidateId] === vote ? undefined : vote;
+    setFeedbackVotes(prev => {
+      const next = { ...prev };
+      if (nextVote) {
+        next[candidateId] = nextVote;
+      } else {
+        delete next[candidateId];
+      }
+      return next;
+    });
+
+    if (!currentProject || !user) return;
+
+    // Persist the score before feedback adjustments; it is what scoring-weight tuning compares against
+    const { explanation } = currentMatches.find(m => m.candidate.id === candidateId) || match;
+    const { error } = nextVote
+      ? await saveSearchFeedback({
+          project_id: currentProject.id,
+          user_id: user.id,
+          search_key: feedbackSearchKey,
+          query: resultsSearchQuery.originalQuery,
+          extracted_entities: resultsSearchQuery.extractedEntities,
+          candidate_id: candidateId,
+          vote: nextVote,
+          score: Math.round(explanation.score),
+          breakdown: explanation.breakdown
+        })
+      : await deleteSearchFeedback(user.id, feedbackSearchKey, candidateId);
+    if (error) {
+      console.warn('⚠️ Feedback was not saved; it still reranks the current results:', error);
+    }
+  };
+
+  // Shows an edited profile in the results; its score stays as scored until the next search
+  const handleCandidateUpdated = (candidate: Candidate) => {
+    setCurrentMatches(prev => prev.map(match => (match.candidate.id === candidate.id ? { ...match, candidate } : match)));
+    onCandidateUpdated?.();
+  };
+
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -100,14 +231,17 @@ const SearchView: React.FC<SearchViewProps> = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || isProcessing) return;
+    const queryText = composeQueryText(inputValue, entityChips);
+    if (!queryText || isProcessing) return;
 
-    console.log('🚀 Starting search process for query:', inputValue);
+    console.log('🚀 Starting search process for query:', queryText);
+    cancelActiveSearch();
+    const chips = entityChips;
 
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
-      content: inputValue,
+      content: queryText,
       timestamp: new Date()
     };
 
@@ -133,22 +267,15 @@ const SearchView: React.FC<SearchViewProps> = ({
     try {
       console.log('🔍 Starting AI entity extraction...');
 
-      // Extract entities using AI
-      const searchQuery = await extractEntities(inputValue);
+      // Extract entities using AI; values picked from the suggestions are kept as-is
+      const searchQuery = mergeEntityChips(await extractEntities(queryText), chips);
       setCurrentSearchQuery(searchQuery);
 
       console.log('✅ Entity extraction completed:', searchQuery);
       console.log('🔍 FILTER STATE DEBUG: About to create filters from searchQuery:', searchQuery);
 
       // Create filters display object
-      const filters = {
-        jobTitles: searchQuery.extractedEntities.jobTitles,
-        locations: searchQuery.extractedEntities.locations,
-        experienceRange: searchQuery.extractedEntities.experienceRange,
-        skills: searchQuery.extractedEntities.skills,
-        industries: searchQuery.extractedEntities.industries,
-        education: searchQuery.extractedEntities.education
-      };
+      const filters = getFilterDisplay(searchQuery);
 
       console.log('🔍 FILTER STATE DEBUG: Created filters object:', filters);
       setCurrentFilters(filters);
@@ -160,7 +287,9 @@ const SearchView: React.FC<SearchViewProps> = ({
       const assistantMessage: Message = {
         id: (Date.now() + 2).toString(),
         type: 'assistant',
-        content: `Perfect! I've analyzed your query and extracted the search criteria below. These filters will be applied to narrow down from our database of ${candidates.length.toLocaleString()} candidates.`,
+        content: searchQuery.clauses
+          ? `Parsed your boolean query into the criteria below. Every clause will be applied exactly across our database of ${poolSize.toLocaleString()} candidates.`
+          : `Perfect! I've analyzed your query and extracted the search criteria below. These filters will be applied to narrow down from our database of ${poolSize.toLocaleString()} candidates.`,
         timestamp: new Date(),
         extractedFilters: filters,
         searchQuery: searchQuery,
@@ -187,16 +316,80 @@ const SearchView: React.FC<SearchViewProps> = ({
     } finally {
       setIsProcessing(false);
       setInputValue('');
+      setEntityChips([]);
     }
   };
 
+  // "More like this": criteria built from the candidate's profile, leaving out the candidate
+  // and everyone already on a shortlist
+  const handleFindSimilar = async (candidate: Candidate) => {
+    console.log('👯 Finding candidates similar to:', candidate.name);
+    cancelActiveSearch();
+
+    const { data: shortlistedIds, error } = currentProject
+      ? await getShortlistedCandidateIds(currentProject.id)
+      : { data: [], error: null };
+    if (error) {
+      console.warn('⚠️ Could not load shortlisted candidates, they will not be excluded:', error);
+    }
+
+    const searchQuery = buildSimilarCandidateQuery(candidate, shortlistedIds);
+    const filters = getFilterDisplay(searchQuery);
+    setCurrentSearchQuery(searchQuery);
+    setCurrentFilters(filters);
+    setRecentSearchContext(null);
+
+    const excludedCount = shortlistedIds.filter(id => id !== candidate.id).length;
+    setMessages(prev => [
+      ...prev,
+      {
+        id: Date.now().toString(),
+        type: 'user',
+        content: `More like ${candidate.name}`,
+        timestamp: new Date()
+      },
+      {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        content: `Looking for candidates similar to ${candidate.name}: same kind of role, similar experience and nearby${excludedCount > 0 ? `, leaving out ${excludedCount} already shortlisted` : ''}.`,
+        timestamp: new Date(),
+        extractedFilters: filters,
+        searchQuery
+      }
+    ]);
+
+    await handleSearchCandidates(searchQuery);
+  };
+
+  // Searches requested from other views (e.g. a shortlist) arrive as a prop
+  const findSimilarRef = useRef(handleFindSimilar);
+  findSimilarRef.current = handleFindSimilar;
+  useEffect(() => {
+    if (!similarCandidate) return;
+    onSimilarCandidateHandled?.();
+    findSimilarRef.current(similarCandidate);
+  }, [similarCandidate, onSimilarCandidateHandled]);
+
   const handleSuggestionClick = (suggestion: string) => {
     setInputValue(suggestion);
     inputRef.current?.focus();
   };
 
+  // Stops the AI analysis of the search in progress, if any
+  const cancelActiveSearch = () => {
+    if (!searchAbortRef.current) return;
+    searchAbortRef.current.abort();
+    searchAbortRef.current = null;
+    setIsSearching(false);
+  };
+
   const handleSearchCandidates = async (searchQuery: SearchQuery) => {
-    if (!searchQuery || isSearching) return;
+    if (!searchQuery) return;
+
+    // Starting a new search cancels the streaming explanations of the previous one
+    cancelActiveSearch();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
 
     console.log('🔍 Starting streaming candidate search...');
     console.log('📊 Search parameters:', searchQuery);
@@ -205,6 +398,8 @@ const SearchView: React.FC<SearchViewProps> = ({
 
     setIsSearching(true);
     setCurrentMatches([]);
+    setFacetSelections({});
+    setResultsSearchQuery(searchQuery);
 
     // Add searching message with progress tracking
     const searchingMessage: Message = {
@@ -222,15 +417,54 @@ const SearchView: React.FC<SearchViewProps> = ({
     };
     setMessages(prev => [...prev, searchingMessage]);
 
-    // Simulate processing delay (e.g., 800ms)
-    await new Promise(res => setTimeout(res, 1200));
-
     try {
+      // Large pools are narrowed by the server-side filters before anything runs in the browser
+      const pool = candidateSource ? await resolveCandidatePool(candidateSource, searchQuery) : candidates;
+
+      // Repeated searches over an unchanged pool reuse the cached AI-scored results
+      let cacheKey = buildSearchCacheKey(searchQuery, pool, getProjectRankingConfig(currentProject?.settings));
+      const cachedMatches = getCachedSearchResults(cacheKey);
+      if (cachedMatches) {
+        setCurrentMatches(cachedMatches);
+        setShowResults(true);
+        setMessages(prev => [...prev.filter(msg => !msg.isProcessing), {
+          id: (Date.now() + 1).toString(),
+          type: 'assistant',
+          content: `⚡ Found ${cachedMatches.length} candidates from a previous identical search. Candidates and AI settings are unchanged, so no AI calls were needed.`,
+          timestamp: new Date(),
+          noResultsFound: false
+        }]);
+        onSearch(searchQuery);
+        return;
+      }
+
+      // Simulate processing delay (e.g., 800ms)
+      await new Promise(res => setTimeout(res, 1200));
+
       console.log('🤖 Starting streaming search with real-time updates...');
 
       // STEP 1: Apply basic filtering to get initial candidates immediately
       console.log('🔧 STEP 1: Applying basic filtering for immediate results...');
-      const initialMatches = await getInitialCandidatesWithBasicFiltering(candidates, searchQuery);
+      let initialMatches = await getInitialCandidatesWithBasicFiltering(pool, searchQuery);
+
+      // Nobody passed the filters: relax the most restrictive constraints and search again
+      let resultsQuery = searchQuery;
+      let relaxation: QueryRelaxation | null = null;
+      if (initialMatches.length === 0) {
+        const rankingConfig = getProjectRankingConfig(currentProject?.settings);
+        relaxation = await relaxSearchQuery(candidateSource || candidates, searchQuery, rankingConfig);
+        if (relaxation) {
+          resultsQuery = relaxation.searchQuery;
+          const relaxedPool = candidateSource ? await resolveCandidatePool(candidateSource, resultsQuery) : candidates;
+          cacheKey = buildSearchCacheKey(resultsQuery, relaxedPool, rankingConfig);
+          initialMatches = await getInitialCandidatesWithBasicFiltering(relaxedPool, resultsQuery);
+
+          // The filters shown and edited from now on are the relaxed ones
+          setResultsSearchQuery(resultsQuery);
+          setCurrentSearchQuery(resultsQuery);
+          setCurrentFilters(getFilterDisplay(resultsQuery));
+        }
+      }
 
       if (initialMatches.length === 0) {
         // Remove searching message and show no results
@@ -256,18 +490,24 @@ const SearchView: React.FC<SearchViewProps> = ({
       const initialResultsMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: `🎯 Found ${initialMatches.length} candidates! AI analysis is running in the background to improve match scores...`,
+        content: relaxation
+          ? `🪢 Nobody matched every criterion, so I relaxed ${relaxation.steps.length === 1 ? 'one constraint' : `${relaxation.steps.length} constraints`} and found ${initialMatches.length} candidates. AI analysis is running in the background...`
+          : `🎯 Found ${initialMatches.length} candidates! AI analysis is running in the background to improve match scores...`,
         timestamp: new Date(),
-        noResultsFound: false
+        noResultsFound: false,
+        relaxation: relaxation || undefined
       };
       setMessages(prev => [...prev, initialResultsMessage]);
 
       // STEP 3: Run AI analysis on each candidate and update table in real-time
       console.log('🤖 STEP 3: Running AI analysis on candidates with real-time updates...');
-      await runAIAnalysisWithRealTimeUpdates(initialMatches, searchQuery);
+      const analyzedMatches = await runAIAnalysisWithRealTimeUpdates(initialMatches, resultsQuery, controller.signal);
+      if (controller.signal.aborted) return;
+      setCachedSearchResults(cacheKey, analyzedMatches);
 
-      // Call the parent onSearch for any additional handling
-      onSearch(searchQuery);
+      // Call the parent onSearch for any additional handling; after a relaxation it must get the
+      // relaxed query, whose cache key the results were just stored under
+      onSearch(resultsQuery);
 
     } catch (error) {
       console.error('❌ Search error:', error);
@@ -284,7 +524,11 @@ const SearchView: React.FC<SearchViewProps> = ({
 
       setMessages(prev => [...prev, errorMessage]);
     } finally {
-      setIsSearching(false);
+      // A newer search owns the searching state once this one is cancelled
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsSearching(false);
+      }
     }
   };
 
@@ -292,442 +536,65 @@ const SearchView: React.FC<SearchViewProps> = ({
   const getInitialCandidatesWithBasicFiltering = async (candidates: Candidate[], searchQuery: SearchQuery): Promise<CandidateMatch[]> => {
     console.log('🔧 Applying basic filtering for immediate results...');
 
-    // Apply hard filters first
-    const filteredCandidates = applyLenientHardFilters(candidates, searchQuery);
-    console.log(`✂️ Hard filters reduced candidates from ${candidates.length} to ${filteredCandidates.length}`);
-
-    if (filteredCandidates.length === 0) {
-      return [];
-    }
-
-    // Apply keyword matching
-    const keywordMatches = applySimpleKeywordMatching(filteredCandidates, searchQuery);
-    console.log(`🎯 Keyword matching selected ${keywordMatches.length} candidates`);
-
-    if (keywordMatches.length === 0) {
-      return [];
-    }
-
-    // Take top candidates and calculate basic scores
-    const topCandidates = keywordMatches.slice(0, 20);
-    const initialMatches: CandidateMatch[] = topCandidates.map(candidate => {
-      const explanation = calculateBasicMatch(candidate, searchQuery);
-      return { candidate, explanation, streamingExplanation: 'Analyzing...' };
-    });
+    // Run the project's ranking pipeline without its rerank stages; AI scoring streams in afterwards
+    const rankingConfig = getProjectRankingConfig(currentProject?.settings);
+    const rankedMatches = await runRankingPipeline(candidates, searchQuery, rankingConfig, { skipKinds: ['rerank'] });
 
-    // Sort by basic score
-    const sortedMatches = initialMatches.sort((a, b) => b.explanation.score - a.explanation.score);
-    console.log(`✅ Initial filtering complete: ${sortedMatches.length} candidates with basic scores`);
+    const aiBudget = getAIRerankBudget(rankingConfig);
+    const initialMatches: CandidateMatch[] = rankedMatches.map((match, index) => (
+      index < aiBudget ? { ...match, streamingExplanation: 'Analyzing...' } : match
+    ));
+    console.log(`✅ Initial filtering complete: ${initialMatches.length} candidates with basic scores, top ${Math.min(aiBudget, initialMatches.length)} queued for AI`);
 
-    return sortedMatches;
+    return initialMatches;
   };
 
-  // New function to run AI analysis with real-time table updates
-  const runAIAnalysisWithRealTimeUpdates = async (initialMatches: CandidateMatch[], searchQuery: SearchQuery) => {
+  // Run AI analysis, streaming each explanation into the table as the model writes it
+  const runAIAnalysisWithRealTimeUpdates = async (initialMatches: CandidateMatch[], searchQuery: SearchQuery, signal: AbortSignal): Promise<CandidateMatch[]> => {
     console.log('🤖 Starting AI analysis with real-time table updates...');
 
-    const updatedMatches = [...initialMatches];
-
-    // Process candidates in smaller batches for better performance
-    const batchSize = 3;
-    for (let i = 0; i < updatedMatches.length; i += batchSize) {
-      const batch = updatedMatches.slice(i, i + batchSize);
-      console.log(`📦 Processing AI batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(updatedMatches.length/batchSize)} (${batch.length} candidates)`);
-
-      const batchPromises = batch.map(async (match, index) => {
-        const candidate = match.candidate;
-        console.log(`🔄 Starting AI analysis for candidate ${i + index + 1}: ${candidate.name}`);
-
-        try {
-          const aiExplanation = await calculateMatchWithAI(candidate, searchQuery, i + index + 1);
-          console.log(`✅ AI analysis complete for ${candidate.name}: Score ${aiExplanation.score}%, Category: ${aiExplanation.category}`);
-
-          // Stream the first reason by word with natural delay
-          const fullText = aiExplanation.reasons[0] || '';
-          const words = fullText.split(/(\s+)/); // keep spaces
-          let currentText = '';
-          for (let w = 0; w < words.length; w++) {
-            currentText += words[w];
-            // Update streamingExplanation for this candidate only, leave others untouched
-            setCurrentMatches(prevMatches =>
-              prevMatches.map(m =>
-                m.candidate.id === candidate.id
-                  ? { ...m, streamingExplanation: currentText }
-                  : m
-              )
-            );
-            // Random delay: 30-70ms, longer after punctuation
-            let delay = 30 + Math.random() * 40;
-            if (/[\.,!?]$/.test(words[w].trim())) delay += 80;
-            await new Promise(res => setTimeout(res, delay));
-          }
-          // After streaming, set the final explanation and remove streamingExplanation
-          const finalMatches = updatedMatches.map(m =>
-            m.candidate.id === candidate.id
-              ? { ...m, explanation: aiExplanation, streamingExplanation: undefined }
-              : m
-          );
-          setCurrentMatches([...finalMatches]);
-          // Also update in updatedMatches for next batches
-          const idx = updatedMatches.findIndex(m => m.candidate.id === candidate.id);
-          if (idx !== -1) updatedMatches[idx] = { ...updatedMatches[idx], explanation: aiExplanation, streamingExplanation: undefined };
-
-          return { candidate, explanation: aiExplanation };
-        } catch (error) {
-          console.log(`⚠️ AI analysis failed for ${candidate.name}, keeping basic score`);
-          return match; // Keep the original basic match
-        }
-      });
-
-      try {
-        await Promise.all(batchPromises);
-        // No need to update setCurrentMatches here, it's done in streaming
-        // Small delay between batches to respect rate limits
-        if (i + batchSize < updatedMatches.length) {
-          console.log('⏳ Waiting 300ms before next batch...');
-          await new Promise(resolve => setTimeout(resolve, 300));
-        }
-      } catch (error) {
-        console.error('❌ Error processing AI batch:', error);
-        // Continue with next batch
-      }
-    }
-
-    console.log('🎯 AI analysis with real-time updates completed!');
-  };
-
-  // Helper functions (these would need to be imported or defined)
-  const applyLenientHardFilters = (candidates: Candidate[], searchQuery: SearchQuery): Candidate[] => {
-    // This function should be imported from searchUtils.ts
-    // For now, I'll create a simplified version
-    console.log('🔧 Applying lenient hard filters...');
-    const { extractedEntities } = searchQuery;
-
-    let filtered = candidates;
-
-    // Job Title Hard Filter (more lenient - partial matches)
-    if (extractedEntities.jobTitles && extractedEntities.jobTitles.length > 0) {
-      const beforeCount = filtered.length;
-      filtered = filtered.filter(candidate => {
-        if (!candidate || !candidate.jobTitle || typeof candidate.jobTitle !== 'string') {
-          return false;
-        }
-
-        const candidateTitle = candidate.jobTitle.toLowerCase();
-        return extractedEntities.jobTitles.some(title => {
-          if (!title || typeof title !== 'string') return false;
-
-          const titleLower = title.toLowerCase();
-          return (
-            candidateTitle.includes(titleLower) ||
-            titleLower.includes(candidateTitle) ||
-            (titleLower.includes('nurse') && candidateTitle.includes('nurse')) ||
-            (titleLower.includes('administrator') && candidateTitle.includes('administrator')) ||
-            (titleLower.includes('technologist') && candidateTitle.includes('technologist')) ||
-            (titleLower.includes('therapist') && candidateTitle.includes('therapist')) ||
-            (titleLower === 'rn' && candidateTitle.includes('nurse')) ||
-            (titleLower === 'np' && candidateTitle.includes('practitioner')) ||
-            (titleLower === 'lpn' && candidateTitle.includes('practical')) ||
-            (titleLower === 'cns' && candidateTitle.includes('specialist'))
-          );
-        });
-      });
-      // dummy commit
-      console.log(`📋 Job title filter: ${beforeCount} → ${filtered.length} candidates`);
-    }
-
-    // Location Hard Filter (more lenient - partial matches)
-    if (extractedEntities.locations && extractedEntities.locations.length > 0) {
-      const beforeCount = filtered.length;
-      filtered = filtered.filter(candidate => {
-        if (!candidate || !candidate.location || typeof candidate.location !== 'string') {
-          return false;
-        }
-
-        const candidateLocation = candidate.location.toLowerCase();
-        return extractedEntities.locations.some(location => {
-          if (!location || typeof location !== 'string') return false;
-
-          const locationLower = location.toLowerCase();
-          return (
-            candidateLocation.includes(locationLower) || locationLower.includes(candidateLocation)
-          );
-        });
-      });
-      console.log(`📍 Location filter: ${beforeCount} → ${filtered.length} candidates`);
-    }
-
-    // Experience Hard Filter (more lenient - allow ±2 years variance)
-    if (extractedEntities.experienceRange && extractedEntities.experienceRange.min !== undefined) {
-      const beforeCount = filtered.length;
-      const minExp = Math.max(0, extractedEntities.experienceRange.min - 2);
-      const maxExp = extractedEntities.experienceRange.max ?
-        extractedEntities.experienceRange.max + 2 : undefined;
-
-      filtered = filtered.filter(candidate => {
-        if (!candidate || typeof candidate.experience !== 'number') {
-          return false;
-        }
-
-        if (maxExp !== undefined) {
-          return candidate.experience >= minExp && candidate.experience <= maxExp;
-        } else {
-          return candidate.experience >= minExp;
-        }
-      });
-      console.log(`⏱️ Experience filter (${minExp}${maxExp ? `-${maxExp}` : '+'}): ${beforeCount} → ${filtered.length} candidates`);
-    }
-
-    console.log(`✅ Lenient hard filters complete: ${candidates.length} → ${filtered.length} candidates`);
-    return filtered;
-  };
-
-  const applySimpleKeywordMatching = (candidates: Candidate[], searchQuery: SearchQuery): Candidate[] => {
-    console.log('🔧 Applying simple keyword matching for relevance scoring...');
-    const { extractedEntities, originalQuery } = searchQuery;
-
-    // Extract all keywords from the original query
-    const queryKeywords = originalQuery.toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2)
-      .filter(word => !['the', 'and', 'or', 'in', 'at', 'with', 'for', 'of', 'to', 'a', 'an'].includes(word));
-
-    console.log('🔍 Query keywords:', queryKeywords);
-
-    // Calculate simple keyword scores for each candidate
-    const candidatesWithScores = candidates.map(candidate => {
-      if (!candidate) {
-        return { candidate, keywordScore: 0 };
-      }
-
-      let keywordScore = 0;
-
-      // Check job title keywords
-      if (candidate.jobTitle && typeof candidate.jobTitle === 'string') {
-        const titleWords = candidate.jobTitle.toLowerCase().split(/\s+/);
-        queryKeywords.forEach(keyword => {
-          if (titleWords.some(word => word.includes(keyword) || keyword.includes(word))) {
-            keywordScore += 15;
-          }
-        });
-      }
-
-      // Check skills keywords
-      if (candidate.skills && Array.isArray(candidate.skills)) {
-        const skillsText = candidate.skills.join(' ').toLowerCase();
-        queryKeywords.forEach(keyword => {
-          if (skillsText.includes(keyword)) {
-            keywordScore += 10;
-          }
-        });
-      }
-
-      // Check summary keywords
-      if (candidate.summary && typeof candidate.summary === 'string') {
-        const summaryText = candidate.summary.toLowerCase();
-        queryKeywords.forEach(keyword => {
-          if (summaryText.includes(keyword)) {
-            keywordScore += 5;
-          }
-        });
-      }
-
-      // Check location keywords
-      if (candidate.location && typeof candidate.location === 'string') {
-        const locationText = candidate.location.toLowerCase();
-        queryKeywords.forEach(keyword => {
-          if (locationText.includes(keyword)) {
-            keywordScore += 12;
-          }
-        });
-      }
-
-      // Bonus for specific skill matches
-      if (extractedEntities.skills && extractedEntities.skills.length > 0 && candidate.skills && Array.isArray(candidate.skills)) {
-        const skillMatches = extractedEntities.skills.filter(skill =>
-          candidate.skills.some(candidateSkill => {
-            if (!skill || !candidateSkill || typeof skill !== 'string' || typeof candidateSkill !== 'string') {
-              return false;
-            }
-            return candidateSkill.toLowerCase().includes(skill.toLowerCase()) ||
-                   skill.toLowerCase().includes(candidateSkill.toLowerCase());
-          })
-        );
-        keywordScore += skillMatches.length * 8;
-      }
-
-      // Availability bonus
-      if (candidate.availability === 'available') {
-        keywordScore += 5;
-      } else if (candidate.availability === 'passive') {
-        keywordScore += 3;
-      }
-
-      return { candidate, keywordScore };
-    });
-
-    // Sort by keyword score and take candidates with meaningful scores
-    const sortedCandidates = candidatesWithScores
-      .filter(item => item.keywordScore > 0)
-      .sort((a, b) => b.keywordScore - a.keywordScore);
-
-    const result = sortedCandidates.map(item => item.candidate);
-    console.log(`✅ Keyword matching complete: Selected ${result.length} candidates for AI analysis`);
-    return result;
-  };
-
-  const calculateBasicMatch = (candidate: Candidate, searchQuery: SearchQuery): MatchExplanation => {
-    if (!candidate) {
-      return {
-        score: 0,
-        reasons: ['Invalid candidate data'],
-        category: 'potential'
-      };
-    }
-
-    console.log(`🔄 Calculating basic match for ${candidate.name || 'Unknown'}...`);
-
-    let score = 0;
-    const reasons: string[] = [];
-    const { extractedEntities } = searchQuery;
-
-    // Job title matching (40% weight) - more lenient
-    const jobTitleMatch = extractedEntities.jobTitles?.some(title => {
-      if (!title || typeof title !== 'string' || !candidate.jobTitle || typeof candidate.jobTitle !== 'string') {
-        return false;
-      }
-
-      const titleLower = title.toLowerCase();
-      const candidateTitleLower = candidate.jobTitle.toLowerCase();
-      return (
-        candidateTitleLower.includes(titleLower) ||
-        titleLower.includes(candidateTitleLower) ||
-        (titleLower.includes('nurse') && candidateTitleLower.includes('nurse')) ||
-        (titleLower.includes('administrator') && candidateTitleLower.includes('administrator'))
-      );
-    });
-
-    if (jobTitleMatch) {
-      score += 40;
-      reasons.push(`Job title alignment: ${candidate.jobTitle || 'Unknown'}`);
-    } else if (!extractedEntities.jobTitles || extractedEntities.jobTitles.length === 0) {
-      score += 20;
-      reasons.push(`Healthcare professional: ${candidate.jobTitle || 'Unknown'}`);
-    }
-
-    // Location matching (25% weight) - more lenient
-    const locationMatch = extractedEntities.locations?.some(location => {
-      if (!location || typeof location !== 'string' || !candidate.location || typeof candidate.location !== 'string') {
-        return false;
-      }
-
-      const locationLower = location.toLowerCase();
-      const candidateLocationLower = candidate.location.toLowerCase();
-      return (
-        candidateLocationLower.includes(locationLower) ||
-        locationLower.includes(candidateLocationLower)
-      );
-    });
-
-    if (locationMatch) {
-      score += 25;
-      reasons.push(`Located in target area: ${candidate.location || 'Unknown'}`);
-    } else if (!extractedEntities.locations || extractedEntities.locations.length === 0) {
-      score += 15;
-      reasons.push(`Available location: ${candidate.location || 'Unknown'}`);
-    }
-
-    // Experience matching (20% weight) - more lenient
-    if (extractedEntities.experienceRange && (extractedEntities.experienceRange.min || extractedEntities.experienceRange.max)) {
-      const minExp = Math.max(0, (extractedEntities.experienceRange.min || 0) - 2);
-      const maxExp = extractedEntities.experienceRange.max ?
-        extractedEntities.experienceRange.max + 2 : 50;
-
-      const candidateExp = candidate.experience || 0;
-
-      if (candidateExp >= minExp && candidateExp <= maxExp) {
-        score += 20;
-        reasons.push(`Experience level: ${candidateExp} years meets requirements`);
-      } else if (candidateExp >= minExp - 2) {
-        score += 10;
-        reasons.push(`Close experience match: ${candidateExp} years`);
-      }
-    } else {
-      score += 15;
-      reasons.push(`${candidate.experience || 0} years of experience`);
-    }
-
-    // Skills matching (15% weight) - more lenient
-    const skillMatches = extractedEntities.skills?.filter(skill => {
-      if (!skill || typeof skill !== 'string' || !candidate.skills || !Array.isArray(candidate.skills)) {
-        return false;
-      }
-
-      return candidate.skills.some(candidateSkill => {
-        if (!candidateSkill || typeof candidateSkill !== 'string') return false;
-        return candidateSkill.toLowerCase().includes(skill.toLowerCase()) ||
-               skill.toLowerCase().includes(candidateSkill.toLowerCase());
-      });
-    }) || [];
-
-    if (skillMatches.length > 0) {
-      score += Math.min(15, skillMatches.length * 5);
-      reasons.push(`Relevant skills: ${skillMatches.join(', ')}`);
-    } else {
-      score += 5;
-      const candidateSkills = candidate.skills && Array.isArray(candidate.skills) ? candidate.skills : [];
-      reasons.push(`Professional skills: ${candidateSkills.slice(0, 2).join(', ') || 'Various skills'}`);
-    }
-
-    // Add base score for healthcare industry
-    if (candidate.industry === 'Healthcare') {
-      score += 10;
-      reasons.push('Healthcare industry experience');
-    }
-
-    // Availability bonus
-    if (candidate.availability === 'available') {
-      score += 5;
-      reasons.push('Currently available');
-    } else if (candidate.availability === 'passive') {
-      score += 3;
-      reasons.push('Open to opportunities');
-    }
-
-    // Determine category with lower thresholds
-    let category: 'excellent' | 'good' | 'potential';
-    if (score >= 85) category = 'excellent';
-    else if (score >= 65) category = 'good';
-    else category = 'potential';
-
-    if (reasons.length === 0) {
-      reasons.push('Healthcare professional profile');
-    }
+    // Updates from a cancelled search must not overwrite the results of the next one
+    const updateMatch = (candidateId: string, change: (match: CandidateMatch) => CandidateMatch) => {
+      if (signal.aborted) return;
+      setCurrentMatches(prevMatches => prevMatches.map(m => m.candidate.id === candidateId ? change(m) : m));
+    };
 
-    // Ensure minimum score of 30 for any healthcare professional
-    const finalScore = Math.max(score, 30);
+    const analyzedMatches = await streamMatchExplanations(initialMatches, searchQuery, getProjectRankingConfig(currentProject?.settings), {
+      onToken: (candidateId, text) => updateMatch(candidateId, m => ({ ...m, streamingExplanation: text })),
+      onComplete: (scored) => {
+        console.log(`✅ AI analysis complete for ${scored.candidate.name}: Score ${scored.explanation.score}%, Category: ${scored.explanation.category}`);
+        updateMatch(scored.candidate.id, () => scored);
+      },
+      onError: (candidateId) => updateMatch(candidateId, m => ({ ...m, streamingExplanation: undefined }))
+    }, signal);
 
-    const result = { score: finalScore, reasons, category };
-    console.log(`🔄 Basic match result for ${candidate.name || 'Unknown'}:`, result);
-    return result;
+    console.log('🎯 AI analysis with real-time updates completed!');
+    return analyzedMatches;
   };
 
   const handleEditFilters = (filters: any) => {
     console.log('✏️ Editing filters:', filters);
     console.log('🔍 FILTER STATE DEBUG: handleEditFilters called with:', filters);
-    setCurrentFilters(filters);
+    // The filter modal edits neither exclusions nor credential requirements; both are kept
+    setCurrentFilters({ ...filters, credentials: currentFilters?.credentials || [], excluded: currentFilters?.excluded || [] });
 
     // Update the search query with new filters
     if (currentSearchQuery) {
       const updatedQuery: SearchQuery = {
         ...currentSearchQuery,
+        // Edited filters replace the boolean include clauses; exclusions still apply
+        clauses: currentSearchQuery.clauses
+          ? { include: [], exclude: currentSearchQuery.clauses.exclude }
+          : undefined,
         extractedEntities: {
           jobTitles: filters.jobTitles || [],
           locations: filters.locations || [],
           experienceRange: filters.experienceRange || {},
           skills: filters.skills || [],
           industries: filters.industries || [],
-          education: filters.education
+          education: filters.education,
+          locationRadius: filters.locationRadius || undefined,
+          credentials: currentSearchQuery.extractedEntities.credentials
         }
       };
       setCurrentSearchQuery(updatedQuery);
@@ -738,6 +605,7 @@ const SearchView: React.FC<SearchViewProps> = ({
 
   const handleRecentSearchClick = async (search: string) => {
     console.log('🔍 Clicked recent search:', search);
+    cancelActiveSearch();
     console.log('🔍 FILTER STATE DEBUG: handleRecentSearchClick called for:', search);
 
     if (!currentProject) {
@@ -761,9 +629,12 @@ const SearchView: React.FC<SearchViewProps> = ({
         console.log('🔍 FILTER STATE DEBUG: Retrieved extracted_entities:', extracted_entities);
 
         // Convert database candidates to frontend format
+        const resultCandidates = candidateSource
+          ? await candidateSource.getByIds(searchData.map((result: { candidate_id: string }) => result.candidate_id))
+          : candidates;
         const candidateMatches: CandidateMatch[] = searchData.map((result: any) => {
           // Find the candidate in our current candidates array
-          const candidate = candidates.find(c => c.id === result.candidate_id);
+          const candidate = resultCandidates.find(c => c.id === result.candidate_id);
           if (!candidate) {
             console.warn('⚠️ Candidate not found for result:', result.candidate_id);
             return null;
@@ -780,6 +651,7 @@ const SearchView: React.FC<SearchViewProps> = ({
         }).filter(Boolean);
 
         setCurrentMatches(candidateMatches);
+        setFacetSelections({});
         setShowResults(true);
         setRecentSearchContext(search);
 
@@ -807,6 +679,7 @@ const SearchView: React.FC<SearchViewProps> = ({
             extractedEntities: extracted_entities
           };
           setCurrentSearchQuery(searchQuery);
+          setResultsSearchQuery(searchQuery);
           console.log('🔍 FILTER STATE DEBUG: Set currentSearchQuery from database:', searchQuery);
 
           console.log('✅ Filters loaded from database:', filters);
@@ -828,6 +701,7 @@ const SearchView: React.FC<SearchViewProps> = ({
             console.log('🔍 FILTER STATE DEBUG: Extracted filters from query text:', filters);
             setCurrentFilters(filters);
             setCurrentSearchQuery(searchQuery);
+            setResultsSearchQuery(searchQuery);
             console.log('✅ Filters extracted from query text:', filters);
             console.log('🔍 FILTER STATE DEBUG: Set filters and searchQuery from extraction:', { filters, searchQuery });
           } catch (filterError) {
@@ -856,6 +730,7 @@ const SearchView: React.FC<SearchViewProps> = ({
               }
             };
             setCurrentSearchQuery(basicSearchQuery);
+            setResultsSearchQuery(basicSearchQuery);
             console.log('✅ Set basic filters for recent search');
             console.log('🔍 FILTER STATE DEBUG: Set basic filters and searchQuery:', { basicFilters, basicSearchQuery });
           }
@@ -907,7 +782,7 @@ const SearchView: React.FC<SearchViewProps> = ({
     return () => {
       window.removeEventListener('recentSearchClick', handleExternalRecentSearch as EventListener);
     };
-  }, [candidates, currentProject]);
+  }, [candidates, candidateSource, currentProject]);
 
   return (
     <div className="flex-1 flex flex-col h-screen bg-gray-50">
@@ -918,7 +793,7 @@ const SearchView: React.FC<SearchViewProps> = ({
             <h1 className="text-xl font-semibold text-gray-900">AI Candidate Search</h1>
             <div className="flex items-center gap-2">
               <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full font-medium">
-                {candidates.length.toLocaleString()} Candidates
+                {poolSize.toLocaleString()} Candidates
               </span>
               <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full font-medium">
                 Streaming Search
@@ -926,15 +801,31 @@ const SearchView: React.FC<SearchViewProps> = ({
             </div>
           </div>
           <div className="flex items-center gap-3">
+            {onSaveSearch && showResults && currentSearchQuery && (
+              <button
+                onClick={() => onSaveSearch({
+                  ...currentSearchQuery,
+                  facets: hasFacetSelections(facetSelections) ? normalizeFacetSelections(facetSelections) : undefined
+                })}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-purple-600 hover:bg-purple-50 rounded-lg"
+                title="Re-run this search automatically and get alerts for new matches"
+              >
+                <BookmarkPlus className="w-4 h-4" />
+                Save Search
+              </button>
+            )}
             <button
               onClick={() => {
                 console.log('🔄 Starting new search session...');
+                cancelActiveSearch();
                 console.log('🔍 FILTER STATE DEBUG: New search button clicked, clearing all state');
                 setMessages([]);
                 setShowResults(false);
                 setCurrentMatches([]);
+                setFacetSelections({});
                 setCurrentFilters(null);
                 setCurrentSearchQuery(null);
+                setResultsSearchQuery(null);
                 setRecentSearchContext(null);
                 console.log('🔍 FILTER STATE DEBUG: All state cleared for new search');
               }}
@@ -1058,6 +949,41 @@ const SearchView: React.FC<SearchViewProps> = ({
                               </div>
                             )}
 
+                            {/* Constraints relaxed to find candidates */}
+                            {message.type === 'assistant' && message.relaxation && (
+                              <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                                <h4 className="text-sm font-semibold text-amber-900 mb-2 flex items-center gap-2">
+                                  <SlidersHorizontal className="w-4 h-4" />
+                                  Relaxed constraints
+                                </h4>
+                                <ul className="space-y-1 text-sm text-amber-800">
+                                  {message.relaxation.steps.map((step, index) => (
+                                    <li key={index}>
+                                      • {step.description}
+                                      {index === message.relaxation!.steps.length - 1 && ` → ${step.recovered} candidates`}
+                                    </li>
+                                  ))}
+                                </ul>
+                                {message.relaxation.options.length > 1 && (
+                                  <div className="mt-3">
+                                    <p className="text-xs font-medium text-amber-900 mb-1">Each relaxation on its own would recover:</p>
+                                    <ul className="space-y-0.5 text-xs text-amber-700">
+                                      {message.relaxation.options.map((option, index) => (
+                                        <li key={index}>{option.description}: {option.recovered} candidates</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                )}
+                                <button
+                                  onClick={() => setShowFilterModal(true)}
+                                  className="mt-3 flex items-center gap-2 px-3 py-1.5 bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200 text-xs font-medium transition-colors"
+                                >
+                                  <Edit className="w-3 h-3" />
+                                  Adjust Filters
+                                </button>
+                              </div>
+                            )}
+
                             {/* No Results Found UI */}
                             {message.type === 'assistant' && message.noResultsFound && (
                               <div className="mt-6 p-6 bg-red-50 border border-red-200 rounded-xl text-center">
@@ -1081,11 +1007,14 @@ const SearchView: React.FC<SearchViewProps> = ({
                                   <button
                                     onClick={() => {
                                       console.log('🔄 Starting new search session from no results message...');
+                                      cancelActiveSearch();
                                       setMessages([]);
                                       setShowResults(false);
                                       setCurrentMatches([]);
+                                      setFacetSelections({});
                                       setCurrentFilters(null);
                                       setCurrentSearchQuery(null);
+                                      setResultsSearchQuery(null);
                                       setRecentSearchContext(null);
                                     }}
                                     className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-medium transition-colors"
@@ -1107,6 +1036,12 @@ const SearchView: React.FC<SearchViewProps> = ({
                                     <span className="ml-auto text-xs text-gray-500">Ready for search</span>
                                   </h4>
 
+                                  {message.searchQuery?.language === 'es' && (
+                                    <p className="-mt-2 mb-4 text-xs text-gray-600">
+                                      Query understood as Spanish and matched in English: "{message.searchQuery.normalizedQuery}"
+                                    </p>
+                                  )}
+
                                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                     {message.extractedFilters.jobTitles?.length > 0 && (
                                       <div>
@@ -1138,6 +1073,11 @@ const SearchView: React.FC<SearchViewProps> = ({
                                               {location}
                                             </span>
                                           ))}
+                                          {message.extractedFilters.locationRadius && (
+                                            <span className="px-2 py-1 bg-green-50 text-green-700 border border-green-200 rounded-md text-xs font-medium">
+                                              within {message.extractedFilters.locationRadius.miles} mi of {message.extractedFilters.locationRadius.center}
+                                            </span>
+                                          )}
                                         </div>
                                       </div>
                                     )}
@@ -1197,6 +1137,32 @@ const SearchView: React.FC<SearchViewProps> = ({
                                         </div>
                                       </div>
                                     )}
+
+                                    {message.extractedFilters.credentials?.length > 0 && (
+                                      <div>
+                                        <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">Credentials</span>
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                          {message.extractedFilters.credentials.map((credential: string, index: number) => (
+                                            <span key={index} className="px-2 py-1 bg-teal-100 text-teal-800 rounded-md text-xs font-medium">
+                                              {credential}
+                                            </span>
+                                          ))}
+                                        </div>
+                                      </div>
+                                    )}
+
+                                    {message.extractedFilters.excluded?.length > 0 && (
+                                      <div>
+                                        <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">Excluded</span>
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                          {message.extractedFilters.excluded.map((clause: string, index: number) => (
+                                            <span key={index} className="px-2 py-1 bg-red-100 text-red-800 rounded-md text-xs font-medium line-through">
+                                              {clause}
+                                            </span>
+                                          ))}
+                                        </div>
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
 
@@ -1278,18 +1244,21 @@ const SearchView: React.FC<SearchViewProps> = ({
                     </div>
                   ) : (
                     <div className="relative">
-                      <input
-                        ref={inputRef}
-                        type="text"
+                      <SearchAutocomplete
+                        inputRef={inputRef}
                         value={inputValue}
-                        onChange={(e) => setInputValue(e.target.value)}
+                        onChange={setInputValue}
+                        chips={entityChips}
+                        onChipsChange={setEntityChips}
+                        recentSearches={recentSearches}
+                        savedSearches={savedSearches}
+                        candidates={candidates}
                         placeholder={searchMethods.find(m => m.id === activeSearchMethod)?.placeholder}
-                        className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-gray-900 placeholder-gray-500"
                         disabled={isProcessing}
                       />
                       <button
                         type="submit"
-                        disabled={!inputValue.trim() || isProcessing}
+                        disabled={(!inputValue.trim() && entityChips.length === 0) || isProcessing}
                         className="absolute right-3 top-1/2 transform -translate-y-1/2 p-2 text-gray-400 hover:text-gray-600 disabled:opacity-50"
                       >
                         {isProcessing ? (
@@ -1309,13 +1278,27 @@ const SearchView: React.FC<SearchViewProps> = ({
           </div>
         ) : (
           /* Results View */
-          <CandidateTable
-            matches={currentMatches}
-            onBack={() => setShowResults(false)}
-            onEditFilters={() => setShowFilterModal(true)}
-            currentFilters={currentFilters}
-            currentProject={currentProject}
-          />
+          <div className="flex-1 flex min-h-0">
+            <FacetSidebar
+              matches={currentMatches}
+              selections={facetSelections}
+              onToggle={(key, value) => setFacetSelections(prev => toggleFacetValue(prev, key, value))}
+              onClear={() => setFacetSelections({})}
+              filteredCount={facetedMatches.length}
+            />
+            <CandidateTable
+              matches={facetedMatches}
+              onBack={() => setShowResults(false)}
+              onEditFilters={() => setShowFilterModal(true)}
+              currentFilters={currentFilters}
+              currentProject={currentProject}
+              onFindSimilar={handleFindSimilar}
+              feedbackVotes={feedbackVotes}
+              onFeedback={handleFeedback}
+              onCandidatesImported={onCandidatesImported}
+              onCandidateUpdated={handleCandidateUpdated}
+            />
+          </div>
         )}
       </div>
 
@@ -9,6 +9,8 @@ interface ShortlistModalProps {
   candidateIds: string[];
   onSuccess: () => void;
   currentProject?: Project | null;
+  jobPostingId?: string; // set when shortlisting matches for a job posting
+  sourceContext?: string; // recorded on shortlists created from this modal
 }
 
 interface Shortlist {
@@ -24,7 +26,9 @@ const ShortlistModal: React.FC<ShortlistModalProps> = ({
   onClose,
   candidateIds,
   onSuccess,
-  currentProject
+  currentProject,
+  jobPostingId,
+  sourceContext
 }) => {
   const { user } = useContext(AuthContext);
   const [shortlists, setShortlists] = useState<Shortlist[]>([]);
@@ -69,7 +73,8 @@ const ShortlistModal: React.FC<ShortlistModalProps> = ({
         user_id: user.id,
         project_id: currentProject.id,
         name: newShortlistName.trim(),
-        description: newShortlistDescription.trim() || undefined
+        description: newShortlistDescription.trim() || undefined,
+        source_context: sourceContext
       };
 
       const { data: newShortlist, error } = await createShortlist(shortlistData);
@@ -80,9 +85,9 @@ const ShortlistModal: React.FC<ShortlistModalProps> = ({
 
       // Add candidates to the new shortlist
       if (candidateIds.length === 1) {
-        await addCandidateToShortlist(newShortlist.id, candidateIds[0]);
+        await addCandidateToShortlist(newShortlist.id, candidateIds[0], undefined, jobPostingId);
       } else {
-        await bulkAddCandidatesToShortlist(newShortlist.id, candidateIds);
+        await bulkAddCandidatesToShortlist(newShortlist.id, candidateIds, undefined, jobPostingId);
       }
 
       console.log('✅ Shortlist created and candidates added');
@@ -100,13 +105,13 @@ const ShortlistModal: React.FC<ShortlistModalProps> = ({
     setAdding(true);
     try {
       if (candidateIds.length === 1) {
-        const { error } = await addCandidateToShortlist(shortlistId, candidateIds[0]);
+        const { error } = await addCandidateToShortlist(shortlistId, candidateIds[0], undefined, jobPostingId);
         if (error) {
           console.error('❌ Error adding candidate to shortlist:', error);
           return;
         }
       } else {
-        const { error } = await bulkAddCandidatesToShortlist(shortlistId, candidateIds);
+        const { error } = await bulkAddCandidatesToShortlist(shortlistId, candidateIds, undefined, jobPostingId);
         if (error) {
           console.error('❌ Error bulk adding candidates to shortlist:', error);
           return;
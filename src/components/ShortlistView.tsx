@@ -1,12 +1,30 @@
 import React, { useState, useEffect, useContext } from 'react';
-import { Bookmark, Users, Calendar, MapPin, Clock, Star, Mail, Phone, Plus, Trash2, Edit, Search, Filter, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Bookmark, Users, Calendar, MapPin, Clock, Star, Mail, Phone, Plus, Trash2, Edit, Search, Filter, ChevronDown, ChevronUp, X, AlertTriangle } from 'lucide-react';
 import { AuthContext } from './AuthWrapper';
 import { Project, getShortlists, getCandidates } from '../lib/supabase';
 import { convertDatabaseCandidatesToCandidates } from '../utils/dataConverters';
+import { getCredentialAlerts } from '../utils/credentials';
 import { Candidate } from '../types';
+import CandidateExchangeActions from './CandidateExchangeActions';
+import CandidateProfileEditor from './CandidateProfileEditor';
+import CandidateCredentials from './CandidateCredentials';
+
+// "ACLS expired", "2 credentials expiring": the flag on a shortlisted candidate's card
+const getCredentialFlag = (candidate: Candidate) => {
+  const alerts = getCredentialAlerts(candidate);
+  if (alerts.length === 0) return null;
+  const expired = alerts.some(alert => alert.status === 'expired');
+  const text = alerts.length === 1
+    ? `${alerts[0].label} ${expired ? 'expired' : 'expiring'}`
+    : `${alerts.length} credentials ${expired ? 'expired or expiring' : 'expiring'}`;
+  return { text, expired };
+};
 
 interface ShortlistViewProps {
   currentProject?: Project | null;
+  onFindSimilar?: (candidate: Candidate) => void;
+  onCandidatesImported?: () => void; // reload the project's candidates after an import
+  onCandidateUpdated?: () => void; // reload the project's candidates after an edit
 }
 
 interface ShortlistWithCandidates {
@@ -17,7 +35,7 @@ interface ShortlistWithCandidates {
   candidates: Candidate[];
 }
 
-const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
+const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject, onFindSimilar, onCandidatesImported, onCandidateUpdated }) => {
   const { user } = useContext(AuthContext);
   const [shortlists, setShortlists] = useState<ShortlistWithCandidates[]>([]);
   const [loading, setLoading] = useState(true);
@@ -214,6 +232,17 @@ const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
                           </div>
                           
                           <div className="flex items-center gap-2">
+                            <CandidateExchangeActions
+                              candidates={shortlist.candidates}
+                              currentProject={currentProject}
+                              fileName={`${shortlist.name.replace(/[^\w-]+/g, '-').toLowerCase()}-shortlist`}
+                              shortlistId={shortlist.id}
+                              menuPlacement="below"
+                              onImported={() => {
+                                loadShortlists();
+                                onCandidatesImported?.();
+                              }}
+                            />
                             <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
                               <Edit className="w-4 h-4" />
                             </button>
@@ -263,6 +292,15 @@ const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
                                       <p className="text-sm text-purple-600 font-medium truncate">
                                         {candidate.jobTitle}
                                       </p>
+                                      {(() => {
+                                        const flag = getCredentialFlag(candidate);
+                                        return flag && (
+                                          <div className={`flex items-center gap-1 text-xs font-medium mt-1 ${flag.expired ? 'text-red-600' : 'text-amber-600'}`}>
+                                            <AlertTriangle className="w-3 h-3" />
+                                            {flag.text}
+                                          </div>
+                                        );
+                                      })()}
                                       <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
                                         <MapPin className="w-3 h-3" />
                                         {candidate.location}
@@ -335,6 +373,19 @@ const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
 
           {/* Detail Content */}
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* Edit & History */}
+            <CandidateProfileEditor
+              candidate={selectedCandidateForDetail}
+              onUpdated={(candidate) => {
+                setSelectedCandidateForDetail(candidate);
+                setShortlists(shortlists.map(shortlist => ({
+                  ...shortlist,
+                  candidates: shortlist.candidates.map(c => (c.id === candidate.id ? candidate : c))
+                })));
+                onCandidateUpdated?.();
+              }}
+            />
+
             {/* Contact Information */}
             <div>
               <h5 className="font-semibold text-gray-900 mb-3">Contact Information</h5>
@@ -381,6 +432,7 @@ const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
               </div>
             )}
 
+            <CandidateCredentials candidate={selectedCandidateForDetail} />
             {/* Status */}
             <div>
               <h5 className="font-semibold text-gray-900 mb-3">Status</h5>
@@ -402,6 +454,15 @@ const ShortlistView: React.FC<ShortlistViewProps> = ({ currentProject }) => {
           {/* Detail Actions */}
           <div className="p-6 border-t border-gray-200">
             <div className="space-y-3">
+              {onFindSimilar && (
+                <button
+                  onClick={() => onFindSimilar(selectedCandidateForDetail)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Users className="w-4 h-4" />
+                  More like this
+                </button>
+              )}
               <button className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors">
                 <Mail className="w-4 h-4" />
                 Add to Sequence
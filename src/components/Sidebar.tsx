@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { Search, Bookmark, Sparkles, ChevronLeft, ChevronRight, LogOut, User, FileText, Briefcase, Building, Cpu, Bot } from 'lucide-react';
+import { Search, Bookmark, Sparkles, ChevronLeft, ChevronRight, LogOut, User, FileText, Briefcase, Building, Cpu, Bot, Copy, Bell, BellOff, Trash2, X, Upload } from 'lucide-react';
 import { AuthContext } from './AuthWrapper';
-import { Project } from '../lib/supabase';
+import { Project, SavedSearch } from '../lib/supabase';
+import { SavedSearchDigest } from '../utils/savedSearches';
 import DocumentationModal from './DocumentationModal';
 import AISettingsModal from './AISettingsModal';
 
@@ -17,6 +18,12 @@ interface SidebarProps {
   user?: any;
   onSignOut?: () => void;
   onRecentSearchClick?: (search: string) => void;
+  savedSearches?: SavedSearch[];
+  savedSearchDigest?: SavedSearchDigest | null;
+  onSavedSearchClick?: (savedSearch: SavedSearch) => void;
+  onToggleSavedSearchDigest?: (savedSearch: SavedSearch) => void;
+  onDeleteSavedSearch?: (savedSearch: SavedSearch) => void;
+  onDismissDigest?: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -27,19 +34,28 @@ const Sidebar: React.FC<SidebarProps> = ({
   onToggleCollapse,
   isCreatingCampaign = false,
   currentProject,
+  onProjectChange,
   user,
   onSignOut,
-  onRecentSearchClick
+  onRecentSearchClick,
+  savedSearches = [],
+  savedSearchDigest,
+  onSavedSearchClick,
+  onToggleSavedSearchDigest,
+  onDeleteSavedSearch,
+  onDismissDigest
 }) => {
   const [showDocumentation, setShowDocumentation] = useState(false);
   const [showAISettings, setShowAISettings] = useState(false);
 
+  const totalNewMatches = savedSearches.reduce((sum, savedSearch) => sum + (savedSearch.new_match_ids?.length || 0), 0);
+
   const menuItems = [
     { 
       id: 'search', 
       icon: Search, 
       label: 'Search', 
-      badge: null,
+      badge: totalNewMatches > 0 ? `${totalNewMatches} new` : null,
       description: 'Find candidates with AI-powered search'
     },
     { 
@@ -63,6 +79,20 @@ const Sidebar: React.FC<SidebarProps> = ({
       badge: null,
       description: 'Manage job postings and requirements'
     },
+    { 
+      id: 'duplicates', 
+      icon: Copy, 
+      label: 'Duplicates', 
+      badge: null,
+      description: 'Review and merge duplicate candidates'
+    },
+    { 
+      id: 'import', 
+      icon: Upload, 
+      label: 'Import', 
+      badge: null,
+      description: 'Import candidates from CSV or Excel'
+    },
     { 
       id: 'company-branding', 
       icon: Building, 
@@ -98,6 +128,14 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const handleSavedSearchClick = (savedSearch: SavedSearch) => {
+    if (onSavedSearchClick) {
+      console.log('🔖 Sidebar: Saved search clicked:', savedSearch.name);
+      onViewChange('search');
+      onSavedSearchClick(savedSearch);
+    }
+  };
+
   const shouldCollapse = isCollapsed || isCreatingCampaign;
 
   return (
@@ -242,6 +280,85 @@ const Sidebar: React.FC<SidebarProps> = ({
             </button>
           </div>
 
+          {/* Daily Digest */}
+          {!shouldCollapse && savedSearchDigest && (
+            <div className="mx-4 mt-4 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-purple-800">
+                  <Bell className="w-4 h-4" />
+                  Daily digest
+                </div>
+                {onDismissDigest && (
+                  <button onClick={onDismissDigest} className="p-0.5 hover:bg-purple-100 rounded" title="Dismiss until tomorrow">
+                    <X className="w-3 h-3 text-purple-600" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-purple-700 mb-1">
+                {savedSearchDigest.totalNewMatches} new matches across {savedSearchDigest.searches.length} saved search{savedSearchDigest.searches.length === 1 ? '' : 'es'}
+              </p>
+              <ul className="space-y-0.5">
+                {savedSearchDigest.searches.map(search => (
+                  <li key={search.id} className="text-xs text-purple-700 truncate">
+                    {search.name}: {search.newMatches} new
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Saved Searches */}
+          {!shouldCollapse && savedSearches.length > 0 && (
+            <div className="p-4 border-t border-gray-100 mt-4">
+              <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
+                Saved Searches
+              </h3>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {savedSearches.map(savedSearch => (
+                  <div key={savedSearch.id} className="flex items-center gap-1 group">
+                    <button
+                      onClick={() => handleSavedSearchClick(savedSearch)}
+                      className="flex-1 min-w-0 text-left px-2 py-1.5 text-sm text-gray-600 hover:bg-purple-50 hover:text-purple-700 rounded transition-colors"
+                      title={savedSearch.query}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Bookmark className="w-3 h-3 text-gray-400 group-hover:text-purple-600 flex-shrink-0" />
+                        <span className="truncate flex-1">{savedSearch.name}</span>
+                        {savedSearch.new_match_ids?.length > 0 && (
+                          <span className="px-1.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 flex-shrink-0">
+                            {savedSearch.new_match_ids.length} new
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                    {onToggleSavedSearchDigest && (
+                      <button
+                        onClick={() => onToggleSavedSearchDigest(savedSearch)}
+                        className="p-1 rounded hover:bg-gray-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title={savedSearch.digest_enabled ? 'Remove from daily digest' : 'Include in daily digest'}
+                      >
+                        {savedSearch.digest_enabled ? (
+                          <Bell className="w-3 h-3 text-purple-600" />
+                        ) : (
+                          <BellOff className="w-3 h-3 text-gray-400" />
+                        )}
+                      </button>
+                    )}
+                    {onDeleteSavedSearch && (
+                      <button
+                        onClick={() => onDeleteSavedSearch(savedSearch)}
+                        className="p-1 rounded hover:bg-gray-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Delete saved search"
+                      >
+                        <Trash2 className="w-3 h-3 text-gray-400" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recent Searches */}
           {!shouldCollapse && recentSearches.length > 0 && (
             <div className="p-4 border-t border-gray-100 mt-4">
@@ -340,6 +457,8 @@ const Sidebar: React.FC<SidebarProps> = ({
       <AISettingsModal
         isOpen={showAISettings}
         onClose={() => setShowAISettings(false)}
+        currentProject={currentProject}
+        onProjectChange={onProjectChange}
       />
     </>
   );
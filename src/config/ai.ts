@@ -56,9 +56,20 @@ export const AI_TASK_MODELS = {
   jobExtraction: 'gpt-4o-mini',
   companyBranding: 'gpt-4o',
   campaignNaming: 'gpt-4o-mini',
-  collateralExtraction: 'gpt-4o'
+  collateralExtraction: 'gpt-4o',
+  resumeParsing: 'gpt-4o'
 } as const;
 
+// How search queries are turned into criteria: by the model, or offline by the rule-based extractor
+export type EntityExtractionMode = 'ai' | 'rules';
+
+export const ENTITY_EXTRACTION_MODES: Record<EntityExtractionMode, { label: string; description: string }> = {
+  ai: { label: 'AI', description: 'The entity extraction model reads the query; the rule-based extractor is used if the call fails' },
+  rules: { label: 'Rule-based (offline)', description: 'A grammar for titles, credentials, locations, experience ranges and negations; no AI calls' }
+};
+
+let entityExtractionMode: EntityExtractionMode = 'ai';
+
 // Configurable prompts for different AI tasks
 export const AI_PROMPTS: Record<string, AIPromptConfig> = {
   entityExtraction: {
@@ -85,7 +96,8 @@ IMPORTANT RULES:
 2. For locations, expand abbreviations and include variations
 3. For experience, extract years mentioned
 4. For skills, include both technical and soft skills, specializations
-5. Be comprehensive but accurate - expand related terms but don't hallucinate`
+5. Be comprehensive but accurate - expand related terms but don't hallucinate
+6. Queries may be in Spanish (e.g. "enfermera registrada en Miami con 5 años"); always return entity values in English, using standard US healthcare terms`
   },
 
   jobTitleExpansion: {
@@ -117,9 +129,19 @@ Return your response as a JSON object with this exact structure:
 {
   "score": number (0-100),
   "reasons": ["array of specific reasons why this candidate matches or doesn't match"],
-  "category": "excellent" | "good" | "potential"
+  "category": "excellent" | "good" | "potential",
+  "breakdown": [
+    {
+      "criterion": "title" | "location" | "experience" | "skills" | "industry" | "education",
+      "status": "matched" | "partial" | "missing" | "not-specified",
+      "points": number (0 up to the criterion weight),
+      "detail": "one short sentence comparing the candidate to this criterion"
+    }
+  ]
 }
 
+Include one breakdown entry for each of the six criteria. Use "not-specified" when the search does not ask for that criterion.
+
 SCORING GUIDELINES:
 - 90-100: Excellent match (meets all or most key criteria perfectly)
 - 70-89: Good match (meets most criteria with minor gaps)
@@ -131,7 +153,9 @@ WEIGHTING:
 1. Job title alignment (40% weight)
 2. Location match (25% weight)
 3. Experience level (20% weight)
-4. Skills and specializations (15% weight)`
+4. Skills and specializations (15% weight)
+5. Industry (up to 10 points)
+6. Education (up to 5 points, only when requested)`
   },
 
   campaignGeneration: {
@@ -338,6 +362,44 @@ Return a JSON array with this structure:
     category: 'Campaigns',
     description: 'Generate concise, professional campaign names',
     system: `Generate a concise, professional campaign name (3-6 words) based on the campaign parameters. Make it descriptive and actionable.`
+  },
+
+  resumeParsing: {
+    category: 'Candidates',
+    description: 'Parse resume text into a structured candidate profile',
+    system: `You are an expert healthcare recruiter reading the text extracted from a candidate's resume (PDF or DOCX). The text may have broken line wraps, page headers and columns read out of order.
+
+Respond with ONLY a valid JSON object with this exact structure:
+
+{
+  "name": "Full name, without credentials such as RN or BSN",
+  "email": "email address or null",
+  "phone": "phone number as written or null",
+  "location": "City, ST of the candidate's current address or null",
+  "links": ["LinkedIn or portfolio URLs"],
+  "summary": "the candidate's own summary or objective, or null",
+  "experience": [
+    {
+      "title": "Job title",
+      "employer": "Employer name or null",
+      "location": "City, ST or null",
+      "startDate": "YYYY-MM or null",
+      "endDate": "YYYY-MM, or null when current",
+      "current": true or false
+    }
+  ],
+  "skills": ["clinical specialties, units and skills"],
+  "certifications": ["each license or certification as written, with its state, number, issuer and expiry date when given, e.g. BLS, ACLS (American Heart Association) exp. 03/2027, RN License (TX) #123456 compact, expires 05/2027"],
+  "education": [
+    { "degree": "Degree, e.g. BSN or Associate Degree in Nursing", "institution": "School or null", "year": "YYYY or null" }
+  ]
+}
+
+RULES:
+1. Only use information present in the text; never invent employers, dates or credentials
+2. List experience most recent first; use "YYYY-01" when only the year is given
+3. Use standard US healthcare terms for titles, units and certifications (ICU, Med-Surg, BLS, ACLS)
+4. Return empty arrays rather than omitting fields`
   }
 };
 
@@ -358,6 +420,15 @@ export function updateTaskModel(task: keyof typeof AI_TASK_MODELS, modelKey: key
   console.log(`🔧 Updated ${task} to use ${modelKey}`);
 }
 
+export function getEntityExtractionMode(): EntityExtractionMode {
+  return entityExtractionMode;
+}
+
+export function setEntityExtractionMode(mode: EntityExtractionMode): void {
+  entityExtractionMode = mode;
+  console.log(`🔧 Entity extraction now uses ${ENTITY_EXTRACTION_MODES[mode].label}`);
+}
+
 // Function to update prompt for a task
 export function updatePrompt(task: keyof typeof AI_PROMPTS, newPrompt: Partial<AIPromptConfig>): void {
   AI_PROMPTS[task] = { ...AI_PROMPTS[task], ...newPrompt };
@@ -0,0 +1,42 @@
+import { MatchCriterion, RankingPipelineConfig } from '../types';
+import { Project } from '../lib/supabase';
+
+// Default ranking pipeline used when a project has no ranking settings of its own
+export const DEFAULT_RANKING_PIPELINE: RankingPipelineConfig = {
+  stages: [
+    { id: 'hardFilters', enabled: true },
+    { id: 'keyword', enabled: false },
+    { id: 'semantic', enabled: true },
+    { id: 'aiRerank', enabled: true, budget: 20 },
+    { id: 'semanticBoost', enabled: true, weight: 10 },
+    { id: 'proximity', enabled: true, weight: 10 },
+    { id: 'recency', enabled: true, weight: 5 },
+    { id: 'availability', enabled: true, weight: 5 }
+  ]
+};
+
+// Maximum points per criterion in a match breakdown; mirrors the WEIGHTING section of the candidateMatching prompt
+export const MATCH_CRITERION_WEIGHTS: Record<MatchCriterion, number> = {
+  title: 40,
+  location: 25,
+  experience: 20,
+  skills: 15,
+  industry: 10,
+  education: 5
+};
+
+export const MATCH_CRITERIA = Object.keys(MATCH_CRITERION_WEIGHTS) as MatchCriterion[];
+
+// Upper bound for the AI rerank budget, to keep a misconfigured project from scoring thousands of candidates
+export const MAX_AI_RERANK_BUDGET = 200;
+
+/**
+ * Returns the ranking pipeline configured for a project, falling back to the defaults
+ */
+export function getProjectRankingConfig(projectSettings?: Project['settings']): RankingPipelineConfig {
+  const ranking = projectSettings?.ranking;
+  if (!ranking || !Array.isArray(ranking.stages) || ranking.stages.length === 0) {
+    return DEFAULT_RANKING_PIPELINE;
+  }
+  return { stages: ranking.stages };
+}
@@ -0,0 +1,97 @@
+import { Taxonomy } from '../types';
+
+// Base healthcare taxonomy. Bump the version whenever entries or synonyms change so saved
+// project extensions can tell which base they were written against.
+export const HEALTHCARE_TAXONOMY: Taxonomy = {
+  version: '2025.1',
+  entries: [
+    // Job titles
+    { id: 'registered-nurse', category: 'title', label: 'Registered Nurse', synonyms: ['RN', 'Staff Nurse', 'Bedside Nurse', 'Clinical Nurse', 'Floor Nurse'] },
+    { id: 'licensed-practical-nurse', category: 'title', label: 'Licensed Practical Nurse', synonyms: ['LPN', 'Licensed Vocational Nurse', 'LVN'] },
+    { id: 'certified-nursing-assistant', category: 'title', label: 'Certified Nursing Assistant', synonyms: ['CNA', 'Nursing Assistant', 'Nurse Aide', 'Patient Care Technician', 'PCT'] },
+    { id: 'nurse-practitioner', category: 'title', label: 'Nurse Practitioner', synonyms: ['NP', 'APRN', 'Advanced Practice Registered Nurse', 'Family Nurse Practitioner', 'FNP'] },
+    { id: 'clinical-nurse-specialist', category: 'title', label: 'Clinical Nurse Specialist', synonyms: ['CNS'] },
+    { id: 'nurse-manager', category: 'title', label: 'Nurse Manager', synonyms: ['Charge Nurse', 'Nursing Supervisor', 'Unit Manager', 'Clinical Manager'] },
+    { id: 'director-of-nursing', category: 'title', label: 'Director of Nursing', synonyms: ['DON', 'Nursing Director', 'Chief Nursing Officer', 'CNO'] },
+    { id: 'travel-nurse', category: 'title', label: 'Travel Nurse', synonyms: ['Traveling Nurse', 'Travel RN', 'Agency Nurse'], related: ['registered-nurse'] },
+    { id: 'physician-assistant', category: 'title', label: 'Physician Assistant', synonyms: ['PA', 'PA-C', 'Physician Associate'] },
+    { id: 'medical-assistant', category: 'title', label: 'Medical Assistant', synonyms: ['MA', 'Clinical Assistant', 'CMA', 'Certified Medical Assistant'] },
+    { id: 'physical-therapist', category: 'title', label: 'Physical Therapist', synonyms: ['PT', 'Physiotherapist', 'DPT'] },
+    { id: 'occupational-therapist', category: 'title', label: 'Occupational Therapist', synonyms: ['OT', 'OTR', 'OTR/L'] },
+    { id: 'respiratory-therapist', category: 'title', label: 'Respiratory Therapist', synonyms: ['RT', 'RRT', 'Respiratory Care Practitioner'] },
+    { id: 'speech-language-pathologist', category: 'title', label: 'Speech-Language Pathologist', synonyms: ['SLP', 'Speech Therapist'] },
+    { id: 'pharmacist', category: 'title', label: 'Pharmacist', synonyms: ['PharmD', 'Clinical Pharmacist', 'Hospital Pharmacist'] },
+    { id: 'pharmacy-technician', category: 'title', label: 'Pharmacy Technician', synonyms: ['Pharmacy Tech', 'CPhT'] },
+    { id: 'surgical-technologist', category: 'title', label: 'Surgical Technologist', synonyms: ['Surgical Tech', 'Scrub Tech', 'OR Tech', 'Operating Room Technician'] },
+    { id: 'radiologic-technologist', category: 'title', label: 'Radiologic Technologist', synonyms: ['Radiology Tech', 'X-Ray Technician', 'Rad Tech', 'Medical Imaging Technologist'] },
+    { id: 'laboratory-technician', category: 'title', label: 'Medical Laboratory Technician', synonyms: ['Lab Tech', 'MLT', 'Clinical Lab Technician', 'Medical Technologist', 'MT'] },
+    { id: 'phlebotomist', category: 'title', label: 'Phlebotomist', synonyms: ['Phlebotomy Technician', 'CPT-1'] },
+    { id: 'paramedic', category: 'title', label: 'Paramedic', synonyms: ['EMT-P', 'Emergency Medical Technician', 'EMT'] },
+    { id: 'social-worker', category: 'title', label: 'Social Worker', synonyms: ['Medical Social Worker', 'Clinical Social Worker', 'LCSW', 'MSW'] },
+    { id: 'case-manager', category: 'title', label: 'Case Manager', synonyms: ['Care Coordinator', 'Patient Care Coordinator', 'Discharge Planner', 'Care Manager'] },
+    { id: 'healthcare-administrator', category: 'title', label: 'Healthcare Administrator', synonyms: ['Hospital Administrator', 'Medical Administrator', 'Healthcare Manager', 'Practice Manager'] },
+
+    // Specialties
+    { id: 'critical-care', category: 'specialty', label: 'Critical Care', synonyms: ['Intensive Care', 'ICU Nursing', 'Critical Care Nursing'] },
+    { id: 'emergency-medicine', category: 'specialty', label: 'Emergency Medicine', synonyms: ['Emergency Nursing', 'Emergency Care', 'Trauma Care', 'Trauma'] },
+    { id: 'pediatrics', category: 'specialty', label: 'Pediatrics', synonyms: ['Pediatric Care', 'Pediatric Nursing', 'Peds', 'Child Healthcare'] },
+    { id: 'neonatal', category: 'specialty', label: 'Neonatal Care', synonyms: ['Neonatal Nursing', 'Neonatology'] },
+    { id: 'oncology', category: 'specialty', label: 'Oncology', synonyms: ['Cancer Care', 'Oncology Nursing', 'Chemotherapy', 'Hematology/Oncology'] },
+    { id: 'cardiology', category: 'specialty', label: 'Cardiac Care', synonyms: ['Cardiology', 'Cardiac Nursing', 'Cardiovascular'] },
+    { id: 'perioperative', category: 'specialty', label: 'Perioperative Care', synonyms: ['Surgical', 'Surgery', 'Periop', 'Surgical Nursing'] },
+    { id: 'labor-delivery', category: 'specialty', label: 'Labor and Delivery', synonyms: ['L&D', 'Obstetrics', 'OB', 'Maternity', 'Women\'s Health'] },
+    { id: 'geriatrics', category: 'specialty', label: 'Geriatric Care', synonyms: ['Geriatrics', 'Gerontology', 'Elder Care', 'Long-Term Care'] },
+    { id: 'behavioral-health', category: 'specialty', label: 'Behavioral Health', synonyms: ['Mental Health', 'Psychiatric Nursing', 'Psych', 'Psychiatry'] },
+    { id: 'home-health', category: 'specialty', label: 'Home Health', synonyms: ['Home Care', 'Home Health Care', 'Visiting Nurse'] },
+    { id: 'hospice', category: 'specialty', label: 'Hospice and Palliative Care', synonyms: ['Hospice', 'Palliative Care', 'End-of-Life Care'] },
+    { id: 'dialysis', category: 'specialty', label: 'Dialysis', synonyms: ['Nephrology', 'Renal Care', 'Hemodialysis'] },
+    { id: 'rehabilitation', category: 'specialty', label: 'Rehabilitation', synonyms: ['Rehab', 'Physical Rehabilitation', 'Physical Therapy', 'Occupational Therapy'] },
+    { id: 'respiratory-care', category: 'specialty', label: 'Respiratory Care', synonyms: ['Respiratory Therapy', 'Pulmonary Care', 'Ventilator Management'] },
+
+    // Units
+    { id: 'icu', category: 'unit', label: 'ICU', synonyms: ['Intensive Care Unit', 'CCU', 'Critical Care Unit', 'MICU', 'SICU', 'CVICU'], related: ['critical-care'] },
+    { id: 'nicu', category: 'unit', label: 'NICU', synonyms: ['Neonatal Intensive Care Unit', 'Neonatal ICU'], related: ['neonatal'] },
+    { id: 'picu', category: 'unit', label: 'PICU', synonyms: ['Pediatric Intensive Care Unit', 'Pediatric ICU'], related: ['pediatrics'] },
+    { id: 'emergency-department', category: 'unit', label: 'Emergency Department', synonyms: ['ED', 'ER', 'Emergency Room'], related: ['emergency-medicine'] },
+    { id: 'operating-room', category: 'unit', label: 'Operating Room', synonyms: ['OR', 'Surgical Suite', 'PACU', 'Post-Anesthesia Care Unit'], related: ['perioperative'] },
+    { id: 'med-surg', category: 'unit', label: 'Med-Surg', synonyms: ['Medical-Surgical', 'Med Surg', 'Medical Surgical'] },
+    { id: 'telemetry', category: 'unit', label: 'Telemetry', synonyms: ['Tele', 'Step-Down Unit', 'Progressive Care Unit', 'PCU'], related: ['cardiology'] },
+    { id: 'cath-lab', category: 'unit', label: 'Cath Lab', synonyms: ['Cardiac Catheterization Lab', 'Cardiac Cath Lab'], related: ['cardiology'] },
+
+    // Certifications
+    { id: 'bls', category: 'certification', label: 'BLS', synonyms: ['Basic Life Support', 'CPR', 'BLS Certification'] },
+    { id: 'acls', category: 'certification', label: 'ACLS', synonyms: ['Advanced Cardiac Life Support', 'ACLS Certification'] },
+    { id: 'pals', category: 'certification', label: 'PALS', synonyms: ['Pediatric Advanced Life Support', 'PALS Certification'] },
+    { id: 'nrp', category: 'certification', label: 'NRP', synonyms: ['Neonatal Resuscitation Program'] },
+    { id: 'tncc', category: 'certification', label: 'TNCC', synonyms: ['Trauma Nursing Core Course'] },
+    { id: 'ccrn', category: 'certification', label: 'CCRN', synonyms: ['Critical Care Registered Nurse', 'CCRN Certification'], related: ['critical-care'] },
+    { id: 'cen', category: 'certification', label: 'CEN', synonyms: ['Certified Emergency Nurse'], related: ['emergency-medicine'] },
+    { id: 'cnor', category: 'certification', label: 'CNOR', synonyms: ['Certified Perioperative Nurse'], related: ['perioperative'] },
+    { id: 'ocn', category: 'certification', label: 'OCN', synonyms: ['Oncology Certified Nurse'], related: ['oncology'] },
+    { id: 'cpn', category: 'certification', label: 'CPN', synonyms: ['Certified Pediatric Nurse'], related: ['pediatrics'] },
+    { id: 'pccn', category: 'certification', label: 'PCCN', synonyms: ['Progressive Care Certified Nurse'] },
+    { id: 'rnc-ob', category: 'certification', label: 'RNC-OB', synonyms: ['Inpatient Obstetric Nursing Certification'], related: ['labor-delivery'] },
+    { id: 'cmsrn', category: 'certification', label: 'CMSRN', synonyms: ['Certified Medical-Surgical Registered Nurse'], related: ['med-surg'] },
+    { id: 'ccm', category: 'certification', label: 'CCM', synonyms: ['Certified Case Manager'] },
+
+    // Licenses
+    { id: 'rn-license', category: 'license', label: 'RN License', synonyms: ['Registered Nurse License', 'State RN License'] },
+    { id: 'compact-license', category: 'license', label: 'Compact License', synonyms: ['Multistate License', 'NLC License', 'Nurse Licensure Compact'] },
+    { id: 'lpn-license', category: 'license', label: 'LPN License', synonyms: ['LVN License', 'Practical Nurse License'] },
+    { id: 'aprn-license', category: 'license', label: 'APRN License', synonyms: ['NP License', 'Advanced Practice License'] },
+    { id: 'pt-license', category: 'license', label: 'PT License', synonyms: ['Physical Therapy License'] },
+    { id: 'rrt-license', category: 'license', label: 'Respiratory Care License', synonyms: ['RT License'] },
+    { id: 'dea-registration', category: 'license', label: 'DEA Registration', synonyms: ['DEA License', 'DEA Number'] },
+
+    // General clinical and language skills
+    { id: 'iv-therapy', category: 'skill', label: 'IV Therapy', synonyms: ['IV Insertion', 'IV Starts', 'Intravenous Therapy', 'Venipuncture'] },
+    { id: 'ehr', category: 'skill', label: 'Electronic Health Records', synonyms: ['EHR', 'EMR', 'Epic', 'Cerner', 'Meditech', 'Medical Records'] },
+    { id: 'patient-assessment', category: 'skill', label: 'Patient Assessment', synonyms: ['Clinical Assessment', 'Patient Evaluation'] },
+    { id: 'medication-administration', category: 'skill', label: 'Medication Administration', synonyms: ['Medication Management', 'Med Pass'] },
+    { id: 'wound-care', category: 'skill', label: 'Wound Care', synonyms: ['Wound Management', 'WOCN'] },
+    { id: 'ekg', category: 'skill', label: 'EKG Interpretation', synonyms: ['ECG', 'EKG', 'Cardiac Monitoring', 'Rhythm Interpretation'] },
+    { id: 'triage', category: 'skill', label: 'Triage', synonyms: ['Patient Triage', 'ESI Triage'] },
+    { id: 'infection-control', category: 'skill', label: 'Infection Control', synonyms: ['Infection Prevention', 'Isolation Procedures'] },
+    { id: 'bilingual-spanish', category: 'skill', label: 'Bilingual Spanish', synonyms: ['Spanish', 'Spanish Language', 'Spanish Fluency', 'Bilingual'] }
+  ]
+};
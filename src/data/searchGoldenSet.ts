@@ -0,0 +1,116 @@
+import { SearchGoldenSet } from '../types';
+
+// Golden queries for the offline search evaluation (utils/searchEvaluation.ts). Judgments are
+// rules over the seeded candidates rather than hand-picked ids, so they stay valid when the
+// seeder's lists change; bump the version whenever queries, judgments or baselines change.
+// Baselines were measured in mock mode with DEFAULT_RANKING_PIPELINE.
+
+const NURSE_TITLES = [
+  'Registered Nurse', 'Clinical Nurse Specialist', 'Nurse Practitioner', 'Emergency Room Nurse', 'Licensed Practical Nurse',
+  'Charge Nurse', 'Staff Nurse', 'ICU Nurse', 'Pediatric Nurse', 'Oncology Nurse', 'Cardiac Nurse', 'Operating Room Nurse',
+  'Recovery Room Nurse', 'Home Health Nurse', 'School Nurse', 'Occupational Health Nurse', 'Infection Control Nurse',
+  'Quality Assurance Nurse', 'Nurse Educator', 'Clinical Research Nurse', 'Psychiatric Nurse', 'Geriatric Nurse',
+  'Neonatal Nurse', 'Nurse Manager'
+];
+
+const DFW_LOCATIONS = ['Dallas, TX', 'Fort Worth, TX', 'Arlington, TX'];
+
+const noEntities = { jobTitles: [], locations: [], experienceRange: {}, skills: [], industries: [] };
+
+export const SEARCH_GOLDEN_SET: SearchGoldenSet = {
+  version: '2025-10-19.3',
+  seed: 20251019,
+  candidateCount: 600,
+  k: 10,
+  tolerance: 0.05,
+  queries: [
+    {
+      id: 'icu-nurse-texas',
+      description: 'ICU nurse in Texas with critical care experience',
+      searchQuery: {
+        originalQuery: 'ICU nurse in Texas with critical care experience',
+        extractedEntities: { ...noEntities, jobTitles: ['ICU Nurse'], locations: ['Texas'], skills: ['Critical Care'] }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['ICU Nurse'], states: ['TX'] },
+        { grade: 2, jobTitles: NURSE_TITLES, skills: ['Critical Care'], states: ['TX'] }
+      ],
+      // Only five seeded candidates are relevant, so precision tops out at 0.5
+      baseline: { precisionAtK: 0.3, recall: 1, ndcg: 0.676 }
+    },
+    {
+      id: 'senior-pediatric-nurse',
+      description: 'Pediatric nurse with 5+ years',
+      searchQuery: {
+        originalQuery: 'Pediatric nurse with at least 5 years of experience',
+        extractedEntities: { ...noEntities, jobTitles: ['Pediatric Nurse'], experienceRange: { min: 5 }, skills: ['Pediatric Care'] }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['Pediatric Nurse'], minExperience: 5 },
+        { grade: 2, jobTitles: ['Neonatal Nurse', 'School Nurse'], skills: ['Pediatric Care'], minExperience: 5 },
+        { grade: 1, jobTitles: NURSE_TITLES, skills: ['Pediatric Care'], minExperience: 5 }
+      ],
+      baseline: { precisionAtK: 1, recall: 1, ndcg: 0.666 }
+    },
+    {
+      id: 'er-nurse-trauma',
+      description: 'ER nurse with trauma and triage skills',
+      searchQuery: {
+        originalQuery: 'Emergency room nurse with trauma care and triage',
+        extractedEntities: { ...noEntities, jobTitles: ['Emergency Room Nurse'], skills: ['Trauma Care', 'Triage'] }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['Emergency Room Nurse'], skills: ['Trauma Care'] },
+        { grade: 2, jobTitles: ['Emergency Room Nurse'] },
+        { grade: 1, jobTitles: NURSE_TITLES, skills: ['Trauma Care'] }
+      ],
+      baseline: { precisionAtK: 1, recall: 1, ndcg: 0.36 }
+    },
+    {
+      id: 'nurse-leader-california',
+      description: 'Nurse manager with leadership skills in California',
+      searchQuery: {
+        originalQuery: 'Nurse manager with leadership experience in California',
+        extractedEntities: { ...noEntities, jobTitles: ['Nurse Manager'], locations: ['California'], skills: ['Leadership'] }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['Nurse Manager'], states: ['CA'] },
+        { grade: 2, jobTitles: ['Director of Nursing', 'Charge Nurse', 'Nurse Manager'], skills: ['Leadership'], states: ['CA'] },
+        { grade: 1, jobTitles: NURSE_TITLES, skills: ['Leadership'], states: ['CA'] }
+      ],
+      baseline: { precisionAtK: 0.7, recall: 1, ndcg: 0.961 }
+    },
+    {
+      id: 'respiratory-therapist-dfw',
+      description: 'Respiratory therapist within 50 miles of Dallas',
+      searchQuery: {
+        originalQuery: 'Respiratory therapist within 50 miles of Dallas, TX',
+        extractedEntities: {
+          ...noEntities,
+          jobTitles: ['Respiratory Therapist'],
+          locations: ['Dallas, TX'],
+          locationRadius: { center: 'Dallas, TX', miles: 50 }
+        }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['Respiratory Therapist'], locations: DFW_LOCATIONS },
+        { grade: 1, skills: ['Respiratory Care', 'Ventilator Management'], locations: DFW_LOCATIONS }
+      ],
+      baseline: { precisionAtK: 0.2, recall: 1, ndcg: 1 }
+    },
+    {
+      id: 'oncology-nurse-chemo',
+      description: 'Oncology nurse who administers chemotherapy',
+      searchQuery: {
+        originalQuery: 'Oncology nurse with chemotherapy administration',
+        extractedEntities: { ...noEntities, jobTitles: ['Oncology Nurse'], skills: ['Chemotherapy Administration'] }
+      },
+      judgments: [
+        { grade: 3, jobTitles: ['Oncology Nurse'], skills: ['Chemotherapy Administration'] },
+        { grade: 2, jobTitles: ['Oncology Nurse'] },
+        { grade: 1, jobTitles: NURSE_TITLES, skills: ['Chemotherapy Administration'] }
+      ],
+      baseline: { precisionAtK: 1, recall: 1, ndcg: 0.42 }
+    }
+  ]
+};
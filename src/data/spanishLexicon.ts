@@ -0,0 +1,184 @@
+// Spanish search vocabulary and its English equivalent in the wording the healthcare taxonomy,
+// the city gazetteer and the rule-based extractor understand. Keys are regular expression
+// fragments matched as whole words against the query with accents removed ("años" -> "anos").
+// At any position the first entry that matches wins, so longer phrases come before the words
+// they contain.
+
+export const SPANISH_PHRASES: [string, string][] = [
+  // Job titles
+  ['enfermer[ao]s? registrad[ao]s?', 'registered nurse'],
+  ['enfermer[ao]s? practicantes?|enfermer[ao]s? de practica avanzada', 'nurse practitioner'],
+  ['enfermer[ao]s? (?:vocacional(?:es)?|practic[ao]s?) licenciad[ao]s?', 'licensed practical nurse'],
+  ['auxiliar(?:es)? de enfermeria|enfermer[ao]s? auxiliar(?:es)?|asistentes? de enfermeria', 'certified nursing assistant'],
+  ['enfermer[ao]s? (?:de viaje|itinerantes?|viajer[ao]s?)', 'travel nurse'],
+  ['enfermer[ao]s? (?:jefe|jefa) de turno|enfermer[ao]s? a cargo', 'charge nurse'],
+  ['(?:gerentes?|jef[ae]s?|supervisor[ae]s?) de enfermeria', 'nurse manager'],
+  ['director[ae]s? de enfermeria', 'director of nursing'],
+  ['enfermer[ao]s? pediatric[ao]s?', 'pediatric nurse'],
+  ['enfermer[ao]s? oncologic[ao]s?', 'oncology nurse'],
+  ['enfermer[ao]s? neonatal(?:es)?', 'neonatal nurse'],
+  ['enfermer[ao]s? geriatric[ao]s?', 'geriatric nurse'],
+  ['enfermer[ao]s? psiquiatric[ao]s?', 'psychiatric nurse'],
+  ['enfermer[ao]s? cardiac[ao]s?', 'cardiac nurse'],
+  ['enfermer[ao]s? escolar(?:es)?', 'school nurse'],
+  ['enfermer[ao]s? quirurgic[ao]s?|enfermer[ao]s? de quirofano', 'operating room nurse'],
+  ['enfermer[ao]s? de urgencias|enfermer[ao]s? de emergencias?', 'emergency room nurse'],
+  ['enfermer[ao]s? de (?:salud|atencion|cuidados?) (?:en el hogar|domiciliari[ao]s?)', 'home health nurse'],
+  ['enfermer[ao]s?', 'nurse'],
+  ['asistentes? (?:de )?medic[ao]s?', 'physician assistant'],
+  ['terapeutas? respiratori[ao]s?', 'respiratory therapist'],
+  ['fisioterapeutas?|terapeutas? fisic[ao]s?', 'physical therapist'],
+  ['terapeutas? ocupacional(?:es)?', 'occupational therapist'],
+  ['terapeutas? del habla|logopedas?|patolog[ao]s? del habla', 'speech therapist'],
+  ['farmaceutic[ao]s?', 'pharmacist'],
+  ['tecnic[ao]s? de farmacia', 'pharmacy technician'],
+  ['tecnic[ao]s? de laboratorio', 'lab tech'],
+  ['tecnic[ao]s? (?:en )?radiolog(?:ia|ic[ao]s?)|tecnolog[ao]s? radiologic[ao]s?', 'radiology tech'],
+  ['tecnic[ao]s? quirurgic[ao]s?|instrumentistas?', 'surgical tech'],
+  ['flebotomistas?', 'phlebotomist'],
+  ['paramedic[ao]s?', 'paramedic'],
+  ['trabajador(?:a|es|as)? social(?:es)?', 'social worker'],
+  ['administrador(?:a|es|as)? (?:de salud|hospitalari[ao]s?|de hospital)', 'healthcare administrator'],
+  ['gestor(?:a|es|as)? de casos', 'case manager'],
+
+  // Units and specialties
+  ['UCIN', 'NICU'],
+  ['UCIP|UCI pediatrica', 'PICU'],
+  ['UCI|unidad de cuidados intensivos', 'ICU'],
+  ['cuidados (?:intensivos|criticos)', 'critical care'],
+  ['sala de (?:urgencias|emergencias)|urgencias|emergencias', 'emergency room'],
+  ['quirofano', 'operating room'],
+  ['medicina quirurgica|medico[- ]quirurgic[ao]', 'med-surg'],
+  ['telemetria', 'telemetry'],
+  ['trabajo de parto y parto|sala de partos|partos', 'labor and delivery'],
+  ['pediatria', 'pediatrics'],
+  ['neonatologia', 'neonatology'],
+  ['oncologia', 'oncology'],
+  ['cardiologia', 'cardiology'],
+  ['geriatria', 'geriatrics'],
+  ['salud mental|psiquiatria', 'behavioral health'],
+  ['(?:salud|atencion|cuidados?) (?:en el hogar|domiciliari[ao]s?)', 'home health'],
+  ['cuidados paliativos', 'palliative care'],
+  ['rehabilitacion', 'rehabilitation'],
+  ['dialisis', 'dialysis'],
+  ['(?:cuidados? a|atencion a) largo plazo|residencias? de ancianos|hogar(?:es)? de ancianos', 'long-term care'],
+  ['(?:sector de la |sector )?salud|atencion medica', 'healthcare'],
+  ['hospitales', 'hospitals'],
+  ['clinicas?', 'clinic'],
+
+  // Skills and credentials
+  ['administracion de quimioterapia', 'chemotherapy administration'],
+  ['quimioterapia', 'chemotherapy'],
+  ['manejo de ventiladores|ventilacion mecanica', 'ventilator management'],
+  ['cuidado de heridas|curacion de heridas', 'wound care'],
+  ['terapia intravenosa|terapia IV', 'IV therapy'],
+  ['administracion de medicamentos', 'medication administration'],
+  ['evaluacion del paciente|valoracion del paciente', 'patient assessment'],
+  ['interpretacion de (?:EKG|ECG|electrocardiogramas?)', 'EKG interpretation'],
+  ['control de infecciones', 'infection control'],
+  ['registros? (?:medicos )?electronicos?', 'electronic health records'],
+  ['triaje', 'triage'],
+  ['liderazgo', 'leadership'],
+  ['bilingues?', 'bilingual'],
+  ['espanol', 'Spanish'],
+  ['ingles', 'English'],
+  ['licencia compacta (?:activa|vigente)|licencia (?:activa|vigente) compacta', 'active compact license'],
+  ['licencia compacta', 'compact license'],
+  ['licencia (?:activa|vigente)', 'active license'],
+  ['(?:vigente|valid[ao]) hasta', 'valid through'],
+  ['licencia de (?:RN|enfermeria)', 'RN license'],
+  ['certificad[ao]s? en', 'certified in'],
+  ['certificad[ao]s?', 'certified'],
+  ['certificacion(?:es)?', 'certification'],
+  ['licencias?', 'license'],
+
+  // Education
+  ['licenciatura en enfermeria', 'BSN'],
+  ['maestria en enfermeria', 'MSN'],
+  ['maestria', "master's"],
+  ['licenciatura', "bachelor's"],
+  ['(?:grado|titulo) (?:asociado|tecnico)', 'associate degree'],
+
+  // Places whose Spanish name differs from the English one
+  ['Nueva York', 'New York'],
+  ['Nueva Jersey', 'New Jersey'],
+  ['Nuevo Mexico', 'New Mexico'],
+  ['Nueva Orleans', 'New Orleans'],
+  ['Carolina del Norte', 'North Carolina'],
+  ['Carolina del Sur', 'South Carolina'],
+  ['Dakota del Norte', 'North Dakota'],
+  ['Dakota del Sur', 'South Dakota'],
+  ['Virginia Occidental', 'West Virginia'],
+  ['Pensilvania', 'Pennsylvania'],
+  ['Luisiana', 'Louisiana'],
+  ['Misuri', 'Missouri'],
+  ['Hawai', 'Hawaii'],
+  ['Filadelfia', 'Philadelphia'],
+  ['Washington D\\.? ?C', 'Washington, DC'],
+
+  // Experience, seniority and availability
+  ['anos de experiencia', 'years of experience'],
+  ['ano de experiencia', 'year of experience'],
+  ['anos', 'years'],
+  ['ano', 'year'],
+  ['con experiencia', 'experienced'],
+  ['experiencia', 'experience'],
+  ['recien graduad[ao]s?|nuev[ao]s? graduad[ao]s?', 'new grad'],
+  ['nivel de entrada|sin experiencia previa', 'entry level'],
+  ['disponibles? (?:de )?inmediat[ao]|disponibilidad inmediata', 'available now'],
+  ['disponibles?', 'available'],
+  ['tiempo completo', 'full time'],
+  ['medio tiempo|tiempo parcial', 'part time'],
+  ['turno de noche|turno nocturno', 'night shift'],
+  ['turno de dia|turno diurno', 'day shift'],
+
+  // Grammar the extractors key on
+  ['al menos|por lo menos|como minimo', 'at least'],
+  ['minimo de|minimo', 'minimum'],
+  ['como maximo|maximo de|maximo', 'at most'],
+  ['mas de', 'more than'],
+  ['menos de', 'less than'],
+  ['hasta', 'up to'],
+  ['entre', 'between'],
+  ['a menos de|dentro de|en un radio de', 'within'],
+  ['cerca de', 'near'],
+  ['alrededor de', 'around'],
+  ['millas', 'miles'],
+  ['milla', 'mile'],
+  ['excepto|salvo|menos', 'except'],
+  ['excluyendo', 'excluding'],
+  ['sin', 'without'],
+  ['con', 'with'],
+  ['para', 'for'],
+  ['que', 'who'],
+  ['en', 'in'],
+  ['del', 'of the'],
+  ['de', 'of'],
+  ['y', 'and'],
+  ['o', 'or'],
+  ['no', 'not'],
+  ['busco|buscamos|se busca|buscando|necesito|necesitamos', 'looking for'],
+  ['por favor', 'please'],
+
+  // Number words
+  ['un[ao]?', 'one'],
+  ['dos', 'two'],
+  ['tres', 'three'],
+  ['cuatro', 'four'],
+  ['cinco', 'five'],
+  ['seis', 'six'],
+  ['siete', 'seven'],
+  ['ocho', 'eight'],
+  ['nueve', 'nine'],
+  ['diez', 'ten'],
+  ['quince', 'fifteen'],
+  ['veinte', 'twenty']
+];
+
+// Words that are common in Spanish queries and rare in English ones (accents removed)
+export const SPANISH_MARKERS = [
+  'con', 'en', 'de', 'del', 'y', 'para', 'sin', 'anos', 'ano', 'experiencia', 'enfermera', 'enfermero',
+  'enfermeras', 'enfermeros', 'cerca', 'millas', 'mas', 'menos', 'entre', 'hasta', 'excepto', 'terapeuta',
+  'tecnico', 'tecnica', 'medico', 'medica', 'busco', 'necesito', 'que', 'al', 'registrada', 'registrado',
+  'urgencias', 'disponible', 'licencia', 'certificada', 'certificado'
+];
@@ -0,0 +1,150 @@
+// Bundled US city gazetteer used for geo-radius search. Coordinates are city centers;
+// zip3 lists the 3-digit ZIP prefixes served by each city so ZIP codes resolve to a point.
+export interface GazetteerCity {
+  city: string;
+  state: string; // postal abbreviation
+  lat: number;
+  lng: number;
+  zip3: string[];
+}
+
+export const US_CITIES: GazetteerCity[] = [
+  // Northeast
+  { city: 'New York', state: 'NY', lat: 40.7128, lng: -74.006, zip3: ['100', '101', '102', '103', '104', '112', '113', '114', '116'] },
+  { city: 'Buffalo', state: 'NY', lat: 42.8864, lng: -78.8784, zip3: ['140', '141', '142'] },
+  { city: 'Rochester', state: 'NY', lat: 43.1566, lng: -77.6088, zip3: ['144', '145', '146'] },
+  { city: 'Albany', state: 'NY', lat: 42.6526, lng: -73.7562, zip3: ['120', '121', '122'] },
+  { city: 'Newark', state: 'NJ', lat: 40.7357, lng: -74.1724, zip3: ['070', '071'] },
+  { city: 'Jersey City', state: 'NJ', lat: 40.7178, lng: -74.0431, zip3: ['073'] },
+  { city: 'Philadelphia', state: 'PA', lat: 39.9526, lng: -75.1652, zip3: ['190', '191'] },
+  { city: 'Pittsburgh', state: 'PA', lat: 40.4406, lng: -79.9959, zip3: ['150', '151', '152'] },
+  { city: 'Boston', state: 'MA', lat: 42.3601, lng: -71.0589, zip3: ['021', '022'] },
+  { city: 'Worcester', state: 'MA', lat: 42.2626, lng: -71.8023, zip3: ['015', '016'] },
+  { city: 'Providence', state: 'RI', lat: 41.824, lng: -71.4128, zip3: ['028', '029'] },
+  { city: 'Hartford', state: 'CT', lat: 41.7658, lng: -72.6734, zip3: ['060', '061'] },
+  { city: 'New Haven', state: 'CT', lat: 41.3083, lng: -72.9279, zip3: ['064', '065'] },
+  { city: 'Portland', state: 'ME', lat: 43.6591, lng: -70.2568, zip3: ['040', '041'] },
+  { city: 'Manchester', state: 'NH', lat: 42.9956, lng: -71.4548, zip3: ['030', '031'] },
+  { city: 'Burlington', state: 'VT', lat: 44.4759, lng: -73.2121, zip3: ['054'] },
+
+  // Mid-Atlantic
+  { city: 'Washington', state: 'DC', lat: 38.9072, lng: -77.0369, zip3: ['200', '202', '203', '204', '205'] },
+  { city: 'Baltimore', state: 'MD', lat: 39.2904, lng: -76.6122, zip3: ['210', '211', '212'] },
+  { city: 'Bethesda', state: 'MD', lat: 38.9847, lng: -77.0947, zip3: ['208'] },
+  { city: 'Wilmington', state: 'DE', lat: 39.7391, lng: -75.5398, zip3: ['197', '198'] },
+  { city: 'Richmond', state: 'VA', lat: 37.5407, lng: -77.436, zip3: ['230', '231', '232'] },
+  { city: 'Virginia Beach', state: 'VA', lat: 36.8529, lng: -75.978, zip3: ['234'] },
+  { city: 'Norfolk', state: 'VA', lat: 36.8508, lng: -76.2859, zip3: ['235'] },
+  { city: 'Arlington', state: 'VA', lat: 38.8816, lng: -77.091, zip3: ['222'] },
+
+  // Southeast
+  { city: 'Charlotte', state: 'NC', lat: 35.2271, lng: -80.8431, zip3: ['280', '281', '282'] },
+  { city: 'Raleigh', state: 'NC', lat: 35.7796, lng: -78.6382, zip3: ['275', '276'] },
+  { city: 'Durham', state: 'NC', lat: 35.994, lng: -78.8986, zip3: ['277'] },
+  { city: 'Greensboro', state: 'NC', lat: 36.0726, lng: -79.792, zip3: ['270', '274'] },
+  { city: 'Charleston', state: 'SC', lat: 32.7765, lng: -79.9311, zip3: ['294'] },
+  { city: 'Columbia', state: 'SC', lat: 34.0007, lng: -81.0348, zip3: ['290', '291', '292'] },
+  { city: 'Atlanta', state: 'GA', lat: 33.749, lng: -84.388, zip3: ['300', '303', '311'] },
+  { city: 'Savannah', state: 'GA', lat: 32.0809, lng: -81.0912, zip3: ['313', '314'] },
+  { city: 'Jacksonville', state: 'FL', lat: 30.3322, lng: -81.6557, zip3: ['320', '322'] },
+  { city: 'Miami', state: 'FL', lat: 25.7617, lng: -80.1918, zip3: ['330', '331', '332'] },
+  { city: 'Fort Lauderdale', state: 'FL', lat: 26.1224, lng: -80.1373, zip3: ['333'] },
+  { city: 'Orlando', state: 'FL', lat: 28.5383, lng: -81.3792, zip3: ['327', '328'] },
+  { city: 'Tampa', state: 'FL', lat: 27.9506, lng: -82.4572, zip3: ['335', '336'] },
+  { city: 'St. Petersburg', state: 'FL', lat: 27.7676, lng: -82.6403, zip3: ['337'] },
+  { city: 'Tallahassee', state: 'FL', lat: 30.4383, lng: -84.2807, zip3: ['323'] },
+  { city: 'Nashville', state: 'TN', lat: 36.1627, lng: -86.7816, zip3: ['370', '371', '372'] },
+  { city: 'Memphis', state: 'TN', lat: 35.1495, lng: -90.049, zip3: ['375', '380', '381'] },
+  { city: 'Knoxville', state: 'TN', lat: 35.9606, lng: -83.9207, zip3: ['377', '378', '379'] },
+  { city: 'Louisville', state: 'KY', lat: 38.2527, lng: -85.7585, zip3: ['400', '401', '402'] },
+  { city: 'Lexington', state: 'KY', lat: 38.0406, lng: -84.5037, zip3: ['403', '404', '405'] },
+  { city: 'Birmingham', state: 'AL', lat: 33.5186, lng: -86.8104, zip3: ['350', '351', '352'] },
+  { city: 'Montgomery', state: 'AL', lat: 32.3792, lng: -86.3077, zip3: ['360', '361'] },
+  { city: 'Jackson', state: 'MS', lat: 32.2988, lng: -90.1848, zip3: ['390', '391', '392'] },
+  { city: 'New Orleans', state: 'LA', lat: 29.9511, lng: -90.0715, zip3: ['700', '701'] },
+  { city: 'Baton Rouge', state: 'LA', lat: 30.4515, lng: -91.1871, zip3: ['707', '708'] },
+  { city: 'Little Rock', state: 'AR', lat: 34.7465, lng: -92.2896, zip3: ['720', '721', '722'] },
+
+  // Midwest
+  { city: 'Chicago', state: 'IL', lat: 41.8781, lng: -87.6298, zip3: ['600', '606', '607', '608'] },
+  { city: 'Springfield', state: 'IL', lat: 39.7817, lng: -89.6501, zip3: ['625', '626', '627'] },
+  { city: 'Indianapolis', state: 'IN', lat: 39.7684, lng: -86.1581, zip3: ['460', '461', '462'] },
+  { city: 'Columbus', state: 'OH', lat: 39.9612, lng: -82.9988, zip3: ['430', '431', '432'] },
+  { city: 'Cleveland', state: 'OH', lat: 41.4993, lng: -81.6944, zip3: ['440', '441'] },
+  { city: 'Cincinnati', state: 'OH', lat: 39.1031, lng: -84.512, zip3: ['450', '451', '452'] },
+  { city: 'Detroit', state: 'MI', lat: 42.3314, lng: -83.0458, zip3: ['480', '481', '482'] },
+  { city: 'Grand Rapids', state: 'MI', lat: 42.9634, lng: -85.6681, zip3: ['493', '494', '495'] },
+  { city: 'Milwaukee', state: 'WI', lat: 43.0389, lng: -87.9065, zip3: ['530', '531', '532'] },
+  { city: 'Madison', state: 'WI', lat: 43.0731, lng: -89.4012, zip3: ['535', '537'] },
+  { city: 'Minneapolis', state: 'MN', lat: 44.9778, lng: -93.265, zip3: ['553', '554', '555'] },
+  { city: 'St. Paul', state: 'MN', lat: 44.9537, lng: -93.09, zip3: ['551'] },
+  { city: 'Rochester', state: 'MN', lat: 44.0121, lng: -92.4802, zip3: ['559'] },
+  { city: 'Des Moines', state: 'IA', lat: 41.5868, lng: -93.625, zip3: ['500', '501', '503'] },
+  { city: 'Kansas City', state: 'MO', lat: 39.0997, lng: -94.5786, zip3: ['640', '641'] },
+  { city: 'St. Louis', state: 'MO', lat: 38.627, lng: -90.1994, zip3: ['630', '631'] },
+  { city: 'Omaha', state: 'NE', lat: 41.2565, lng: -95.9345, zip3: ['680', '681'] },
+  { city: 'Lincoln', state: 'NE', lat: 40.8136, lng: -96.7026, zip3: ['683', '684', '685'] },
+  { city: 'Wichita', state: 'KS', lat: 37.6872, lng: -97.3301, zip3: ['670', '671', '672'] },
+  { city: 'Overland Park', state: 'KS', lat: 38.9822, lng: -94.6708, zip3: ['662'] },
+  { city: 'Sioux Falls', state: 'SD', lat: 43.5446, lng: -96.7311, zip3: ['570', '571'] },
+  { city: 'Fargo', state: 'ND', lat: 46.8772, lng: -96.7898, zip3: ['580', '581'] },
+
+  // Texas and the South Central states
+  { city: 'Houston', state: 'TX', lat: 29.7604, lng: -95.3698, zip3: ['770', '772'] },
+  { city: 'San Antonio', state: 'TX', lat: 29.4241, lng: -98.4936, zip3: ['780', '781', '782'] },
+  { city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797, zip3: ['750', '752', '753'] },
+  { city: 'Fort Worth', state: 'TX', lat: 32.7555, lng: -97.3308, zip3: ['760', '761'] },
+  { city: 'Arlington', state: 'TX', lat: 32.7357, lng: -97.1081, zip3: ['760'] },
+  { city: 'Plano', state: 'TX', lat: 33.0198, lng: -96.6989, zip3: ['750'] },
+  { city: 'Irving', state: 'TX', lat: 32.814, lng: -96.9489, zip3: ['750'] },
+  { city: 'Denton', state: 'TX', lat: 33.2148, lng: -97.1331, zip3: ['762'] },
+  { city: 'Austin', state: 'TX', lat: 30.2672, lng: -97.7431, zip3: ['733', '786', '787'] },
+  { city: 'El Paso', state: 'TX', lat: 31.7619, lng: -106.485, zip3: ['798', '799', '885'] },
+  { city: 'Corpus Christi', state: 'TX', lat: 27.8006, lng: -97.3964, zip3: ['783', '784'] },
+  { city: 'Lubbock', state: 'TX', lat: 33.5779, lng: -101.8552, zip3: ['793', '794'] },
+  { city: 'Waco', state: 'TX', lat: 31.5493, lng: -97.1467, zip3: ['766', '767'] },
+  { city: 'Oklahoma City', state: 'OK', lat: 35.4676, lng: -97.5164, zip3: ['730', '731'] },
+  { city: 'Tulsa', state: 'OK', lat: 36.154, lng: -95.9928, zip3: ['740', '741'] },
+
+  // Mountain West
+  { city: 'Denver', state: 'CO', lat: 39.7392, lng: -104.9903, zip3: ['800', '801', '802'] },
+  { city: 'Aurora', state: 'CO', lat: 39.7294, lng: -104.8319, zip3: ['800'] },
+  { city: 'Boulder', state: 'CO', lat: 40.015, lng: -105.2705, zip3: ['803'] },
+  { city: 'Colorado Springs', state: 'CO', lat: 38.8339, lng: -104.8214, zip3: ['808', '809'] },
+  { city: 'Phoenix', state: 'AZ', lat: 33.4484, lng: -112.074, zip3: ['850', '853'] },
+  { city: 'Mesa', state: 'AZ', lat: 33.4152, lng: -111.8315, zip3: ['852'] },
+  { city: 'Scottsdale', state: 'AZ', lat: 33.4942, lng: -111.9261, zip3: ['852'] },
+  { city: 'Tucson', state: 'AZ', lat: 32.2226, lng: -110.9747, zip3: ['856', '857'] },
+  { city: 'Albuquerque', state: 'NM', lat: 35.0844, lng: -106.6504, zip3: ['870', '871'] },
+  { city: 'Santa Fe', state: 'NM', lat: 35.687, lng: -105.9378, zip3: ['875'] },
+  { city: 'Las Vegas', state: 'NV', lat: 36.1699, lng: -115.1398, zip3: ['889', '890', '891'] },
+  { city: 'Reno', state: 'NV', lat: 39.5296, lng: -119.8138, zip3: ['894', '895'] },
+  { city: 'Salt Lake City', state: 'UT', lat: 40.7608, lng: -111.891, zip3: ['840', '841'] },
+  { city: 'Boise', state: 'ID', lat: 43.615, lng: -116.2023, zip3: ['836', '837'] },
+  { city: 'Billings', state: 'MT', lat: 45.7833, lng: -108.5007, zip3: ['590', '591'] },
+  { city: 'Cheyenne', state: 'WY', lat: 41.14, lng: -104.8202, zip3: ['820'] },
+
+  // West Coast, Alaska and Hawaii
+  { city: 'Los Angeles', state: 'CA', lat: 34.0522, lng: -118.2437, zip3: ['900', '901', '902', '903', '904', '905'] },
+  { city: 'Long Beach', state: 'CA', lat: 33.7701, lng: -118.1937, zip3: ['907', '908'] },
+  { city: 'Pasadena', state: 'CA', lat: 34.1478, lng: -118.1445, zip3: ['910', '911'] },
+  { city: 'Anaheim', state: 'CA', lat: 33.8366, lng: -117.9143, zip3: ['928'] },
+  { city: 'Irvine', state: 'CA', lat: 33.6846, lng: -117.8265, zip3: ['926', '927'] },
+  { city: 'Riverside', state: 'CA', lat: 33.9806, lng: -117.3755, zip3: ['925'] },
+  { city: 'San Diego', state: 'CA', lat: 32.7157, lng: -117.1611, zip3: ['919', '920', '921'] },
+  { city: 'San Francisco', state: 'CA', lat: 37.7749, lng: -122.4194, zip3: ['940', '941'] },
+  { city: 'Oakland', state: 'CA', lat: 37.8044, lng: -122.2712, zip3: ['945', '946'] },
+  { city: 'San Jose', state: 'CA', lat: 37.3382, lng: -121.8863, zip3: ['950', '951'] },
+  { city: 'Sacramento', state: 'CA', lat: 38.5816, lng: -121.4944, zip3: ['956', '957', '958'] },
+  { city: 'Fresno', state: 'CA', lat: 36.7378, lng: -119.7871, zip3: ['936', '937'] },
+  { city: 'Bakersfield', state: 'CA', lat: 35.3733, lng: -119.0187, zip3: ['932', '933'] },
+  { city: 'Portland', state: 'OR', lat: 45.5152, lng: -122.6784, zip3: ['970', '971', '972'] },
+  { city: 'Salem', state: 'OR', lat: 44.9429, lng: -123.0351, zip3: ['973'] },
+  { city: 'Eugene', state: 'OR', lat: 44.0521, lng: -123.0868, zip3: ['974'] },
+  { city: 'Seattle', state: 'WA', lat: 47.6062, lng: -122.3321, zip3: ['980', '981'] },
+  { city: 'Tacoma', state: 'WA', lat: 47.2529, lng: -122.4443, zip3: ['983', '984'] },
+  { city: 'Spokane', state: 'WA', lat: 47.6588, lng: -117.426, zip3: ['990', '991', '992'] },
+  { city: 'Anchorage', state: 'AK', lat: 61.2181, lng: -149.9003, zip3: ['995'] },
+  { city: 'Honolulu', state: 'HI', lat: 21.3069, lng: -157.8583, zip3: ['967', '968'] },
+  { city: 'San Juan', state: 'PR', lat: 18.4655, lng: -66.1057, zip3: ['009'] }
+];
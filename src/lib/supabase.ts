@@ -1,4 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
+import { candidateIndex, indexCandidates } from '../utils/semanticIndex';
+import { convertDatabaseCandidatesToCandidates } from '../utils/dataConverters';
+import { CandidateCertification, CandidateLicense, CriterionBreakdown, FacetSelections, QueryClauses, RelevanceVote, SearchQuery, WorkHistoryEntry } from '../types';
+import { invalidateSearchCache } from '../utils/searchCache';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -53,6 +57,9 @@ export interface DatabaseCandidate {
   availability: 'available' | 'passive' | 'not-looking';
   source?: string;
   last_active: string;
+  licenses?: CandidateLicense[];
+  certifications?: CandidateCertification[];
+  work_history?: WorkHistoryEntry[];
   metadata?: any;
   created_at: string;
   updated_at: string;
@@ -67,9 +74,28 @@ interface Search {
   filters?: any;
   results_count: number;
   results?: any;
+  cache_key?: string; // see utils/searchCache.ts
   created_at: string;
 }
 
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  project_id: string;
+  name: string;
+  query: string;
+  extracted_entities?: Partial<SearchQuery['extractedEntities']>;
+  clauses?: QueryClauses | null;
+  facets?: FacetSelections | null;
+  last_result_ids: string[];
+  new_match_ids: string[]; // matches the recruiter has not opened yet
+  last_run_at?: string;
+  digest_enabled: boolean;
+  last_digest_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Campaign {
   id: string;
   user_id: string;
@@ -311,6 +337,30 @@ export const createProject = async (project: Omit<Project, 'id' | 'created_at' |
   return { data, error };
 };
 
+export const updateProject = async (projectId: string, updates: Partial<Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>>) => {
+  console.log('📁 Supabase: Updating project:', projectId);
+
+  try {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', projectId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Supabase: Error updating project:', error);
+    } else {
+      console.log('✅ Supabase: Project updated successfully');
+    }
+
+    return { data, error };
+  } catch (err) {
+    console.error('❌ Supabase: Update project exception:', err);
+    return { data: null, error: err as Error };
+  }
+};
+
 // Candidate helpers
 export const getCandidates = async (projectId: string) => {
   const { data, error } = await supabase
@@ -321,14 +371,242 @@ export const getCandidates = async (projectId: string) => {
   return { data, error };
 };
 
+export const getCandidateCount = async (projectId: string) => {
+  const { count, error } = await supabase
+    .from('candidates')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId);
+  return { count: count || 0, error };
+};
+
+export const getCandidatePage = async (projectId: string, page: number, pageSize: number) => {
+  const from = page * pageSize;
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+  return { data, error };
+};
+
+export const getCandidatesByIds = async (candidateIds: string[]) => {
+  if (candidateIds.length === 0) return { data: [], error: null };
+
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .in('id', candidateIds);
+  return { data, error };
+};
+
+// Hard filters evaluated in Postgres by the search_candidates RPC
+export interface CandidatePoolFilters {
+  titles?: string[];
+  locations?: string[];
+  minExperience?: number;
+  maxExperience?: number;
+  industries?: string[];
+  skills?: string[]; // lowercased; every one must be a whole skill or a word of one
+  text?: string; // websearch-style full-text query used to order results by relevance
+}
+
+/**
+ * One page of the candidates that pass the filters, most relevant first, with the total match count
+ */
+export const searchCandidatePool = async (projectId: string, filters: CandidatePoolFilters, page: number, pageSize: number) => {
+  const from = page * pageSize;
+  const { data, error, count } = await supabase
+    .rpc('search_candidates', {
+      p_project_id: projectId,
+      p_titles: filters.titles?.length ? filters.titles : null,
+      p_locations: filters.locations?.length ? filters.locations : null,
+      p_min_experience: filters.minExperience ?? null,
+      p_max_experience: filters.maxExperience ?? null,
+      p_industries: filters.industries?.length ? filters.industries : null,
+      p_skills: filters.skills?.length ? filters.skills : null,
+      p_text: filters.text || null
+    }, { count: 'exact' })
+    .range(from, from + pageSize - 1);
+  return { data: data as DatabaseCandidate[] | null, error, count: count || 0 };
+};
+
 export const bulkCreateCandidates = async (candidates: Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>[]) => {
   const { data, error } = await supabase
     .from('candidates')
     .insert(candidates)
     .select();
+
+  // Keep the local search index in step with newly inserted candidates
+  if (data && !error) {
+    indexCandidates(convertDatabaseCandidatesToCandidates(data));
+    invalidateSearchCache('candidate import');
+  }
+
   return { data, error };
 };
 
+// Candidate import helpers
+export interface CandidateImportError {
+  row: number; // spreadsheet row
+  message: string;
+}
+
+export interface CandidateImport {
+  id: string;
+  project_id: string;
+  user_id: string;
+  file_name: string;
+  status: 'running' | 'completed' | 'failed';
+  total_rows: number;
+  imported_count: number;
+  skipped_count: number; // rows that failed validation
+  failed_count: number; // valid rows the database rejected
+  warning_count: number;
+  column_mapping?: Record<string, string>; // spreadsheet header -> candidate field
+  errors?: CandidateImportError[];
+  created_at: string;
+  completed_at?: string;
+}
+
+export const getCandidateImports = async (projectId: string, limit = 10) => {
+  const { data, error } = await supabase
+    .from('candidate_imports')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  return { data: data as CandidateImport[] | null, error };
+};
+
+export const createCandidateImport = async (candidateImport: Omit<CandidateImport, 'id' | 'created_at'>) => {
+  console.log('📥 Recording candidate import:', candidateImport.file_name);
+  const { data, error } = await supabase
+    .from('candidate_imports')
+    .insert(candidateImport)
+    .select()
+    .single();
+  return { data: data as CandidateImport | null, error };
+};
+
+export const updateCandidateImport = async (importId: string, updates: Partial<Omit<CandidateImport, 'id' | 'project_id' | 'user_id' | 'created_at'>>) => {
+  const { data, error } = await supabase
+    .from('candidate_imports')
+    .update(updates)
+    .eq('id', importId)
+    .select()
+    .single();
+  return { data: data as CandidateImport | null, error };
+};
+
+// Duplicate review helpers
+export interface CandidateDuplicateDismissal {
+  id: string;
+  project_id: string;
+  candidate_a_id: string; // the smaller id of the pair
+  candidate_b_id: string;
+  dismissed_by?: string;
+  created_at: string;
+}
+
+export const getDuplicateDismissals = async (projectId: string) => {
+  const { data, error } = await supabase
+    .from('candidate_duplicate_dismissals')
+    .select('*')
+    .eq('project_id', projectId);
+  return { data: data as CandidateDuplicateDismissal[] | null, error };
+};
+
+export const dismissDuplicatePair = async (projectId: string, candidateIds: [string, string], userId: string) => {
+  const [candidateAId, candidateBId] = [...candidateIds].sort();
+  const { data, error } = await supabase
+    .from('candidate_duplicate_dismissals')
+    .insert({ project_id: projectId, candidate_a_id: candidateAId, candidate_b_id: candidateBId, dismissed_by: userId })
+    .select()
+    .single();
+  return { data: data as CandidateDuplicateDismissal | null, error };
+};
+
+/**
+ * Merges a duplicate into the surviving candidate (merge_candidates RPC): applies the
+ * consolidated fields, moves shortlist and campaign memberships over and deletes the duplicate
+ */
+export const mergeCandidates = async (
+  survivorId: string,
+  duplicateId: string,
+  updates: Partial<Omit<DatabaseCandidate, 'id' | 'project_id' | 'created_at' | 'updated_at'>>
+) => {
+  console.log('🧬 Supabase: Merging candidate', duplicateId, 'into', survivorId);
+
+  const { data, error } = await supabase.rpc('merge_candidates', {
+    p_survivor_id: survivorId,
+    p_duplicate_id: duplicateId,
+    p_updates: updates
+  });
+
+  if (error) {
+    console.error('❌ Supabase: Error merging candidates:', error);
+  } else {
+    candidateIndex.remove(duplicateId);
+    indexCandidates(convertDatabaseCandidatesToCandidates([data as DatabaseCandidate]));
+    invalidateSearchCache('candidate merge');
+    console.log('✅ Supabase: Candidates merged successfully');
+  }
+
+  return { data: data as DatabaseCandidate | null, error };
+};
+
+// Candidate editing helpers
+// null clears an optional field
+export type CandidateUpdate = {
+  [K in keyof Omit<DatabaseCandidate, 'id' | 'project_id' | 'last_active' | 'created_at' | 'updated_at'>]?: DatabaseCandidate[K] | null;
+};
+
+export interface CandidateChange {
+  id: string;
+  candidate_id: string;
+  project_id: string;
+  changed_by?: string;
+  changed_by_name?: string; // the editor's name or email when the change was made
+  field: keyof CandidateUpdate;
+  previous_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+/**
+ * Applies edited fields to a candidate (update_candidate RPC), recording one change history row
+ * per field whose value changed. Fields set to null are cleared.
+ */
+export const updateCandidate = async (candidateId: string, updates: CandidateUpdate) => {
+  console.log('✏️ Supabase: Updating candidate', candidateId, Object.keys(updates));
+
+  const { data, error } = await supabase.rpc('update_candidate', {
+    p_candidate_id: candidateId,
+    p_updates: updates
+  });
+
+  if (error) {
+    console.error('❌ Supabase: Error updating candidate:', error);
+  } else {
+    indexCandidates(convertDatabaseCandidatesToCandidates([data as DatabaseCandidate]));
+    invalidateSearchCache('candidate update');
+    console.log('✅ Supabase: Candidate updated successfully');
+  }
+
+  return { data: data as DatabaseCandidate | null, error };
+};
+
+export const getCandidateChanges = async (candidateId: string, limit = 50) => {
+  const { data, error } = await supabase
+    .from('candidate_changes')
+    .select('*')
+    .eq('candidate_id', candidateId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  return { data: data as CandidateChange[] | null, error };
+};
+
 // Job Posting helpers
 export const getJobPostings = async (userId: string, projectId?: string) => {
   let query = supabase
@@ -478,25 +756,182 @@ export const getRecentSearches = async (userId: string, projectId: string, limit
   return { data, error };
 };
 
+// Most recent stored results for a search cache key, or null on a miss
+export const getCachedSearchResultsByKey = async (cacheKey: string, projectId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('searches')
+      .select('results')
+      .eq('project_id', projectId)
+      .eq('cache_key', cacheKey)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('❌ Supabase: Error looking up cached search:', error);
+      return { data: null, error };
+    }
+
+    return { data: data && data.length > 0 ? data[0].results : null, error: null };
+  } catch (err) {
+    console.error('❌ Supabase: Cached search lookup exception:', err);
+    return { data: null, error: err as Error };
+  }
+};
+
+// Relevance feedback helpers
+export interface SearchFeedback {
+  id: string;
+  project_id: string;
+  user_id: string;
+  search_key: string; // see getSearchCriteriaKey in utils/searchCache.ts
+  query: string;
+  extracted_entities?: SearchQuery['extractedEntities'];
+  candidate_id: string;
+  vote: RelevanceVote;
+  score?: number;
+  breakdown?: CriterionBreakdown[];
+  created_at: string;
+  updated_at: string;
+}
+
+export const getSearchFeedback = async (userId: string, projectId: string, searchKey: string) => {
+  const { data, error } = await supabase
+    .from('search_feedback')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .eq('search_key', searchKey);
+  return { data: data as SearchFeedback[] | null, error };
+};
+
+/**
+ * Records a vote on a search result, replacing any earlier vote on the same candidate for that search
+ */
+export const saveSearchFeedback = async (feedback: Omit<SearchFeedback, 'id' | 'created_at' | 'updated_at'>) => {
+  console.log('👍 Supabase: Saving search feedback:', feedback.vote, feedback.candidate_id);
+
+  const { data, error } = await supabase
+    .from('search_feedback')
+    .upsert({ ...feedback, updated_at: new Date().toISOString() }, { onConflict: 'user_id,search_key,candidate_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Supabase: Error saving search feedback:', error);
+  }
+  return { data: data as SearchFeedback | null, error };
+};
+
+export const deleteSearchFeedback = async (userId: string, searchKey: string, candidateId: string) => {
+  const { error } = await supabase
+    .from('search_feedback')
+    .delete()
+    .eq('user_id', userId)
+    .eq('search_key', searchKey)
+    .eq('candidate_id', candidateId);
+
+  if (error) {
+    console.error('❌ Supabase: Error deleting search feedback:', error);
+  }
+  return { error };
+};
+
+// Saved search helpers
+export const getSavedSearches = async (userId: string, projectId: string) => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+  return { data: data as SavedSearch[] | null, error };
+};
+
+export const createSavedSearch = async (savedSearch: Omit<SavedSearch, 'id' | 'created_at' | 'updated_at'>) => {
+  console.log('🔖 Supabase: Creating saved search:', savedSearch.name);
+
+  try {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert(savedSearch)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Supabase: Error creating saved search:', error);
+    } else {
+      console.log('✅ Supabase: Saved search created successfully');
+    }
+
+    return { data: data as SavedSearch | null, error };
+  } catch (err) {
+    console.error('❌ Supabase: Create saved search exception:', err);
+    return { data: null, error: err as Error };
+  }
+};
+
+export const updateSavedSearch = async (savedSearchId: string, updates: Partial<Omit<SavedSearch, 'id' | 'user_id' | 'project_id' | 'created_at' | 'updated_at'>>) => {
+  try {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', savedSearchId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Supabase: Error updating saved search:', error);
+    }
+
+    return { data: data as SavedSearch | null, error };
+  } catch (err) {
+    console.error('❌ Supabase: Update saved search exception:', err);
+    return { data: null, error: err as Error };
+  }
+};
+
+export const deleteSavedSearch = async (savedSearchId: string) => {
+  console.log('🗑️ Supabase: Deleting saved search:', savedSearchId);
+
+  try {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', savedSearchId);
+
+    if (error) {
+      console.error('❌ Supabase: Error deleting saved search:', error);
+    } else {
+      console.log('✅ Supabase: Saved search deleted successfully');
+    }
+
+    return { error };
+  } catch (err) {
+    console.error('❌ Supabase: Delete saved search exception:', err);
+    return { error: err as Error };
+  }
+};
+
 export const getSearchResults = async (query: string, projectId: string) => {
   console.log('🔍 Supabase: Getting search results for query:', query, 'project:', projectId);
   
   try {
     const { data, error } = await supabase
       .from('searches')
-      .select('results, extracted_entities')
+      .select('results, extracted_entities, cache_key')
       .eq('query', query)
       .eq('project_id', projectId)
       .order('created_at', { ascending: false });
       
     if (error) {
       console.error('❌ Supabase: Error getting search results:', error);
-      return { data: null, error, extracted_entities: null };
+      return { data: null, error, extracted_entities: null, cache_key: null };
     } 
     
     if (!data || data.length === 0) {
       console.log('⚠️ Supabase: No search results found for query:', query);
-      return { data: null, error: { message: 'No results found' }, extracted_entities: null };
+      return { data: null, error: { message: 'No results found' }, extracted_entities: null, cache_key: null };
     }
     
     console.log('✅ Supabase: Search results retrieved successfully:', data.length);
@@ -506,11 +941,12 @@ export const getSearchResults = async (query: string, projectId: string) => {
     return { 
       data: data[0].results, 
       error: null, 
-      extracted_entities: data[0].extracted_entities 
+      extracted_entities: data[0].extracted_entities,
+      cache_key: data[0].cache_key as string | null
     };
   } catch (err) {
     console.error('❌ Supabase: Get search results exception:', err);
-    return { data: null, error: err as any, extracted_entities: null };
+    return { data: null, error: err as any, extracted_entities: null, cache_key: null };
   }
 };
 
@@ -753,7 +1189,7 @@ export const deleteCampaign = async (campaignId: string) => {
 };
 
 // Campaign Candidate helpers
-const addCandidatesToCampaign = async (
+export const addCandidatesToCampaign = async (
   campaignId: string,
   candidateIds: string[],
   sourceContext: { type: 'search' | 'shortlist' | 'manual'; context?: string; jobPostingId?: string }
@@ -870,7 +1306,7 @@ export const createShortlist = async (shortlist: Omit<Shortlist, 'id' | 'created
   }
 };
 
-export const addCandidateToShortlist = async (shortlistId: string, candidateId: string, notes?: string) => {
+export const addCandidateToShortlist = async (shortlistId: string, candidateId: string, notes?: string, jobPostingId?: string) => {
   console.log('📋 Supabase: Adding candidate to shortlist:', candidateId, 'to', shortlistId);
   
   try {
@@ -880,6 +1316,7 @@ export const addCandidateToShortlist = async (shortlistId: string, candidateId:
         shortlist_id: shortlistId,
         candidate_id: candidateId,
         notes,
+        job_posting_id: jobPostingId,
       })
       .select()
       .single();
@@ -897,7 +1334,18 @@ export const addCandidateToShortlist = async (shortlistId: string, candidateId:
   }
 };
 
-export const bulkAddCandidatesToShortlist = async (shortlistId: string, candidateIds: string[], notes?: string) => {
+/**
+ * Ids of every candidate on one of the project's shortlists
+ */
+export const getShortlistedCandidateIds = async (projectId: string) => {
+  const { data, error } = await supabase
+    .from('shortlist_candidates')
+    .select('candidate_id, shortlists!inner(project_id)')
+    .eq('shortlists.project_id', projectId);
+  return { data: Array.from(new Set((data || []).map((row: { candidate_id: string }) => row.candidate_id))), error };
+};
+
+export const bulkAddCandidatesToShortlist = async (shortlistId: string, candidateIds: string[], notes?: string, jobPostingId?: string) => {
   console.log('📋 Supabase: Bulk adding candidates to shortlist:', candidateIds.length, 'candidates to', shortlistId);
   
   try {
@@ -905,6 +1353,7 @@ export const bulkAddCandidatesToShortlist = async (shortlistId: string, candidat
       shortlist_id: shortlistId,
       candidate_id: candidateId,
       notes,
+      job_posting_id: jobPostingId,
     }));
     
     const { data, error } = await supabase
@@ -13,10 +13,52 @@ export interface Candidate {
   lastActive: string;
   source: string;
   availability: 'available' | 'passive' | 'not-looking';
+  // Healthcare credentials and employment (see utils/credentials.ts)
+  licenses?: CandidateLicense[];
+  certifications?: CandidateCertification[];
+  workHistory?: WorkHistoryEntry[]; // most recent first
 }
 
+export interface CandidateLicense {
+  type: string; // "RN", "LPN", "NP", ...
+  state?: string; // two-letter code of the issuing state
+  number?: string;
+  compact?: boolean; // multistate license under the Nurse Licensure Compact
+  expiresOn?: string; // YYYY-MM-DD
+}
+
+export interface CandidateCertification {
+  name: string; // taxonomy label when known, e.g. "ACLS"
+  issuer?: string;
+  expiresOn?: string; // YYYY-MM-DD
+}
+
+export interface WorkHistoryEntry {
+  title: string;
+  employer?: string;
+  location?: string;
+  startDate?: string; // YYYY-MM
+  endDate?: string; // YYYY-MM; absent for the current position
+  current?: boolean;
+}
+
+// Credential constraint of a search, e.g. "active compact license" or "ACLS valid through 2027"
+export interface CredentialRequirement {
+  kind: 'license' | 'certification';
+  name?: string; // license type ("RN") or certification ("ACLS")
+  state?: string; // issuing state of a license
+  compact?: boolean;
+  active?: boolean; // not expired on the day of the search
+  validThrough?: string; // YYYY-MM-DD the credential must not expire before
+}
+
+export type QueryLanguage = 'en' | 'es';
+
 export interface SearchQuery {
-  originalQuery: string;
+  originalQuery: string; // as typed, in any language
+  // Set for non-English queries: the language and the English text matching runs on (see utils/queryLanguage.ts)
+  language?: QueryLanguage;
+  normalizedQuery?: string;
   extractedEntities: {
     jobTitles: string[];
     locations: string[];
@@ -27,21 +69,147 @@ export interface SearchQuery {
     skills: string[];
     industries: string[];
     education?: string;
+    // Geo-radius constraint, e.g. "within 50 miles of Fort Worth" (see utils/geo.ts)
+    locationRadius?: {
+      center: string;
+      miles: number;
+    };
+    // Licenses and certifications that must be held, checked against their expiry dates
+    credentials?: CredentialRequirement[];
   };
+  // Populated when the query uses the fielded/boolean syntax (see utils/queryParser.ts)
+  clauses?: QueryClauses;
+  // Refinements picked in the facet sidebar; applied to results without re-scoring (see utils/facets.ts)
+  facets?: FacetSelections;
+  // Candidates left out of the results, e.g. the profile a "more like this" search started from
+  excludeCandidateIds?: string[];
+}
+
+export type FacetKey = 'location' | 'availability' | 'industry' | 'education' | 'experience' | 'source' | 'lastActive';
+
+// Selected values per facet: values within a facet are OR-ed, facets are AND-ed
+export type FacetSelections = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface FacetGroup {
+  key: FacetKey;
+  label: string;
+  values: FacetValueCount[];
+}
+
+// Fielded boolean query language, e.g. title:"ICU Nurse" AND (skills:ACLS OR skills:BLS) NOT location:Texas exp:>=5
+export type QueryField = 'title' | 'skills' | 'location' | 'experience' | 'industry' | 'education' | 'availability' | 'source' | 'any';
+
+export type QueryNode =
+  | { type: 'term'; field: QueryField; value: string; phrase: boolean }
+  | { type: 'range'; field: 'experience'; operator: '>' | '>=' | '<' | '<=' | '='; value: number }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface QueryClauses {
+  include: QueryNode[]; // every clause must match
+  exclude: QueryNode[]; // no clause may match
 }
 
 export interface MatchExplanation {
   score: number;
   reasons: string[];
   category: 'excellent' | 'good' | 'potential';
+  breakdown?: CriterionBreakdown[];
 }
 
+// Per-criterion scoring detail (weights in config/ranking.ts MATCH_CRITERION_WEIGHTS)
+export type MatchCriterion = 'title' | 'location' | 'experience' | 'skills' | 'industry' | 'education';
+
+export type CriterionStatus = 'matched' | 'partial' | 'missing' | 'not-specified';
+
+export interface CriterionBreakdown {
+  criterion: MatchCriterion;
+  status: CriterionStatus;
+  weight: number; // max points for this criterion
+  points: number; // points awarded
+  detail: string;
+}
+
+// Recruiter feedback on a search result (see utils/relevanceFeedback.ts)
+export type RelevanceVote = 'up' | 'down';
+
 export interface CandidateMatch {
   candidate: Candidate;
   explanation: MatchExplanation;
   streamingExplanation?: string;
 }
 
+// Ranking pipeline configuration, stored per project in projects.settings.ranking
+export type RankingStageId = 'hardFilters' | 'keyword' | 'semantic' | 'semanticBoost' | 'proximity' | 'recency' | 'availability' | 'aiRerank';
+
+export interface RankingStageConfig {
+  id: RankingStageId | string; // custom stages can be registered (see utils/rankingPipeline.ts)
+  enabled: boolean;
+  weight?: number; // max points a scoring stage can add
+  budget?: number; // how many top candidates a retrieval or rerank stage keeps/processes
+}
+
+export interface RankingPipelineConfig {
+  stages: RankingStageConfig[]; // run in array order
+}
+
+// Healthcare taxonomy (see data/healthcareTaxonomy.ts); projects can extend it in projects.settings.taxonomy
+export type TaxonomyCategory = 'title' | 'specialty' | 'unit' | 'certification' | 'license' | 'skill';
+
+export interface TaxonomyEntry {
+  id: string;
+  category: TaxonomyCategory;
+  label: string; // canonical name used in extracted entities and filter chips
+  synonyms: string[];
+  related?: string[]; // ids of entries that also count as a match, e.g. the ICU unit and the Critical Care specialty
+}
+
+export interface Taxonomy {
+  version: string;
+  entries: TaxonomyEntry[];
+}
+
+// Golden queries for the offline search evaluation (see data/searchGoldenSet.ts and utils/searchEvaluation.ts)
+export interface RelevanceRule {
+  grade: 1 | 2 | 3; // 3 = ideal candidate, 1 = acceptable
+  // Every field given must hold; values within a field are alternatives
+  jobTitles?: string[]; // exact candidate titles
+  skills?: string[]; // at least one of these skills
+  states?: string[]; // two-letter state of the candidate's location
+  locations?: string[]; // exact candidate locations
+  minExperience?: number;
+}
+
+export interface SearchMetrics {
+  precisionAtK: number;
+  recall: number;
+  ndcg: number;
+}
+
+export interface GoldenQuery {
+  id: string;
+  description: string;
+  searchQuery: SearchQuery; // fixed criteria, so evaluation never depends on entity extraction
+  judgments: RelevanceRule[]; // a candidate's grade is the highest of the rules it meets
+  baseline: SearchMetrics; // quality a run must not fall below (minus the set's tolerance)
+}
+
+export interface SearchGoldenSet {
+  version: string;
+  seed: number; // seed of the candidate set generated by utils/candidateSeeder.ts
+  candidateCount: number;
+  k: number; // cut-off for precision@k and NDCG@k
+  tolerance: number; // allowed drop per metric before a query counts as regressed
+  queries: GoldenQuery[];
+}
+
 // New types for enhanced campaign flow
 interface JobPosting {
   id: string;
@@ -0,0 +1,140 @@
+import { Candidate, SearchQuery } from '../types';
+import { SavedSearch } from '../lib/supabase';
+
+// Search box suggestions: the user's recent and saved searches, plus job titles, skills and
+// locations that actually occur in the project's candidates (most common first).
+
+export type EntityChipField = 'jobTitles' | 'skills' | 'locations';
+
+// An entity picked from the suggestions; it is added to the extracted criteria as-is
+export interface EntityChip {
+  field: EntityChipField;
+  value: string;
+}
+
+export type AutocompleteSuggestion =
+  | { kind: 'recent' | 'saved'; label: string; query: string }
+  | { kind: 'entity'; label: string; chip: EntityChip; count: number };
+
+export const ENTITY_CHIP_LABELS: Record<EntityChipField, string> = {
+  jobTitles: 'Title',
+  skills: 'Skill',
+  locations: 'Location'
+};
+
+const MAX_HISTORY_SUGGESTIONS = 3;
+const MAX_ENTITY_SUGGESTIONS = 6;
+const MIN_ENTITY_PREFIX = 2;
+
+type EntityIndex = Record<EntityChipField, { value: string; count: number }[]>;
+
+const indexCache = new WeakMap<Candidate[], EntityIndex>();
+
+const countValues = (values: string[]) => {
+  const counts = new Map<string, { value: string; count: number }>();
+  values.forEach(value => {
+    if (typeof value !== 'string' || !value.trim()) return;
+    const key = value.trim().toLowerCase();
+    const entry = counts.get(key) || { value: value.trim(), count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Distinct titles, skills and locations in the pool with their candidate counts
+ */
+export function buildEntityIndex(candidates: Candidate[]): EntityIndex {
+  const cached = indexCache.get(candidates);
+  if (cached) return cached;
+
+  const index = {
+    jobTitles: countValues(candidates.map(candidate => candidate.jobTitle)),
+    skills: countValues(candidates.flatMap(candidate => candidate.skills || [])),
+    locations: countValues(candidates.map(candidate => candidate.location))
+  };
+  indexCache.set(candidates, index);
+  return index;
+}
+
+/**
+ * The part of the input still being typed: text after the last comma or joining word
+ * ("ICU nurse in Dal" -> "Dal")
+ */
+export function getTypedFragment(input: string): string {
+  const parts = input.split(/,|;|\b(?:and|with|in|near|from)\b/i);
+  return (parts[parts.length - 1] || '').trim();
+}
+
+/**
+ * Input with the typed fragment removed, after an entity suggestion replaced it
+ */
+export function removeTypedFragment(input: string): string {
+  const fragment = getTypedFragment(input);
+  if (!fragment) return input;
+  const end = input.toLowerCase().lastIndexOf(fragment.toLowerCase());
+  if (end === -1) return input;
+  // The chip carries the meaning of a dangling "in" or "with"
+  return input.slice(0, end).replace(/(?:,|;|\b(?:and|with|in|near|from))\s*$/i, '').trimEnd();
+}
+
+const matchesFragment = (value: string, fragment: string) => {
+  const lowerValue = value.toLowerCase();
+  return lowerValue.startsWith(fragment) || lowerValue.includes(` ${fragment}`);
+};
+
+export function getAutocompleteSuggestions(
+  input: string,
+  sources: { recentSearches: string[]; savedSearches: SavedSearch[]; candidates: Candidate[]; chips: EntityChip[] }
+): AutocompleteSuggestion[] {
+  const text = input.trim().toLowerCase();
+
+  const history: AutocompleteSuggestion[] = [
+    ...sources.savedSearches
+      .filter(saved => !text || saved.name.toLowerCase().includes(text) || saved.query.toLowerCase().includes(text))
+      .slice(0, MAX_HISTORY_SUGGESTIONS)
+      .map(saved => ({ kind: 'saved' as const, label: saved.name, query: saved.query })),
+    ...sources.recentSearches
+      .filter(search => search.toLowerCase() !== text && (!text || search.toLowerCase().includes(text)))
+      .slice(0, MAX_HISTORY_SUGGESTIONS)
+      .map(search => ({ kind: 'recent' as const, label: search, query: search }))
+  ];
+
+  const fragment = getTypedFragment(input).toLowerCase();
+  if (fragment.length < MIN_ENTITY_PREFIX) return history;
+
+  const chosen = new Set(sources.chips.map(chip => `${chip.field}:${chip.value.toLowerCase()}`));
+  const index = buildEntityIndex(sources.candidates);
+  const entities = (Object.keys(index) as EntityChipField[])
+    .flatMap(field => index[field]
+      .filter(entry => matchesFragment(entry.value, fragment) && !chosen.has(`${field}:${entry.value.toLowerCase()}`))
+      .map(entry => ({ kind: 'entity' as const, label: entry.value, chip: { field, value: entry.value }, count: entry.count })))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_ENTITY_SUGGESTIONS);
+
+  return [...entities, ...history];
+}
+
+/**
+ * Query text sent for extraction: the typed text followed by the chip values
+ */
+export function composeQueryText(input: string, chips: EntityChip[]): string {
+  return [input.trim(), ...chips.map(chip => chip.value)].filter(Boolean).join(', ');
+}
+
+/**
+ * Adds the chips to the extracted entities, so picked values are always part of the criteria
+ */
+export function mergeEntityChips(searchQuery: SearchQuery, chips: EntityChip[]): SearchQuery {
+  if (chips.length === 0) return searchQuery;
+
+  const entities = { ...searchQuery.extractedEntities };
+  chips.forEach(({ field, value }) => {
+    const current = entities[field] || [];
+    if (!current.some(item => typeof item === 'string' && item.toLowerCase() === value.toLowerCase())) {
+      entities[field] = [...current, value];
+    }
+  });
+  return { ...searchQuery, extractedEntities: entities };
+}
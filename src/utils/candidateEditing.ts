@@ -0,0 +1,154 @@
+import { CandidateChange, CandidateUpdate, DatabaseCandidate } from '../lib/supabase';
+import { CandidateCertification, CandidateLicense } from '../types';
+import { formatCertification, formatLicense, parseCertificationLine, parseLicenseLine } from './credentials';
+import { EMAIL_PATTERN, MAX_EXPERIENCE_YEARS, normalizeLocation, splitSkillList } from './candidateImport';
+
+// Candidate profile editing: the form holds every editable field as text, and only fields
+// that differ from the stored record are sent to updateCandidate, so the change history
+// (candidate_changes) gets one row per real correction. Licenses and certifications are
+// edited one per line, in the form formatLicense and formatCertification write them.
+
+export type EditableCandidateField = 'name' | 'job_title' | 'location' | 'experience' | 'email' | 'phone'
+  | 'industry' | 'education' | 'availability' | 'skills' | 'summary' | 'licenses' | 'certifications';
+
+export type CandidateEditForm = Record<EditableCandidateField, string>;
+
+export const CANDIDATE_FIELD_LABELS: Record<keyof CandidateUpdate, string> = {
+  name: 'Name',
+  job_title: 'Job title',
+  location: 'Location',
+  experience: 'Years of experience',
+  email: 'Email',
+  phone: 'Phone',
+  industry: 'Industry',
+  education: 'Education',
+  availability: 'Availability',
+  skills: 'Skills',
+  summary: 'Summary',
+  source: 'Source',
+  licenses: 'Licenses',
+  certifications: 'Certifications',
+  work_history: 'Work history',
+  metadata: 'Profile details'
+};
+
+/**
+ * Form values for a stored candidate; skills are comma separated
+ */
+export function toCandidateEditForm(candidate: DatabaseCandidate): CandidateEditForm {
+  return {
+    name: candidate.name || '',
+    job_title: candidate.job_title || '',
+    location: candidate.location || '',
+    experience: String(candidate.experience ?? 0),
+    email: candidate.email || '',
+    phone: candidate.phone || '',
+    industry: candidate.industry || '',
+    education: candidate.education || '',
+    availability: candidate.availability || 'passive',
+    skills: (candidate.skills || []).join(', '),
+    summary: candidate.summary || '',
+    licenses: (candidate.licenses || []).map(formatLicense).join('\n'),
+    certifications: (candidate.certifications || []).map(formatCertification).join('\n')
+  };
+}
+
+const sameLists = (a: string[], b: string[]) => a.length === b.length && a.every((skill, index) => skill === b[index]);
+
+const formLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * The fields of the form that differ from the stored candidate, and the reasons the form
+ * cannot be saved. Blank optional fields are sent as null so they are cleared.
+ */
+export function diffCandidateEdit(candidate: DatabaseCandidate, form: CandidateEditForm): { updates: CandidateUpdate; errors: string[] } {
+  const errors: string[] = [];
+  const updates: CandidateUpdate = {};
+
+  const name = form.name.trim();
+  const jobTitle = form.job_title.trim();
+  const location = normalizeLocation(form.location.trim());
+  if (!name) errors.push('Name is required');
+  if (!jobTitle) errors.push('Job title is required');
+  if (!location) errors.push('Location is required');
+  if (name !== candidate.name) updates.name = name;
+  if (jobTitle !== candidate.job_title) updates.job_title = jobTitle;
+  if (location !== candidate.location) updates.location = location;
+
+  const experience = Number(form.experience.trim() || 0);
+  if (!Number.isInteger(experience) || experience < 0 || experience > MAX_EXPERIENCE_YEARS) {
+    errors.push(`Years of experience must be a whole number from 0 to ${MAX_EXPERIENCE_YEARS}`);
+  } else if (experience !== candidate.experience) {
+    updates.experience = experience;
+  }
+
+  const email = form.email.trim();
+  if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+
+  // Optional text fields: null clears the stored value
+  const optional: Record<'email' | 'phone' | 'industry' | 'education' | 'summary', string> = {
+    email,
+    phone: form.phone.trim(),
+    industry: form.industry.trim(),
+    education: form.education.trim(),
+    summary: form.summary.trim()
+  };
+  (Object.keys(optional) as (keyof typeof optional)[]).forEach(field => {
+    const value = optional[field];
+    if (value !== (candidate[field] || '')) updates[field] = value || null;
+  });
+
+  const availability = form.availability as DatabaseCandidate['availability'];
+  if (availability !== candidate.availability) updates.availability = availability;
+
+  const skills = splitSkillList(form.skills);
+  if (!sameLists(skills, candidate.skills || [])) updates.skills = skills;
+
+  // Credentials are compared as lines, so records that read back the same are not rewritten
+  const licenses: CandidateLicense[] = [];
+  formLines(form.licenses).forEach(line => {
+    const license = parseLicenseLine(line);
+    if (license) licenses.push(license);
+    else errors.push(`"${line}" is not a license; start the line with its type, e.g. "RN License (TX)"`);
+  });
+  if (!sameLists(licenses.map(formatLicense), (candidate.licenses || []).map(formatLicense))) updates.licenses = licenses;
+
+  const certifications = formLines(form.certifications)
+    .map(parseCertificationLine)
+    .filter((certification): certification is CandidateCertification => !!certification);
+  if (!sameLists(certifications.map(formatCertification), (candidate.certifications || []).map(formatCertification))) {
+    updates.certifications = certifications;
+  }
+
+  return { updates, errors };
+}
+
+// A license, certification or position from a history value, by its shape
+const formatChangeItem = (item: unknown): string => {
+  if (!item || typeof item !== 'object') return String(item);
+  const record = item as Record<string, unknown>;
+  if (typeof record.type === 'string') return formatLicense(record as unknown as CandidateLicense);
+  if (typeof record.name === 'string') return formatCertification(record as unknown as CandidateCertification);
+  if (typeof record.title === 'string') return [record.title, record.employer].filter(Boolean).join(' at ');
+  return 'updated';
+};
+
+/**
+ * A history value for display: lists are comma separated (credentials and positions by
+ * semicolons), empty values show as "—"
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value.some(item => item && typeof item === 'object') ? value.map(formatChangeItem).join('; ') : value.join(', ');
+  }
+  if (typeof value === 'object') return 'updated';
+  return String(value);
+}
+
+/**
+ * "Job title" for a change row; unknown columns keep their name
+ */
+export const getChangeFieldLabel = (change: Pick<CandidateChange, 'field'>) =>
+  CANDIDATE_FIELD_LABELS[change.field] || change.field;
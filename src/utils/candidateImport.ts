@@ -0,0 +1,398 @@
+import { bulkCreateCandidates, CandidateImportError, DatabaseCandidate } from '../lib/supabase';
+import { getStateAbbreviation } from '../data/usStates';
+import { SpreadsheetData } from './spreadsheet';
+import { normalizeEmail, normalizePhone } from './duplicates';
+import { CandidateExchangeFormat, parseCandidateDocument } from './dataConverters';
+import { getTaxonomyEntry } from './taxonomy';
+
+// Spreadsheet import: columns are mapped onto candidate fields (suggested from the headers),
+// every row is parsed and validated before anything is written, and valid rows are inserted
+// through bulkCreateCandidates in chunks so one rejected chunk does not lose the whole file.
+
+export type NewCandidate = Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>;
+
+// Candidate columns plus parts that are combined into one (first + last name, city + state)
+export type ImportField =
+  | 'name' | 'first_name' | 'last_name' | 'email' | 'phone' | 'job_title' | 'location' | 'city' | 'state'
+  | 'experience' | 'skills' | 'industry' | 'education' | 'summary' | 'availability' | 'source' | 'last_active';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  aliases: string[]; // normalized header names that suggest this field
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Full name', aliases: ['name', 'full name', 'candidate name', 'candidate', 'contact name', 'contact'] },
+  { field: 'first_name', label: 'First name', aliases: ['first name', 'firstname', 'first', 'given name', 'fname'] },
+  { field: 'last_name', label: 'Last name', aliases: ['last name', 'lastname', 'last', 'surname', 'family name', 'lname'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'email address', 'e mail', 'mail', 'work email', 'personal email'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'mobile phone', 'cell', 'cell phone', 'telephone', 'tel', 'contact number'] },
+  { field: 'job_title', label: 'Job title', aliases: ['job title', 'title', 'current title', 'position', 'current position', 'role', 'occupation', 'job'] },
+  { field: 'location', label: 'Location', aliases: ['location', 'current location', 'city state', 'address', 'metro', 'area'] },
+  { field: 'city', label: 'City', aliases: ['city', 'town'] },
+  { field: 'state', label: 'State', aliases: ['state', 'province', 'region', 'st'] },
+  { field: 'experience', label: 'Years of experience', aliases: ['experience', 'years of experience', 'years experience', 'yoe', 'years', 'total experience', 'exp'] },
+  { field: 'skills', label: 'Skills', aliases: ['skills', 'skill', 'skill set', 'skillset', 'key skills', 'competencies', 'specialties', 'specialty', 'keywords', 'tags'] },
+  { field: 'industry', label: 'Industry', aliases: ['industry', 'sector', 'vertical'] },
+  { field: 'education', label: 'Education', aliases: ['education', 'degree', 'highest degree', 'qualification', 'school'] },
+  { field: 'summary', label: 'Summary', aliases: ['summary', 'profile', 'bio', 'about', 'headline', 'description', 'notes'] },
+  { field: 'availability', label: 'Availability', aliases: ['availability', 'status', 'candidate status', 'job seeking status', 'open to work'] },
+  { field: 'source', label: 'Source', aliases: ['source', 'candidate source', 'lead source', 'origin', 'channel'] },
+  { field: 'last_active', label: 'Last active', aliases: ['last active', 'last activity', 'last contacted', 'last seen', 'last updated', 'updated', 'date'] }
+];
+
+// Field each spreadsheet column is imported into, by column index; null skips the column
+export type ColumnMapping = (ImportField | null)[];
+
+export interface ImportRowResult {
+  rowNumber: number; // spreadsheet row
+  candidate: NewCandidate | null; // null when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CandidateImportReport {
+  importId?: string;
+  fileName: string;
+  totalRows: number;
+  importedCount: number;
+  skippedCount: number; // rows with validation errors
+  failedCount: number; // valid rows the database rejected
+  warningCount: number;
+  errors: CandidateImportError[];
+  candidateIds: string[];
+}
+
+// Rows per bulkCreateCandidates call
+export const IMPORT_CHUNK_SIZE = 200;
+
+// Experience above this many years is treated as a typo
+export const MAX_EXPERIENCE_YEARS = 60;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const AVAILABILITY_PATTERNS: { pattern: RegExp; value: DatabaseCandidate['availability'] }[] = [
+  { pattern: /\b(not[\s-]*(?:looking|available|interested)|unavailable|placed|hired|do not contact)\b/i, value: 'not-looking' },
+  { pattern: /\b(passive|open to (?:offers|opportunities)|casual(?:ly)?|maybe)\b/i, value: 'passive' },
+  { pattern: /\b(available|active(?:ly)?|looking|immediate(?:ly)?|open|yes|true)\b/i, value: 'available' }
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Suggested field for each column: exact alias matches first, then headers containing an
+ * alias ("Candidate Email Address" -> email). Each field is suggested for one column only.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = headers.map(() => null);
+  const used = new Set<ImportField>();
+
+  const assign = (matches: (header: string, alias: string) => boolean) => {
+    normalized.forEach((header, index) => {
+      if (mapping[index]) return;
+      // The longest matching alias is the most specific ("candidate email" is an email, not a name)
+      let best: { field: ImportField; length: number } | null = null;
+      for (const { field, aliases } of IMPORT_FIELDS) {
+        if (used.has(field)) continue;
+        for (const alias of aliases) {
+          if (matches(header, alias) && (!best || alias.length > best.length)) best = { field, length: alias.length };
+        }
+      }
+      if (best) {
+        mapping[index] = best.field;
+        used.add(best.field);
+      }
+    });
+  };
+
+  assign((header, alias) => header === alias);
+  assign((header, alias) => alias.length > 3 && ` ${header} `.includes(` ${alias} `));
+
+  return mapping;
+}
+
+/**
+ * Skills from a list cell: "ICU, ACLS; Wound Care | BLS" -> ["ICU", "ACLS", "Wound Care", "BLS"].
+ * Known skills take their taxonomy label, and duplicates are dropped.
+ */
+export function splitSkillList(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .replace(/^\s*\[|\]\s*$/g, '')
+    .split(/[,;|\n•·]+|\s+\/\s+/)
+    .map(skill => skill.trim().replace(/^["'\-*]+|["']+$/g, '').trim())
+    .filter(Boolean)
+    .map(skill => getTaxonomyEntry(skill)?.label || skill)
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Whole years of experience from a cell: "5", "5+ yrs", "3-5 years" (the lower bound),
+ * "2 years 6 months", "18 months", or a start year ("since 2015"). Null when unreadable.
+ */
+export function parseExperienceYears(value: string, now: Date = new Date()): number | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+
+  const startYear = text.match(/^(?:since\s+|from\s+)?((?:19|20)\d{2})$/);
+  if (startYear) {
+    const years = now.getFullYear() - Number(startYear[1]);
+    return years >= 0 && years <= MAX_EXPERIENCE_YEARS ? years : null;
+  }
+
+  const months = text.match(/(\d+(?:\.\d+)?)\s*(?:months?|mos?)\b/);
+  const years = text.match(/(\d+(?:\.\d+)?)\s*(?:\+|plus)?\s*(?:-|to|–)?\s*(?:\d+(?:\.\d+)?)?\s*\+?\s*(?:years?|yrs?|yoe|y)\b/)
+    || text.match(/^(\d+(?:\.\d+)?)\s*(?:\+|plus)?(?:\s*(?:-|to|–)\s*\d+(?:\.\d+)?)?$/);
+  if (!years && !months) return null;
+
+  const total = (years ? Number(years[1]) : 0) + (months ? Number(months[1]) / 12 : 0);
+  return total <= MAX_EXPERIENCE_YEARS ? Math.floor(total) : null;
+}
+
+/**
+ * Candidate availability from a status cell; null when the text is not recognised
+ */
+export function parseAvailability(value: string): DatabaseCandidate['availability'] | null {
+  return AVAILABILITY_PATTERNS.find(({ pattern }) => pattern.test(value))?.value || null;
+}
+
+/**
+ * ISO timestamp from a date cell or an Excel serial date number; null when unreadable
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  // Excel stores dates as days since 1899-12-30
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return new Date(Date.UTC(1899, 11, 30) + Number(text) * 86400000).toISOString();
+  }
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * "Austin, Texas" -> "Austin, TX"; candidate locations are "City, ST"
+ */
+export const normalizeLocation = (location: string, city = '', state = ''): string => {
+  if (!location && city) {
+    const code = getStateAbbreviation(state);
+    return state ? `${city}, ${code || state}` : city;
+  }
+  if (!location) return getStateAbbreviation(state) || state;
+
+  const parts = location.match(/^(.+?),\s*([A-Za-z .]+?)(?:\s+\d{5}(?:-\d{4})?)?$/);
+  const code = parts && getStateAbbreviation(parts[2]);
+  return code ? `${parts[1].trim()}, ${code}` : location;
+};
+
+interface ValidateOptions {
+  projectId: string;
+  fileName: string;
+  existingCandidates?: Pick<DatabaseCandidate, 'name' | 'email' | 'phone'>[]; // to flag likely duplicates
+  now?: Date;
+}
+
+/**
+ * Parses and validates every row against the mapping. Rows missing a name, job title or
+ * location, or with an invalid or repeated email, get errors and are not imported; fields
+ * that could not be read are left at their defaults with a warning.
+ */
+export function validateImportRows(data: SpreadsheetData, mapping: ColumnMapping, options: ValidateOptions): ImportRowResult[] {
+  const now = options.now || new Date();
+  const emailRows = new Map<string, number>();
+  const existingByEmail = new Map<string, string>();
+  const existingByPhone = new Map<string, string>();
+  (options.existingCandidates || []).forEach(candidate => {
+    const email = normalizeEmail(candidate.email);
+    const phone = normalizePhone(candidate.phone);
+    if (email) existingByEmail.set(email, candidate.name);
+    if (phone) existingByPhone.set(phone, candidate.name);
+  });
+
+  return data.rows.map((row, index) => {
+    const rowNumber = data.rowNumbers[index] ?? index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const value = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column >= 0 ? (row[column] || '').trim() : '';
+    };
+
+    const name = value('name') || [value('first_name'), value('last_name')].filter(Boolean).join(' ');
+    const jobTitle = value('job_title');
+    const location = normalizeLocation(value('location'), value('city'), value('state'));
+    if (!name) errors.push('Missing name');
+    if (!jobTitle) errors.push('Missing job title');
+    if (!location) errors.push('Missing location');
+
+    const email = value('email');
+    if (email && !EMAIL_PATTERN.test(email)) {
+      errors.push(`Invalid email "${email}"`);
+    } else if (email) {
+      const key = normalizeEmail(email);
+      const firstRow = emailRows.get(key);
+      if (firstRow !== undefined) errors.push(`Same email as row ${firstRow}`);
+      else emailRows.set(key, rowNumber);
+      if (existingByEmail.has(key)) warnings.push(`Email already belongs to ${existingByEmail.get(key)} in this project`);
+    }
+
+    const phone = value('phone');
+    if (phone && !normalizePhone(phone)) warnings.push(`Phone "${phone}" looks incomplete`);
+    else if (phone && !email && existingByPhone.has(normalizePhone(phone))) {
+      warnings.push(`Phone already belongs to ${existingByPhone.get(normalizePhone(phone))} in this project`);
+    }
+
+    const experienceText = value('experience');
+    let experience = experienceText ? parseExperienceYears(experienceText, now) : 0;
+    if (experience === null) {
+      warnings.push(`Could not read experience "${experienceText}", imported as 0 years`);
+      experience = 0;
+    }
+
+    const availabilityText = value('availability');
+    let availability = availabilityText ? parseAvailability(availabilityText) : 'passive';
+    if (!availability) {
+      warnings.push(`Unknown availability "${availabilityText}", imported as passive`);
+      availability = 'passive';
+    }
+
+    const lastActiveText = value('last_active');
+    let lastActive = lastActiveText ? parseImportDate(lastActiveText) : now.toISOString();
+    if (!lastActive) {
+      warnings.push(`Could not read date "${lastActiveText}", using today`);
+      lastActive = now.toISOString();
+    }
+
+    if (errors.length > 0) return { rowNumber, candidate: null, errors, warnings };
+
+    // Unmapped columns are kept in metadata rather than dropped
+    const extraFields = Object.fromEntries(
+      data.headers
+        .map((header, column) => [header, row[column]] as const)
+        .filter(([, cell], column) => mapping[column] === null && cell)
+    );
+
+    return {
+      rowNumber,
+      errors,
+      warnings,
+      candidate: {
+        project_id: options.projectId,
+        name,
+        email: email || undefined,
+        phone: phone || undefined,
+        job_title: jobTitle,
+        location,
+        experience,
+        skills: splitSkillList(value('skills')),
+        industry: value('industry') || undefined,
+        education: value('education') || undefined,
+        summary: value('summary') || undefined,
+        availability,
+        source: value('source') || 'Import',
+        last_active: lastActive,
+        metadata: {
+          imported: true,
+          import_file: options.fileName,
+          import_row: rowNumber,
+          ...(Object.keys(extraFields).length > 0 && { extra_fields: extraFields })
+        }
+      }
+    };
+  });
+}
+
+/**
+ * Candidates from a JSON Resume or HR-XML file, one row per document, checked like spreadsheet
+ * rows: a missing name, job title or location, or an invalid or repeated email, is an error
+ */
+export function readCandidateDocument(text: string, options: ValidateOptions): { format: CandidateExchangeFormat; rows: ImportRowResult[] } {
+  const { format, candidates } = parseCandidateDocument(text, options.projectId);
+  const existingEmails = new Map((options.existingCandidates || []).map(candidate => [normalizeEmail(candidate.email), candidate.name]));
+  const emailRows = new Map<string, number>();
+
+  const rows = candidates.map((candidate, index) => {
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!candidate.name) errors.push('Missing name');
+    if (!candidate.job_title) errors.push('Missing job title');
+    if (!candidate.location) errors.push('Missing location');
+
+    const email = normalizeEmail(candidate.email);
+    if (candidate.email && !EMAIL_PATTERN.test(candidate.email)) {
+      errors.push(`Invalid email "${candidate.email}"`);
+    } else if (email) {
+      if (emailRows.has(email)) errors.push(`Same email as candidate ${emailRows.get(email)}`);
+      else emailRows.set(email, rowNumber);
+      if (existingEmails.has(email)) warnings.push(`Email already belongs to ${existingEmails.get(email)} in this project`);
+    }
+
+    return {
+      rowNumber,
+      errors,
+      warnings,
+      candidate: errors.length > 0 ? null : { ...candidate, metadata: { ...candidate.metadata, import_file: options.fileName, import_row: rowNumber } }
+    };
+  });
+
+  console.log(`📄 Read ${rows.length} ${format} candidates from ${options.fileName}`);
+  return { format, rows };
+}
+
+/**
+ * Inserts the valid rows in chunks of IMPORT_CHUNK_SIZE. A chunk the database rejects is
+ * reported row by row and the import carries on with the next chunk.
+ */
+export async function importCandidateRows(
+  rows: ImportRowResult[],
+  options: { fileName: string; importId?: string; onProgress?: (processed: number, total: number) => void }
+): Promise<CandidateImportReport> {
+  const valid = rows.filter(row => row.candidate);
+  const report: CandidateImportReport = {
+    importId: options.importId,
+    fileName: options.fileName,
+    totalRows: rows.length,
+    importedCount: 0,
+    skippedCount: rows.length - valid.length,
+    failedCount: 0,
+    warningCount: rows.reduce((sum, row) => sum + row.warnings.length, 0),
+    errors: rows.flatMap(row => row.errors.map(message => ({ row: row.rowNumber, message }))),
+    candidateIds: []
+  };
+
+  console.log(`📥 Importing ${valid.length} of ${rows.length} rows from ${options.fileName}`);
+
+  for (let start = 0; start < valid.length; start += IMPORT_CHUNK_SIZE) {
+    const chunk = valid.slice(start, start + IMPORT_CHUNK_SIZE);
+    const candidates = chunk.map(row => ({
+      ...(row.candidate as NewCandidate),
+      metadata: { ...row.candidate?.metadata, ...(options.importId && { import_id: options.importId }) }
+    }));
+
+    const { data, error } = await bulkCreateCandidates(candidates);
+    if (error || !data) {
+      console.error(`❌ Import chunk starting at row ${chunk[0].rowNumber} failed:`, error);
+      report.failedCount += chunk.length;
+      chunk.forEach(row => report.errors.push({ row: row.rowNumber, message: `Not saved: ${error?.message || 'database error'}` }));
+    } else {
+      report.importedCount += data.length;
+      report.candidateIds.push(...data.map((candidate: DatabaseCandidate) => candidate.id));
+    }
+
+    options.onProgress?.(Math.min(start + IMPORT_CHUNK_SIZE, valid.length), valid.length);
+  }
+
+  report.errors.sort((a, b) => a.row - b.row);
+  console.log(`✅ Imported ${report.importedCount} candidates (${report.skippedCount} skipped, ${report.failedCount} failed)`);
+  return report;
+}
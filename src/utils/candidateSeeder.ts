@@ -1,7 +1,25 @@
 import { bulkCreateCandidates, DatabaseCandidate } from '../lib/supabase';
 
-// Generate 100 diverse healthcare candidates
-const generateCandidates = (projectId: string): Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>[] => {
+/**
+ * Deterministic replacement for Math.random (mulberry32), so a seed always generates the same candidates
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Generate diverse healthcare candidates (100 by default); pass a seeded random for a fixed set
+export const generateCandidates = (
+  projectId: string,
+  count = 100,
+  random: () => number = Math.random
+): Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>[] => {
   const jobTitles = [
     'Registered Nurse', 'Clinical Nurse Specialist', 'Nurse Practitioner', 'Emergency Room Nurse',
     'Licensed Practical Nurse', 'Healthcare Administrator', 'Director of Nursing', 'Surgical Technologist',
@@ -89,20 +107,20 @@ const generateCandidates = (projectId: string): Omit<DatabaseCandidate, 'id' | '
 
   const candidates: Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>[] = [];
 
-  for (let i = 0; i < 100; i++) {
-    const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-    const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
+  for (let i = 0; i < count; i++) {
+    const firstName = firstNames[Math.floor(random() * firstNames.length)];
+    const lastName = lastNames[Math.floor(random() * lastNames.length)];
     const name = `${firstName} ${lastName}`;
     const email = `${firstName.toLowerCase()}.${lastName.toLowerCase()}@email.com`;
-    const phone = `+1 (${Math.floor(Math.random() * 900) + 100}) ${Math.floor(Math.random() * 900) + 100}-${Math.floor(Math.random() * 9000) + 1000}`;
+    const phone = `+1 (${Math.floor(random() * 900) + 100}) ${Math.floor(random() * 900) + 100}-${Math.floor(random() * 9000) + 1000}`;
     
-    const jobTitle = jobTitles[Math.floor(Math.random() * jobTitles.length)];
-    const location = locations[Math.floor(Math.random() * locations.length)];
-    const experience = Math.floor(Math.random() * 15) + 3; // 3-17 years
-    const skills = skillSets[Math.floor(Math.random() * skillSets.length)];
-    const education = educationLevels[Math.floor(Math.random() * educationLevels.length)];
-    const availability = availabilityOptions[Math.floor(Math.random() * availabilityOptions.length)];
-    const source = sources[Math.floor(Math.random() * sources.length)];
+    const jobTitle = jobTitles[Math.floor(random() * jobTitles.length)];
+    const location = locations[Math.floor(random() * locations.length)];
+    const experience = Math.floor(random() * 15) + 3; // 3-17 years
+    const skills = skillSets[Math.floor(random() * skillSets.length)];
+    const education = educationLevels[Math.floor(random() * educationLevels.length)];
+    const availability = availabilityOptions[Math.floor(random() * availabilityOptions.length)];
+    const source = sources[Math.floor(random() * sources.length)];
     
     // Generate realistic summary based on job title and experience
     const summaries = [
@@ -113,11 +131,11 @@ const generateCandidates = (projectId: string): Omit<DatabaseCandidate, 'id' | '
       `Professional ${jobTitle.toLowerCase()} with ${experience} years of experience, strong background in ${skills[0].toLowerCase()} and quality improvement.`
     ];
     
-    const summary = summaries[Math.floor(Math.random() * summaries.length)];
+    const summary = summaries[Math.floor(random() * summaries.length)];
     
     // Generate last active date (within last 30 days)
     const lastActive = new Date();
-    lastActive.setDate(lastActive.getDate() - Math.floor(Math.random() * 30));
+    lastActive.setDate(lastActive.getDate() - Math.floor(random() * 30));
 
     candidates.push({
       project_id: projectId,
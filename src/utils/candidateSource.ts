@@ -0,0 +1,151 @@
+import { Candidate, QueryNode, SearchQuery } from '../types';
+import { CandidatePoolFilters, getCandidatesByIds, searchCandidatePool } from '../lib/supabase';
+import { convertDatabaseCandidatesToCandidates } from './dataConverters';
+import { expandTermWithRelated } from './taxonomy';
+import { getTitleExpansions } from './queryParser';
+import { US_STATES, getStateAbbreviation } from '../data/usStates';
+
+// Large candidate pools are not loaded into the browser. Searches instead read the candidates
+// that pass the hard filters from Postgres page by page (search_candidates RPC), and the
+// client-side pipeline runs on that subset. The server filters are never stricter than the
+// client ones, so both paths return the same matches.
+
+// Pools up to this size are loaded in full and filtered in the browser
+export const LOCAL_POOL_LIMIT = 2000;
+
+export const CANDIDATE_PAGE_SIZE = 500;
+
+// Most candidates a single search reads from the server; beyond this the least relevant are dropped
+export const MAX_SERVER_CANDIDATES = 5000;
+
+export interface CandidatePage {
+  candidates: Candidate[];
+  total: number; // candidates passing the filters, across all pages
+}
+
+export interface CandidateSource {
+  getPage: (searchQuery: SearchQuery, page: number, pageSize: number) => Promise<CandidatePage>;
+  getByIds: (candidateIds: string[]) => Promise<Candidate[]>;
+}
+
+// Searches accept either a loaded pool or a paged source
+export type CandidatePool = Candidate[] | CandidateSource;
+
+export const isCandidateSource = (pool: CandidatePool): pool is CandidateSource => !Array.isArray(pool);
+
+// Broad title keywords the client-side title filter also accepts
+const TITLE_KEYWORDS = ['nurse', 'administrator', 'technologist', 'therapist'];
+
+// Case-insensitive de-duplication; Postgres compares with ILIKE anyway
+const unique = (values: string[]) => {
+  const byKey = new Map<string, string>();
+  values.filter(value => typeof value === 'string').map(value => value.trim()).filter(Boolean).forEach(value => {
+    if (!byKey.has(value.toLowerCase())) byKey.set(value.toLowerCase(), value);
+  });
+  return Array.from(byKey.values());
+};
+
+const expandTitles = (titles: string[]) =>
+  unique(titles.flatMap(title => [
+    ...expandTermWithRelated(title),
+    ...getTitleExpansions(title),
+    ...TITLE_KEYWORDS.filter(keyword => title.toLowerCase().includes(keyword))
+  ]));
+
+// "Texas" also has to match "Dallas, TX" and vice versa
+const expandLocations = (locations: string[]) =>
+  unique(locations.flatMap(location => {
+    const state = getStateAbbreviation(location);
+    return state ? [location, state, US_STATES[state]] : [location];
+  }));
+
+const toTextQuery = (values: string[]) =>
+  unique(values).map(value => (/\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value)).join(' or ');
+
+/**
+ * Top-level conjuncts of the include clauses; only these can be pushed down safely
+ */
+const flattenIncludeNodes = (nodes: QueryNode[]): QueryNode[] =>
+  nodes.flatMap(node => (node.type === 'and' ? flattenIncludeNodes(node.children) : [node]));
+
+/**
+ * Server-side filters for a search, mirroring applyLenientHardFilters
+ */
+export function buildCandidatePoolFilters(searchQuery: SearchQuery): CandidatePoolFilters {
+  const { extractedEntities, clauses } = searchQuery;
+  const text = toTextQuery([...(extractedEntities.jobTitles || []), ...(extractedEntities.skills || [])]);
+
+  // Boolean queries replace the entity filters; every top-level term must match, so each
+  // can narrow the pool (several terms on one field are pushed down as "any of", which is looser)
+  if (clauses && clauses.include.length > 0) {
+    const filters: CandidatePoolFilters = { text };
+    flattenIncludeNodes(clauses.include).forEach(node => {
+      if (node.type === 'range') {
+        if (['>', '>=', '='].includes(node.operator)) filters.minExperience = Math.max(filters.minExperience ?? 0, Math.floor(node.value));
+        if (['<', '<=', '='].includes(node.operator)) filters.maxExperience = Math.min(filters.maxExperience ?? Infinity, Math.ceil(node.value));
+        return;
+      }
+      if (node.type !== 'term') return;
+      if (node.field === 'title') filters.titles = expandTitles([...(filters.titles || []), node.value]);
+      if (node.field === 'location') filters.locations = expandLocations([...(filters.locations || []), node.value]);
+      if (node.field === 'industry') filters.industries = unique([...(filters.industries || []), node.value]);
+      // Multi-word skills can match partially on the client, so only single words are pushed down
+      if (node.field === 'skills' && !/\s/.test(node.value.trim())) filters.skills = unique([...(filters.skills || []), node.value.toLowerCase()]);
+    });
+    return filters;
+  }
+
+  const { min, max } = extractedEntities.experienceRange || {};
+  const industries = extractedEntities.industries || [];
+  return {
+    titles: expandTitles(extractedEntities.jobTitles || []),
+    // Radius searches are resolved against the gazetteer on the client
+    locations: extractedEntities.locationRadius ? [] : expandLocations(extractedEntities.locations || []),
+    minExperience: min !== undefined && min !== null ? Math.max(0, min) : undefined,
+    maxExperience: min !== undefined && min !== null && max ? max : undefined,
+    industries: industries.includes('Healthcare') ? [] : unique(industries),
+    text
+  };
+}
+
+/**
+ * Candidate source backed by the search_candidates RPC
+ */
+export function createSupabaseCandidateSource(projectId: string): CandidateSource {
+  return {
+    getPage: async (searchQuery, page, pageSize) => {
+      const { data, error, count } = await searchCandidatePool(projectId, buildCandidatePoolFilters(searchQuery), page, pageSize);
+      if (error) throw error;
+      return { candidates: convertDatabaseCandidatesToCandidates(data || []), total: count };
+    },
+    getByIds: async (candidateIds) => {
+      const { data, error } = await getCandidatesByIds(candidateIds);
+      if (error) throw error;
+      return convertDatabaseCandidatesToCandidates(data || []);
+    }
+  };
+}
+
+/**
+ * The candidates a search should run against: the pool itself, or every page the source
+ * returns for the search (up to MAX_SERVER_CANDIDATES)
+ */
+export async function resolveCandidatePool(
+  pool: CandidatePool,
+  searchQuery: SearchQuery,
+  maxCandidates: number = MAX_SERVER_CANDIDATES
+): Promise<Candidate[]> {
+  if (!isCandidateSource(pool)) return pool;
+
+  const candidates: Candidate[] = [];
+  let total = 0;
+  for (let page = 0; candidates.length < maxCandidates; page++) {
+    const result = await pool.getPage(searchQuery, page, CANDIDATE_PAGE_SIZE);
+    total = result.total;
+    candidates.push(...result.candidates);
+    if (result.candidates.length < CANDIDATE_PAGE_SIZE || candidates.length >= total) break;
+  }
+
+  console.log(`🗄️ Server-side filters: ${total} candidates match, loaded ${Math.min(candidates.length, maxCandidates)}`);
+  return candidates.slice(0, maxCandidates);
+}
@@ -0,0 +1,347 @@
+import { Candidate, CandidateCertification, CandidateLicense, CredentialRequirement } from '../types';
+import { US_STATES, getStateAbbreviation } from '../data/usStates';
+import { findTaxonomyEntries, getTaxonomyEntry, textMatchesTerm } from './taxonomy';
+
+// Licenses and certifications with expiry dates: reading them from resume and profile lines,
+// their status on a given day, and the credential constraints of a search ("active compact
+// license", "ACLS valid through 2027"). Dates are ISO days (YYYY-MM-DD); an expiry given as a
+// month or a year means the end of it. A credential with no expiry date counts as active but
+// cannot prove it is valid through a later date.
+
+export type CredentialStatus = 'active' | 'expiring' | 'expired' | 'no-expiry';
+
+// Credentials expiring within this many days are flagged
+export const EXPIRING_SOON_DAYS = 90;
+
+export interface CredentialAlert {
+  label: string; // "RN License (TX)", "ACLS"
+  expiresOn: string;
+  status: 'expiring' | 'expired';
+}
+
+// License types, with the phrases that name them
+const LICENSE_TYPES: { type: string; pattern: RegExp }[] = [
+  { type: 'APRN', pattern: /\bAPRN\b|\badvanced practice\b/i },
+  { type: 'NP', pattern: /\bNP\b|\bnurse practitioner\b/i },
+  { type: 'CRNA', pattern: /\bCRNA\b|\bnurse anesthetist\b/i },
+  { type: 'LPN', pattern: /\bLPN\b|\bpractical nurse\b/i },
+  { type: 'LVN', pattern: /\bLVN\b|\bvocational nurse\b/i },
+  { type: 'RN', pattern: /\bRN\b|\bregistered nurse\b/i },
+  { type: 'PT', pattern: /\bPT\b|\bphysical therap/i },
+  { type: 'RT', pattern: /\bR?RT\b|\brespiratory (?:care|therap)/i }
+];
+
+const LICENSE_WORD = /\blicen[sc](?:e|ed|ure)\b/i;
+const COMPACT_PATTERN = /\b(?:compact|multi-?state|NLC)\b/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+// A date as written in a resume or a query; the first group is the whole date
+const DATE = `((?:19|20)\\d{2}-\\d{1,2}(?:-\\d{1,2})?|\\d{1,2}/(?:\\d{1,2}/)?(?:19|20)?\\d{2}|${MONTH_NAMES}\\s+(?:\\d{1,2},?\\s+)?(?:19|20)\\d{2}|(?:19|20)\\d{2})`;
+const EXPIRY_PATTERN = new RegExp(`\\b(?:exp(?:ires|iring|iration|\\.)?(?:\\s+date)?|valid|good|renew(?:s|al)?(?:\\s+due)?)\\s*(?:on|through|thru|until|till|to|by|:)?\\s*${DATE}`, 'i');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toIsoDay = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * "2027-05-31", "05/31/2027", "05/2027", "May 2027" or "2027" as YYYY-MM-DD; a month or a year
+ * means its last day. Null when unreadable.
+ */
+export function parseCredentialDate(text: string): string | null {
+  const value = text.trim().toLowerCase().replace(/\.$/, '');
+  let match = value.match(/^((?:19|20)\d{2})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (match) {
+    const [year, month] = [Number(match[1]), Number(match[2])];
+    return month >= 1 && month <= 12 ? toIsoDay(year, month, match[3] ? Number(match[3]) : lastDayOfMonth(year, month)) : null;
+  }
+
+  match = value.match(/^(\d{1,2})\/(?:(\d{1,2})\/)?((?:19|20)?\d{2})$/);
+  if (match) {
+    const month = Number(match[1]);
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return month >= 1 && month <= 12 ? toIsoDay(year, month, match[2] ? Number(match[2]) : lastDayOfMonth(year, month)) : null;
+  }
+
+  match = value.match(new RegExp(`^${MONTH_NAMES}\\s+(?:(\\d{1,2}),?\\s+)?((?:19|20)\\d{2})$`, 'i'));
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3)) + 1;
+    const year = Number(match[3]);
+    return toIsoDay(year, month, match[2] ? Number(match[2]) : lastDayOfMonth(year, month));
+  }
+
+  match = value.match(/^((?:19|20)\d{2})$/);
+  return match ? `${match[1]}-12-31` : null;
+}
+
+const today = (now: Date) => toIsoDay(now.getFullYear(), now.getMonth() + 1, now.getDate());
+
+/**
+ * Status of a credential with this expiry date on the given day
+ */
+export function getCredentialStatus(expiresOn: string | undefined, now: Date = new Date()): CredentialStatus {
+  if (!expiresOn) return 'no-expiry';
+  if (expiresOn < today(now)) return 'expired';
+
+  const soon = new Date(now.getTime() + EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000);
+  return expiresOn <= today(soon) ? 'expiring' : 'active';
+}
+
+/**
+ * "RN License (TX)" or "Compact RN License (TX)"
+ */
+export const getLicenseLabel = (license: CandidateLicense) =>
+  `${license.compact ? 'Compact ' : ''}${license.type} License${license.state ? ` (${license.state})` : ''}`;
+
+/**
+ * A license as one line: "RN License (TX) #123456, compact, expires 2027-05-31". The line reads
+ * back with parseLicenseLine.
+ */
+export const formatLicense = (license: CandidateLicense) =>
+  [
+    `${license.type} License${license.state ? ` (${license.state})` : ''}${license.number ? ` #${license.number}` : ''}`,
+    license.compact ? 'compact' : '',
+    license.expiresOn ? `expires ${license.expiresOn}` : ''
+  ].filter(Boolean).join(', ');
+
+/**
+ * A certification as one line: "ACLS (American Heart Association), expires 2027-03-31". The line
+ * reads back with parseCertificationLine.
+ */
+export const formatCertification = (certification: CandidateCertification) =>
+  [
+    `${certification.name}${certification.issuer ? ` (${certification.issuer})` : ''}`,
+    certification.expiresOn ? `expires ${certification.expiresOn}` : ''
+  ].filter(Boolean).join(', ');
+
+const findLicenseType = (text: string) => LICENSE_TYPES.find(({ pattern }) => pattern.test(text))?.type;
+
+// A state name, or a two-letter code that is not also a license type
+const findState = (text: string, licenseType?: string): string | undefined => {
+  const name = Object.values(US_STATES)
+    .sort((a, b) => b.length - a.length)
+    .find(stateName => new RegExp(`\\b${stateName}\\b`, 'i').test(text));
+  if (name) return getStateAbbreviation(name) || undefined;
+
+  const codes = Array.from(text.matchAll(/(^|[\s(,–-])([A-Z]{2})(?=$|[\s),.–-])/g))
+    .filter(match => US_STATES[match[2]] && match[2] !== licenseType && !LICENSE_TYPES.some(({ type }) => type === match[2]))
+    .map(match => match[2]);
+  return codes[0];
+};
+
+const findExpiry = (text: string) => {
+  const match = text.match(EXPIRY_PATTERN);
+  return match ? parseCredentialDate(match[1]) || undefined : undefined;
+};
+
+/**
+ * A license from a resume or profile line, e.g. "RN License – Texas #123456, exp. 05/2027" or
+ * "Multistate RN license (TX), expires May 2027". Null when the line names no license type.
+ */
+export function parseLicenseLine(line: string): CandidateLicense | null {
+  const text = line.replace(/^[\s•·\-*]+/, '').trim();
+  const type = findLicenseType(text);
+  const state = type ? findState(text.replace(EXPIRY_PATTERN, ' '), type) : undefined;
+  // "RN – Texas" is a license even without the word
+  if (!type || !(LICENSE_WORD.test(text) || COMPACT_PATTERN.test(text) || (state && text.length <= 60))) return null;
+
+  const number = text.match(/(?:#|\b(?:no\.?|number|lic(?:ense)?\.?\s*(?:no\.?|#)?)\s*:?\s*)([A-Z]{0,3}\d[\w-]{3,})/i)?.[1];
+  return {
+    type,
+    state,
+    number,
+    compact: COMPACT_PATTERN.test(text) || undefined,
+    expiresOn: findExpiry(text)
+  };
+}
+
+/**
+ * A certification from a resume or profile line, e.g. "ACLS (American Heart Association),
+ * expires 03/2027". Known certifications take their taxonomy label. Null for blank lines and
+ * lines that are only a date or an issuer.
+ */
+export function parseCertificationLine(line: string): CandidateCertification | null {
+  const text = line.replace(/^[\s•·\-*]+/, '').trim();
+  const withoutExpiry = text.replace(EXPIRY_PATTERN, ' ').replace(/\s*[,;–-]\s*$/, '').trim();
+  const entry = findTaxonomyEntries(withoutExpiry, ['certification'])[0];
+  const name = entry?.label || withoutExpiry.replace(/\s*(?:[(,]|\s[–-]\s).*$/, '').trim();
+  if (!name || /^\d/.test(name)) return null;
+
+  const issuer = withoutExpiry.match(/\(([^)]+)\)/)?.[1]?.trim()
+    || withoutExpiry.match(/\s[–-]\s+([A-Za-z][^,]+)$/)?.[1]?.trim();
+  return {
+    name,
+    issuer: issuer && !getStateAbbreviation(issuer) ? issuer : undefined,
+    expiresOn: findExpiry(text)
+  };
+}
+
+/**
+ * Licenses and certifications from the lines of a resume's certifications section or a profile
+ * form. A line listing several known certifications without a date ("BLS, ACLS, PALS") gives one
+ * certification each.
+ */
+export function parseCredentialLines(lines: string[]): { licenses: CandidateLicense[]; certifications: CandidateCertification[] } {
+  const licenses: CandidateLicense[] = [];
+  const certifications: CandidateCertification[] = [];
+
+  lines.map(line => line.trim()).filter(Boolean).forEach(line => {
+    const license = parseLicenseLine(line);
+    if (license) {
+      licenses.push(license);
+      return;
+    }
+
+    const listed = findTaxonomyEntries(line, ['certification']);
+    if (listed.length > 1 && !EXPIRY_PATTERN.test(line)) {
+      listed.forEach(entry => certifications.push({ name: entry.label }));
+      return;
+    }
+
+    // Generic license names from the taxonomy ("RN License") without a type of their own are not certifications
+    const certification = parseCertificationLine(line);
+    if (certification && getTaxonomyEntry(certification.name)?.category !== 'license') certifications.push(certification);
+  });
+
+  const seen = new Set<string>();
+  return {
+    licenses,
+    certifications: certifications.filter(({ name }) => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+  };
+}
+
+/**
+ * Expired and soon-expiring licenses and certifications, soonest first
+ */
+export function getCredentialAlerts(candidate: Pick<Candidate, 'licenses' | 'certifications'>, now: Date = new Date()): CredentialAlert[] {
+  const credentials = [
+    ...(candidate.licenses || []).map(license => ({ label: getLicenseLabel(license), expiresOn: license.expiresOn })),
+    ...(candidate.certifications || []).map(certification => ({ label: certification.name, expiresOn: certification.expiresOn }))
+  ];
+
+  return credentials
+    .flatMap(({ label, expiresOn }) => {
+      const status = getCredentialStatus(expiresOn, now);
+      return expiresOn && (status === 'expired' || status === 'expiring') ? [{ label, expiresOn, status }] : [];
+    })
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+}
+
+// Validity qualifiers around a credential mentioned in a query
+const ACTIVE_PATTERN = /\b(?:active|current|valid|unencumbered|unexpired|in good standing)\b/i;
+const VALID_THROUGH = new RegExp(`^\\W*(?:(?:certification|certified|cert|license)\\s+)?(?:(?:that(?:'s| is)?|which is|is|still)\\s+)?(?:valid|current|good|active|expir(?:es|ing)|not expir(?:ed|ing))?\\s*(?:through|thru|until|till|past|beyond|after|to|into)\\s+(?:(?:the\\s+)?end\\s+of\\s+)?${DATE}`, 'i');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Credential constraints of a search: licenses with a validity, state or compact qualifier
+ * ("active compact license", "active Texas RN license") and certifications with a validity
+ * qualifier ("ACLS valid through 2027", "current BLS"). A credential named without one stays an
+ * ordinary skill.
+ */
+export function parseCredentialRequirements(query: string): CredentialRequirement[] {
+  if (!query || typeof query !== 'string') return [];
+  const requirements: CredentialRequirement[] = [];
+
+  for (const match of query.matchAll(/\b((?:[\w-]+\s+){0,4})licen[sc]e[ds]?\b((?:\s+(?:in|of|from)\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)?)/gi)) {
+    // Only the words after the last clause break qualify the license: in "RN in Dallas, TX with
+    // an active compact license", TX is where the candidate lives
+    const before = match[1].split(/,|\b(?:with|and|who|having|has|holding|plus|or)\b/i).pop() || '';
+    const phrase = `${before} ${match[2]}`;
+    const type = findLicenseType(before);
+    const state = findState(phrase, type);
+    const compact = COMPACT_PATTERN.test(before);
+    const active = ACTIVE_PATTERN.test(before);
+    const after = query.slice((match.index || 0) + match[0].length).match(VALID_THROUGH);
+    const validThrough = after ? parseCredentialDate(after[1]) || undefined : undefined;
+    if (!compact && !active && !state && !validThrough) continue;
+    requirements.push({
+      kind: 'license',
+      ...(type && { name: type }),
+      ...(state && { state }),
+      ...(compact && { compact }),
+      ...(active && !validThrough && { active }),
+      ...(validThrough && { validThrough })
+    });
+  }
+
+  findTaxonomyEntries(query, ['certification']).forEach(entry => {
+    const mention = new RegExp(`(\\S+\\s+)?\\b(?:${[entry.label, ...entry.synonyms].map(escapeRegExp).join('|')})\\b`, 'i').exec(query);
+    if (!mention) return;
+    const after = query.slice(mention.index + mention[0].length).match(VALID_THROUGH);
+    const validThrough = after ? parseCredentialDate(after[1]) || undefined : undefined;
+    const active = ACTIVE_PATTERN.test(mention[1] || '');
+    if (validThrough) requirements.push({ kind: 'certification', name: entry.label, validThrough });
+    else if (active) requirements.push({ kind: 'certification', name: entry.label, active });
+  });
+
+  return requirements;
+}
+
+/**
+ * "active compact RN license (TX)", "ACLS valid through 2027-12-31"
+ */
+export function describeCredentialRequirement(requirement: CredentialRequirement): string {
+  const validity = requirement.validThrough ? ` valid through ${requirement.validThrough}` : '';
+  if (requirement.kind === 'certification') {
+    return `${requirement.active ? 'active ' : ''}${requirement.name}${validity}`;
+  }
+  return [
+    requirement.active ? 'active' : '',
+    requirement.compact ? 'compact' : '',
+    requirement.name || '',
+    `license${requirement.state ? ` (${requirement.state})` : ''}${validity}`
+  ].filter(Boolean).join(' ');
+}
+
+const isValidFor = (expiresOn: string | undefined, requirement: CredentialRequirement, now: Date) => {
+  if (requirement.validThrough) return !!expiresOn && expiresOn >= requirement.validThrough;
+  return !requirement.active || getCredentialStatus(expiresOn, now) !== 'expired';
+};
+
+/**
+ * The candidate's credential that meets the requirement, if any. Candidates with no license or
+ * certification records fall back to their skills ("Compact License", "ACLS"), which can meet a
+ * requirement but never a validity date.
+ */
+export function findMatchingCredential(candidate: Candidate, requirement: CredentialRequirement, now: Date = new Date()): string | null {
+  if (requirement.kind === 'license') {
+    const licenses = candidate.licenses || [];
+    if (licenses.length > 0) {
+      const license = licenses.find(item =>
+        (!requirement.name || item.type === requirement.name) &&
+        (!requirement.state || item.state === requirement.state) &&
+        (!requirement.compact || item.compact) &&
+        isValidFor(item.expiresOn, requirement, now)
+      );
+      return license ? formatLicense(license) : null;
+    }
+
+    if (requirement.validThrough || requirement.state) return null;
+    const term = requirement.compact ? 'Compact License' : requirement.name ? `${requirement.name} License` : null;
+    return (candidate.skills || []).find(skill =>
+      typeof skill === 'string' && (term ? textMatchesTerm(skill, term) : LICENSE_WORD.test(skill))
+    ) || null;
+  }
+
+  const name = requirement.name || '';
+  const certifications = (candidate.certifications || []).filter(item => textMatchesTerm(item.name, name));
+  if (certifications.length > 0) {
+    const certification = certifications.find(item => isValidFor(item.expiresOn, requirement, now));
+    return certification ? formatCertification(certification) : null;
+  }
+
+  if (requirement.validThrough) return null;
+  return (candidate.skills || []).find(skill => typeof skill === 'string' && textMatchesTerm(skill, name)) || null;
+}
+
+/**
+ * Whether the candidate meets every credential requirement of the search
+ */
+export const meetsCredentialRequirements = (candidate: Candidate, requirements: CredentialRequirement[], now: Date = new Date()) =>
+  requirements.every(requirement => findMatchingCredential(candidate, requirement, now) !== null);
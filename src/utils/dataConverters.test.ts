@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Candidate } from '../types';
+import {
+  candidateToJsonResume,
+  candidatesToHrXml,
+  convertCandidateToDatabaseCandidate,
+  exportCandidateDocument,
+  hrXmlToCandidates,
+  jsonResumeToCandidate,
+  parseCandidateDocument
+} from './dataConverters';
+
+const nurse: Candidate = {
+  id: 'c1',
+  name: 'Jane Doe',
+  jobTitle: 'Registered Nurse',
+  location: 'Dallas, TX',
+  experience: 8,
+  skills: ['ICU', 'Wound Care'],
+  industry: 'Healthcare',
+  education: 'BSN, University of Texas at Arlington',
+  email: 'jane.doe@example.com',
+  phone: '(555) 123-4567',
+  summary: 'Critical care nurse',
+  lastActive: '2026-01-01T00:00:00.000Z',
+  source: 'Referral',
+  availability: 'available',
+  licenses: [
+    { type: 'RN', state: 'TX', number: '712345', compact: true, expiresOn: '2027-05-31' },
+    { type: 'RN', state: 'CA', expiresOn: '2025-12-31' }
+  ],
+  certifications: [
+    { name: 'ACLS', issuer: 'American Heart Association', expiresOn: '2026-11-30' },
+    { name: 'BLS' }
+  ],
+  workHistory: [
+    { title: 'Registered Nurse', employer: 'Mercy Hospital & Clinics', location: 'Dallas, TX', startDate: '2018-01', current: true },
+    { title: 'Staff Nurse', employer: 'Baylor Medical Center', location: 'Fort Worth, TX', startDate: '2014-06', endDate: '2017-12', current: false }
+  ]
+};
+
+const therapist: Candidate = {
+  id: 'c2',
+  name: 'Sam Lee',
+  jobTitle: 'Physical Therapist',
+  location: 'Boise, ID',
+  experience: 7,
+  skills: ['Orthopedics'],
+  industry: 'Healthcare',
+  education: 'DPT',
+  email: 'sam.lee@example.com',
+  phone: '555-0100',
+  summary: 'Outpatient PT <"sports">',
+  lastActive: '2026-02-01T00:00:00.000Z',
+  source: 'Job board',
+  availability: 'passive',
+  licenses: [],
+  certifications: [],
+  workHistory: []
+};
+
+describe('JSON Resume', () => {
+  it('round-trips a candidate with licenses, certifications and work history', () => {
+    expect(jsonResumeToCandidate(candidateToJsonResume(nurse))).toEqual(nurse);
+  });
+
+  it('round-trips a candidate without credentials', () => {
+    expect(jsonResumeToCandidate(candidateToJsonResume(therapist))).toEqual(therapist);
+  });
+});
+
+describe('HR-XML', () => {
+  it('round-trips candidates with licenses, certifications and work history', () => {
+    expect(hrXmlToCandidates(candidatesToHrXml([nurse, therapist]))).toEqual([nurse, therapist]);
+  });
+});
+
+describe('candidate documents', () => {
+  it.each(['json-resume', 'hr-xml'] as const)('detects and re-imports an exported %s document', format => {
+    const rows = [nurse, therapist].map(candidate => ({ ...convertCandidateToDatabaseCandidate(candidate, 'p1'), id: candidate.id }));
+
+    const parsed = parseCandidateDocument(exportCandidateDocument(rows, format), 'p2');
+
+    expect(parsed.format).toBe(format);
+    expect(parsed.candidates).toEqual([nurse, therapist].map(candidate => expect.objectContaining({
+      ...convertCandidateToDatabaseCandidate(candidate, 'p2'),
+      metadata: expect.objectContaining({ imported: true, import_format: format, external_id: candidate.id })
+    })));
+  });
+
+  it('adds certification names to the skills of a resume from elsewhere', () => {
+    const { candidates } = parseCandidateDocument(JSON.stringify({
+      basics: { name: 'Ana Ruiz', label: 'Registered Nurse', location: { city: 'Austin', region: 'Texas' } },
+      certificates: [{ name: 'ACLS', issuer: 'American Heart Association' }, { name: 'RN License (TX)' }],
+      skills: [{ name: 'Telemetry' }]
+    }), 'p1');
+
+    expect(candidates[0]).toMatchObject({
+      location: 'Austin, TX',
+      skills: ['Telemetry', 'ACLS'],
+      licenses: [{ type: 'RN', state: 'TX' }],
+      certifications: [{ name: 'ACLS', issuer: 'American Heart Association' }]
+    });
+  });
+});
@@ -1,5 +1,8 @@
-import { Candidate } from '../types';
+import { Candidate, CandidateCertification, CandidateLicense } from '../types';
 import { DatabaseCandidate } from '../lib/supabase';
+import { getStateAbbreviation } from '../data/usStates';
+import { getLicenseLabel, parseCertificationLine, parseCredentialLines, parseLicenseLine } from './credentials';
+import { ParsedResume, ResumeEducation, ResumeExperience, formatEducation, totalExperienceYears } from './resumeParsing';
 
 /**
  * Converts a DatabaseCandidate (snake_case) to a Candidate (camelCase)
@@ -39,7 +42,10 @@ function convertDatabaseCandidateToCandidate(dbCandidate: DatabaseCandidate): Ca
     summary: dbCandidate.summary || '',
     lastActive: dbCandidate.last_active || new Date().toISOString(),
     source: dbCandidate.source || 'Unknown',
-    availability: dbCandidate.availability || 'passive'
+    availability: dbCandidate.availability || 'passive',
+    licenses: dbCandidate.licenses || [],
+    certifications: dbCandidate.certifications || [],
+    workHistory: dbCandidate.work_history || []
   };
 }
 
@@ -58,7 +64,7 @@ export function convertDatabaseCandidatesToCandidates(dbCandidates: DatabaseCand
 /**
  * Converts a Candidate (camelCase) to a DatabaseCandidate (snake_case) for saving
  */
-function convertCandidateToDatabaseCandidate(candidate: Candidate, projectId: string): Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'> {
+export function convertCandidateToDatabaseCandidate(candidate: Candidate, projectId: string): Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'> {
   return {
     project_id: projectId,
     name: candidate.name,
@@ -74,6 +80,548 @@ function convertCandidateToDatabaseCandidate(candidate: Candidate, projectId: st
     availability: candidate.availability,
     source: candidate.source,
     last_active: candidate.lastActive,
+    licenses: candidate.licenses || [],
+    certifications: candidate.certifications || [],
+    work_history: candidate.workHistory || [],
     metadata: {}
   };
-}
\ No newline at end of file
+}
+
+// Exchange formats for moving candidates between systems: JSON Resume (jsonresume.org, schema
+// v1.0.0) and HR-XML / HR-Open Candidate documents. Positions, licenses and certifications come
+// from the candidate's work history and credentials, and otherwise (like education) from the
+// parsed resume in the candidate's metadata. Candidate fields neither standard has a place for
+// (years of experience, availability, industry, source, last active, license details in JSON
+// Resume) travel in the JSON Resume `meta.candidate` object and the HR-XML `UserArea`, so a
+// candidate exported and imported again comes back with the same fields.
+
+export type CandidateExchangeFormat = 'json-resume' | 'hr-xml';
+
+export const CANDIDATE_EXCHANGE_FORMATS: Record<CandidateExchangeFormat, { label: string; extension: string; mimeType: string }> = {
+  'json-resume': { label: 'JSON Resume', extension: 'json', mimeType: 'application/json' },
+  'hr-xml': { label: 'HR-XML', extension: 'xml', mimeType: 'application/xml' }
+};
+
+const HR_XML_NAMESPACE = 'http://ns.hr-xml.org/2007-04-15';
+
+// HR-XML has no compact flag; the license description carries it
+const COMPACT_LICENSE_DESCRIPTION = 'Multistate license (Nurse Licensure Compact)';
+
+export interface JsonResume {
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: { address?: string; postalCode?: string; city?: string; countryCode?: string; region?: string };
+    profiles?: { network?: string; username?: string; url?: string }[];
+  };
+  work?: { name?: string; position?: string; location?: string; url?: string; startDate?: string; endDate?: string; summary?: string; highlights?: string[] }[];
+  education?: { institution?: string; url?: string; area?: string; studyType?: string; startDate?: string; endDate?: string; score?: string }[];
+  certificates?: { name?: string; date?: string; issuer?: string; url?: string }[];
+  skills?: { name?: string; level?: string; keywords?: string[] }[];
+  meta?: { canonical?: string; version?: string; lastModified?: string; candidate?: CandidateDetails };
+}
+
+// Candidate fields with no place in either standard
+interface CandidateDetails {
+  id?: string;
+  jobTitle?: string;
+  experience?: number;
+  education?: string;
+  industry?: string;
+  availability?: DatabaseCandidate['availability'];
+  source?: string;
+  lastActive?: string;
+  licenses?: CandidateLicense[];
+  certifications?: CandidateCertification[];
+}
+
+type NewDatabaseCandidate = Omit<DatabaseCandidate, 'id' | 'created_at' | 'updated_at'>;
+
+// A candidate as read from or written to an exchange document
+type ExchangeCandidate = Omit<NewDatabaseCandidate, 'project_id'> & { id?: string };
+
+const AVAILABILITY_VALUES: DatabaseCandidate['availability'][] = ['available', 'passive', 'not-looking'];
+
+/**
+ * The candidate's parsed resume, or one made from the candidate fields when it was not created
+ * from a resume
+ */
+const getCandidateResume = (candidate: ExchangeCandidate): ParsedResume => {
+  const parsed: ParsedResume | undefined = candidate.metadata?.resume?.parsed;
+  // The education field may have been edited since the resume was parsed
+  const education = parsed?.education[0] && formatEducation(parsed.education[0]) === candidate.education
+    ? parsed.education
+    : candidate.education ? [{ degree: candidate.education }] : [];
+  // Candidates with credential records export those; older ones only have the parsed names
+  const hasCredentials = (candidate.licenses || []).length > 0 || (candidate.certifications || []).length > 0;
+
+  return {
+    name: candidate.name,
+    email: candidate.email || undefined,
+    phone: candidate.phone || undefined,
+    location: candidate.location || undefined,
+    links: parsed?.links || [],
+    summary: candidate.summary || undefined,
+    titles: [candidate.job_title, ...(parsed?.titles || [])].filter(Boolean),
+    experience: candidate.work_history?.length ? candidate.work_history : parsed?.experience || [],
+    skills: candidate.skills || [],
+    certifications: hasCredentials ? (candidate.certifications || []).map(certification => certification.name) : parsed?.certifications || [],
+    licenses: hasCredentials ? candidate.licenses || [] : [],
+    certificationDetails: hasCredentials ? candidate.certifications || [] : undefined,
+    education
+  };
+};
+
+// Certifications with their details, or only the names for resumes parsed before they were kept
+const getResumeCertifications = (resume: ParsedResume): CandidateCertification[] =>
+  resume.certificationDetails || resume.certifications.map(name => ({ name }));
+
+const getCandidateDetails = (candidate: ExchangeCandidate): CandidateDetails => ({
+  id: candidate.id,
+  jobTitle: candidate.job_title,
+  experience: candidate.experience,
+  education: candidate.education,
+  industry: candidate.industry,
+  availability: candidate.availability,
+  source: candidate.source,
+  lastActive: candidate.last_active,
+  licenses: candidate.licenses?.length ? candidate.licenses : undefined,
+  certifications: candidate.certifications?.length ? candidate.certifications : undefined
+});
+
+// "Dallas, TX" <-> city and region
+const splitLocation = (location?: string) => {
+  const match = location?.match(/^(.+?),\s*([^,]+)$/);
+  return match ? { city: match[1].trim(), region: match[2].trim() } : { city: location || undefined, region: undefined };
+};
+
+const joinLocation = (city?: string, region?: string) =>
+  [city?.trim(), region?.trim() && (getStateAbbreviation(region) || region.trim())].filter(Boolean).join(', ');
+
+// "2018-01-15", "2018-01" or "2018" -> YYYY-MM
+const toYearMonth = (date?: string) => {
+  const match = date?.trim().match(/^(\d{4})(?:-(\d{2}))?/);
+  return match ? `${match[1]}-${match[2] || '01'}` : undefined;
+};
+
+const uniqueValues = (values: string[]) => Array.from(new Map(values.filter(Boolean).map(value => [value.toLowerCase(), value])).values());
+
+// Credential records in a document's extension are used as they are when well formed
+const asRecordList = <T extends object>(value: unknown, key: keyof T): T[] | undefined =>
+  Array.isArray(value) ? value.filter(item => item && typeof item === 'object' && typeof item[key] === 'string') : undefined;
+
+/**
+ * The candidate for an imported resume. Fields the document carries in its extension win;
+ * otherwise they are worked out from the resume itself. `hasDetails` is set when the document
+ * has that extension, i.e. it was exported from here.
+ */
+const buildImportedCandidate = (
+  resume: ParsedResume,
+  details: CandidateDetails,
+  projectId: string,
+  format: CandidateExchangeFormat,
+  hasDetails: boolean
+): NewDatabaseCandidate => {
+  const now = new Date();
+  return {
+    project_id: projectId,
+    name: resume.name,
+    email: resume.email,
+    phone: resume.phone,
+    job_title: details.jobTitle || resume.titles[0] || '',
+    location: resume.location || '',
+    experience: details.experience ?? totalExperienceYears(resume.experience, now) ?? 0,
+    // Certifications are searched as skills, as for parsed resumes; an exported candidate's skills
+    // already include the ones it had, so re-importing leaves them as they were
+    skills: uniqueValues(hasDetails ? resume.skills : [...resume.skills, ...resume.certifications]),
+    industry: details.industry,
+    education: details.education ?? (resume.education[0] ? formatEducation(resume.education[0]) : undefined),
+    summary: resume.summary,
+    availability: details.availability && AVAILABILITY_VALUES.includes(details.availability) ? details.availability : 'passive',
+    source: details.source || CANDIDATE_EXCHANGE_FORMATS[format].label,
+    last_active: details.lastActive || now.toISOString(),
+    licenses: asRecordList<CandidateLicense>(details.licenses, 'type') || resume.licenses || [],
+    certifications: asRecordList<CandidateCertification>(details.certifications, 'name') || resume.certificationDetails || [],
+    work_history: resume.experience,
+    metadata: {
+      imported: true,
+      import_format: format,
+      ...(details.id && { external_id: details.id }),
+      resume: { format, parsed: { ...resume, totalYears: totalExperienceYears(resume.experience, now) }, parsed_at: now.toISOString() }
+    }
+  };
+};
+
+/**
+ * Converts a DatabaseCandidate to a JSON Resume document
+ */
+export function databaseCandidateToJsonResume(candidate: ExchangeCandidate): JsonResume {
+  const resume = getCandidateResume(candidate);
+  const { city, region } = splitLocation(resume.location);
+
+  return {
+    basics: {
+      name: resume.name,
+      label: candidate.job_title,
+      email: resume.email,
+      phone: resume.phone,
+      summary: resume.summary,
+      location: resume.location ? { city, region, countryCode: region && getStateAbbreviation(region) ? 'US' : undefined } : undefined,
+      profiles: resume.links.map(url => ({ network: /linkedin\.com/i.test(url) ? 'LinkedIn' : undefined, url }))
+    },
+    work: resume.experience.map(position => ({
+      name: position.employer,
+      position: position.title,
+      location: position.location,
+      startDate: position.startDate,
+      endDate: position.current ? undefined : position.endDate
+    })),
+    education: resume.education.map(({ degree, institution, year }) => ({ institution, studyType: degree, endDate: year })),
+    certificates: [
+      ...(resume.licenses || []).map(license => ({ name: getLicenseLabel(license) })),
+      ...getResumeCertifications(resume).map(({ name, issuer }) => ({ name, issuer }))
+    ],
+    skills: resume.skills.map(name => ({ name })),
+    meta: { version: 'v1.0.0', lastModified: candidate.last_active, candidate: getCandidateDetails(candidate) }
+  };
+}
+
+/**
+ * Converts a Candidate to a JSON Resume document
+ */
+export function candidateToJsonResume(candidate: Candidate): JsonResume {
+  return databaseCandidateToJsonResume({ ...convertCandidateToDatabaseCandidate(candidate, ''), id: candidate.id });
+}
+
+/**
+ * Converts a JSON Resume document to a DatabaseCandidate for saving
+ */
+export function jsonResumeToDatabaseCandidate(document: JsonResume, projectId: string): NewDatabaseCandidate {
+  const basics = document.basics || {};
+  const experience: ResumeExperience[] = (document.work || [])
+    .filter(work => work.position)
+    .map(work => ({
+      title: work.position!.trim(),
+      employer: work.name?.trim() || undefined,
+      location: work.location?.trim() || undefined,
+      startDate: toYearMonth(work.startDate),
+      endDate: toYearMonth(work.endDate),
+      current: !!work.startDate && !work.endDate
+    }));
+  const education: ResumeEducation[] = (document.education || [])
+    .filter(entry => entry.studyType || entry.area)
+    .map(entry => ({
+      degree: [entry.studyType, entry.area].filter(Boolean).join(' in '),
+      institution: entry.institution || undefined,
+      year: toYearMonth(entry.endDate)?.slice(0, 4)
+    }));
+
+  // Without the details in meta.candidate, licenses are read from the certificate names
+  const certificates = (document.certificates || []).filter(certificate => certificate.name?.trim());
+  const credentials = parseCredentialLines(certificates.map(({ name, issuer }) => `${name!.trim()}${issuer ? ` (${issuer})` : ''}`));
+
+  const resume: ParsedResume = {
+    name: basics.name?.trim() || '',
+    email: basics.email?.trim() || undefined,
+    phone: basics.phone?.trim() || undefined,
+    location: joinLocation(basics.location?.city, basics.location?.region) || undefined,
+    links: uniqueValues([basics.url || '', ...(basics.profiles || []).map(profile => profile.url || '')]),
+    summary: basics.summary?.trim() || undefined,
+    titles: uniqueValues([basics.label || '', ...experience.map(position => position.title)]),
+    experience,
+    skills: uniqueValues((document.skills || []).map(skill => skill.name?.trim() || '')),
+    certifications: uniqueValues(certificates.filter(({ name }) => !parseLicenseLine(name!)).map(({ name }) => name!.trim())),
+    licenses: credentials.licenses,
+    certificationDetails: credentials.certifications,
+    education
+  };
+
+  return buildImportedCandidate(resume, document.meta?.candidate || {}, projectId, 'json-resume', !!document.meta?.candidate);
+}
+
+/**
+ * Converts a JSON Resume document to a Candidate
+ */
+export function jsonResumeToCandidate(document: JsonResume): Candidate {
+  const candidate = jsonResumeToDatabaseCandidate(document, '');
+  return convertDatabaseCandidateToCandidate({
+    ...candidate,
+    id: document.meta?.candidate?.id || 'unknown',
+    created_at: candidate.last_active,
+    updated_at: candidate.last_active
+  });
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// <Name>value</Name>, or nothing when there is no value
+const xmlElement = (name: string, value?: string | number, indent = '') =>
+  value === undefined || value === '' ? '' : `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+
+const xmlAttributes = (attributes: Record<string, string | number | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+
+const candidateToHrXmlElement = (candidate: ExchangeCandidate): string => {
+  const resume = getCandidateResume(candidate);
+  const details = getCandidateDetails(candidate);
+  const { city, region } = splitLocation(resume.location);
+  const nameParts = resume.name.trim().split(/\s+/);
+  const i = '          ';
+
+  const positions = resume.experience.map(position => [
+    `${i}<EmployerOrg>\n`,
+    xmlElement('EmployerOrgName', position.employer, `${i}  `),
+    `${i}  <PositionHistory${xmlAttributes({ currentEmployer: position.current ? 'true' : undefined })}>\n`,
+    xmlElement('Title', position.title, `${i}    `),
+    position.location ? `${i}    <PositionLocation>\n${xmlElement('Municipality', position.location, `${i}      `)}${i}    </PositionLocation>\n` : '',
+    position.startDate ? `${i}    <StartDate><YearMonth>${position.startDate}</YearMonth></StartDate>\n` : '',
+    position.current ? `${i}    <EndDate><StringDate>current</StringDate></EndDate>\n` : position.endDate ? `${i}    <EndDate><YearMonth>${position.endDate}</YearMonth></EndDate>\n` : '',
+    `${i}  </PositionHistory>\n`,
+    `${i}</EmployerOrg>\n`
+  ].join(''));
+
+  const credentials = [
+    ...(resume.licenses || []).map(license => ({
+      name: `${license.type} License`,
+      id: license.number,
+      authority: license.state,
+      description: license.compact ? COMPACT_LICENSE_DESCRIPTION : undefined,
+      expiresOn: license.expiresOn
+    })),
+    ...getResumeCertifications(resume).map(({ name, issuer, expiresOn }) => ({
+      name,
+      id: undefined,
+      authority: issuer,
+      description: undefined,
+      expiresOn
+    }))
+  ].map(({ name, id, authority, description, expiresOn }) => [
+    `${i}<LicenseOrCertification>\n`,
+    xmlElement('Name', name, `${i}  `),
+    id ? `${i}  <Id><IdValue>${escapeXml(id)}</IdValue></Id>\n` : '',
+    xmlElement('IssuingAuthority', authority, `${i}  `),
+    xmlElement('Description', description, `${i}  `),
+    expiresOn ? `${i}  <EffectiveDate><ValidTo><AnyDate>${expiresOn}</AnyDate></ValidTo></EffectiveDate>\n` : '',
+    `${i}</LicenseOrCertification>\n`
+  ].join(''));
+
+  const schools = resume.education.map(({ degree, institution, year }) => [
+    `${i}<SchoolOrInstitution>\n`,
+    institution ? `${i}  <School>\n${xmlElement('SchoolName', institution, `${i}    `)}${i}  </School>\n` : '',
+    `${i}  <Degree>\n`,
+    xmlElement('DegreeName', degree, `${i}    `),
+    year ? `${i}    <DegreeDate><Year>${year}</Year></DegreeDate>\n` : '',
+    `${i}  </Degree>\n`,
+    `${i}</SchoolOrInstitution>\n`
+  ].join(''));
+
+  return [
+    '  <Candidate>\n',
+    details.id ? `    <CandidateRecordInfo>\n      <Id><IdValue>${escapeXml(details.id)}</IdValue></Id>\n    </CandidateRecordInfo>\n` : '',
+    '    <CandidateProfile>\n      <PersonalData>\n        <PersonName>\n',
+    xmlElement('FormattedName', resume.name, '          '),
+    nameParts.length > 1 ? xmlElement('GivenName', nameParts.slice(0, -1).join(' '), '          ') + xmlElement('FamilyName', nameParts[nameParts.length - 1], '          ') : '',
+    '        </PersonName>\n        <ContactMethod>\n',
+    resume.phone ? `          <Telephone>\n${xmlElement('FormattedNumber', resume.phone, '            ')}          </Telephone>\n` : '',
+    xmlElement('InternetEmailAddress', resume.email, '          '),
+    resume.links.map(link => xmlElement('InternetWebAddress', link, '          ')).join(''),
+    resume.location ? [
+      '          <PostalAddress>\n',
+      region && getStateAbbreviation(region) ? '            <CountryCode>US</CountryCode>\n' : '',
+      xmlElement('Region', region, '            '),
+      xmlElement('Municipality', city, '            '),
+      '          </PostalAddress>\n'
+    ].join('') : '',
+    '        </ContactMethod>\n      </PersonalData>\n    </CandidateProfile>\n',
+    '    <Resume>\n      <StructuredXMLResume>\n',
+    xmlElement('ExecutiveSummary', resume.summary, '        '),
+    xmlElement('Objective', candidate.job_title, '        '),
+    positions.length > 0 ? `        <EmploymentHistory>\n${positions.join('')}        </EmploymentHistory>\n` : '',
+    schools.length > 0 ? `        <EducationHistory>\n${schools.join('')}        </EducationHistory>\n` : '',
+    credentials.length > 0 ? `        <LicensesAndCertifications>\n${credentials.join('')}        </LicensesAndCertifications>\n` : '',
+    resume.skills.length > 0
+      ? `        <Qualifications>\n${resume.skills.map(name => `          <Competency${xmlAttributes({ name })}/>\n`).join('')}        </Qualifications>\n`
+      : '',
+    '      </StructuredXMLResume>\n    </Resume>\n',
+    `    <UserArea>\n      <CandidateDetails${xmlAttributes({
+      jobTitle: details.jobTitle,
+      experienceYears: details.experience,
+      education: details.education,
+      industry: details.industry,
+      availability: details.availability,
+      source: details.source,
+      lastActive: details.lastActive
+    })}/>\n    </UserArea>\n`,
+    '  </Candidate>\n'
+  ].join('');
+};
+
+/**
+ * Converts DatabaseCandidates to an HR-XML document with one Candidate element each
+ */
+export function databaseCandidatesToHrXml(candidates: ExchangeCandidate[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Candidates xmlns="${HR_XML_NAMESPACE}">\n${candidates.map(candidateToHrXmlElement).join('')}</Candidates>\n`;
+}
+
+/**
+ * Converts Candidates to an HR-XML document
+ */
+export function candidatesToHrXml(candidates: Candidate[]): string {
+  return databaseCandidatesToHrXml(candidates.map(candidate => ({ ...convertCandidateToDatabaseCandidate(candidate, ''), id: candidate.id })));
+}
+
+// Elements are matched by local name, so prefixed and unprefixed documents read the same
+const findElements = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+const findElement = (parent: Element | Document | undefined, ...path: string[]): Element | undefined =>
+  path.reduce<Element | Document | undefined>((element, name) => element && findElements(element, name)[0], parent) as Element | undefined;
+const elementText = (parent: Element | Document | undefined, ...path: string[]) => findElement(parent, ...path)?.textContent?.trim() || undefined;
+
+const hrXmlDate = (parent: Element | undefined) =>
+  toYearMonth(elementText(parent, 'YearMonth') || elementText(parent, 'AnyDate') || elementText(parent, 'Year'));
+
+/**
+ * Converts an HR-XML or HR-Open XML document with one or more Candidate elements to
+ * DatabaseCandidates for saving; throws when the XML is malformed
+ */
+export function hrXmlToDatabaseCandidates(xml: string, projectId: string): NewDatabaseCandidate[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML');
+
+  return findElements(document, 'Candidate').map(element => {
+    const personName = findElement(element, 'PersonName');
+    const address = findElement(element, 'PostalAddress');
+    const resumeElement = findElement(element, 'StructuredXMLResume');
+
+    const experience: ResumeExperience[] = findElements(element, 'PositionHistory').flatMap(position => {
+      const title = elementText(position, 'Title');
+      if (!title) return [];
+      const employerOrg = position.parentElement;
+      const endDate = findElement(position, 'EndDate');
+      const current = position.getAttribute('currentEmployer') === 'true' || /current|present/i.test(elementText(endDate, 'StringDate') || '');
+      return [{
+        title,
+        employer: elementText(employerOrg || undefined, 'EmployerOrgName') || elementText(position, 'OrganizationName'),
+        location: elementText(position, 'PositionLocation', 'Municipality'),
+        startDate: hrXmlDate(findElement(position, 'StartDate')),
+        endDate: current ? undefined : hrXmlDate(endDate),
+        current
+      }];
+    });
+
+    const education: ResumeEducation[] = findElements(element, 'SchoolOrInstitution').flatMap(school =>
+      findElements(school, 'Degree').flatMap(degree => {
+        const degreeName = elementText(degree, 'DegreeName') || elementText(degree, 'DegreeMajor', 'Name');
+        return degreeName
+          ? [{ degree: degreeName, institution: elementText(school, 'SchoolName'), year: hrXmlDate(findElement(degree, 'DegreeDate'))?.slice(0, 4) }]
+          : [];
+      })
+    );
+
+    // Each credential is read as the line it would be on a resume: "RN License (TX), compact, expires 2027-05-31"
+    const licenses: CandidateLicense[] = [];
+    const certificationDetails: CandidateCertification[] = [];
+    findElements(element, 'LicenseOrCertification').forEach(credential => {
+      const credentialName = elementText(credential, 'Name');
+      if (!credentialName) return;
+      const authority = elementText(credential, 'IssuingAuthority');
+      const expiresOn = elementText(credential, 'EffectiveDate', 'ValidTo');
+      const line = [
+        `${credentialName}${authority ? ` (${authority})` : ''}`,
+        /compact|multistate/i.test(elementText(credential, 'Description') || '') ? 'compact' : '',
+        expiresOn ? `expires ${expiresOn}` : ''
+      ].filter(Boolean).join(', ');
+
+      const license = parseLicenseLine(line);
+      if (license) {
+        licenses.push({ ...license, number: elementText(credential, 'Id') || license.number });
+        return;
+      }
+      const certification = parseCertificationLine(line);
+      if (certification) certificationDetails.push({ ...certification, name: credentialName });
+    });
+
+    const name = elementText(personName, 'FormattedName') || [elementText(personName, 'GivenName'), elementText(personName, 'FamilyName')].filter(Boolean).join(' ');
+    const detailsElement = findElement(element, 'UserArea', 'CandidateDetails');
+    const detail = (attribute: string) => detailsElement?.getAttribute(attribute) || undefined;
+    const experienceYears = Number(detail('experienceYears'));
+
+    const resume: ParsedResume = {
+      name,
+      email: elementText(element, 'InternetEmailAddress'),
+      phone: elementText(element, 'Telephone', 'FormattedNumber') || elementText(element, 'Mobile', 'FormattedNumber'),
+      location: joinLocation(elementText(address, 'Municipality'), elementText(address, 'Region')) || undefined,
+      links: uniqueValues(findElements(element, 'InternetWebAddress').map(link => link.textContent?.trim() || '')),
+      summary: elementText(resumeElement, 'ExecutiveSummary'),
+      titles: uniqueValues([elementText(resumeElement, 'Objective') || '', ...experience.map(position => position.title)]),
+      experience,
+      skills: uniqueValues(findElements(element, 'Competency').map(competency => competency.getAttribute('name')?.trim() || '')),
+      certifications: uniqueValues(certificationDetails.map(certification => certification.name)),
+      licenses,
+      certificationDetails,
+      education
+    };
+
+    return buildImportedCandidate(resume, {
+      id: elementText(element, 'CandidateRecordInfo', 'IdValue'),
+      jobTitle: detail('jobTitle'),
+      experience: detail('experienceYears') !== undefined && !Number.isNaN(experienceYears) ? experienceYears : undefined,
+      education: detail('education'),
+      industry: detail('industry'),
+      availability: detail('availability') as CandidateDetails['availability'],
+      source: detail('source'),
+      lastActive: detail('lastActive')
+    }, projectId, 'hr-xml', !!detailsElement);
+  });
+}
+
+/**
+ * Converts an HR-XML document to Candidates
+ */
+export function hrXmlToCandidates(xml: string): Candidate[] {
+  return hrXmlToDatabaseCandidates(xml, '').map((candidate, index) => convertDatabaseCandidateToCandidate({
+    ...candidate,
+    id: candidate.metadata?.external_id || `hr-xml-${index + 1}`,
+    created_at: candidate.last_active,
+    updated_at: candidate.last_active
+  }));
+}
+
+/**
+ * One exchange document for a set of candidates: a JSON Resume array or an HR-XML Candidates
+ * document
+ */
+export function exportCandidateDocument(candidates: ExchangeCandidate[], format: CandidateExchangeFormat): string {
+  return format === 'hr-xml'
+    ? databaseCandidatesToHrXml(candidates)
+    : JSON.stringify(candidates.map(databaseCandidateToJsonResume), null, 2);
+}
+
+/**
+ * Candidates from a JSON Resume (one document or an array) or HR-XML file, by its content
+ */
+export function parseCandidateDocument(text: string, projectId: string): { format: CandidateExchangeFormat; candidates: NewDatabaseCandidate[] } {
+  const source = text.replace(/^\uFEFF/, '').trim();
+  if (source.startsWith('<')) {
+    return { format: 'hr-xml', candidates: hrXmlToDatabaseCandidates(source, projectId) };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw new Error('The file is neither JSON Resume nor HR-XML');
+  }
+  const documents = (Array.isArray(data) ? data : [data]) as JsonResume[];
+  if (!documents.every(document => document && typeof document === 'object' && (document.basics || document.work))) {
+    throw new Error('The JSON is not in JSON Resume format (no "basics" section)');
+  }
+  return { format: 'json-resume', candidates: documents.map(document => jsonResumeToDatabaseCandidate(document, projectId)) };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { GlobalWorkerOptions } from 'pdfjs-dist';
+import { extractDocumentText } from './documentText';
+
+// Node runs pdf.js in-process from its legacy build (aliased in vite.config.ts) instead of the
+// bundled browser worker
+GlobalWorkerOptions.workerSrc = 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+
+// A PDF with one page per entry and one line of Helvetica text per string
+const buildPdf = (pages: string[][]): ArrayBuffer => {
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((lines, index) => {
+      const content = ['BT', '/F1 12 Tf', '14 TL', '72 720 Td', ...lines.map(line => `(${line.replace(/[()\\]/g, '\\$&')}) Tj T*`), 'ET'].join('\n');
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${pageIds[index] + 1} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      ];
+    })
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf).buffer;
+};
+
+const WORD_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const paragraph = (...runs: string[]) => `<w:p>${runs.map(run => `<w:r><w:t xml:space="preserve">${run}</w:t></w:r>`).join('')}</w:p>`;
+
+const buildDocx = async (body: string, header?: string): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>');
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document ${WORD_NAMESPACE}><w:body>${body}</w:body></w:document>`);
+  if (header) zip.file('word/header1.xml', `<?xml version="1.0"?><w:hdr ${WORD_NAMESPACE}>${header}</w:hdr>`);
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const RESUME_LINES = ['JANE DOE, RN', 'jane.doe@example.com | Dallas, TX', 'EXPERIENCE', 'Registered Nurse (ICU)'];
+
+describe('extractDocumentText', () => {
+  it('reads the lines of every PDF page', async () => {
+    const file = new File([buildPdf([RESUME_LINES, ['SKILLS', 'Telemetry, BLS']])], 'resume.pdf', { type: 'application/pdf' });
+    expect(await extractDocumentText(file)).toEqual({
+      text: `${RESUME_LINES.join('\n')}\n\nSKILLS\nTelemetry, BLS`,
+      format: 'pdf',
+      pageCount: 2
+    });
+  });
+
+  it('rejects a PDF without a text layer', async () => {
+    const file = new File([buildPdf([[]])], 'scan.pdf', { type: 'application/pdf' });
+    await expect(extractDocumentText(file)).rejects.toThrow('scan.pdf has no selectable text');
+  });
+
+  it('rejects a file that is not a PDF', async () => {
+    const file = new File(['not a pdf'], 'resume.pdf', { type: 'application/pdf' });
+    await expect(extractDocumentText(file)).rejects.toThrow('The file is not a valid PDF');
+  });
+
+  it('reads DOCX headers first, then paragraphs and table cells', async () => {
+    const body = [
+      paragraph('EXPERIENCE'),
+      paragraph('Registered Nurse ', '(ICU) &amp; Telemetry'),
+      '<w:tbl><w:tr><w:tc>', paragraph('ACLS'), '</w:tc><w:tc>', paragraph('2027-05'), '</w:tc></w:tr></w:tbl>'
+    ].join('');
+    const file = new File([await buildDocx(body, paragraph('JANE DOE, RN') + paragraph('jane.doe@example.com'))], 'resume.docx');
+    expect(await extractDocumentText(file)).toEqual({
+      text: 'JANE DOE, RN\njane.doe@example.com\n\nEXPERIENCE\nRegistered Nurse (ICU) & Telemetry\nACLS 2027-05',
+      format: 'docx'
+    });
+  });
+
+  it('rejects a DOCX that is not a zip archive or has no document part', async () => {
+    await expect(extractDocumentText(new File(['plain text'], 'resume.docx'))).rejects.toThrow('not a valid zip archive');
+
+    const zip = new JSZip();
+    zip.file('notes.txt', 'Registered Nurse with ten years of ICU experience in Dallas, TX');
+    const file = new File([await zip.generateAsync({ type: 'arraybuffer' })], 'resume.docx');
+    await expect(extractDocumentText(file)).rejects.toThrow('The file is not a Word document');
+  });
+});
@@ -0,0 +1,136 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { readZipEntries } from './zip';
+
+// Plain text of resume documents, extracted in the browser. DOCX text comes from the document
+// XML, headers first since contact details often sit there. PDF text comes from pdf.js, page by
+// page, with line breaks where its text items change lines. Scanned PDFs have no text layer and
+// are reported as such rather than OCR'd.
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface DocumentText {
+  text: string;
+  format: DocumentFormat;
+  pageCount?: number; // PDF only
+}
+
+// Less text than this means a scanned or image-only document
+const MIN_DOCUMENT_TEXT_LENGTH = 40;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+
+const cleanText = (text: string) =>
+  text
+    .replace(/\u00a0/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Text of a WordprocessingML part: runs joined, paragraphs and breaks as new lines, table
+ * cells separated by tabs and rows by new lines
+ */
+export function extractDocxXmlText(xml: string): string {
+  let text = '';
+  for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/?>|<\/w:(p|tc|tr)>/g)) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else if (match[2] === 'tab') text += '\t';
+    else if (match[3] === 'tc') text = text.replace(/\n$/, '') + '\t';
+    else text += '\n';
+  }
+  return text;
+}
+
+const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const parts = await readZipEntries(buffer, name => /^word\/(document|header\d*)\.xml$/.test(name));
+  const document = parts.get('word/document.xml');
+  if (!document) throw new Error('The file is not a Word document');
+
+  const headers = Array.from(parts.keys()).filter(name => name.startsWith('word/header')).sort();
+  return [...headers.map(name => extractDocxXmlText(parts.get(name) || '')), extractDocxXmlText(document)].join('\n');
+};
+
+// Gap between text items, in text-space units, above which they are on different lines
+const LINE_GAP = 2;
+
+/**
+ * Text of one page, with line breaks where pdf.js ends a line or the baseline moves
+ */
+const getPageText = (items: (TextItem | TextMarkedContent)[]): string => {
+  let text = '';
+  let lastY: number | undefined;
+  items.forEach(item => {
+    if (!('str' in item)) return;
+    const y = item.transform[5];
+    if (lastY !== undefined && Math.abs(y - lastY) > LINE_GAP && !text.endsWith('\n')) text += '\n';
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+    lastY = y;
+  });
+  return text;
+};
+
+const extractPdfText = async (buffer: ArrayBuffer): Promise<{ text: string; pageCount: number }> => {
+  let pdf: PDFDocumentProxy;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(buffer) }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new Error('The PDF is encrypted. Save an unprotected copy and try again.');
+    }
+    throw new Error('The file is not a valid PDF');
+  }
+
+  try {
+    const texts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      texts.push(getPageText((await page.getTextContent()).items));
+    }
+    return { text: texts.join('\n\n'), pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Text of a PDF, DOCX or plain-text resume
+ */
+export async function extractDocumentText(file: File): Promise<DocumentText> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  console.log('📄 Extracting text from:', file.name);
+
+  let result: DocumentText;
+  if (extension === 'pdf' || file.type === 'application/pdf') {
+    const { text, pageCount } = await extractPdfText(await file.arrayBuffer());
+    result = { text: cleanText(text), format: 'pdf', pageCount };
+  } else if (extension === 'docx') {
+    result = { text: cleanText(await extractDocxText(await file.arrayBuffer())), format: 'docx' };
+  } else if (extension === 'doc') {
+    throw new Error('Legacy .doc files are not supported. Save the resume as .docx or PDF and try again.');
+  } else if (extension === 'txt' || extension === 'md' || file.type.startsWith('text/')) {
+    result = { text: cleanText(await file.text()), format: 'text' };
+  } else {
+    throw new Error(`Unsupported file type: ${file.name}. Use PDF, DOCX or plain text.`);
+  }
+
+  if (result.text.length < MIN_DOCUMENT_TEXT_LENGTH) {
+    throw new Error(`${file.name} has no selectable text; it may be a scanned image. Paste the resume text instead.`);
+  }
+
+  console.log(`✅ Extracted ${result.text.length} characters (${result.format})`);
+  return result;
+}
@@ -0,0 +1,313 @@
+import { DatabaseCandidate } from '../lib/supabase';
+import { getStateAbbreviation } from '../data/usStates';
+
+// Seeding and repeated imports create the same person more than once. Pairs are found by
+// exact contact details (normalized email or phone) or by a similar name in a similar
+// location. Only candidates sharing a blocking key are compared, so detection stays close
+// to linear in the size of the project.
+
+// Pairs scoring below this are not suggested for review
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Blocks larger than this are too generic ("j smith") to compare pairwise
+const MAX_BLOCK_SIZE = 100;
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'md', 'rn', 'np', 'pa', 'do', 'phd', 'lpn', 'bsn', 'msn']);
+
+// Mailbox providers that ignore dots in the local part
+const DOTLESS_EMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+export interface DuplicatePair {
+  key: string; // both ids, sorted
+  a: DatabaseCandidate;
+  b: DatabaseCandidate;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export function normalizeEmail(email?: string | null): string {
+  const value = (email || '').trim().toLowerCase();
+  const at = value.lastIndexOf('@');
+  if (at <= 0) return '';
+
+  let local = value.slice(0, at).split('+')[0];
+  const domain = value.slice(at + 1);
+  if (DOTLESS_EMAIL_DOMAINS.has(domain)) local = local.replace(/\./g, '');
+  return `${local}@${domain}`;
+}
+
+/**
+ * Digits only, without a US country code; too short to identify anyone returns ''
+ */
+export function normalizePhone(phone?: string | null): string {
+  let digits = (phone || '').replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+  return digits.length >= 7 ? digits : '';
+}
+
+export function normalizeName(name?: string | null): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(token => token && !NAME_SUFFIXES.has(token))
+    .join(' ');
+}
+
+/**
+ * Jaro-Winkler similarity of two strings (0-1)
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Name similarity that tolerates typos, reordered names and middle names or initials
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aName = normalizeName(a);
+  const bName = normalizeName(b);
+  if (!aName || !bName) return 0;
+
+  const sorted = (name: string) => name.split(' ').sort().join(' ');
+  // First and last token only, so "Mary J Smith" matches "Mary Smith"
+  const ends = (name: string) => {
+    const tokens = name.split(' ');
+    return tokens.length > 2 ? `${tokens[0]} ${tokens[tokens.length - 1]}` : name;
+  };
+
+  return Math.max(
+    jaroWinkler(aName, bName),
+    jaroWinkler(sorted(aName), sorted(bName)),
+    jaroWinkler(ends(aName), ends(bName))
+  );
+}
+
+const parseLocation = (location?: string | null) => {
+  const [city = '', ...rest] = (location || '').toLowerCase().split(',').map(part => part.trim());
+  const state = getStateAbbreviation(rest.join(' ')) || getStateAbbreviation(city);
+  return { city: getStateAbbreviation(city) ? '' : city, state };
+};
+
+/**
+ * 1 for the same city, 0.5 for the same state only (or an unknown city), 0 otherwise
+ */
+export function locationSimilarity(a?: string | null, b?: string | null): number {
+  const aLocation = parseLocation(a);
+  const bLocation = parseLocation(b);
+  if (aLocation.state && bLocation.state && aLocation.state !== bLocation.state) return 0;
+  if (aLocation.city && bLocation.city) {
+    if (jaroWinkler(aLocation.city, bLocation.city) >= 0.92) return 1;
+    return 0;
+  }
+  return aLocation.state && aLocation.state === bLocation.state ? 0.5 : 0;
+}
+
+// Order-independent key of a pair, as stored in dismissals
+export const getDuplicatePairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+/**
+ * Scores a pair of records; null when they do not look like the same person
+ */
+export function scoreDuplicatePair(a: DatabaseCandidate, b: DatabaseCandidate): DuplicatePair | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const aEmail = normalizeEmail(a.email);
+  const bEmail = normalizeEmail(b.email);
+  const aPhone = normalizePhone(a.phone);
+  const bPhone = normalizePhone(b.phone);
+  const names = nameSimilarity(a.name, b.name);
+  const locations = locationSimilarity(a.location, b.location);
+
+  if (aEmail && aEmail === bEmail) {
+    score = Math.max(score, 0.95);
+    reasons.push('Same email');
+  }
+  if (aPhone && aPhone === bPhone) {
+    score = Math.max(score, 0.9);
+    reasons.push('Same phone');
+  }
+
+  if (names >= 0.88) {
+    reasons.push(names >= 0.99 ? 'Same name' : 'Similar name');
+    if (locations > 0) {
+      reasons.push(locations === 1 ? 'Same city' : 'Same state');
+      let nameScore = names * 0.7 + locations * 0.3;
+      // Different contact details on both sides point to two people with the same name
+      if (aEmail && bEmail && aEmail !== bEmail) nameScore -= 0.1;
+      if (aPhone && bPhone && aPhone !== bPhone) nameScore -= 0.1;
+      score = Math.max(score, nameScore);
+    }
+    // A matching name backs up a contact-detail match
+    if (score >= 0.9) score = Math.min(1, score + 0.05);
+  } else if (score > 0 && names < 0.7) {
+    // Shared contact details but clearly different names (family members, a shared office line)
+    reasons.push('Different names');
+    score -= 0.1;
+  }
+
+  if (score < DUPLICATE_THRESHOLD) return null;
+  return { key: getDuplicatePairKey(a.id, b.id), a, b, score: Math.round(score * 100) / 100, reasons };
+}
+
+const blockingKeys = (candidate: DatabaseCandidate): string[] => {
+  const keys: string[] = [];
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+
+  // A typo in either the first or the last name still shares one of these
+  const tokens = normalizeName(candidate.name).split(' ').filter(Boolean);
+  if (tokens.length > 0) {
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    keys.push(`name:${first}|${last[0]}`, `name:${first[0]}|${last}`);
+  }
+  return keys;
+};
+
+/**
+ * Suspected duplicate pairs in a project, most likely first. Dismissed pairs (by key) are skipped.
+ */
+export function findDuplicateCandidates(candidates: DatabaseCandidate[], dismissedKeys: Set<string> = new Set()): DuplicatePair[] {
+  const blocks = new Map<string, DatabaseCandidate[]>();
+  candidates.forEach(candidate => {
+    blockingKeys(candidate).forEach(key => {
+      const block = blocks.get(key) || [];
+      block.push(candidate);
+      blocks.set(key, block);
+    });
+  });
+
+  const pairs = new Map<string, DuplicatePair>();
+  blocks.forEach((block, blockKey) => {
+    if (block.length < 2) return;
+    if (block.length > MAX_BLOCK_SIZE) {
+      console.log(`⚠️ Duplicate detection: skipping oversized block ${blockKey} (${block.length} candidates)`);
+      return;
+    }
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = getDuplicatePairKey(block[i].id, block[j].id);
+        if (pairs.has(key) || dismissedKeys.has(key) || block[i].id === block[j].id) continue;
+        const pair = scoreDuplicatePair(block[i], block[j]);
+        if (pair) pairs.set(key, pair);
+      }
+    }
+  });
+
+  const result = Array.from(pairs.values()).sort((x, y) => y.score - x.score);
+  console.log(`🧬 Duplicate detection: ${result.length} suspected pairs across ${candidates.length} candidates`);
+  return result;
+}
+
+const filledFields = (candidate: DatabaseCandidate) =>
+  [candidate.email, candidate.phone, candidate.industry, candidate.education, candidate.summary]
+    .filter(value => typeof value === 'string' && value.trim()).length + (candidate.skills?.length ? 1 : 0);
+
+/**
+ * The record to keep: the more complete one, then the more recently active, then the older
+ */
+export function pickSurvivor(a: DatabaseCandidate, b: DatabaseCandidate): DatabaseCandidate {
+  const completeness = filledFields(b) - filledFields(a);
+  if (completeness !== 0) return completeness > 0 ? b : a;
+  const activity = new Date(b.last_active).getTime() - new Date(a.last_active).getTime();
+  if (activity !== 0 && !isNaN(activity)) return activity > 0 ? b : a;
+  return new Date(b.created_at).getTime() < new Date(a.created_at).getTime() ? b : a;
+}
+
+const firstFilled = (...values: (string | undefined)[]) => values.find(value => typeof value === 'string' && value.trim());
+
+// Credentials of both records, one per key; of two with the same key the later expiry is the
+// renewal, and the other fills in what it lacks (number, issuer)
+const combineCredentials = <T extends { expiresOn?: string }>(records: T[], key: (record: T) => string): T[] => {
+  const combined = new Map<string, T>();
+  records.forEach(record => {
+    const existing = combined.get(key(record));
+    if (!existing) combined.set(key(record), record);
+    else if ((record.expiresOn || '') > (existing.expiresOn || '')) combined.set(key(record), { ...existing, ...record });
+    else combined.set(key(record), { ...record, ...existing });
+  });
+  return Array.from(combined.values());
+};
+
+/**
+ * Consolidated fields for the survivor: its own values win, gaps are filled from the duplicate,
+ * skills and credentials are combined and the duplicate's differing contact details are kept in
+ * metadata
+ */
+export function mergeCandidateRecords(survivor: DatabaseCandidate, duplicate: DatabaseCandidate): Partial<DatabaseCandidate> {
+  const skills = new Map<string, string>();
+  [...(survivor.skills || []), ...(duplicate.skills || [])].forEach(skill => {
+    if (typeof skill === 'string' && skill.trim() && !skills.has(skill.trim().toLowerCase())) {
+      skills.set(skill.trim().toLowerCase(), skill.trim());
+    }
+  });
+
+  const survivorActive = new Date(survivor.last_active).getTime() || 0;
+  const duplicateActive = new Date(duplicate.last_active).getTime() || 0;
+  const latest = duplicateActive > survivorActive ? duplicate : survivor;
+  const longerSummary = (duplicate.summary || '').length > (survivor.summary || '').length ? duplicate.summary : survivor.summary;
+
+  const metadata = { ...(duplicate.metadata || {}), ...(survivor.metadata || {}) };
+  const alternateEmails = new Set<string>(metadata.alternate_emails || []);
+  const alternatePhones = new Set<string>(metadata.alternate_phones || []);
+  if (duplicate.email && survivor.email && normalizeEmail(duplicate.email) !== normalizeEmail(survivor.email)) alternateEmails.add(duplicate.email);
+  if (duplicate.phone && survivor.phone && normalizePhone(duplicate.phone) !== normalizePhone(survivor.phone)) alternatePhones.add(duplicate.phone);
+
+  return {
+    email: firstFilled(survivor.email, duplicate.email),
+    phone: firstFilled(survivor.phone, duplicate.phone),
+    industry: firstFilled(survivor.industry, duplicate.industry),
+    education: firstFilled(survivor.education, duplicate.education),
+    summary: longerSummary,
+    experience: Math.max(survivor.experience || 0, duplicate.experience || 0),
+    skills: Array.from(skills.values()),
+    licenses: combineCredentials([...(survivor.licenses || []), ...(duplicate.licenses || [])], license => `${license.type}|${license.state || ''}`),
+    certifications: combineCredentials([...(survivor.certifications || []), ...(duplicate.certifications || [])], certification => certification.name.toLowerCase()),
+    work_history: survivor.work_history?.length ? survivor.work_history : duplicate.work_history || [],
+    availability: latest.availability,
+    last_active: latest.last_active,
+    metadata: {
+      ...metadata,
+      alternate_emails: Array.from(alternateEmails),
+      alternate_phones: Array.from(alternatePhones),
+      merged_candidate_ids: [...(metadata.merged_candidate_ids || []), duplicate.id],
+      merged_at: new Date().toISOString()
+    }
+  };
+}
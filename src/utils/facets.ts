@@ -0,0 +1,183 @@
+import { Candidate, CandidateMatch, FacetGroup, FacetKey, FacetSelections } from '../types';
+import { getStateAbbreviation } from '../data/usStates';
+
+// Facets refine an existing result set locally, so toggling one never re-runs AI scoring.
+// Counts for a facet are computed over the results filtered by every *other* facet, which
+// keeps the alternative values of a facet visible (and countable) after one is selected.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AVAILABILITY_LABELS: Record<Candidate['availability'], string> = {
+  available: 'Available',
+  passive: 'Open to offers',
+  'not-looking': 'Not looking'
+};
+
+// Ordered buckets; the first matching pattern wins
+const EDUCATION_LEVELS: { label: string; pattern: RegExp }[] = [
+  { label: 'Doctorate', pattern: /\b(ph\.?d|m\.?d|dnp|dpt|pharm\.?d|doctor(ate)?)\b/i },
+  { label: "Master's", pattern: /\b(master'?s?|msn|mba|mph|mha|ms|ma|m\.s|m\.a)\b/i },
+  { label: "Bachelor's", pattern: /\b(bachelor'?s?|bsn|bs|ba|b\.s|b\.a)\b/i },
+  { label: 'Associate', pattern: /\b(associate'?s?|adn|asn|aas|a\.a|a\.s)\b/i },
+  { label: 'Diploma / Certificate', pattern: /\b(diploma|certificate|certification|lpn|lvn|cna)\b/i }
+];
+
+const EXPERIENCE_BUCKETS: { label: string; max: number }[] = [
+  { label: '0-2 years', max: 2 },
+  { label: '3-5 years', max: 5 },
+  { label: '6-10 years', max: 10 },
+  { label: '10+ years', max: Infinity }
+];
+
+const LAST_ACTIVE_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: 'Past 7 days', maxDays: 7 },
+  { label: '8-30 days ago', maxDays: 30 },
+  { label: '31-90 days ago', maxDays: 90 },
+  { label: 'Over 90 days ago', maxDays: Infinity }
+];
+
+interface FacetDefinition {
+  key: FacetKey;
+  label: string;
+  getValue: (candidate: Candidate, now: number) => string;
+  // Fixed display order for bucketed facets; other facets sort by count
+  order?: string[];
+}
+
+export const FACET_DEFINITIONS: FacetDefinition[] = [
+  {
+    key: 'location',
+    label: 'Location',
+    getValue: candidate => {
+      // "Austin, TX" and "Austin, Texas" both facet as TX
+      const parts = (candidate.location || '').split(',').map(part => part.trim()).filter(Boolean);
+      if (parts.length === 0) return 'Unknown';
+      return getStateAbbreviation(parts[parts.length - 1]) || parts[parts.length - 1];
+    }
+  },
+  {
+    key: 'availability',
+    label: 'Availability',
+    getValue: candidate => AVAILABILITY_LABELS[candidate.availability] || 'Unknown',
+    order: Object.values(AVAILABILITY_LABELS)
+  },
+  {
+    key: 'industry',
+    label: 'Industry',
+    getValue: candidate => candidate.industry?.trim() || 'Unknown'
+  },
+  {
+    key: 'education',
+    label: 'Education Level',
+    getValue: candidate => {
+      if (!candidate.education?.trim()) return 'Not specified';
+      return EDUCATION_LEVELS.find(level => level.pattern.test(candidate.education))?.label || 'Other';
+    },
+    order: [...EDUCATION_LEVELS.map(level => level.label), 'Other', 'Not specified']
+  },
+  {
+    key: 'experience',
+    label: 'Experience',
+    getValue: candidate => {
+      const years = Number(candidate.experience) || 0;
+      return EXPERIENCE_BUCKETS.find(bucket => years <= bucket.max)!.label;
+    },
+    order: EXPERIENCE_BUCKETS.map(bucket => bucket.label)
+  },
+  {
+    key: 'source',
+    label: 'Source',
+    getValue: candidate => candidate.source?.trim() || 'Unknown'
+  },
+  {
+    key: 'lastActive',
+    label: 'Last Active',
+    getValue: (candidate, now) => {
+      const lastActive = new Date(candidate.lastActive).getTime();
+      if (isNaN(lastActive)) return 'Unknown';
+      const days = Math.max(0, Math.floor((now - lastActive) / DAY_MS));
+      return LAST_ACTIVE_BUCKETS.find(bucket => days <= bucket.maxDays)!.label;
+    },
+    order: [...LAST_ACTIVE_BUCKETS.map(bucket => bucket.label), 'Unknown']
+  }
+];
+
+/**
+ * Drops empty facets so equivalent selections compare (and persist) the same way
+ */
+export function normalizeFacetSelections(selections?: FacetSelections | null): FacetSelections {
+  const normalized: FacetSelections = {};
+  FACET_DEFINITIONS.forEach(({ key }) => {
+    const values = selections?.[key]?.filter(value => typeof value === 'string' && value);
+    if (values && values.length > 0) normalized[key] = Array.from(new Set(values));
+  });
+  return normalized;
+}
+
+export function hasFacetSelections(selections?: FacetSelections | null): boolean {
+  return Object.keys(normalizeFacetSelections(selections)).length > 0;
+}
+
+export function toggleFacetValue(selections: FacetSelections, key: FacetKey, value: string): FacetSelections {
+  const current = selections[key] || [];
+  const values = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+  return normalizeFacetSelections({ ...selections, [key]: values });
+}
+
+const matchesSelections = (candidate: Candidate, selections: FacetSelections, now: number, skipKey?: FacetKey) =>
+  FACET_DEFINITIONS.every(definition => {
+    const selected = selections[definition.key];
+    if (definition.key === skipKey || !selected || selected.length === 0) return true;
+    return selected.includes(definition.getValue(candidate, now));
+  });
+
+/**
+ * Matches that satisfy every selected facet, in their original order
+ */
+export function applyFacetSelections(matches: CandidateMatch[], selections?: FacetSelections | null, now: Date = new Date()): CandidateMatch[] {
+  const normalized = normalizeFacetSelections(selections);
+  if (Object.keys(normalized).length === 0) return matches;
+  return matches.filter(match => matchesSelections(match.candidate, normalized, now.getTime()));
+}
+
+/**
+ * Value counts for every facet over the current matches. Selected values are always listed,
+ * even when the other selections leave them with no results.
+ */
+export function computeFacetCounts(matches: CandidateMatch[], selections?: FacetSelections | null, now: Date = new Date()): FacetGroup[] {
+  const normalized = normalizeFacetSelections(selections);
+  const timestamp = now.getTime();
+
+  return FACET_DEFINITIONS.map(definition => {
+    const counts = new Map<string, number>();
+    matches.forEach(match => {
+      if (!matchesSelections(match.candidate, normalized, timestamp, definition.key)) return;
+      const value = definition.getValue(match.candidate, timestamp);
+      counts.set(value, (counts.get(value) || 0) + 1);
+    });
+
+    const selected = normalized[definition.key] || [];
+    selected.forEach(value => {
+      if (!counts.has(value)) counts.set(value, 0);
+    });
+
+    const values = Array.from(counts.entries()).map(([value, count]) => ({ value, count, selected: selected.includes(value) }));
+    const order = definition.order;
+    values.sort(order
+      ? (a, b) => (order.indexOf(a.value) + 1 || order.length + 1) - (order.indexOf(b.value) + 1 || order.length + 1)
+      : (a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    return { key: definition.key, label: definition.label, values };
+  });
+}
+
+/**
+ * Short summary of the selections, e.g. "Location: TX, CA · Experience: 6-10 years"
+ */
+export function describeFacetSelections(selections?: FacetSelections | null): string {
+  const normalized = normalizeFacetSelections(selections);
+  return FACET_DEFINITIONS
+    .filter(definition => normalized[definition.key])
+    .map(definition => `${definition.label}: ${normalized[definition.key]!.join(', ')}`)
+    .join(' · ');
+}
@@ -0,0 +1,124 @@
+import { US_CITIES, GazetteerCity } from '../data/usCities';
+import { getStateAbbreviation } from '../data/usStates';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  label: string; // e.g. "Fort Worth, TX"
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const KM_TO_MILES = 0.621371;
+
+// Radius used for "near <place>" queries that don't name a distance
+export const DEFAULT_NEAR_RADIUS_MILES = 25;
+
+const toPoint = (city: GazetteerCity): GeoPoint => ({ lat: city.lat, lng: city.lng, label: `${city.city}, ${city.state}` });
+
+const normalizeCityName = (value: string) =>
+  value.toLowerCase().replace(/\bsaint\b/g, 'st').replace(/\bft\b/g, 'fort').replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+
+const resolvedCache = new Map<string, GeoPoint | null>();
+
+/**
+ * Great-circle distance between two points in miles
+ */
+export function haversineMiles(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Resolves a ZIP code, "City, ST", "City, State" or bare city name to coordinates using
+ * the bundled gazetteer. Returns null for anything it does not know (including bare states).
+ */
+export function resolveLocation(value: string): GeoPoint | null {
+  if (!value || typeof value !== 'string') return null;
+
+  const key = value.trim().toLowerCase();
+  if (resolvedCache.has(key)) return resolvedCache.get(key)!;
+
+  let result: GeoPoint | null = null;
+  const trimmed = value.trim();
+
+  const zipMatch = trimmed.match(/^(\d{5})(?:-\d{4})?$/);
+  if (zipMatch) {
+    const zip3 = zipMatch[1].slice(0, 3);
+    const city = US_CITIES.find(entry => entry.zip3.includes(zip3));
+    result = city ? toPoint(city) : null;
+  } else {
+    // Split "City, ST" / "City, State" / "City ST"
+    let cityPart = trimmed;
+    let state: string | null = null;
+    const commaIndex = trimmed.lastIndexOf(',');
+    if (commaIndex !== -1) {
+      cityPart = trimmed.slice(0, commaIndex);
+      state = getStateAbbreviation(trimmed.slice(commaIndex + 1).replace(/\d{5}(-\d{4})?/, ''));
+    } else {
+      const trailingState = trimmed.match(/^(.+)\s+([A-Z]{2})$/);
+      if (trailingState && getStateAbbreviation(trailingState[2])) {
+        cityPart = trailingState[1];
+        state = trailingState[2];
+      }
+    }
+
+    const cityName = normalizeCityName(cityPart);
+    const candidates = US_CITIES.filter(entry =>
+      normalizeCityName(entry.city) === cityName && (!state || entry.state === state)
+    );
+    // For ambiguous bare names (Portland, Arlington...) prefer the city covering the most ZIP prefixes
+    const best = candidates.sort((a, b) => b.zip3.length - a.zip3.length)[0];
+    result = best ? toPoint(best) : null;
+  }
+
+  resolvedCache.set(key, result);
+  return result;
+}
+
+/**
+ * Miles between a candidate location string and a point, or null if the location is unknown
+ */
+export function distanceToLocation(location: string, center: GeoPoint): number | null {
+  const point = resolveLocation(location);
+  return point ? haversineMiles(point, center) : null;
+}
+
+/**
+ * Finds a radius constraint in free text, e.g. "within 50 miles of Fort Worth",
+ * "30 km from 75201" or "near Denver, CO". Only places the gazetteer knows are returned.
+ */
+export function parseRadiusQuery(query: string): { center: string; miles: number } | null {
+  if (!query || typeof query !== 'string') return null;
+
+  const placePattern = "(\\d{5}|[A-Za-z][A-Za-z .'-]*?(?:,\\s*[A-Za-z][A-Za-z .]*?)?)";
+  const terminator = "(?=$|[.;!?]|\\s+(?:with|who|and|having|that|for|experience|available)\\b)";
+
+  const radiusMatch = query.match(new RegExp(
+    `(?:within\\s+)?(\\d+(?:\\.\\d+)?)\\s*(miles?|mi|kilometers?|km)\\s+(?:of|from|around)\\s+${placePattern}${terminator}`, 'i'
+  ));
+  if (radiusMatch) {
+    const center = resolveLocation(radiusMatch[3]);
+    if (!center) return null;
+    const distance = parseFloat(radiusMatch[1]);
+    const miles = /^k/i.test(radiusMatch[2]) ? Math.round(distance * KM_TO_MILES) : distance;
+    return { center: center.label, miles };
+  }
+
+  const nearMatch = query.match(new RegExp(`\\b(?:near|around|close to)\\s+${placePattern}${terminator}`, 'i'));
+  if (nearMatch) {
+    const center = resolveLocation(nearMatch[1]);
+    return center ? { center: center.label, miles: DEFAULT_NEAR_RADIUS_MILES } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Formats a distance for match reasons, e.g. "12 mi"
+ */
+export function formatMiles(miles: number): string {
+  return miles < 1 ? 'under 1 mi' : `${Math.round(miles)} mi`;
+}
@@ -0,0 +1,76 @@
+import { SearchQuery } from '../types';
+import { JobPosting } from '../lib/supabase';
+import { findTaxonomyEntries } from './taxonomy';
+import { resolveLocation } from './geo';
+import { extractEducation } from './ruleBasedExtraction';
+
+// Turns a job posting into search criteria without an AI call: the title and location come
+// from their own fields, experience, credentials and education from the requirement lines.
+// Employment type and shift are not candidate fields, so they only inform the query text.
+
+// Candidates within commuting distance of the posting's location
+export const JOB_POSTING_RADIUS_MILES = 30;
+
+const MAX_POSTING_SKILLS = 10;
+
+const REMOTE_LOCATION = /\b(remote|anywhere|work from home|wfh)\b/i;
+
+/**
+ * Title without the decorations postings add ("ICU Nurse - Night Shift ($5k bonus)")
+ */
+export function cleanPostingTitle(title: string): string {
+  return (title || '').split(/\s[-–—|]\s|\(/)[0].trim();
+}
+
+/**
+ * Location without work-arrangement notes ("Dallas, TX (Hybrid)"); empty for remote postings
+ */
+export function cleanPostingLocation(location: string): string {
+  if (!location || REMOTE_LOCATION.test(location)) return '';
+  return location.replace(/\(.*?\)/g, '').replace(/\b(hybrid|on-?site)\b/gi, '').replace(/[\s,;-]+$/, '').trim();
+}
+
+/**
+ * Smallest number of years any requirement asks for ("3+ years", "minimum of 2 years", "2-5 years")
+ */
+export function extractMinimumExperience(requirements: string[]): number | undefined {
+  const minimums = requirements.flatMap(requirement => {
+    const match = requirement.match(/(\d{1,2})\s*(?:\+|-\s*\d{1,2}|to\s*\d{1,2})?\s*(?:\+\s*)?(?:years?|yrs?)/i);
+    return match ? [parseInt(match[1], 10)] : [];
+  });
+  return minimums.length > 0 ? Math.min(...minimums) : undefined;
+}
+
+export function buildJobPostingQuery(jobPosting: JobPosting): SearchQuery {
+  const title = cleanPostingTitle(jobPosting.title);
+  const location = cleanPostingLocation(jobPosting.location);
+  const requirements = (jobPosting.requirements || []).filter(requirement => typeof requirement === 'string');
+  const requirementText = requirements.join('\n');
+
+  const skills = Array.from(new Set(
+    findTaxonomyEntries(requirementText, ['certification', 'license', 'skill', 'specialty'])
+      .map(entry => entry.label)
+  )).slice(0, MAX_POSTING_SKILLS);
+  const education = extractEducation(requirementText);
+  const minExperience = extractMinimumExperience(requirements);
+
+  const queryParts = [title];
+  if (skills.length > 0) queryParts.push(`with ${skills.join(', ')}`);
+  if (location) queryParts.push(`near ${location}`);
+  if (jobPosting.shift_timings) queryParts.push(`(${jobPosting.shift_timings})`);
+
+  return {
+    originalQuery: queryParts.join(' '),
+    extractedEntities: {
+      jobTitles: title ? [title] : [],
+      locations: location ? [location] : [],
+      locationRadius: location && resolveLocation(location)
+        ? { center: location, miles: JOB_POSTING_RADIUS_MILES }
+        : undefined,
+      experienceRange: minExperience !== undefined ? { min: minExperience } : {},
+      skills,
+      industries: [],
+      education
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { QueryLanguage, SearchQuery } from '../types';
+import { SPANISH_MARKERS, SPANISH_PHRASES } from '../data/spanishLexicon';
+import { getTaxonomyEntry } from './taxonomy';
+
+// Multilingual queries: Spanish searches are detected and rendered in English with the phrase
+// lexicon (data/spanishLexicon.ts), so extraction, keyword and semantic matching all work on
+// English text and extracted entities use the canonical English taxonomy labels. The query as
+// typed stays in SearchQuery.originalQuery for history and saved searches.
+
+// Distinct Spanish marker words needed to treat a query as Spanish; one is not enough, since
+// place names like "Los Angeles" or "El Paso" contain Spanish words
+const MIN_SPANISH_MARKERS = 2;
+
+const SPANISH_MARKER_SET = new Set(SPANISH_MARKERS);
+
+// One alternation, so a translated phrase is never translated again
+const SPANISH_PATTERN = new RegExp(`\\b(?:${SPANISH_PHRASES.map(([spanish]) => `(${spanish})`).join('|')})\\b`, 'gi');
+
+const removeAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Language of a search query; anything not recognisably Spanish is treated as English
+ */
+export function detectQueryLanguage(text: string): QueryLanguage {
+  if (!text || typeof text !== 'string') return 'en';
+
+  const words = new Set(removeAccents(text).toLowerCase().match(/[a-z]+/g) || []);
+  const markers = Array.from(words).filter(word => SPANISH_MARKER_SET.has(word)).length;
+  const hasSpanishPunctuation = /[ñ¿¡]/i.test(text);
+  return markers + (hasSpanishPunctuation ? 1 : 0) >= MIN_SPANISH_MARKERS ? 'es' : 'en';
+}
+
+/**
+ * English rendering of a Spanish query or entity value, e.g. "enfermera registrada en Miami con
+ * 5 años" -> "registered nurse in Miami with 5 years". Words the lexicon does not know (names,
+ * acronyms) are kept as they are.
+ */
+export function translateToEnglish(text: string): string {
+  return removeAccents(text)
+    .replace(/[¿¡]/g, '')
+    // "de 3 a 5 años" is a range
+    .replace(/\bde\s+(\d+)\s+a\s+(\d+)\b/gi, '$1 to $2')
+    .replace(SPANISH_PATTERN, (match, ...groups: unknown[]) => {
+      const index = groups.findIndex(group => typeof group === 'string');
+      return index >= 0 && index < SPANISH_PHRASES.length ? SPANISH_PHRASES[index][1] : match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The English text of a query: the translation of a non-English query, else the query itself
+ */
+export function getEnglishQueryText(searchQuery: SearchQuery): string {
+  return searchQuery.normalizedQuery || searchQuery.originalQuery;
+}
+
+// Translated titles and skills use the taxonomy's label ("registered nurse" -> "Registered Nurse")
+const normalizeValue = (value: string): string => {
+  if (typeof value !== 'string') return value;
+  const translated = translateToEnglish(value);
+  return getTaxonomyEntry(translated)?.label || translated;
+};
+
+const normalizeList = (values: string[] = [], normalize = normalizeValue) => Array.from(new Set(values.map(normalize)));
+
+// Industries are title case ("salud" -> "healthcare" -> "Healthcare", "Long-Term Care")
+const normalizeIndustry = (value: string): string =>
+  normalizeValue(value).replace(/(^|[\s-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+/**
+ * Marks a query typed in Spanish with its language and English text, and normalizes the
+ * extracted entities (as a model may return them in Spanish) to English. English queries are
+ * returned unchanged.
+ */
+export function normalizeQueryLanguage(searchQuery: SearchQuery): SearchQuery {
+  const language = detectQueryLanguage(searchQuery.originalQuery);
+  if (language === 'en') return searchQuery;
+
+  const { extractedEntities } = searchQuery;
+  console.log(`🌐 ${language} query normalized to English`);
+  return {
+    ...searchQuery,
+    language,
+    normalizedQuery: translateToEnglish(searchQuery.originalQuery),
+    extractedEntities: {
+      ...extractedEntities,
+      jobTitles: normalizeList(extractedEntities.jobTitles),
+      locations: normalizeList(extractedEntities.locations),
+      skills: normalizeList(extractedEntities.skills),
+      industries: normalizeList(extractedEntities.industries, normalizeIndustry),
+      education: extractedEntities.education && normalizeValue(extractedEntities.education)
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Candidate } from '../types';
+import { matchesQueryNode, parseQuery } from './queryParser';
+
+const withTitle = (jobTitle: string): Candidate => ({
+  id: jobTitle,
+  name: 'Candidate',
+  jobTitle,
+  location: 'Dallas, TX',
+  experience: 5,
+  skills: [],
+  industry: 'Healthcare',
+  education: '',
+  email: '',
+  phone: '',
+  summary: '',
+  lastActive: '2026-01-01T00:00:00.000Z',
+  source: 'Referral',
+  availability: 'available'
+});
+
+const matchingTitles = (query: string, titles: string[]) =>
+  titles.filter(title => matchesQueryNode(withTitle(title), parseQuery(query)));
+
+describe('title filter', () => {
+  it('matches an abbreviation and its expansions as whole words', () => {
+    expect(matchingTitles('title:RN', ['Registered Nurse', 'ICU RN', 'Intern', 'RN-BC'])).toEqual(['Registered Nurse', 'ICU RN', 'RN-BC']);
+    expect(matchingTitles('title:MA', ['Medical Assistant', 'Pharmacist', 'Case Manager'])).toEqual(['Medical Assistant']);
+  });
+
+  it('matches a full title as whole words', () => {
+    expect(matchingTitles('title:"Charge Nurse"', ['Charge Nurse', 'ICU Charge Nurse', 'Charge Nurses Aide'])).toEqual(['Charge Nurse', 'ICU Charge Nurse']);
+  });
+});
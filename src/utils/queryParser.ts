@@ -0,0 +1,511 @@
+import { Candidate, SearchQuery, QueryNode, QueryField, QueryClauses } from '../types';
+import { US_STATES, getStateAbbreviation } from '../data/usStates';
+
+/**
+ * Parser for the fielded boolean query language, e.g.
+ *   title:"ICU Nurse" AND (skills:ACLS OR skills:BLS) NOT location:Texas exp:>=5
+ *
+ * Operators must be upper case (AND, OR, NOT) so natural-language queries such as
+ * "nurses in Dallas and Austin" keep going through AI entity extraction. Adjacent
+ * terms are implicitly AND-ed and a leading "-" is shorthand for NOT.
+ */
+
+type Token =
+  | { kind: 'lparen' }
+  | { kind: 'rparen' }
+  | { kind: 'and' }
+  | { kind: 'or' }
+  | { kind: 'not' }
+  | { kind: 'field'; field: QueryField } // field prefix followed by a parenthesised group
+  | { kind: 'term'; field: QueryField | null; value: string; phrase: boolean };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title',
+  jobtitle: 'title',
+  role: 'title',
+  skill: 'skills',
+  skills: 'skills',
+  cert: 'skills',
+  location: 'location',
+  loc: 'location',
+  city: 'location',
+  state: 'location',
+  exp: 'experience',
+  experience: 'experience',
+  years: 'experience',
+  industry: 'industry',
+  education: 'education',
+  edu: 'education',
+  degree: 'education',
+  availability: 'availability',
+  status: 'availability',
+  source: 'source'
+};
+
+const FIELD_PREFIX_PATTERN = new RegExp(`(^|[\\s(-])(${Object.keys(FIELD_ALIASES).join('|')}):`, 'i');
+
+const TITLE_ABBREVIATIONS: Record<string, string[]> = {
+  rn: ['registered nurse', 'staff nurse', 'charge nurse'],
+  lpn: ['licensed practical nurse'],
+  lvn: ['licensed vocational nurse', 'licensed practical nurse'],
+  np: ['nurse practitioner'],
+  cns: ['clinical nurse specialist'],
+  don: ['director of nursing'],
+  pt: ['physical therapist'],
+  ot: ['occupational therapist'],
+  rt: ['respiratory therapist'],
+  ma: ['medical assistant']
+};
+
+/**
+ * Returns true when the query uses field prefixes, upper-case boolean operators or "-" exclusions
+ */
+export function isStructuredQuery(query: string): boolean {
+  if (!query || typeof query !== 'string') return false;
+
+  return (
+    FIELD_PREFIX_PATTERN.test(query) ||
+    /(^|[\s(])(AND|OR|NOT)(?=[\s(])/.test(query) ||
+    /(^|\s)-[\w"(]/.test(query)
+  );
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    // Assumes query[i] is the opening quote
+    const end = query.indexOf('"', i + 1);
+    if (end === -1) {
+      throw new Error(`Unterminated quote at position ${i}`);
+    }
+    const value = query.slice(i + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  const readWord = (): string => {
+    const start = i;
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      i++;
+    }
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+      continue;
+    }
+
+    if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      tokens.push({ kind: 'term', field: null, value: readQuoted(), phrase: true });
+      continue;
+    }
+
+    const fieldMatch = query.slice(i).match(/^([a-zA-Z]+):/);
+    const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+
+    if (fieldMatch && field) {
+      i += fieldMatch[0].length;
+      if (query[i] === '"') {
+        tokens.push({ kind: 'term', field, value: readQuoted(), phrase: true });
+      } else if (query[i] === '(') {
+        tokens.push({ kind: 'field', field });
+      } else {
+        const value = readWord();
+        if (!value) {
+          throw new Error(`Missing value for field "${fieldMatch[1]}"`);
+        }
+        tokens.push({ kind: 'term', field, value, phrase: false });
+      }
+      continue;
+    }
+
+    const word = readWord();
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+      continue;
+    }
+
+    tokens.push({ kind: 'term', field: null, value: word, phrase: false });
+  }
+
+  return tokens;
+}
+
+function parseExperienceValue(raw: string): QueryNode {
+  const value = raw.trim();
+
+  const comparison = value.match(/^(>=|<=|>|<|=)?\s*(\d+(?:\.\d+)?)(\+)?$/);
+  if (comparison) {
+    const operator = comparison[3] ? '>=' : (comparison[1] || '>=') as '>' | '>=' | '<' | '<=' | '=';
+    return { type: 'range', field: 'experience', operator, value: parseFloat(comparison[2]) };
+  }
+
+  const between = value.match(/^(\d+(?:\.\d+)?)\s*(?:-|\.\.|to)\s*(\d+(?:\.\d+)?)$/);
+  if (between) {
+    return {
+      type: 'and',
+      children: [
+        { type: 'range', field: 'experience', operator: '>=', value: parseFloat(between[1]) },
+        { type: 'range', field: 'experience', operator: '<=', value: parseFloat(between[2]) }
+      ]
+    };
+  }
+
+  throw new Error(`Invalid experience value "${raw}" (use e.g. exp:>=5, exp:3-7 or exp:10+)`);
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Empty query');
+    }
+
+    const node = this.parseOr(null);
+    if (this.position < this.tokens.length) {
+      throw new Error('Unexpected ")" in query');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(field: QueryField | null): QueryNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(field: QueryField | null): QueryNode {
+    const children = [this.parseUnary(field)];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') {
+        this.position++;
+      }
+      children.push(this.parseUnary(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(field: QueryField | null): QueryNode {
+    if (this.peek()?.kind === 'not') {
+      this.position++;
+      return { type: 'not', child: this.parseUnary(field) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field: QueryField | null): QueryNode {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('Query ends unexpectedly');
+    }
+
+    switch (token.kind) {
+      case 'lparen':
+        return this.parseGroup(field);
+      case 'field':
+        if (this.tokens[this.position++]?.kind !== 'lparen') {
+          throw new Error(`Expected "(" after ${token.field}:`);
+        }
+        return this.parseGroup(token.field);
+      case 'term': {
+        const termField = token.field || field || 'any';
+        if (termField === 'experience') {
+          return parseExperienceValue(token.value);
+        }
+        return { type: 'term', field: termField, value: token.value, phrase: token.phrase };
+      }
+      default:
+        throw new Error(`Unexpected ${token.kind.toUpperCase()} in query`);
+    }
+  }
+
+  private parseGroup(field: QueryField | null): QueryNode {
+    const node = this.parseOr(field);
+    if (this.tokens[this.position++]?.kind !== 'rparen') {
+      throw new Error('Missing closing ")" in query');
+    }
+    return node;
+  }
+}
+
+/**
+ * Parses a structured query into its AST. Throws an Error describing the problem on invalid syntax.
+ */
+export function parseQuery(query: string): QueryNode {
+  return new Parser(tokenize(query)).parse();
+}
+
+/**
+ * Splits an AST into top-level include and exclude clauses
+ */
+export function splitClauses(node: QueryNode): QueryClauses {
+  const conjuncts = node.type === 'and' ? node.children : [node];
+  const clauses: QueryClauses = { include: [], exclude: [] };
+
+  conjuncts.forEach(conjunct => {
+    if (conjunct.type === 'not') {
+      clauses.exclude.push(conjunct.child);
+    } else {
+      clauses.include.push(conjunct);
+    }
+  });
+
+  return clauses;
+}
+
+function collectPositiveTerms(node: QueryNode, terms: Extract<QueryNode, { type: 'term' }>[]): void {
+  switch (node.type) {
+    case 'term':
+      terms.push(node);
+      break;
+    case 'and':
+    case 'or':
+      node.children.forEach(child => collectPositiveTerms(child, terms));
+      break;
+    default:
+      // Ranges are handled separately and negated terms are not entities
+      break;
+  }
+}
+
+function collectExperienceRange(nodes: QueryNode[]): { min?: number; max?: number } {
+  const range: { min?: number; max?: number } = {};
+
+  const visit = (node: QueryNode) => {
+    if (node.type === 'and') {
+      node.children.forEach(visit);
+      return;
+    }
+    if (node.type !== 'range') return;
+
+    switch (node.operator) {
+      case '>=':
+        range.min = node.value;
+        break;
+      case '>':
+        range.min = node.value + 1;
+        break;
+      case '<=':
+        range.max = node.value;
+        break;
+      case '<':
+        range.max = Math.max(0, node.value - 1);
+        break;
+      case '=':
+        range.min = node.value;
+        range.max = node.value;
+        break;
+    }
+  };
+
+  nodes.forEach(visit);
+  return range;
+}
+
+/**
+ * Returns the values of all non-negated terms, used as keywords for relevance scoring
+ */
+export function getPositiveTermValues(clauses: QueryClauses): string[] {
+  const terms: Extract<QueryNode, { type: 'term' }>[] = [];
+  clauses.include.forEach(node => collectPositiveTerms(node, terms));
+  return terms.map(term => term.value);
+}
+
+/**
+ * Builds a SearchQuery from a structured query. Include/exclude clauses are kept for
+ * exact evaluation and positive terms are mapped onto extractedEntities for scoring and display.
+ */
+export function buildStructuredSearchQuery(query: string): SearchQuery {
+  const ast = parseQuery(query);
+  const clauses = splitClauses(ast);
+
+  const terms: Extract<QueryNode, { type: 'term' }>[] = [];
+  clauses.include.forEach(node => collectPositiveTerms(node, terms));
+  const valuesFor = (field: QueryField) => [...new Set(terms.filter(term => term.field === field).map(term => term.value))];
+
+  const education = valuesFor('education');
+
+  return {
+    originalQuery: query,
+    extractedEntities: {
+      jobTitles: valuesFor('title'),
+      locations: valuesFor('location'),
+      experienceRange: collectExperienceRange(clauses.include),
+      skills: valuesFor('skills'),
+      industries: valuesFor('industry'),
+      education: education.length > 0 ? education.join(', ') : undefined
+    },
+    clauses
+  };
+}
+
+function includesEither(a: string, b: string): boolean {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  return left.includes(right) || right.includes(left);
+}
+
+/**
+ * Full titles a title term also matches, e.g. "RN" -> registered nurse, staff nurse, charge nurse
+ */
+export function getTitleExpansions(value: string): string[] {
+  return TITLE_ABBREVIATIONS[value.toLowerCase()] || [];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsWords = (text: string, words: string) => new RegExp(`\\b${escapeRegExp(words)}\\b`).test(text);
+
+function matchesTitle(candidateTitle: string, value: string): boolean {
+  if (!candidateTitle) return false;
+
+  // Whole words only: "RN" must not match "Intern", nor "MA" "Pharmacist"
+  const title = candidateTitle.toLowerCase();
+  const lowerValue = value.trim().toLowerCase();
+  return [lowerValue, ...getTitleExpansions(lowerValue)].some(term => containsWords(title, term));
+}
+
+function matchesLocation(candidateLocation: string, value: string): boolean {
+  if (!candidateLocation) return false;
+
+  const parts = candidateLocation.split(',').map(part => part.trim());
+  const candidateCity = parts[0].toLowerCase();
+  const candidateState = parts.length > 1 ? parts[parts.length - 1] : '';
+  const lowerValue = value.trim().toLowerCase();
+
+  // "Texas" or "TX" should match "Dallas, TX" by its state part only
+  const state = getStateAbbreviation(value);
+  if (state && (candidateState.toUpperCase() === state || candidateState.toLowerCase() === US_STATES[state].toLowerCase())) return true;
+  // A two-letter value is a state code: "CA" must not match "Chicago, IL"
+  if (lowerValue.length <= 2) return false;
+
+  if (candidateCity === lowerValue || candidateLocation.toLowerCase() === lowerValue) return true;
+  // "Fort Worth" or "Dallas, TX" as whole words of the location
+  return containsWords(candidateLocation.toLowerCase(), lowerValue);
+}
+
+function matchesTerm(candidate: Candidate, field: QueryField, value: string): boolean {
+  switch (field) {
+    case 'title':
+      return matchesTitle(candidate.jobTitle, value);
+    case 'skills':
+      return (candidate.skills || []).some(skill => typeof skill === 'string' && includesEither(skill, value));
+    case 'location':
+      return matchesLocation(candidate.location, value);
+    case 'industry':
+      return !!candidate.industry && candidate.industry.toLowerCase().includes(value.toLowerCase());
+    case 'education':
+      return !!candidate.education && candidate.education.toLowerCase().includes(value.toLowerCase());
+    case 'availability':
+      return candidate.availability === value.toLowerCase().replace(/\s+/g, '-');
+    case 'source':
+      return !!candidate.source && candidate.source.toLowerCase().includes(value.toLowerCase());
+    case 'experience':
+      return false;
+    case 'any': {
+      const lowerValue = value.toLowerCase();
+      return [
+        candidate.jobTitle,
+        candidate.location,
+        candidate.summary,
+        candidate.industry,
+        candidate.education,
+        ...(candidate.skills || [])
+      ].some(text => typeof text === 'string' && text.toLowerCase().includes(lowerValue)) ||
+        matchesTitle(candidate.jobTitle, value);
+    }
+  }
+}
+
+/**
+ * Evaluates an AST node against a candidate
+ */
+export function matchesQueryNode(candidate: Candidate, node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+      return matchesTerm(candidate, node.field, node.value);
+    case 'range': {
+      const experience = typeof candidate.experience === 'number' ? candidate.experience : 0;
+      switch (node.operator) {
+        case '>': return experience > node.value;
+        case '>=': return experience >= node.value;
+        case '<': return experience < node.value;
+        case '<=': return experience <= node.value;
+        case '=': return experience === node.value;
+      }
+      return false;
+    }
+    case 'and':
+      return node.children.every(child => matchesQueryNode(candidate, child));
+    case 'or':
+      return node.children.some(child => matchesQueryNode(candidate, child));
+    case 'not':
+      return !matchesQueryNode(candidate, node.child);
+  }
+}
+
+/**
+ * Returns true when the candidate satisfies every include clause and no exclude clause
+ */
+export function matchesClauses(candidate: Candidate, clauses: QueryClauses): boolean {
+  return (
+    clauses.include.every(node => matchesQueryNode(candidate, node)) &&
+    !clauses.exclude.some(node => matchesQueryNode(candidate, node))
+  );
+}
+
+/**
+ * Renders an AST node back into query syntax for display and AI prompts
+ */
+export function describeQueryNode(node: QueryNode): string {
+  switch (node.type) {
+    case 'term': {
+      const value = node.phrase || /\s/.test(node.value) ? `"${node.value}"` : node.value;
+      return node.field === 'any' ? value : `${node.field}:${value}`;
+    }
+    case 'range':
+      return `experience:${node.operator}${node.value}`;
+    case 'and':
+      return node.children.map(child => (child.type === 'or' ? `(${describeQueryNode(child)})` : describeQueryNode(child))).join(' AND ');
+    case 'or':
+      return node.children.map(child => (child.type === 'and' ? `(${describeQueryNode(child)})` : describeQueryNode(child))).join(' OR ');
+    case 'not':
+      return `NOT ${node.child.type === 'term' || node.child.type === 'range' ? describeQueryNode(node.child) : `(${describeQueryNode(node.child)})`}`;
+  }
+}
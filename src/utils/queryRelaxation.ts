@@ -0,0 +1,250 @@
+import { Candidate, QueryNode, RankingPipelineConfig, SearchQuery } from '../types';
+import { CandidatePool, resolveCandidatePool } from './candidateSource';
+import { describeCredentialRequirement } from './credentials';
+import { resolveLocation } from './geo';
+import { describeQueryNode, matchesQueryNode } from './queryParser';
+import { runRankingPipeline } from './rankingPipeline';
+
+// Query relaxation: when the filters leave no one, constraints are widened or dropped one at a
+// time until the search finds candidates. Each round tries every next step on its own, counts
+// the candidates it would recover, and keeps the step that recovers the most (ties go to the
+// earlier, usually less important, constraint). While no step recovers anyone, constraints take
+// turns, so one is not worn down before the others are touched. Job titles and exclusions are
+// never relaxed: they are what the search is about.
+
+export type RelaxedConstraint = 'experience' | 'location' | 'skills' | 'industry' | 'credentials' | 'criteria';
+
+export interface RelaxationStep {
+  constraint: RelaxedConstraint;
+  description: string; // "Lowered minimum experience from 12 to 8 years"
+  recovered: number; // candidates found with this step applied
+}
+
+export interface QueryRelaxation {
+  searchQuery: SearchQuery; // the relaxed query that finds candidates
+  steps: RelaxationStep[]; // applied in order; the last one recovered the candidates
+  options: RelaxationStep[]; // every first-round step, tried on its own
+}
+
+interface RelaxationCandidate {
+  constraint: RelaxedConstraint;
+  description: string;
+  apply: (searchQuery: SearchQuery) => SearchQuery;
+}
+
+// Rounds before giving up; each round runs the filters once per candidate step
+export const MAX_RELAXATION_ROUNDS = 8;
+
+// Each step lowers a minimum experience by a third (and raises a maximum by as many years);
+// at this many years or less the requirement is dropped instead
+const MIN_RELAXED_EXPERIENCE = 2;
+
+// A city becomes a radius of this size; a radius doubles (to at least the wide radius) up to the maximum
+const CITY_RADIUS_MILES = 25;
+const WIDE_RADIUS_MILES = 50;
+const MAX_RADIUS_MILES = 100;
+
+const withEntities = (searchQuery: SearchQuery, changes: Partial<SearchQuery['extractedEntities']>): SearchQuery => ({
+  ...searchQuery,
+  extractedEntities: { ...searchQuery.extractedEntities, ...changes }
+});
+
+const experienceStep = (searchQuery: SearchQuery): RelaxationCandidate | null => {
+  const { min, max } = searchQuery.extractedEntities.experienceRange || {};
+  if (min === undefined) return null;
+
+  if (min <= MIN_RELAXED_EXPERIENCE) {
+    return {
+      constraint: 'experience',
+      description: `Dropped the ${min}+ years experience requirement`,
+      apply: query => withEntities(query, { experienceRange: {} })
+    };
+  }
+
+  const relaxedMin = Math.floor((min * 2) / 3);
+  const relaxedMax = max !== undefined ? max + (min - relaxedMin) : undefined;
+  return {
+    constraint: 'experience',
+    description: `Lowered minimum experience from ${min} to ${relaxedMin} years${relaxedMax !== undefined ? ` (maximum ${relaxedMax})` : ''}`,
+    apply: query => withEntities(query, { experienceRange: { min: relaxedMin, max: relaxedMax } })
+  };
+};
+
+/**
+ * The next widening of the location: a city becomes a radius around it, a radius doubles, and
+ * finally the location is dropped
+ */
+const locationStep = (searchQuery: SearchQuery): RelaxationCandidate | null => {
+  const { locations = [], locationRadius } = searchQuery.extractedEntities;
+  if (locations.length === 0 && !locationRadius) return null;
+
+  if (locationRadius && locationRadius.miles < MAX_RADIUS_MILES) {
+    const miles = Math.min(MAX_RADIUS_MILES, Math.max(WIDE_RADIUS_MILES, locationRadius.miles * 2));
+    return {
+      constraint: 'location',
+      description: `Widened the radius around ${locationRadius.center} from ${locationRadius.miles} to ${miles} miles`,
+      apply: query => withEntities(query, { locationRadius: { ...locationRadius, miles } })
+    };
+  }
+
+  const city = !locationRadius && locations.find(location => resolveLocation(location));
+  if (city) {
+    return {
+      constraint: 'location',
+      description: `Searched within ${CITY_RADIUS_MILES} miles of ${city} instead of the city only`,
+      apply: query => withEntities(query, { locationRadius: { center: city, miles: CITY_RADIUS_MILES } })
+    };
+  }
+
+  const label = locationRadius ? `${locationRadius.miles} miles of ${locationRadius.center}` : locations.join(', ');
+  return {
+    constraint: 'location',
+    description: `Dropped the location (${label})`,
+    apply: query => withEntities(query, { locations: [], locationRadius: undefined })
+  };
+};
+
+const industryStep = (searchQuery: SearchQuery): RelaxationCandidate | null => {
+  const { industries = [] } = searchQuery.extractedEntities;
+  // The hard filters ignore industries when Healthcare is among them
+  if (industries.length === 0 || industries.includes('Healthcare')) return null;
+
+  return {
+    constraint: 'industry',
+    description: `Dropped the industry (${industries.join(', ')})`,
+    apply: query => withEntities(query, { industries: [] })
+  };
+};
+
+/**
+ * The next loosening of the credential requirements: a "valid through" date becomes "active",
+ * then the requirement is dropped
+ */
+const credentialStep = (searchQuery: SearchQuery): RelaxationCandidate | null => {
+  const { credentials = [] } = searchQuery.extractedEntities;
+  if (credentials.length === 0) return null;
+
+  const dated = credentials.findIndex(requirement => requirement.validThrough);
+  if (dated >= 0) {
+    const requirement = credentials[dated];
+    const relaxed = { ...requirement, validThrough: undefined, active: true };
+    return {
+      constraint: 'credentials',
+      description: `Accepted ${describeCredentialRequirement(relaxed)} instead of ${describeCredentialRequirement(requirement)}`,
+      apply: query => withEntities(query, {
+        credentials: (query.extractedEntities.credentials || []).map((other, index) => (index === dated ? relaxed : other))
+      })
+    };
+  }
+
+  return {
+    constraint: 'credentials',
+    description: `Dropped the credential requirement (${describeCredentialRequirement(credentials[0])})`,
+    apply: query => withEntities(query, { credentials: (query.extractedEntities.credentials || []).slice(1) })
+  };
+};
+
+const flattenInclude = (nodes: QueryNode[]): QueryNode[] =>
+  nodes.flatMap(node => (node.type === 'and' ? flattenInclude(node.children) : [node]));
+
+const getNodeConstraint = (node: QueryNode): RelaxedConstraint => {
+  if (node.type === 'range') return 'experience';
+  if (node.type === 'term' && (node.field === 'skills' || node.field === 'location' || node.field === 'industry')) {
+    return node.field === 'skills' ? 'skills' : node.field;
+  }
+  return 'criteria';
+};
+
+/**
+ * Boolean queries: every top-level clause except titles can be dropped. Skills go rarest first,
+ * since a skill few candidates list is the likeliest reason nothing matched.
+ */
+const clauseSteps = (searchQuery: SearchQuery, candidates: Candidate[]): RelaxationCandidate[] => {
+  const include = flattenInclude(searchQuery.clauses?.include || []);
+  const frequency = (node: QueryNode) => candidates.filter(candidate => matchesQueryNode(candidate, node)).length;
+
+  return include
+    .filter(node => !(node.type === 'term' && node.field === 'title'))
+    .map(node => ({ node, constraint: getNodeConstraint(node), count: node.type === 'term' && node.field === 'skills' ? frequency(node) : Infinity }))
+    .sort((a, b) => a.count - b.count)
+    .map(({ node, constraint, count }) => ({
+      constraint,
+      description: constraint === 'skills' && count !== Infinity
+        ? `Dropped the rare skill ${describeQueryNode(node)} (${count} candidates list it)`
+        : `Dropped ${describeQueryNode(node)}`,
+      apply: query => ({
+        ...query,
+        clauses: query.clauses && {
+          ...query.clauses,
+          include: flattenInclude(query.clauses.include).filter(other => describeQueryNode(other) !== describeQueryNode(node))
+        }
+      })
+    }));
+};
+
+/**
+ * The next step for each relaxable constraint, in order of preference on a tie
+ */
+export function getRelaxationSteps(searchQuery: SearchQuery, candidates: Candidate[] = []): RelaxationCandidate[] {
+  // Include clauses replace the entity filters, so only they can be relaxed
+  if (searchQuery.clauses && searchQuery.clauses.include.length > 0) {
+    return clauseSteps(searchQuery, candidates);
+  }
+
+  return [experienceStep(searchQuery), locationStep(searchQuery), industryStep(searchQuery), credentialStep(searchQuery)]
+    .filter((step): step is RelaxationCandidate => step !== null);
+}
+
+const countMatches = async (pool: CandidatePool, searchQuery: SearchQuery, rankingConfig: RankingPipelineConfig): Promise<number> => {
+  const candidates = await resolveCandidatePool(pool, searchQuery);
+  const matches = await runRankingPipeline(candidates, searchQuery, rankingConfig, { skipKinds: ['score', 'rerank'] });
+  return matches.length;
+};
+
+/**
+ * Relaxes a query that found no one until it finds candidates. Returns null when every
+ * relaxable constraint is used up (or the round limit is reached) and still no one matches.
+ */
+export async function relaxSearchQuery(
+  pool: CandidatePool,
+  searchQuery: SearchQuery,
+  rankingConfig: RankingPipelineConfig
+): Promise<QueryRelaxation | null> {
+  console.log('🪢 Relaxing search constraints...');
+
+  // Rarity of boolean skill clauses is judged against the pool the query would search
+  const baseCandidates = Array.isArray(pool) ? pool : [];
+  const steps: RelaxationStep[] = [];
+  let options: RelaxationStep[] = [];
+  let current = searchQuery;
+
+  for (let round = 0; round < MAX_RELAXATION_ROUNDS; round++) {
+    const candidates = getRelaxationSteps(current, baseCandidates);
+    if (candidates.length === 0) break;
+
+    const tried: { step: RelaxationStep; query: SearchQuery }[] = [];
+    for (const candidate of candidates) {
+      const query = candidate.apply(current);
+      const recovered = await countMatches(pool, query, rankingConfig);
+      tried.push({ step: { constraint: candidate.constraint, description: candidate.description, recovered }, query });
+    }
+    if (round === 0) options = tried.map(({ step }) => step);
+
+    // Stable: on a tie the earlier constraint wins, or while nothing helps, the least relaxed one
+    const timesRelaxed = (constraint: RelaxedConstraint) => steps.filter(step => step.constraint === constraint).length;
+    const best = tried.reduce((a, b) => {
+      if (b.step.recovered !== a.step.recovered) return b.step.recovered > a.step.recovered ? b : a;
+      return b.step.recovered === 0 && timesRelaxed(b.step.constraint) < timesRelaxed(a.step.constraint) ? b : a;
+    });
+    steps.push(best.step);
+    current = best.query;
+    console.log(`🪢 ${best.step.description}: ${best.step.recovered} candidates`);
+
+    if (best.step.recovered > 0) {
+      return { searchQuery: current, steps, options };
+    }
+  }
+
+  console.log('❌ No relaxation of the constraints finds candidates');
+  return null;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RANKING_PIPELINE, MATCH_CRITERIA } from '../config/ranking';
+import { Candidate, SearchQuery } from '../types';
+import { runRankingPipeline } from './rankingPipeline';
+import { MatchCompletionProvider, calculateBasicMatch } from './searchUtils';
+
+const candidate = (id: string, overrides: Partial<Candidate>): Candidate => ({
+  id,
+  name: `Candidate ${id}`,
+  jobTitle: 'ICU Nurse',
+  location: 'Dallas, TX',
+  experience: 6,
+  skills: ['ICU', 'Critical Care'],
+  industry: 'Healthcare',
+  education: 'BSN',
+  email: '',
+  phone: '',
+  summary: 'Critical care nurse in a level I trauma center',
+  lastActive: new Date().toISOString(),
+  source: 'Referral',
+  availability: 'available',
+  ...overrides
+});
+
+const searchQuery: SearchQuery = {
+  originalQuery: 'ICU nurse in Dallas, TX with critical care',
+  extractedEntities: { jobTitles: ['ICU Nurse'], locations: ['Dallas, TX'], experienceRange: {}, skills: ['Critical Care'], industries: [] }
+};
+
+// Answers the AI rerank with the basic match, breakdown included, as the model would
+const mockMatchProvider: MatchCompletionProvider = async request =>
+  JSON.stringify(calculateBasicMatch(request.candidate, request.searchQuery));
+
+describe('runRankingPipeline', () => {
+  it('keeps the per-criterion breakdown through the scoring stages of the default pipeline', async () => {
+    const candidates = [
+      candidate('1', {}),
+      candidate('2', { availability: 'passive', lastActive: '2025-01-01T00:00:00.000Z' }),
+      candidate('3', { experience: 2, skills: ['ICU'] })
+    ];
+
+    const matches = await runRankingPipeline(candidates, searchQuery, DEFAULT_RANKING_PIPELINE, { matchProvider: mockMatchProvider });
+
+    expect(matches).toHaveLength(3);
+    matches.forEach(match => {
+      expect(match.explanation.reasons.some(reason => reason.startsWith('Ranking boost:'))).toBe(true);
+      expect(match.explanation.breakdown?.map(item => item.criterion)).toEqual(MATCH_CRITERIA);
+    });
+  });
+
+  it('returns every candidate the hard filters keep, however many there are', async () => {
+    const candidates = Array.from({ length: 120 }, (_, index) => candidate(`icu-${index}`, {}));
+
+    const matches = await runRankingPipeline(candidates, searchQuery, DEFAULT_RANKING_PIPELINE, { skipKinds: ['rerank'] });
+
+    expect(matches).toHaveLength(candidates.length);
+  });
+});
@@ -0,0 +1,363 @@
+import { Candidate, SearchQuery, CandidateMatch, MatchExplanation, RankingPipelineConfig, RankingStageConfig } from '../types';
+import { MAX_AI_RERANK_BUDGET } from '../config/ranking';
+import { MatchCompletionProvider, applyLenientHardFilters, applySimpleKeywordMatching, calculateBasicMatch, calculateMatchWithAI } from './searchUtils';
+import { semanticSearch, getSemanticScores } from './semanticIndex';
+import { resolveLocation, distanceToLocation, formatMiles } from './geo';
+
+// Stage kinds:
+// - filter: narrows (and may reorder) the candidate list before anything is scored
+// - rerank: replaces the explanation of the top `budget` matches, e.g. with an AI score
+// - score: adjusts the score of every match by up to `weight` points; placed after rerank
+//   stages so AI-scored and basic-scored candidates get the same boosts
+export type RankingStageKind = 'filter' | 'score' | 'rerank';
+
+interface FilterStage {
+  kind: 'filter';
+  label: string;
+  budgeted?: boolean; // retrieval stages that keep only the top N candidates when given a budget
+  run: (candidates: Candidate[], searchQuery: SearchQuery, budget?: number) => Candidate[];
+}
+
+interface ScoreStage {
+  kind: 'score';
+  label: string;
+  defaultWeight: number;
+  // `poolIds` are the ids of every match being scored, for stages that score relative to the pool
+  run: (match: CandidateMatch, searchQuery: SearchQuery, weight: number, poolIds?: Set<string>) => CandidateMatch;
+}
+
+interface RerankStage {
+  kind: 'rerank';
+  label: string;
+  defaultBudget: number;
+  run: (
+    matches: CandidateMatch[],
+    searchQuery: SearchQuery,
+    budget: number,
+    onPartialResults?: (results: CandidateMatch[]) => void,
+    matchProvider?: MatchCompletionProvider
+  ) => Promise<CandidateMatch[]>;
+}
+
+export type RankingStage = FilterStage | ScoreStage | RerankStage;
+
+interface RankingOptions {
+  onPartialResults?: (results: CandidateMatch[]) => void;
+  skipKinds?: RankingStageKind[];
+  matchProvider?: MatchCompletionProvider; // answers AI rerank requests instead of OpenAI
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maps a 0-100 score to a match category, using the same thresholds as the basic matcher
+ */
+export function categorizeScore(score: number): MatchExplanation['category'] {
+  if (score >= 85) return 'excellent';
+  if (score >= 65) return 'good';
+  return 'potential';
+}
+
+const adjustScore = (match: CandidateMatch, points: number, reason: string): CandidateMatch => {
+  if (points === 0) return match;
+
+  const score = Math.max(0, Math.min(100, match.explanation.score + points));
+  return {
+    ...match,
+    explanation: {
+      ...match.explanation,
+      score,
+      reasons: [...match.explanation.reasons, reason],
+      category: categorizeScore(score)
+    }
+  };
+};
+
+const sortByScore = (matches: CandidateMatch[]): CandidateMatch[] =>
+  [...matches].sort((a, b) => b.explanation.score - a.explanation.score);
+
+function runSemanticRetrieval(candidates: Candidate[], searchQuery: SearchQuery, budget?: number): Candidate[] {
+  const semanticMatches = semanticSearch(candidates, searchQuery);
+  console.log(`🧠 Semantic retrieval: ${semanticMatches.length} of ${candidates.length} candidates are relevant`);
+
+  // Queries with nothing to match semantically (e.g. only a location) should not empty the pool
+  if (semanticMatches.length === 0) return candidates;
+
+  const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const relevant = semanticMatches.map(match => byId.get(match.candidateId)!);
+
+  // Without a budget nobody is dropped: the most relevant go first, so they win the AI rerank
+  // budget and ties in score
+  if (budget === undefined) {
+    const relevantIds = new Set(relevant.map(candidate => candidate.id));
+    return [...relevant, ...candidates.filter(candidate => !relevantIds.has(candidate.id))];
+  }
+
+  const retrieved = relevant.slice(0, budget);
+
+  // Candidates that satisfied boolean include clauses are relevant by definition
+  if (searchQuery.clauses && searchQuery.clauses.include.length > 0) {
+    const retrievedIds = new Set(retrieved.map(candidate => candidate.id));
+    return [...retrieved, ...candidates.filter(candidate => !retrievedIds.has(candidate.id))];
+  }
+  return retrieved;
+}
+
+async function runAIRerank(
+  matches: CandidateMatch[],
+  searchQuery: SearchQuery,
+  budget: number,
+  onPartialResults?: (results: CandidateMatch[]) => void,
+  matchProvider?: MatchCompletionProvider
+): Promise<CandidateMatch[]> {
+  const ranked = sortByScore(matches);
+  const topMatches = ranked.slice(0, budget);
+  const remainingMatches = ranked.slice(budget);
+  console.log(`🤖 AI rerank: scoring top ${topMatches.length} candidates, ${remainingMatches.length} keep basic scores`);
+
+  const reranked: CandidateMatch[] = [];
+
+  // Process candidates in small batches for better performance and streaming
+  const batchSize = 3;
+  for (let i = 0; i < topMatches.length; i += batchSize) {
+    const batch = topMatches.slice(i, i + batchSize);
+    console.log(`📦 Processing AI batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(topMatches.length/batchSize)} (${batch.length} candidates)`);
+
+    const batchResults = await Promise.all(batch.map(async (match, index) => {
+      try {
+        const explanation = await calculateMatchWithAI(match.candidate, searchQuery, i + index + 1, { matchProvider });
+        console.log(`✅ AI analysis complete for ${match.candidate.name}: Score ${explanation.score}%, Category: ${explanation.category}`);
+        return { ...match, explanation };
+      } catch {
+        console.log(`⚠️ AI analysis failed for ${match.candidate.name}, keeping basic score`);
+        return match;
+      }
+    }));
+    reranked.push(...batchResults);
+
+    // Stream partial results after each batch
+    if (onPartialResults) {
+      onPartialResults(sortByScore([...reranked, ...topMatches.slice(i + batchSize), ...remainingMatches]));
+    }
+
+    // Small delay between batches to respect rate limits
+    if (i + batchSize < topMatches.length) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+  }
+
+  return [...reranked, ...remainingMatches];
+}
+
+// searchUtils imports this module, so its filters are looked up when a stage runs rather than
+// when the stages are defined (module loaders without hoisting would see them undefined)
+const RANKING_STAGES: Record<string, RankingStage> = {
+  hardFilters: {
+    kind: 'filter',
+    label: 'Hard filters',
+    run: (candidates, searchQuery) => applyLenientHardFilters(candidates, searchQuery)
+  },
+  keyword: {
+    kind: 'filter',
+    label: 'Keyword matching',
+    run: (candidates, searchQuery) => applySimpleKeywordMatching(candidates, searchQuery)
+  },
+  semantic: {
+    kind: 'filter',
+    label: 'Semantic retrieval',
+    budgeted: true,
+    run: runSemanticRetrieval
+  },
+  proximity: {
+    kind: 'score',
+    label: 'Proximity',
+    defaultWeight: 10,
+    run: (match, searchQuery, weight) => {
+      const { locationRadius, locations } = searchQuery.extractedEntities;
+
+      // Distance to the radius center, or to the nearest requested location the gazetteer knows
+      const centers = locationRadius
+        ? [resolveLocation(locationRadius.center)]
+        : (locations || []).map(location => resolveLocation(location));
+      const nearest = centers
+        .map(center => {
+          const miles = center ? distanceToLocation(match.candidate.location, center) : null;
+          return center && miles !== null ? { miles, label: center.label } : null;
+        })
+        .filter((item): item is { miles: number; label: string } => item !== null)
+        .sort((a, b) => a.miles - b.miles)[0];
+      if (!nearest) return match;
+
+      // Full weight at the center, decaying to nothing at the edge of the radius (50 miles by default)
+      const { miles, label } = nearest;
+      const points = Math.round(weight * Math.max(0, 1 - miles / (locationRadius?.miles || 50)));
+      return adjustScore(match, points, `Ranking boost: ${formatMiles(miles)} from ${label}`);
+    }
+  },
+  recency: {
+    kind: 'score',
+    label: 'Recent activity',
+    defaultWeight: 5,
+    run: (match, _searchQuery, weight) => {
+      const lastActive = new Date(match.candidate.lastActive).getTime();
+      if (isNaN(lastActive)) return match;
+
+      // Full weight for candidates active today, decaying to nothing after 90 days
+      const daysInactive = Math.max(0, Math.floor((Date.now() - lastActive) / DAY_MS));
+      const points = Math.round(weight * Math.max(0, 1 - daysInactive / 90));
+      return adjustScore(match, points, `Ranking boost: active ${daysInactive === 0 ? 'today' : `${daysInactive} days ago`}`);
+    }
+  },
+  availability: {
+    kind: 'score',
+    label: 'Availability',
+    defaultWeight: 5,
+    run: (match, _searchQuery, weight) => {
+      if (match.candidate.availability === 'available') {
+        return adjustScore(match, weight, 'Ranking boost: available now');
+      }
+      if (match.candidate.availability === 'passive') {
+        return adjustScore(match, Math.round(weight / 2), 'Ranking boost: open to offers');
+      }
+      return match;
+    }
+  },
+  semanticBoost: {
+    kind: 'score',
+    label: 'Semantic relevance',
+    defaultWeight: 10,
+    run: (match, searchQuery, weight, poolIds) => {
+      const similarity = getSemanticScores(searchQuery, poolIds).get(match.candidate.id) || 0;
+      const points = Math.round(weight * similarity);
+      return adjustScore(match, points, `Ranking boost: ${Math.round(similarity * 100)}% semantic relevance`);
+    }
+  },
+  aiRerank: {
+    kind: 'rerank',
+    label: 'AI rerank',
+    defaultBudget: 20,
+    run: runAIRerank
+  }
+};
+
+/**
+ * Registers (or replaces) a ranking stage so projects can reference it by id in their pipeline config
+ */
+export function registerRankingStage(id: string, stage: RankingStage): void {
+  if (RANKING_STAGES[id]) {
+    console.warn(`⚠️ Replacing existing ranking stage: ${id}`);
+  }
+  RANKING_STAGES[id] = stage;
+}
+
+/**
+ * Returns the stage registered under an id, if any
+ */
+export function getRankingStage(id: string): RankingStage | undefined {
+  return RANKING_STAGES[id];
+}
+
+/**
+ * Returns the enabled stages of a pipeline config, dropping unknown stage ids
+ */
+export function getActiveStages(config: RankingPipelineConfig): RankingStageConfig[] {
+  return config.stages.filter(stageConfig => {
+    if (!stageConfig.enabled) return false;
+    if (!RANKING_STAGES[stageConfig.id]) {
+      console.warn(`⚠️ Unknown ranking stage "${stageConfig.id}", skipping`);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Filter stages without a configured budget get undefined, so they keep everything they match
+const stageBudget = (stageConfig: RankingStageConfig, stage: FilterStage): number | undefined =>
+  stageConfig.budget === undefined ? undefined : resolveBudget(stageConfig, stage);
+
+/**
+ * Returns the number of candidates the pipeline will AI-score (0 when AI rerank is disabled)
+ */
+export function getAIRerankBudget(config: RankingPipelineConfig): number {
+  const stageConfig = getActiveStages(config).find(stage => stage.id === 'aiRerank');
+  if (!stageConfig) return 0;
+  return resolveBudget(stageConfig, RANKING_STAGES.aiRerank as RerankStage);
+}
+
+function resolveBudget(stageConfig: RankingStageConfig, stage: FilterStage | RerankStage): number {
+  const budget = Math.max(0, Math.floor(stageConfig.budget ?? (stage.kind === 'rerank' ? stage.defaultBudget : 0)));
+  return stage.kind === 'rerank' ? Math.min(MAX_AI_RERANK_BUDGET, budget) : budget;
+}
+
+/**
+ * Applies the enabled scoring stages of a config to a single match, in order.
+ * Used by callers that run their own rerank (e.g. the streaming search view); `poolIds` are the
+ * ids of all the matches being ranked.
+ */
+export function applyScoringStages(
+  match: CandidateMatch,
+  searchQuery: SearchQuery,
+  config: RankingPipelineConfig,
+  poolIds?: Set<string>
+): CandidateMatch {
+  return getActiveStages(config).reduce((current, stageConfig) => {
+    const stage = RANKING_STAGES[stageConfig.id];
+    if (stage.kind !== 'score') return current;
+    return stage.run(current, searchQuery, stageConfig.weight ?? stage.defaultWeight, poolIds);
+  }, match);
+}
+
+/**
+ * Runs candidates through the configured stages. Every candidate that survives the filter
+ * stages is returned with an explanation: a basic score, adjusted by scoring stages and
+ * replaced by rerank stages within their budget. Results are sorted by score.
+ */
+export async function runRankingPipeline(
+  candidates: Candidate[],
+  searchQuery: SearchQuery,
+  config: RankingPipelineConfig,
+  options: RankingOptions = {}
+): Promise<CandidateMatch[]> {
+  const { onPartialResults, skipKinds = [], matchProvider } = options;
+  const stages = getActiveStages(config).filter(stageConfig => !skipKinds.includes(RANKING_STAGES[stageConfig.id].kind));
+  console.log('🧮 Ranking pipeline:', stages.map(stage => stage.id).join(' → ') || '(no stages)');
+
+  const excluded = new Set(searchQuery.excludeCandidateIds || []);
+  let remaining = excluded.size > 0 ? candidates.filter(candidate => !excluded.has(candidate.id)) : candidates;
+  let matches: CandidateMatch[] | null = null;
+
+  // Basic scores are computed once, when the first non-filter stage needs them
+  const withBasicScores = (list: Candidate[]): CandidateMatch[] =>
+    list.map(candidate => ({ candidate, explanation: calculateBasicMatch(candidate, searchQuery) }));
+
+  for (const stageConfig of stages) {
+    const stage = RANKING_STAGES[stageConfig.id];
+
+    if (stage.kind === 'filter') {
+      if (matches) {
+        const current: CandidateMatch[] = matches;
+        const byId = new Map(current.map(match => [match.candidate.id, match]));
+        const kept = stage.run(current.map(match => match.candidate), searchQuery, stageBudget(stageConfig, stage));
+        matches = kept.map(candidate => byId.get(candidate.id)!);
+      } else {
+        remaining = stage.run(remaining, searchQuery, stageBudget(stageConfig, stage));
+      }
+    } else if (stage.kind === 'score') {
+      const weight = stageConfig.weight ?? stage.defaultWeight;
+      const scoring: CandidateMatch[] = matches ?? withBasicScores(remaining);
+      const poolIds = new Set(scoring.map(match => match.candidate.id));
+      matches = scoring.map(match => stage.run(match, searchQuery, weight, poolIds));
+    } else {
+      matches = await stage.run(matches ?? withBasicScores(remaining), searchQuery, resolveBudget(stageConfig, stage), onPartialResults, matchProvider);
+    }
+
+    const count = matches ? matches.length : remaining.length;
+    console.log(`✂️ ${stage.label}: ${count} candidates remain`);
+    if (count === 0) {
+      console.log(`❌ No candidates left after stage "${stageConfig.id}"`);
+      return [];
+    }
+  }
+
+  return sortByScore(matches ?? withBasicScores(remaining));
+}
@@ -0,0 +1,153 @@
+import { Candidate, CandidateMatch, RelevanceVote } from '../types';
+import { categorizeScore } from './rankingPipeline';
+import { getTaxonomyEntry } from './taxonomy';
+
+// Relevance feedback: thumbs up/down on search results rerank the rest without another AI pass.
+// Unrated candidates gain points for what they share with liked candidates and lose points for
+// what they share with disliked ones. Attributes found on both sides say nothing and are ignored.
+
+// Candidate id -> vote, for the results of one search
+export type RelevanceVotes = Record<string, RelevanceVote>;
+
+// Max points similarity to liked candidates adds, and to disliked candidates takes away
+export const FEEDBACK_BOOST_WEIGHT = 15;
+export const FEEDBACK_PENALTY_WEIGHT = 15;
+
+// Shared skills needed for the full skill share of the boost or penalty
+const FULL_SKILL_OVERLAP = 3;
+
+// Share of the boost or penalty each attribute can contribute
+const ATTRIBUTE_SHARES = { skills: 0.5, title: 0.3, industry: 0.1, location: 0.1 };
+
+export interface FeedbackProfile {
+  skills: Map<string, string>; // canonical key -> display label
+  titles: Map<string, string>;
+  industries: Map<string, string>;
+  locations: Map<string, string>;
+}
+
+export interface ProfileSimilarity {
+  score: number; // 0..1
+  shared: string[]; // labels of the shared attributes, for the reason text
+}
+
+const isKnown = (value?: string) => !!value && value.trim() !== '' && value !== 'Unknown';
+
+// Taxonomy synonyms ("RN", "Registered Nurse") count as the same attribute
+const canonicalize = (value: string) => (getTaxonomyEntry(value)?.label || value).trim().toLowerCase();
+
+const getAttributes = (candidate: Candidate): Record<keyof FeedbackProfile, string[]> => ({
+  skills: (candidate.skills || []).filter(skill => typeof skill === 'string' && isKnown(skill)),
+  titles: isKnown(candidate.jobTitle) ? [candidate.jobTitle] : [],
+  industries: isKnown(candidate.industry) ? [candidate.industry] : [],
+  locations: isKnown(candidate.location) ? [candidate.location] : []
+});
+
+const emptyProfile = (): FeedbackProfile => ({ skills: new Map(), titles: new Map(), industries: new Map(), locations: new Map() });
+
+const addToProfile = (profile: FeedbackProfile, candidate: Candidate) => {
+  const attributes = getAttributes(candidate);
+  (Object.keys(attributes) as (keyof FeedbackProfile)[]).forEach(key => {
+    attributes[key].forEach(value => profile[key].set(canonicalize(value), value));
+  });
+};
+
+/**
+ * Attribute profiles of the liked and disliked candidates, minus what both sides have in common
+ */
+export function buildFeedbackProfiles(matches: CandidateMatch[], votes: RelevanceVotes): { liked: FeedbackProfile; disliked: FeedbackProfile } {
+  const liked = emptyProfile();
+  const disliked = emptyProfile();
+
+  matches.forEach(({ candidate }) => {
+    if (votes[candidate.id] === 'up') addToProfile(liked, candidate);
+    if (votes[candidate.id] === 'down') addToProfile(disliked, candidate);
+  });
+
+  (Object.keys(liked) as (keyof FeedbackProfile)[]).forEach(key => {
+    Array.from(liked[key].keys()).forEach(value => {
+      if (disliked[key].has(value)) {
+        liked[key].delete(value);
+        disliked[key].delete(value);
+      }
+    });
+  });
+
+  return { liked, disliked };
+}
+
+/**
+ * How much a candidate has in common with a feedback profile, from 0 to 1
+ */
+export function getProfileSimilarity(candidate: Candidate, profile: FeedbackProfile): ProfileSimilarity {
+  const attributes = getAttributes(candidate);
+  const sharedIn = (key: keyof FeedbackProfile) =>
+    Array.from(new Set(attributes[key].map(canonicalize)))
+      .filter(value => profile[key].has(value))
+      .map(value => profile[key].get(value) as string);
+
+  const skills = sharedIn('skills');
+  const titles = sharedIn('titles');
+  const industries = sharedIn('industries');
+  const locations = sharedIn('locations');
+
+  const score =
+    ATTRIBUTE_SHARES.skills * Math.min(1, skills.length / FULL_SKILL_OVERLAP) +
+    ATTRIBUTE_SHARES.title * (titles.length > 0 ? 1 : 0) +
+    ATTRIBUTE_SHARES.industry * (industries.length > 0 ? 1 : 0) +
+    ATTRIBUTE_SHARES.location * (locations.length > 0 ? 1 : 0);
+
+  return { score, shared: [...titles, ...skills, ...industries, ...locations] };
+}
+
+const formatShared = (shared: string[]) =>
+  shared.length > 3 ? `${shared.slice(0, 3).join(', ')} and ${shared.length - 3} more` : shared.join(', ');
+
+/**
+ * Reranks search results by the recruiter's votes. Liked candidates stay on top and disliked ones
+ * move to the bottom, both with their own scores; the rest are rescored from their original
+ * scores, so changing a vote never compounds earlier adjustments.
+ */
+export function applyRelevanceFeedback(matches: CandidateMatch[], votes: RelevanceVotes): CandidateMatch[] {
+  if (Object.keys(votes).length === 0) return matches;
+
+  const { liked, disliked } = buildFeedbackProfiles(matches, votes);
+  const likedMatches: CandidateMatch[] = [];
+  const dislikedMatches: CandidateMatch[] = [];
+  const unratedMatches: CandidateMatch[] = [];
+
+  matches.forEach(match => {
+    const vote = votes[match.candidate.id];
+    if (vote === 'up') {
+      likedMatches.push(match);
+      return;
+    }
+    if (vote === 'down') {
+      dislikedMatches.push(match);
+      return;
+    }
+
+    const likedSimilarity = getProfileSimilarity(match.candidate, liked);
+    const dislikedSimilarity = getProfileSimilarity(match.candidate, disliked);
+    const boost = Math.round(FEEDBACK_BOOST_WEIGHT * likedSimilarity.score);
+    const penalty = Math.round(FEEDBACK_PENALTY_WEIGHT * dislikedSimilarity.score);
+    if (boost === 0 && penalty === 0) {
+      unratedMatches.push(match);
+      return;
+    }
+
+    const reasons = [...match.explanation.reasons];
+    if (boost > 0) reasons.push(`Feedback boost: shares ${formatShared(likedSimilarity.shared)} with liked candidates`);
+    if (penalty > 0) reasons.push(`Feedback penalty: shares ${formatShared(dislikedSimilarity.shared)} with disliked candidates`);
+
+    const score = Math.max(0, Math.min(100, match.explanation.score + boost - penalty));
+    unratedMatches.push({
+      ...match,
+      explanation: { ...match.explanation, score, reasons, category: categorizeScore(score) }
+    });
+  });
+
+  // Stable sort, so equally scored candidates keep their pipeline order
+  unratedMatches.sort((a, b) => b.explanation.score - a.explanation.score);
+  return [...likedMatches, ...unratedMatches, ...dislikedMatches];
+}
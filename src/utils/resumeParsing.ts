@@ -0,0 +1,623 @@
+import OpenAI from 'openai';
+import { getAIModelForTask, getEntityExtractionMode, getPromptForTask } from '../config/ai';
+import { getStateAbbreviation } from '../data/usStates';
+import { DatabaseCandidate } from '../lib/supabase';
+import { CandidateCertification, CandidateLicense, WorkHistoryEntry } from '../types';
+import { parseCredentialLines, parseLicenseLine } from './credentials';
+import { DocumentFormat, extractDocumentText } from './documentText';
+import { NewCandidate, normalizeLocation, splitSkillList } from './candidateImport';
+import { normalizeEmail } from './duplicates';
+import { extractLocations } from './ruleBasedExtraction';
+import { findTaxonomyEntries } from './taxonomy';
+
+// Resume ingestion: the text of a PDF, DOCX or plain-text resume (utils/documentText.ts) is read
+// into contact details, positions, skills, certifications and education, by the resume parsing
+// model or offline by rules (the entity extraction mode in AI settings decides, as for search
+// queries). The result becomes a candidate whose metadata keeps the parsed resume and, when
+// small enough, the original document.
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+  dangerouslyAllowBrowser: true
+});
+
+export type ResumeParser = 'ai' | 'rules';
+
+// A position, as stored in the candidate's work history
+export type ResumeExperience = WorkHistoryEntry;
+
+export interface ResumeEducation {
+  degree: string;
+  institution?: string;
+  year?: string;
+}
+
+export interface ParsedResume {
+  name: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  links: string[];
+  summary?: string;
+  titles: string[]; // most recent first
+  experience: ResumeExperience[];
+  skills: string[];
+  certifications: string[]; // names, also searched as skills
+  licenses?: CandidateLicense[];
+  certificationDetails?: CandidateCertification[]; // with issuers and expiry dates where given
+  education: ResumeEducation[];
+  totalYears?: number; // from the position dates, overlaps counted once
+}
+
+export interface ResumeDocument {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  format: DocumentFormat;
+  pageCount?: number;
+  dataUrl?: string; // the original file, when under MAX_STORED_DOCUMENT_BYTES
+}
+
+export interface ResumeParseResult {
+  document: ResumeDocument;
+  text: string;
+  parsed: ParsedResume;
+  parser: ResumeParser;
+  candidate: NewCandidate | null; // null when the resume has errors
+  errors: string[];
+  warnings: string[];
+}
+
+// Candidate metadata is a JSON column; larger originals are not stored in it
+export const MAX_STORED_DOCUMENT_BYTES = 1024 * 1024;
+
+// Characters of resume text sent to the model
+const MAX_AI_TEXT_LENGTH = 12000;
+
+const SECTION_HEADINGS: { section: ResumeSection; pattern: RegExp }[] = [
+  { section: 'summary', pattern: /^(?:professional |career )?(?:summary|profile|objective)(?: of qualifications)?$|^about me$/ },
+  { section: 'experience', pattern: /^(?:professional |work |clinical |relevant |nursing )?(?:experience|employment(?: history)?|work history|career history)$/ },
+  { section: 'education', pattern: /^education(?: and training)?$|^academic background$/ },
+  { section: 'skills', pattern: /^(?:clinical |core |key |technical |professional )?(?:skills|competencies|areas of expertise|expertise)(?: and (?:abilities|competencies|qualifications))?$/ },
+  { section: 'certifications', pattern: /^(?:licenses?|licensure|certifications?|credentials)(?: and (?:certifications?|licenses?|licensure))?$/ }
+];
+
+type ResumeSection = 'header' | 'summary' | 'experience' | 'education' | 'skills' | 'certifications';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH}\\s+(?:19|20)\\d{2}|\\d{1,2}\\/(?:19|20)\\d{2}|(?:19|20)\\d{2})`;
+const DATE_RANGE_PATTERN = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, 'i');
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const LINK_PATTERN = /\bhttps?:\/\/[^\s|,]+|\b(?:www\.)?linkedin\.com\/[^\s|,]+/gi;
+
+// Credentials written after a name ("Jane Doe, RN, BSN", "Jane Doe RN BSN")
+const NAME_CREDENTIALS_PATTERN = /(?:\s+[A-Z]{2,5}(?:-[A-Z]{1,3})?)+$/;
+
+const BULLET_PATTERN = /^[•·▪◦●■\-*–]\s*/;
+
+// Words that make a piece of a position line a job title rather than an employer
+const ROLE_WORDS = /\b(?:nurse|nursing assistant|therapist|technician|technologist|tech|assistant|aide|pharmacist|manager|director|coordinator|specialist|supervisor|educator|practitioner|paramedic|emt|phlebotomist|physician|intern|resident|rn|lpn|lvn|cna|aprn|np)\b/i;
+const EMPLOYER_WORDS = /\b(?:hospital|medical|health|healthcare|clinic|center|centre|care|university|college|inc|llc|group|systems?|associates|rehab(?:ilitation)?|home|services|partners|staffing|memorial|regional|children'?s|va)\b/i;
+
+const DEGREE_PATTERN = /\b(?:BSN|MSN|DNP|ADN|ASN|RN-BSN|BS|BA|MS|MA|MBA|MHA|MPH|PhD|PharmD|DPT|AAS|Bachelor(?:'s)?|Master(?:'s)?|Associate(?:'s)?|Doctor(?:ate)?|Diploma)\b/;
+const INSTITUTION_WORDS = /\b(?:university|college|institute|school|academy|polytechnic)\b/i;
+
+const unique = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const headingOf = (line: string): ResumeSection | null => {
+  if (line.length > 50) return null;
+  const normalized = line.toLowerCase().replace(/&/g, 'and').replace(/[:|]+$/, '').replace(/\s+/g, ' ').trim();
+  return SECTION_HEADINGS.find(({ pattern }) => pattern.test(normalized))?.section || null;
+};
+
+/**
+ * Lines of each section, keyed by the heading above them; lines before the first heading are
+ * the header
+ */
+const splitSections = (text: string): Map<ResumeSection, string[]> => {
+  const sections = new Map<ResumeSection, string[]>();
+  let current: ResumeSection = 'header';
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      if (!sections.has(current)) sections.set(current, []);
+      return;
+    }
+    if (!sections.has(current)) sections.set(current, []);
+    sections.get(current)!.push(line);
+  });
+  return sections;
+};
+
+// Pieces of a line separated by pipes, bullets, dashes and tabs
+const splitPieces = (line: string) =>
+  line.split(/\s*(?:\||•|·|\t|\s[–—-]\s|\s@\s|\sat\s)\s*/).map(piece => piece.trim()).filter(Boolean);
+
+/**
+ * "Dallas, TX 75201", "123 Main St, Austin, Texas" -> "City, ST"; null when the text does not
+ * end in a state
+ */
+const parseLocationPiece = (piece: string): string | null => {
+  const parts = piece.replace(/\s+\d{5}(?:-\d{4})?$/, '').split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length < 2) return null;
+  const state = parts[parts.length - 1];
+  const city = parts[parts.length - 2];
+  if (!getStateAbbreviation(state) || !/^[A-Za-z .'-]{2,30}$/.test(city) || /\d/.test(city)) return null;
+  return normalizeLocation(`${city}, ${state}`);
+};
+
+const parseName = (lines: string[]): string => {
+  for (const line of lines.slice(0, 6)) {
+    if (EMAIL_PATTERN.test(line) || PHONE_PATTERN.test(line) || /https?:\/\/|linkedin\.com/i.test(line)) continue;
+
+    let name = (splitPieces(line)[0] || '').replace(/,.*$/, '').trim();
+    const allCaps = name === name.toUpperCase();
+    if (!allCaps) name = name.replace(NAME_CREDENTIALS_PATTERN, '');
+    const words = name.split(/\s+/);
+    if (words.length >= 2 && words.length <= 4 && /^[\p{L}.'-]+$/u.test(words.join(''))) {
+      // "JANE DOE" -> "Jane Doe"
+      return allCaps ? words.map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ') : name;
+    }
+  }
+  return '';
+};
+
+/**
+ * "Jan 2018", "01/2018" or "2018" as YYYY-MM; null for "Present"
+ */
+const parseResumeDate = (value: string): string | null => {
+  const text = value.toLowerCase().trim();
+  const monthYear = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/);
+  if (monthYear) return `${monthYear[2]}-${String(MONTHS.indexOf(monthYear[1]) + 1).padStart(2, '0')}`;
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  const year = text.match(/^(\d{4})$/);
+  return year ? `${year[1]}-01` : null;
+};
+
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+/**
+ * Whole years covered by the positions, counting overlapping positions once
+ */
+export const totalExperienceYears = (experience: ResumeExperience[], now: Date): number | undefined => {
+  const nowIndex = now.getFullYear() * 12 + now.getMonth();
+  const intervals = experience
+    .filter(position => position.startDate)
+    .map(position => [monthIndex(position.startDate!), position.endDate ? monthIndex(position.endDate) : nowIndex] as [number, number])
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+  if (intervals.length === 0) return undefined;
+
+  let months = 0;
+  let [start, end] = intervals[0];
+  intervals.slice(1).forEach(([nextStart, nextEnd]) => {
+    if (nextStart <= end) {
+      end = Math.max(end, nextEnd);
+    } else {
+      months += end - start + 1;
+      [start, end] = [nextStart, nextEnd];
+    }
+  });
+  months += end - start + 1;
+  return Math.floor(months / 12);
+};
+
+/**
+ * Title, employer and location from the text around a position's dates
+ */
+const readPosition = (context: string[]): Omit<ResumeExperience, 'startDate' | 'endDate' | 'current'> | null => {
+  let location: string | undefined;
+  const pieces: string[] = [];
+  context.forEach(line => {
+    splitPieces(line).forEach(piece => {
+      const pieceLocation = parseLocationPiece(piece);
+      if (pieceLocation) {
+        location = location || pieceLocation;
+        // "Mercy Hospital, Dallas, TX": keep what comes before the city
+        const rest = piece.split(',').slice(0, -2).join(',').trim();
+        if (rest) pieces.push(rest);
+        return;
+      }
+      pieces.push(...piece.split(/,\s+/).map(part => part.trim()).filter(Boolean));
+    });
+  });
+
+  const isTitle = (piece: string) => ROLE_WORDS.test(piece) || findTaxonomyEntries(piece, ['title']).length > 0;
+  const title = pieces.find(piece => isTitle(piece) && !EMPLOYER_WORDS.test(piece)) || pieces.find(isTitle);
+  if (!title) return null;
+
+  const others = pieces.filter(piece => piece !== title && !BULLET_PATTERN.test(piece));
+  const employer = others.find(piece => EMPLOYER_WORDS.test(piece))
+    || others.find(piece => findTaxonomyEntries(piece, ['unit', 'specialty']).length === 0);
+  return { title, employer, location };
+};
+
+const parseExperience = (lines: string[]): ResumeExperience[] => {
+  const experience: ResumeExperience[] = [];
+  let previousEnd = 0; // first line not yet used by a position
+
+  lines.forEach((line, index) => {
+    const range = line.match(DATE_RANGE_PATTERN);
+    if (!range || range.index === undefined) return;
+
+    const leftover = (line.slice(0, range.index) + ' | ' + line.slice(range.index + range[0].length))
+      .replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, '')
+      .replace(/\(\s*\)/g, '');
+    const isHeaderLine = (candidate: string) => candidate.length <= 100 && !BULLET_PATTERN.test(candidate) && !DATE_RANGE_PATTERN.test(candidate);
+
+    // Title and employer on the date line, on the lines just above it, or just below it
+    const context = leftover ? [leftover] : [];
+    for (let above = index - 1; above >= previousEnd && above >= index - 2 && isHeaderLine(lines[above]); above--) {
+      context.unshift(lines[above]);
+    }
+    let position = readPosition(context);
+    if (!position) {
+      const below = lines.slice(index + 1, index + 3).filter(isHeaderLine);
+      position = readPosition([...context, ...below]);
+    }
+    previousEnd = index + 1;
+    if (!position) return;
+
+    const current = /present|current|now|today/i.test(range[2]);
+    experience.push({
+      ...position,
+      startDate: parseResumeDate(range[1]) || undefined,
+      endDate: current ? undefined : parseResumeDate(range[2]) || undefined,
+      current
+    });
+  });
+
+  return experience.sort((a, b) => (b.current ? 1 : 0) - (a.current ? 1 : 0) || (b.startDate || '').localeCompare(a.startDate || ''));
+};
+
+const parseEducation = (lines: string[]): ResumeEducation[] => {
+  const education: ResumeEducation[] = [];
+  lines.forEach((line, index) => {
+    if (!DEGREE_PATTERN.test(line)) return;
+    // Not split on "at": "University of Texas at Arlington"
+    const pieces = line.split(/\s*(?:\||•|·|\t|\s[–—-]\s)\s*|,\s+/).map(piece => piece.trim()).filter(Boolean);
+    const degree = pieces.find(piece => DEGREE_PATTERN.test(piece));
+    if (!degree) return;
+
+    const neighbours = [line, lines[index + 1] || '', lines[index - 1] || ''];
+    const institution = pieces.find(piece => INSTITUTION_WORDS.test(piece) && piece !== degree)
+      || neighbours.slice(1).find(neighbour => INSTITUTION_WORDS.test(neighbour) && !DEGREE_PATTERN.test(neighbour));
+    const year = neighbours.slice(0, 2).join(' ').match(/\b(?:19|20)\d{2}\b(?!.*\b(?:19|20)\d{2}\b)/)?.[0];
+    education.push({
+      degree: degree.replace(/\s*\b(?:19|20)\d{2}\b.*$/, '').replace(/[,(]\s*$/, '').trim(),
+      institution: institution ? institution.split(/\s*(?:\||•|·|\t)\s*/)[0].replace(/,?\s*\(?(?:19|20)\d{2}.*$/, '').trim() : undefined,
+      year
+    });
+  });
+  return education;
+};
+
+// Issuers, dates and expiry notes on certification lines are not certifications
+const CERTIFICATION_NOISE = /^(?:exp(?:ires|iration|\.)?|issued|valid|renewed|active|through|until)\b|^\d|^(?:american heart association|aha|american red cross|red cross)$/i;
+
+/**
+ * Reads a resume with rules only; never calls a model
+ */
+export function parseResumeWithRules(text: string, now: Date = new Date()): ParsedResume {
+  const sections = splitSections(text);
+  const header = sections.get('header') || [];
+  const headerText = header.join('\n');
+
+  const email = text.match(EMAIL_PATTERN)?.[0];
+  const phone = (headerText.match(PHONE_PATTERN) || text.match(PHONE_PATTERN))?.[0];
+  const links = unique(Array.from(headerText.matchAll(LINK_PATTERN), match => match[0].replace(/[.)]+$/, '')));
+  const location = header.flatMap(splitPieces).map(parseLocationPiece).find(Boolean)
+    || extractLocations(headerText).find(value => value.includes(','));
+
+  const experienceLines = sections.get('experience') || text.split('\n').map(line => line.trim()).filter(Boolean);
+  const experience = parseExperience(experienceLines);
+  const titles = unique([
+    ...experience.map(position => position.title),
+    ...findTaxonomyEntries(`${headerText}\n${(sections.get('summary') || []).join(' ')}`, ['title']).map(entry => entry.label)
+  ]);
+
+  const toListItems = (lines: string[]) =>
+    lines.flatMap(line => splitSkillList(line.replace(BULLET_PATTERN, ''))).filter(item => item.length <= 60);
+  const listItems = (section: ResumeSection) => toListItems(sections.get(section) || []);
+
+  // Whole lines keep the state, number and expiry date of each credential
+  const certificationLines = (sections.get('certifications') || []).map(line => line.replace(BULLET_PATTERN, ''));
+  const credentials = parseCredentialLines(certificationLines);
+
+  // License lines ("RN License – Texas #712345, compact") are listed by their name only
+  const listedCertifications = [
+    ...toListItems(certificationLines.filter(line => !parseLicenseLine(line)))
+      .map(item => item.replace(/\s*[(-].*$/, '').trim())
+      .filter(item => item && !CERTIFICATION_NOISE.test(item)),
+    ...credentials.licenses.flatMap(license => [`${license.type} License`, license.compact ? 'Compact License' : '']).filter(Boolean)
+  ];
+  // "RN License" is not repeated next to a listed "RN License – Texas"
+  const certifications = unique([
+    ...listedCertifications,
+    ...findTaxonomyEntries(text, ['certification', 'license'])
+      .map(entry => entry.label)
+      .filter(label => !listedCertifications.some(item => item.toLowerCase().startsWith(label.toLowerCase())))
+  ]);
+  const skills = unique([
+    ...listItems('skills'),
+    ...findTaxonomyEntries(text, ['specialty', 'unit', 'skill']).map(entry => entry.label)
+  ]).filter(skill => !certifications.some(certification => certification.toLowerCase() === skill.toLowerCase()));
+
+  const summary = (sections.get('summary') || []).join(' ').trim();
+  const parsed: ParsedResume = {
+    name: parseName(header.length > 0 ? header : text.split('\n').map(line => line.trim()).filter(Boolean)),
+    email,
+    phone,
+    location: location || undefined,
+    links,
+    summary: summary ? summary.slice(0, 1000) : undefined,
+    titles,
+    experience,
+    skills,
+    certifications,
+    licenses: credentials.licenses,
+    certificationDetails: credentials.certifications,
+    education: parseEducation(sections.get('education') || []),
+    totalYears: totalExperienceYears(experience, now)
+  };
+
+  console.log('📐 Rule-based resume parsing:', parsed);
+  return parsed;
+}
+
+// Logging utility
+const logAIInteraction = (operation: string, prompt: string, response: string, metadata?: Record<string, unknown>) => {
+  console.group(`🤖 AI ${operation}`);
+  console.log('📤 PROMPT SENT:', prompt);
+  console.log('📥 RESPONSE RECEIVED:', response);
+  if (metadata) {
+    console.log('📊 METADATA:', metadata);
+  }
+  console.groupEnd();
+};
+
+// Utility function to clean OpenAI API response from markdown code blocks
+const cleanJSONResponse = (response: string): string =>
+  response
+    .replace(/^```json\s*/i, '')
+    .replace(/^```\s*/i, '')
+    .replace(/\s*```\s*$/i, '')
+    .trim();
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null' ? value.trim() : undefined);
+const asStringList = (value: unknown): string[] => (Array.isArray(value) ? unique(value.map(asString).filter((item): item is string => !!item)) : []);
+const asDate = (value: unknown) => {
+  const text = asString(value);
+  return text && /^\d{4}-\d{2}$/.test(text) ? text : text && /^\d{4}$/.test(text) ? `${text}-01` : undefined;
+};
+
+/**
+ * Reads a resume with the resume parsing model; throws when the call fails or the response is
+ * not valid JSON. Contact details the model missed are filled in by the rules.
+ */
+export async function parseResumeWithAI(text: string, now: Date = new Date()): Promise<ParsedResume> {
+  const modelConfig = getAIModelForTask('resumeParsing');
+  const promptConfig = getPromptForTask('resumeParsing');
+  const resumeText = text.slice(0, MAX_AI_TEXT_LENGTH);
+
+  console.log('📤 Sending resume parsing request to OpenAI...');
+  console.log('🔧 Using model:', modelConfig.model);
+
+  const completion = await openai.chat.completions.create({
+    model: modelConfig.model,
+    messages: [
+      { role: 'system', content: promptConfig.system },
+      { role: 'user', content: resumeText }
+    ],
+    temperature: 0.1,
+    max_tokens: modelConfig.maxTokens
+  });
+
+  const response = completion.choices[0]?.message?.content;
+  if (!response) {
+    throw new Error('No response from OpenAI');
+  }
+
+  logAIInteraction('Resume Parsing', `System: ${promptConfig.system}\n\nUser: ${resumeText}`, response, {
+    model: modelConfig.model,
+    max_tokens: modelConfig.maxTokens,
+    usage: completion.usage
+  });
+
+  const data = JSON.parse(cleanJSONResponse(response));
+  const rules = parseResumeWithRules(text, now);
+
+  const experience: ResumeExperience[] = (Array.isArray(data.experience) ? data.experience : [])
+    .map((position: Record<string, unknown>) => ({
+      title: asString(position?.title) || '',
+      employer: asString(position?.employer),
+      location: asString(position?.location),
+      startDate: asDate(position?.startDate),
+      endDate: asDate(position?.endDate),
+      current: position?.current === true || (!!asDate(position?.startDate) && !asDate(position?.endDate))
+    }))
+    .filter((position: ResumeExperience) => position.title);
+
+  const education: ResumeEducation[] = (Array.isArray(data.education) ? data.education : [])
+    .map((entry: Record<string, unknown>) => ({
+      degree: asString(entry?.degree) || '',
+      institution: asString(entry?.institution),
+      year: asString(entry?.year)?.match(/\d{4}/)?.[0]
+    }))
+    .filter((entry: ResumeEducation) => entry.degree);
+
+  // Credentials come back as written ("ACLS, exp. 03/2027"); the names are kept for skills
+  const credentials = parseCredentialLines(asStringList(data.certifications));
+  const certifications = unique([
+    ...credentials.certifications.map(certification => certification.name),
+    ...credentials.licenses.flatMap(license => [`${license.type} License`, license.compact ? 'Compact License' : ''])
+  ].filter(Boolean));
+
+  const location = asString(data.location);
+  return {
+    name: asString(data.name) || rules.name,
+    email: asString(data.email) || rules.email,
+    phone: asString(data.phone) || rules.phone,
+    location: (location && (parseLocationPiece(location) || location)) || rules.location,
+    links: unique([...asStringList(data.links), ...rules.links]),
+    summary: asString(data.summary),
+    titles: unique(experience.map(position => position.title)).concat(experience.length === 0 ? rules.titles : []),
+    experience,
+    skills: asStringList(data.skills),
+    certifications,
+    licenses: credentials.licenses,
+    certificationDetails: credentials.certifications,
+    education,
+    totalYears: totalExperienceYears(experience, now)
+  };
+}
+
+/**
+ * Reads a resume with the model, or with rules when entity extraction is set to rule-based or
+ * the model call fails
+ */
+export async function parseResume(text: string): Promise<{ parsed: ParsedResume; parser: ResumeParser }> {
+  if (getEntityExtractionMode() === 'rules') {
+    return { parsed: parseResumeWithRules(text), parser: 'rules' };
+  }
+
+  try {
+    return { parsed: await parseResumeWithAI(text), parser: 'ai' };
+  } catch (error) {
+    console.error('❌ AI resume parsing failed:', error);
+    console.log('🔄 Falling back to rule-based resume parsing...');
+    return { parsed: parseResumeWithRules(text), parser: 'rules' };
+  }
+}
+
+// "BSN, University of Texas (2014)", as stored in the candidate's education field
+export const formatEducation = ({ degree, institution, year }: ResumeEducation) =>
+  [degree, institution].filter(Boolean).join(', ') + (year ? ` (${year})` : '');
+
+const buildSummary = (parsed: ParsedResume) => {
+  if (parsed.summary) return parsed.summary;
+  const current = parsed.experience[0];
+  if (!current) return undefined;
+  const years = parsed.totalYears ? ` with ${parsed.totalYears} years of experience` : '';
+  return `${current.title}${current.employer ? ` at ${current.employer}` : ''}${years}.`;
+};
+
+const readDataUrl = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${file.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+/**
+ * Candidate for a parsed resume. As with spreadsheet rows, a resume without a name, job title or
+ * location has errors and no candidate until the recruiter fills them in.
+ */
+export function buildResumeCandidate(
+  parsed: ParsedResume,
+  options: {
+    projectId: string;
+    document: ResumeDocument;
+    parser: ResumeParser;
+    textLength: number;
+    existingCandidates?: Pick<DatabaseCandidate, 'name' | 'email'>[];
+    now?: Date;
+  }
+): Pick<ResumeParseResult, 'candidate' | 'errors' | 'warnings'> {
+  const now = options.now || new Date();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!parsed.name) errors.push('No candidate name found');
+  if (!parsed.titles[0]) errors.push('No job title found');
+  if (!parsed.location) errors.push('No location found');
+  if (!parsed.email && !parsed.phone) warnings.push('No email or phone number found');
+  if (parsed.experience.length === 0) warnings.push('No positions with dates found');
+  if (!options.document.dataUrl) warnings.push('The original document is larger than 1 MB and was not stored');
+
+  const existing = parsed.email && (options.existingCandidates || []).find(candidate => normalizeEmail(candidate.email) === normalizeEmail(parsed.email));
+  if (existing) warnings.push(`Email already belongs to ${existing.name} in this project`);
+
+  if (errors.length > 0) return { candidate: null, errors, warnings };
+
+  const { fileName, mimeType, size, format, pageCount, dataUrl } = options.document;
+  return {
+    errors,
+    warnings,
+    candidate: {
+      project_id: options.projectId,
+      name: parsed.name,
+      email: parsed.email,
+      phone: parsed.phone,
+      job_title: parsed.titles[0],
+      location: parsed.location!,
+      experience: parsed.totalYears || 0,
+      skills: unique([...parsed.skills, ...parsed.certifications]),
+      education: parsed.education[0] ? formatEducation(parsed.education[0]) : undefined,
+      summary: buildSummary(parsed),
+      availability: 'available',
+      source: 'Resume',
+      last_active: now.toISOString(),
+      licenses: parsed.licenses || [],
+      certifications: parsed.certificationDetails || [],
+      work_history: parsed.experience,
+      metadata: {
+        resume: {
+          file_name: fileName,
+          mime_type: mimeType,
+          size,
+          format,
+          ...(pageCount && { page_count: pageCount }),
+          ...(dataUrl ? { data_url: dataUrl } : { document_omitted: true }),
+          parser: options.parser,
+          parsed,
+          parsed_at: now.toISOString(),
+          text_length: options.textLength
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Extracts, parses and builds the candidate for one resume file
+ */
+export async function ingestResume(
+  file: File,
+  options: { projectId: string; existingCandidates?: Pick<DatabaseCandidate, 'name' | 'email'>[] }
+): Promise<ResumeParseResult> {
+  console.log('📄 Ingesting resume:', file.name);
+  const { text, format, pageCount } = await extractDocumentText(file);
+  const { parsed, parser } = await parseResume(text);
+
+  const document: ResumeDocument = {
+    fileName: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    format,
+    pageCount,
+    dataUrl: file.size <= MAX_STORED_DOCUMENT_BYTES ? await readDataUrl(file) : undefined
+  };
+
+  const result = buildResumeCandidate(parsed, { ...options, document, parser, textLength: text.length });
+  console.log(`✅ Parsed resume for ${parsed.name || 'unknown candidate'} (${parser})`);
+  return { document, text, parsed, parser, ...result };
+}
@@ -0,0 +1,278 @@
+import { QueryField, QueryNode, SearchQuery, TaxonomyEntry } from '../types';
+import { US_CITIES } from '../data/usCities';
+import { US_STATES } from '../data/usStates';
+import { findTaxonomyEntries } from './taxonomy';
+import { describeCredentialRequirement, parseCredentialRequirements } from './credentials';
+import { parseRadiusQuery } from './geo';
+import { describeQueryNode } from './queryParser';
+import { detectQueryLanguage, translateToEnglish } from './queryLanguage';
+
+// Rule-based entity extraction: turns a free-text search into criteria without calling a model.
+// Negated phrases ("not in Texas", "no travel nurses") are cut out first and become exclusion
+// clauses; the rest is read for titles, credentials and skills (taxonomy), credential validity
+// ("active compact license"), locations (city gazetteer and state names), experience ranges,
+// seniority, education and industry. Spanish
+// queries are translated to English first (utils/queryLanguage.ts).
+
+type ExtractedEntities = SearchQuery['extractedEntities'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20
+};
+
+const NUMBER = `(\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')})`;
+const YEARS = '(?:\\+\\s*)?(?:years?|yrs?)';
+
+// Checked in order; the first pattern that matches decides the range
+const EXPERIENCE_PATTERNS: { pattern: RegExp; range: (a: number, b: number) => ExtractedEntities['experienceRange'] }[] = [
+  { pattern: new RegExp(`\\b(?:between\\s+)?${NUMBER}\\s*(?:-|–|to|and)\\s*${NUMBER}\\s*${YEARS}`, 'i'), range: (a, b) => ({ min: Math.min(a, b), max: Math.max(a, b) }) },
+  { pattern: new RegExp(`\\b(?:more than|over|greater than)\\s+${NUMBER}\\s*${YEARS}`, 'i'), range: a => ({ min: a + 1 }) },
+  { pattern: new RegExp(`\\b(?:less than|under|fewer than)\\s+${NUMBER}\\s*${YEARS}`, 'i'), range: a => ({ max: Math.max(0, a - 1) }) },
+  { pattern: new RegExp(`\\b(?:up to|at most|no more than|maximum(?: of)?|max\\.?)\\s+${NUMBER}\\s*${YEARS}`, 'i'), range: a => ({ max: a }) },
+  { pattern: new RegExp(`\\b(?:at least|minimum(?: of)?|min\\.?|no less than)\\s+${NUMBER}\\s*${YEARS}`, 'i'), range: a => ({ min: a }) },
+  { pattern: new RegExp(`\\b${NUMBER}\\s*\\+\\s*(?:years?|yrs?)`, 'i'), range: a => ({ min: a }) },
+  { pattern: new RegExp(`\\b${NUMBER}\\s*(?:years?|yrs?)\\s*(?:or more|plus|minimum)`, 'i'), range: a => ({ min: a }) },
+  { pattern: new RegExp(`\\b${NUMBER}\\s*(?:years?|yrs?)(?:\\s+of)?\\s+(?:experience|exp\\b)`, 'i'), range: a => ({ min: a }) },
+  { pattern: new RegExp(`\\bwith\\s+${NUMBER}\\s*(?:years?|yrs?)\\b`, 'i'), range: a => ({ min: a }) }
+];
+
+// Seniority words, used when the query gives no number of years
+const SENIORITY_PATTERNS: { pattern: RegExp; range: ExtractedEntities['experienceRange'] }[] = [
+  { pattern: /\b(senior|sr\.?|seasoned|veteran)\s/i, range: { min: 5 } },
+  { pattern: /\bmid[- ]?level\b/i, range: { min: 3, max: 5 } },
+  { pattern: /\b(junior|jr\.?|entry[- ]level|new grads?|new graduates?|graduate nurses?)\b/i, range: { max: 2 } }
+];
+
+// Checked in order; the first match is the education asked for
+const EDUCATION_PATTERNS: { pattern: RegExp; value: string }[] = [
+  { pattern: /\b(MSN|DNP)\b|\bmaster'?s\b/i, value: 'Master' },
+  { pattern: /\bBSN\b/, value: 'BSN' },
+  { pattern: /\bbachelor'?s?\b/i, value: 'Bachelor' },
+  { pattern: /\bADN\b|\bassociate'?s? degree\b/i, value: 'Associate' }
+];
+
+const INDUSTRY_PATTERNS: { pattern: RegExp; value: string }[] = [
+  { pattern: /\bhome health\b/i, value: 'Home Health' },
+  { pattern: /\b(long[- ]term care|nursing homes?|skilled nursing|SNF)\b/, value: 'Long-Term Care' },
+  { pattern: /\b(pharma|pharmaceuticals?)\b/i, value: 'Pharmaceutical' },
+  { pattern: /\b(hospitals?|health ?care|clinics?|medical cent(?:er|re)s?)\b/i, value: 'Healthcare' }
+];
+
+// Negation cue and the phrase it applies to, up to the next clause boundary
+const NEGATION_PATTERN = /\b(?:not|no|non|without|excluding|exclude|except(?: for)?|other than)\b-?\s*(?:(?:in|from|at|a|an|any)\s+)?([^,.;()]+?)(?=\s+(?:and|or|but|with|who|that|please|in|near|around|within)\b|[,.;()]|$)/gi;
+
+// Abbreviations that are also common healthcare terms (OR, PA, MA, MD, CT...) only count after a
+// comma or a locative word, alone or as a list ("in PA or NJ")
+const STATE_CODE_PATTERN = /(?:,\s*|\b(?:in|near|around|from|across)\s+)([A-Z]{2}(?:\s*(?:,|\/|\bor\b|\band\b)\s*[A-Z]{2})*)\b/g;
+
+// "<qualifier> nurse" titles the taxonomy does not list ("Pediatric nurse", "travel nurses")
+const ROLE_TITLE_PATTERN = /\b([a-z]+)\s+(nurse|therapist|technician|technologist|assistant|aide|pharmacist|manager|director)s?\b/gi;
+const NON_QUALIFIERS = new Set(['a', 'an', 'the', 'any', 'all', 'for', 'of', 'or', 'and', 'with', 'senior', 'sr', 'junior', 'jr', 'experienced', 'seasoned', 'veteran', 'grad', 'level', 'new']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseNumber = (value: string) => (/^\d+$/.test(value) ? parseInt(value, 10) : NUMBER_WORDS[value.toLowerCase()]);
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+const STATE_NAMES = Object.entries(US_STATES).map(([code, name]) => ({ code, name, pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i') }));
+
+// City names in the gazetteer more than once ("Portland", "Arlington") stay unqualified unless a state follows
+const CITY_NAME_COUNTS = US_CITIES.reduce((counts, city) => counts.set(city.city, (counts.get(city.city) || 0) + 1), new Map<string, number>());
+
+/**
+ * Years of experience asked for ("3 to 5 years", "5+ yrs", "at least two years", "senior")
+ */
+export function parseExperienceRange(text: string): ExtractedEntities['experienceRange'] {
+  for (const { pattern, range } of EXPERIENCE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return range(parseNumber(match[1]), parseNumber(match[2] ?? match[1]));
+  }
+  return SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(text))?.range || {};
+}
+
+/**
+ * Education asked for in a query or a posting's requirements ("BSN required", "master's degree")
+ */
+export function extractEducation(text: string): string | undefined {
+  return EDUCATION_PATTERNS.find(({ pattern }) => pattern.test(text))?.value;
+}
+
+/**
+ * Cities ("Dallas, TX") and states (as name and abbreviation, like the AI extraction) named in the text
+ */
+export function extractLocations(text: string): string[] {
+  const locations: string[] = [];
+
+  US_CITIES.forEach(city => {
+    const match = text.match(new RegExp(`\\b${escapeRegExp(city.city)}\\b(?:,?\\s+([A-Z]{2})\\b|,?\\s+(${STATE_NAMES.map(state => escapeRegExp(state.name)).join('|')})\\b)?`, 'i'));
+    if (!match) return;
+
+    const followingState = match[1] || (match[2] && STATE_NAMES.find(state => state.name.toLowerCase() === match[2].toLowerCase())?.code);
+    if (followingState && followingState.toUpperCase() !== city.state) return;
+    // "New York" or "Washington" alone means the state
+    if (!followingState && STATE_NAMES.some(state => state.name === city.city)) return;
+
+    locations.push(CITY_NAME_COUNTS.get(city.city)! > 1 && !followingState ? city.city : `${city.city}, ${city.state}`);
+  });
+
+  STATE_NAMES.forEach(({ code, name, pattern }) => {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) return;
+
+    // Skip a state name that is part of a city ("New York, NY", "Kansas City")
+    const after = text.slice(match.index + name.length);
+    if (/^,?\s+[A-Z]{2}\b/.test(after) || /^\s+city\b/i.test(after)) return;
+    locations.push(name, code);
+  });
+
+  for (const match of text.matchAll(STATE_CODE_PATTERN)) {
+    (match[1].match(/[A-Z]{2}/g) || []).forEach(code => {
+      if (US_STATES[code] && !locations.some(location => location === code || location.endsWith(`, ${code}`))) {
+        locations.push(US_STATES[code], code);
+      }
+    });
+  }
+
+  return unique(locations);
+}
+
+// State codes used as locations, so "in PA" is not read as Physician Assistant
+const withoutStateCodes = (text: string) => text.replace(STATE_CODE_PATTERN, match => match.replace(/\b[A-Z]{2}\b/g, ' '));
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const findTitles = (text: string): string[] => {
+  const titles = findTaxonomyEntries(withoutStateCodes(text), ['title']).map(entry => entry.label);
+
+  // "ICU nurse", "ER nurses": keep the unit as a qualifier on the generic title
+  if (/\bnurses?\b/i.test(text)) {
+    findTaxonomyEntries(text, ['unit', 'specialty']).forEach(entry => titles.push(`${entry.label} Nurse`));
+  }
+  if (titles.length > 0) return unique(titles);
+
+  for (const match of text.matchAll(ROLE_TITLE_PATTERN)) {
+    if (!NON_QUALIFIERS.has(match[1].toLowerCase())) titles.push(`${capitalize(match[1])} ${capitalize(match[2])}`);
+  }
+  return unique(titles);
+};
+
+const findSkills = (text: string): string[] =>
+  unique(findTaxonomyEntries(withoutStateCodes(text), ['specialty', 'unit', 'certification', 'license', 'skill']).map((entry: TaxonomyEntry) => entry.label));
+
+const term = (field: QueryField, value: string): QueryNode => ({ type: 'term', field, value, phrase: /\s/.test(value) });
+
+/**
+ * Exclusion clauses for a negated phrase. Only recognised locations, titles and credentials are
+ * excluded; anything else ("no experience required") is dropped rather than guessed at.
+ */
+const buildExclusions = (phrase: string): QueryNode[] => {
+  const locations = extractLocations(phrase).filter(location => !/^[A-Z]{2}$/.test(location));
+  if (locations.length > 0) return locations.map(location => term('location', location));
+
+  const titles = findTitles(phrase);
+  if (titles.length > 0) return titles.map(title => term('title', title));
+
+  return findSkills(phrase).map(skill => term('skills', skill));
+};
+
+/**
+ * Splits a query into its positive text and the exclusions its negated phrases ask for
+ */
+export function extractNegations(query: string): { positiveText: string; exclude: QueryNode[] } {
+  const exclude: QueryNode[] = [];
+  const positiveText = query.replace(NEGATION_PATTERN, (_match, phrase: string) => {
+    exclude.push(...buildExclusions(phrase));
+    return ' ';
+  });
+
+  const seen = new Set<string>();
+  return {
+    positiveText: positiveText.replace(/\s+/g, ' ').trim(),
+    exclude: exclude.filter(node => {
+      const key = describeQueryNode(node);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+  };
+}
+
+/**
+ * Extracts search criteria from free text with rules only; never calls a model
+ */
+export function extractEntitiesWithRules(query: string): SearchQuery {
+  const language = detectQueryLanguage(query || '');
+  const text = language === 'en' ? query || '' : translateToEnglish(query);
+  const { positiveText, exclude } = extractNegations(text);
+  const locationRadius = parseRadiusQuery(positiveText) || undefined;
+  const locations = extractLocations(positiveText);
+  const credentials = parseCredentialRequirements(positiveText);
+
+  const searchQuery: SearchQuery = {
+    originalQuery: query,
+    ...(language !== 'en' && { language, normalizedQuery: text }),
+    extractedEntities: {
+      jobTitles: findTitles(positiveText),
+      locations: locations.length > 0 || !locationRadius ? locations : [locationRadius.center],
+      experienceRange: parseExperienceRange(positiveText),
+      skills: findSkills(positiveText),
+      industries: unique(INDUSTRY_PATTERNS.filter(({ pattern }) => pattern.test(positiveText)).map(({ value }) => value)),
+      education: extractEducation(positiveText),
+      locationRadius,
+      ...(credentials.length > 0 && { credentials })
+    }
+  };
+
+  if (exclude.length > 0) {
+    searchQuery.clauses = { include: [], exclude };
+  }
+
+  console.log('📐 Rule-based extraction:', searchQuery);
+  return searchQuery;
+}
+
+export interface ExtractionDifference {
+  field: string;
+  ai: string;
+  rules: string;
+  same: boolean;
+}
+
+const formatList = (values?: string[]) => (values && values.length > 0 ? values.join(', ') : '—');
+
+const formatExperience = ({ min, max }: ExtractedEntities['experienceRange']) => {
+  if (min !== undefined && max !== undefined) return `${min}-${max} years`;
+  if (min !== undefined) return `${min}+ years`;
+  if (max !== undefined) return `up to ${max} years`;
+  return '—';
+};
+
+const sameList = (a?: string[], b?: string[]) => {
+  const normalize = (values?: string[]) => unique((values || []).map(value => String(value).trim().toLowerCase())).sort().join('|');
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Field-by-field comparison of the AI and rule-based extraction of the same query
+ */
+export function compareExtractions(ai: SearchQuery, rules: SearchQuery): ExtractionDifference[] {
+  const a = ai.extractedEntities;
+  const r = rules.extractedEntities;
+  const radius = (entities: ExtractedEntities) => (entities.locationRadius ? `${entities.locationRadius.miles} mi of ${entities.locationRadius.center}` : '—');
+  const excluded = (searchQuery: SearchQuery) => (searchQuery.clauses?.exclude || []).map(describeQueryNode);
+  const credentials = (entities: ExtractedEntities) => (entities.credentials || []).map(describeCredentialRequirement);
+
+  return [
+    { field: 'Job titles', ai: formatList(a.jobTitles), rules: formatList(r.jobTitles), same: sameList(a.jobTitles, r.jobTitles) },
+    { field: 'Locations', ai: formatList(a.locations), rules: formatList(r.locations), same: sameList(a.locations, r.locations) },
+    { field: 'Radius', ai: radius(a), rules: radius(r), same: radius(a) === radius(r) },
+    { field: 'Experience', ai: formatExperience(a.experienceRange || {}), rules: formatExperience(r.experienceRange), same: formatExperience(a.experienceRange || {}) === formatExperience(r.experienceRange) },
+    { field: 'Skills', ai: formatList(a.skills), rules: formatList(r.skills), same: sameList(a.skills, r.skills) },
+    { field: 'Industries', ai: formatList(a.industries), rules: formatList(r.industries), same: sameList(a.industries, r.industries) },
+    { field: 'Credentials', ai: formatList(credentials(a)), rules: formatList(credentials(r)), same: sameList(credentials(a), credentials(r)) },
+    { field: 'Education', ai: a.education || '—', rules: r.education || '—', same: (a.education || '').toLowerCase() === (r.education || '').toLowerCase() },
+    { field: 'Excluded', ai: formatList(excluded(ai)), rules: formatList(excluded(rules)), same: sameList(excluded(ai), excluded(rules)) }
+  ];
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RANKING_PIPELINE } from '../config/ranking';
+import { SavedSearch } from '../lib/supabase';
+import { Candidate, SearchQuery } from '../types';
+import { extractEntitiesWithRules } from './ruleBasedExtraction';
+import { getSavedSearchQuery, runSavedSearch } from './savedSearches';
+
+const nurse = (id: string, overrides: Partial<Candidate>): Candidate => ({
+  id,
+  name: `Nurse ${id}`,
+  jobTitle: 'Registered Nurse',
+  location: 'Dallas, TX',
+  experience: 6,
+  skills: ['ICU'],
+  industry: 'Healthcare',
+  education: 'BSN',
+  email: '',
+  phone: '',
+  summary: '',
+  lastActive: new Date().toISOString(),
+  source: 'Referral',
+  availability: 'available',
+  ...overrides
+});
+
+// Saved the way App.handleSaveSearch stores a search
+const saveSearch = (query: SearchQuery): SavedSearch => ({
+  id: 's1',
+  user_id: 'u1',
+  project_id: 'p1',
+  name: 'Licensed ICU nurses',
+  query: query.originalQuery,
+  extracted_entities: query.extractedEntities || {},
+  clauses: query.clauses || null,
+  facets: query.facets || null,
+  last_result_ids: [],
+  new_match_ids: [],
+  digest_enabled: false,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+});
+
+describe('saved searches', () => {
+  it('keeps the credential requirements of a query through save and re-run', async () => {
+    const searchQuery = extractEntitiesWithRules('Registered nurse in Dallas, TX with an active Texas RN license');
+    expect(searchQuery.extractedEntities.credentials).toHaveLength(1);
+
+    const savedQuery = getSavedSearchQuery(saveSearch(searchQuery));
+    expect(savedQuery.extractedEntities).toEqual(searchQuery.extractedEntities);
+
+    const pool = [
+      nurse('licensed', { licenses: [{ type: 'RN', state: 'TX', expiresOn: '2099-12-31' }] }),
+      nurse('expired', { licenses: [{ type: 'RN', state: 'TX', expiresOn: '2020-12-31' }] }),
+      nurse('unlicensed', {})
+    ];
+    const matches = await runSavedSearch(savedQuery, pool, DEFAULT_RANKING_PIPELINE);
+
+    expect(matches.map(match => match.candidate.id)).toEqual(['licensed']);
+  });
+
+  it('restores the language and English text of a query typed in Spanish', () => {
+    const searchQuery = extractEntitiesWithRules('enfermera en Dallas con 5 años de experiencia');
+
+    const savedQuery = getSavedSearchQuery(saveSearch(searchQuery));
+
+    expect(savedQuery.language).toBe('es');
+    expect(savedQuery.normalizedQuery).toBe(searchQuery.normalizedQuery);
+  });
+});
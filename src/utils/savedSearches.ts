@@ -0,0 +1,129 @@
+import { CandidateMatch, RankingPipelineConfig, SearchQuery } from '../types';
+import { SavedSearch } from '../lib/supabase';
+import { runRankingPipeline } from './rankingPipeline';
+import { applyFacetSelections } from './facets';
+import { CandidatePool, resolveCandidatePool } from './candidateSource';
+import { detectQueryLanguage, translateToEnglish } from './queryLanguage';
+
+// Saved searches re-run locally (no AI rerank) whenever the candidate pool changes, and the
+// result set is diffed against the previous run to surface new matches.
+
+export const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SavedSearchDigest {
+  searches: { id: string; name: string; newMatches: number }[];
+  totalNewMatches: number;
+}
+
+/**
+ * Rebuilds the SearchQuery a saved search was created from
+ */
+export function getSavedSearchQuery(savedSearch: SavedSearch): SearchQuery {
+  const entities = savedSearch.extracted_entities || {};
+  // The language and English text are not stored; they follow from the query as typed
+  const language = detectQueryLanguage(savedSearch.query);
+  return {
+    originalQuery: savedSearch.query,
+    ...(language !== 'en' && { language, normalizedQuery: translateToEnglish(savedSearch.query) }),
+    extractedEntities: {
+      ...entities,
+      jobTitles: entities.jobTitles || [],
+      locations: entities.locations || [],
+      experienceRange: entities.experienceRange || {},
+      skills: entities.skills || [],
+      industries: entities.industries || []
+    },
+    clauses: savedSearch.clauses || undefined,
+    facets: savedSearch.facets || undefined
+  };
+}
+
+/**
+ * Runs a search against the current pool without the AI rerank stage, so standing
+ * searches can be re-run on every import without spending AI calls. The search's facet
+ * selections are applied to the results.
+ */
+export async function runSavedSearch(
+  searchQuery: SearchQuery,
+  pool: CandidatePool,
+  rankingConfig: RankingPipelineConfig
+): Promise<CandidateMatch[]> {
+  const candidates = await resolveCandidatePool(pool, searchQuery);
+  const matches = await runRankingPipeline(candidates, searchQuery, rankingConfig, { skipKinds: ['rerank'] });
+  return applyFacetSelections(matches, searchQuery.facets);
+}
+
+/**
+ * New matches since the last run, merged with the ones the recruiter has not opened yet.
+ * Unseen matches that dropped out of the result set are discarded.
+ */
+export function diffSavedSearchResults(savedSearch: SavedSearch, resultIds: string[]): { newMatchIds: string[]; changed: boolean } {
+  const previous = new Set(savedSearch.last_result_ids || []);
+  const current = new Set(resultIds);
+  const stillUnseen = (savedSearch.new_match_ids || []).filter(id => current.has(id));
+  const added = resultIds.filter(id => !previous.has(id) && !stillUnseen.includes(id));
+  const newMatchIds = [...stillUnseen, ...added];
+
+  const changed = previous.size !== current.size
+    || resultIds.some(id => !previous.has(id))
+    || newMatchIds.length !== (savedSearch.new_match_ids || []).length;
+
+  return { newMatchIds, changed };
+}
+
+/**
+ * Re-runs every saved search and returns them with refreshed result and new-match ids.
+ * `persist` is called only for searches whose results changed.
+ */
+export async function refreshSavedSearches(
+  savedSearches: SavedSearch[],
+  pool: CandidatePool,
+  rankingConfig: RankingPipelineConfig,
+  persist: (savedSearch: SavedSearch) => Promise<void>
+): Promise<SavedSearch[]> {
+  const refreshed: SavedSearch[] = [];
+
+  for (const savedSearch of savedSearches) {
+    try {
+      const matches = await runSavedSearch(getSavedSearchQuery(savedSearch), pool, rankingConfig);
+      const resultIds = matches.map(match => match.candidate.id);
+      const { newMatchIds, changed } = diffSavedSearchResults(savedSearch, resultIds);
+
+      if (!changed) {
+        refreshed.push(savedSearch);
+        continue;
+      }
+
+      const updated: SavedSearch = {
+        ...savedSearch,
+        last_result_ids: resultIds,
+        new_match_ids: newMatchIds,
+        last_run_at: new Date().toISOString()
+      };
+      console.log(`🔔 Saved search "${savedSearch.name}": ${resultIds.length} matches, ${newMatchIds.length} new`);
+      refreshed.push(updated);
+      await persist(updated);
+    } catch (error) {
+      console.error(`❌ Failed to refresh saved search "${savedSearch.name}":`, error);
+      refreshed.push(savedSearch);
+    }
+  }
+
+  return refreshed;
+}
+
+/**
+ * Saved searches with the daily digest enabled that have unseen matches and were not
+ * included in a digest in the last 24 hours. Returns null when there is nothing to report.
+ */
+export function getDueDigest(savedSearches: SavedSearch[], now: Date = new Date()): SavedSearchDigest | null {
+  const due = savedSearches.filter(savedSearch =>
+    savedSearch.digest_enabled &&
+    (savedSearch.new_match_ids || []).length > 0 &&
+    (!savedSearch.last_digest_at || now.getTime() - new Date(savedSearch.last_digest_at).getTime() >= DIGEST_INTERVAL_MS)
+  );
+  if (due.length === 0) return null;
+
+  const searches = due.map(savedSearch => ({ id: savedSearch.id, name: savedSearch.name, newMatches: savedSearch.new_match_ids.length }));
+  return { searches, totalNewMatches: searches.reduce((sum, search) => sum + search.newMatches, 0) };
+}
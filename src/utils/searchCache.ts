@@ -0,0 +1,164 @@
+import { Candidate, CandidateMatch, CredentialRequirement, RankingPipelineConfig, SearchQuery } from '../types';
+import { getAIModelForTask, getPromptForTask } from '../config/ai';
+import { getActiveTaxonomy } from './taxonomy';
+
+// Search result cache. Keys combine the normalized search criteria (not the raw query text,
+// so rephrasings that extract to the same criteria share an entry), a fingerprint of the
+// candidate pool, and the AI model/prompt/ranking configuration that produced the scores.
+// Searches that require currently valid credentials also include the day they ran.
+
+const MAX_CACHE_ENTRIES = 50;
+
+const resultCache = new Map<string, CandidateMatch[]>();
+const fingerprintCache = new WeakMap<Candidate[], string>();
+
+/**
+ * FNV-1a hash as 8 hex characters
+ */
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const normalizeList = (values?: string[]) =>
+  Array.from(new Set((values || []).filter(value => typeof value === 'string').map(value => value.trim().toLowerCase()).filter(Boolean))).sort();
+
+// Credential requirements with their fields in a fixed order, so equal requirements serialize equally
+const normalizeCredentials = (requirements?: CredentialRequirement[]) =>
+  normalizeList((requirements || []).map(requirement => JSON.stringify([
+    requirement.kind,
+    requirement.name?.trim().toLowerCase() || null,
+    requirement.state?.trim().toUpperCase() || null,
+    !!requirement.compact,
+    !!requirement.active,
+    requirement.validThrough || null
+  ])));
+
+// "Active" and "valid through" requirements are checked against the day of the search, so their
+// results are only reused on the same day
+const getCredentialDay = (searchQuery: SearchQuery): string | null => {
+  const requirements = searchQuery.extractedEntities?.credentials || [];
+  if (!requirements.some(requirement => requirement.active || requirement.validThrough)) return null;
+  const now = new Date();
+  return `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+};
+
+/**
+ * Canonical form of a search's criteria: lists are lowercased, de-duplicated and sorted
+ */
+export function normalizeSearchQuery(searchQuery: SearchQuery): string {
+  const entities = searchQuery.extractedEntities || {};
+  return JSON.stringify({
+    jobTitles: normalizeList(entities.jobTitles),
+    locations: normalizeList(entities.locations),
+    experience: [entities.experienceRange?.min ?? null, entities.experienceRange?.max ?? null],
+    skills: normalizeList(entities.skills),
+    industries: normalizeList(entities.industries),
+    education: entities.education?.trim().toLowerCase() || null,
+    credentials: normalizeCredentials(entities.credentials),
+    radius: entities.locationRadius ? [entities.locationRadius.center.toLowerCase(), entities.locationRadius.miles] : null,
+    clauses: searchQuery.clauses || null,
+    excluded: normalizeList(searchQuery.excludeCandidateIds)
+  });
+}
+
+/**
+ * Identifies a search by its criteria alone, so feedback on its results survives pool and config changes
+ */
+export function getSearchCriteriaKey(searchQuery: SearchQuery): string {
+  return hashString(normalizeSearchQuery(searchQuery));
+}
+
+/**
+ * Hash of every candidate field that can affect filtering or scoring
+ */
+export function getCandidatePoolFingerprint(candidates: Candidate[]): string {
+  const cached = fingerprintCache.get(candidates);
+  if (cached) return cached;
+
+  const signature = [...candidates]
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map(candidate => [
+      candidate.id, candidate.jobTitle, candidate.location, candidate.experience, (candidate.skills || []).join(','),
+      candidate.industry, candidate.education, candidate.summary, candidate.availability, candidate.lastActive,
+      JSON.stringify(candidate.licenses || []), JSON.stringify(candidate.certifications || [])
+    ].join('|'))
+    .join('\n');
+
+  const fingerprint = `${candidates.length}-${hashString(signature)}`;
+  fingerprintCache.set(candidates, fingerprint);
+  return fingerprint;
+}
+
+/**
+ * Version of the configuration that scores results; changes when a prompt, model assignment,
+ * ranking stage or taxonomy entry is edited
+ */
+export function getScoringConfigVersion(rankingConfig: RankingPipelineConfig): string {
+  const model = getAIModelForTask('candidateMatching');
+  const prompt = getPromptForTask('candidateMatching');
+  return hashString(JSON.stringify([model.model, model.temperature, prompt?.system || '', rankingConfig.stages, getActiveTaxonomy().entries]));
+}
+
+export function buildSearchCacheKey(searchQuery: SearchQuery, candidates: Candidate[], rankingConfig: RankingPipelineConfig): string {
+  const credentialDay = getCredentialDay(searchQuery);
+  return [
+    hashString(normalizeSearchQuery(searchQuery)),
+    getCandidatePoolFingerprint(candidates),
+    getScoringConfigVersion(rankingConfig),
+    ...(credentialDay ? [credentialDay] : [])
+  ].join(':');
+}
+
+export function getCachedSearchResults(cacheKey: string): CandidateMatch[] | null {
+  const matches = resultCache.get(cacheKey);
+  if (!matches) return null;
+
+  // Refresh recency so the least recently used entry is evicted first
+  resultCache.delete(cacheKey);
+  resultCache.set(cacheKey, matches);
+  console.log('⚡ Search cache hit:', cacheKey);
+  return matches;
+}
+
+export function setCachedSearchResults(cacheKey: string, matches: CandidateMatch[]): void {
+  resultCache.delete(cacheKey);
+  resultCache.set(cacheKey, matches);
+
+  while (resultCache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = resultCache.keys().next().value;
+    if (oldestKey === undefined) break;
+    resultCache.delete(oldestKey);
+  }
+}
+
+/**
+ * Rebuilds matches from persisted search results (candidate_id, score, category, reasons),
+ * skipping candidates that are no longer in the pool
+ */
+export function hydrateSearchResults(
+  results: { candidate_id: string; score?: number; category?: CandidateMatch['explanation']['category']; reasons?: string[] }[],
+  candidates: Candidate[]
+): CandidateMatch[] {
+  const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  return results.flatMap(result => {
+    const candidate = byId.get(result.candidate_id);
+    return candidate
+      ? [{ candidate, explanation: { score: result.score || 0, category: result.category || 'potential', reasons: result.reasons || ['Saved search result'] } }]
+      : [];
+  });
+}
+
+/**
+ * Drops every cached result. Keys already change when the pool or prompts change; this
+ * also frees the memory held by entries that can no longer be hit.
+ */
+export function invalidateSearchCache(reason: string): void {
+  if (resultCache.size === 0) return;
+  console.log(`🧹 Clearing ${resultCache.size} cached searches (${reason})`);
+  resultCache.clear();
+}
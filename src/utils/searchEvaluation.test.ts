@@ -0,0 +1,33 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+import { SEARCH_GOLDEN_SET } from '../data/searchGoldenSet';
+import { EvaluationRecording, EvaluationReport, runSearchEvaluation } from './searchEvaluation';
+
+// Runs the golden set as a test, so a ranking regression fails `npm test`. Mock AI runs every
+// time; set SEARCH_EVAL_RECORDING to a recording downloaded after a live run (AI settings → Search
+// Quality) to replay it as well: `SEARCH_EVAL_RECORDING=recording.json npm run eval:search`
+
+const EVALUATION_TIMEOUT_MS = 120_000;
+
+const recordingPath = process.env.SEARCH_EVAL_RECORDING;
+
+// "nurse-dallas: ndcg 0.41 < 0.546" for every metric below its baseline
+const describeRegressions = (report: EvaluationReport) =>
+  report.queries.flatMap(query => query.regressions.map(metric => `${query.queryId}: ${metric} ${query.metrics[metric]} < ${query.baseline[metric]}`));
+
+describe('search evaluation', () => {
+  it('meets the golden set baselines with mock AI', async () => {
+    const report = await runSearchEvaluation(SEARCH_GOLDEN_SET, { mode: 'mock' });
+
+    expect(describeRegressions(report)).toEqual([]);
+    expect(report.passed).toBe(true);
+  }, EVALUATION_TIMEOUT_MS);
+
+  it.runIf(recordingPath)('meets the golden set baselines with recorded AI responses', async () => {
+    const recording = JSON.parse(await readFile(recordingPath!, 'utf8')) as EvaluationRecording;
+    const report = await runSearchEvaluation(SEARCH_GOLDEN_SET, { mode: 'recorded', recording });
+
+    expect(describeRegressions(report)).toEqual([]);
+    expect(report.passed).toBe(true);
+  }, EVALUATION_TIMEOUT_MS);
+});
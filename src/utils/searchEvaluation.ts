@@ -0,0 +1,229 @@
+import { Candidate, GoldenQuery, RankingPipelineConfig, RelevanceRule, SearchGoldenSet, SearchMetrics } from '../types';
+import { DEFAULT_RANKING_PIPELINE } from '../config/ranking';
+import { createSeededRandom, generateCandidates } from './candidateSeeder';
+import { convertDatabaseCandidatesToCandidates } from './dataConverters';
+import { hashString } from './searchCache';
+import { candidateIndex } from './semanticIndex';
+import {
+  MatchCompletionProvider,
+  MatchCompletionRequest,
+  calculateBasicMatch,
+  requestMatchCompletion,
+  searchCandidates
+} from './searchUtils';
+
+// Offline search quality evaluation: runs the golden queries (data/searchGoldenSet.ts) through the
+// search pipeline over a seeded candidate set and scores the rankings against graded judgments.
+// Match analysis comes from one of three providers:
+// - mock: the basic match as if the model had returned it; no AI calls, measures filters and ranking
+// - recorded: replays responses from an earlier live run; a changed prompt misses its recordings
+// - live: calls the model and records every response, so the run can be replayed later
+
+export type EvaluationMode = 'mock' | 'recorded' | 'live';
+
+export interface EvaluationRecording {
+  goldenSetVersion: string;
+  responses: Record<string, string>; // recording key -> raw model response
+}
+
+export interface QueryEvaluation {
+  queryId: string;
+  description: string;
+  metrics: SearchMetrics;
+  baseline: SearchMetrics;
+  regressions: (keyof SearchMetrics)[]; // metrics below the baseline by more than the tolerance
+  relevantCount: number;
+  resultCount: number;
+}
+
+export interface EvaluationReport {
+  goldenSetVersion: string;
+  mode: EvaluationMode;
+  k: number;
+  queries: QueryEvaluation[];
+  mean: SearchMetrics;
+  passed: boolean;
+  recordingMisses: number; // recorded mode only: analyses that fell back to the mock
+  recording?: EvaluationRecording; // live mode only
+}
+
+export interface EvaluationOptions {
+  mode: EvaluationMode;
+  recording?: EvaluationRecording;
+  rankingConfig?: RankingPipelineConfig;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const METRIC_KEYS: (keyof SearchMetrics)[] = ['precisionAtK', 'recall', 'ndcg'];
+
+const EVALUATION_PROJECT_ID = 'search-evaluation';
+
+// Fixed creation date, so the seeded candidates are identical on every run
+const EVALUATION_CREATED_AT = '2025-01-01T00:00:00.000Z';
+
+/**
+ * The fixed candidate set a golden set is judged against
+ */
+export function buildEvaluationCandidates(goldenSet: SearchGoldenSet): Candidate[] {
+  const seeded = generateCandidates(EVALUATION_PROJECT_ID, goldenSet.candidateCount, createSeededRandom(goldenSet.seed));
+  return convertDatabaseCandidatesToCandidates(seeded.map((candidate, index) => ({
+    ...candidate,
+    id: `eval-${index + 1}`,
+    created_at: EVALUATION_CREATED_AT,
+    updated_at: EVALUATION_CREATED_AT
+  })));
+}
+
+const getState = (location: string) => location.split(',').pop()?.trim().toUpperCase() || '';
+
+const matchesRule = (candidate: Candidate, rule: RelevanceRule): boolean => {
+  const lower = (values: string[]) => values.map(value => value.toLowerCase());
+  if (rule.jobTitles && !lower(rule.jobTitles).includes(candidate.jobTitle.toLowerCase())) return false;
+  if (rule.skills && !candidate.skills.some(skill => lower(rule.skills as string[]).includes(skill.toLowerCase()))) return false;
+  if (rule.states && !rule.states.includes(getState(candidate.location))) return false;
+  if (rule.locations && !lower(rule.locations).includes(candidate.location.toLowerCase())) return false;
+  if (rule.minExperience !== undefined && candidate.experience < rule.minExperience) return false;
+  return true;
+};
+
+/**
+ * Relevance of a candidate to a golden query: the highest grade among the rules it meets, else 0
+ */
+export function getRelevanceGrade(candidate: Candidate, judgments: RelevanceRule[]): number {
+  return judgments.reduce((grade, rule) => (rule.grade > grade && matchesRule(candidate, rule) ? rule.grade : grade), 0);
+}
+
+/**
+ * Precision@k, recall over the whole result list, and NDCG@k with exponential gain
+ */
+export function computeSearchMetrics(rankedIds: string[], grades: Map<string, number>, k: number): SearchMetrics {
+  const relevantIds = Array.from(grades.entries()).filter(([, grade]) => grade > 0).map(([id]) => id);
+  const gradeOf = (id: string) => grades.get(id) || 0;
+  const gain = (grade: number) => Math.pow(2, grade) - 1;
+  const discountedGain = (grade: number, index: number) => gain(grade) / Math.log2(index + 2);
+
+  const topK = rankedIds.slice(0, k);
+  const dcg = topK.reduce((sum, id, index) => sum + discountedGain(gradeOf(id), index), 0);
+  const idealGrades = relevantIds.map(gradeOf).sort((a, b) => b - a).slice(0, k);
+  const idcg = idealGrades.reduce((sum, grade, index) => sum + discountedGain(grade, index), 0);
+  const returned = new Set(rankedIds);
+
+  return {
+    precisionAtK: topK.filter(id => gradeOf(id) > 0).length / k,
+    recall: relevantIds.length > 0 ? relevantIds.filter(id => returned.has(id)).length / relevantIds.length : 1,
+    ndcg: idcg > 0 ? dcg / idcg : 1
+  };
+}
+
+/**
+ * Identifies a model request; changing the model, prompt or candidate profile changes the key
+ */
+export function getRecordingKey(request: Pick<MatchCompletionRequest, 'model' | 'system' | 'user'>): string {
+  return `${hashString(request.model)}-${hashString(request.system)}-${hashString(request.user)}`;
+}
+
+/**
+ * Answers every match analysis with the basic match, formatted as the model would return it
+ */
+export function createMockMatchProvider(): MatchCompletionProvider {
+  return async ({ candidate, searchQuery }) => JSON.stringify(calculateBasicMatch(candidate, searchQuery));
+}
+
+/**
+ * Replays recorded responses; requests that were never recorded fall back to the mock
+ */
+export function createRecordedMatchProvider(recording: EvaluationRecording, onMiss: () => void): MatchCompletionProvider {
+  const mock = createMockMatchProvider();
+  return async request => {
+    const response = recording.responses[getRecordingKey(request)];
+    if (response !== undefined) return response;
+    onMiss();
+    return mock(request);
+  };
+}
+
+/**
+ * Calls the model and records each response under its recording key
+ */
+export function createRecordingMatchProvider(responses: Record<string, string>): MatchCompletionProvider {
+  return async request => {
+    const { content } = await requestMatchCompletion(request);
+    if (!content) throw new Error('No response from OpenAI');
+    responses[getRecordingKey(request)] = content;
+    return content;
+  };
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const evaluateQuery = async (
+  goldenQuery: GoldenQuery,
+  candidates: Candidate[],
+  goldenSet: SearchGoldenSet,
+  rankingConfig: RankingPipelineConfig,
+  matchProvider: MatchCompletionProvider
+): Promise<QueryEvaluation> => {
+  const grades = new Map(candidates.map(candidate => [candidate.id, getRelevanceGrade(candidate, goldenQuery.judgments)]));
+  const matches = await searchCandidates(candidates, goldenQuery.searchQuery, undefined, rankingConfig, undefined, matchProvider);
+  const computed = computeSearchMetrics(matches.map(match => match.candidate.id), grades, goldenSet.k);
+  const metrics: SearchMetrics = { precisionAtK: round(computed.precisionAtK), recall: round(computed.recall), ndcg: round(computed.ndcg) };
+
+  return {
+    queryId: goldenQuery.id,
+    description: goldenQuery.description,
+    metrics,
+    baseline: goldenQuery.baseline,
+    regressions: METRIC_KEYS.filter(key => metrics[key] < goldenQuery.baseline[key] - goldenSet.tolerance),
+    relevantCount: Array.from(grades.values()).filter(grade => grade > 0).length,
+    resultCount: matches.length
+  };
+};
+
+/**
+ * Runs every golden query and compares the metrics with the recorded baselines; the report
+ * fails when any query regressed. Only these searches use the evaluation's match provider.
+ */
+export async function runSearchEvaluation(goldenSet: SearchGoldenSet, options: EvaluationOptions): Promise<EvaluationReport> {
+  console.log(`📏 Running search evaluation ${goldenSet.version} (${options.mode}) on ${goldenSet.queries.length} golden queries...`);
+
+  const candidates = buildEvaluationCandidates(goldenSet);
+  const rankingConfig = options.rankingConfig || DEFAULT_RANKING_PIPELINE;
+  const responses: Record<string, string> = {};
+  let recordingMisses = 0;
+
+  const matchProvider = options.mode === 'live'
+    ? createRecordingMatchProvider(responses)
+    : options.mode === 'recorded' && options.recording
+      ? createRecordedMatchProvider(options.recording, () => recordingMisses++)
+      : createMockMatchProvider();
+
+  const queries: QueryEvaluation[] = [];
+  try {
+    for (const goldenQuery of goldenSet.queries) {
+      queries.push(await evaluateQuery(goldenQuery, candidates, goldenSet, rankingConfig, matchProvider));
+      options.onProgress?.(queries.length, goldenSet.queries.length);
+    }
+  } finally {
+    // The seeded candidates must not show up in real searches
+    candidates.forEach(candidate => candidateIndex.remove(candidate.id));
+  }
+
+  const mean = Object.fromEntries(METRIC_KEYS.map(key => [
+    key,
+    round(queries.reduce((sum, query) => sum + query.metrics[key], 0) / Math.max(1, queries.length))
+  ])) as unknown as SearchMetrics;
+  const passed = queries.every(query => query.regressions.length === 0);
+
+  console.log(`${passed ? '✅' : '❌'} Search evaluation: P@${goldenSet.k} ${mean.precisionAtK}, recall ${mean.recall}, NDCG ${mean.ndcg}`);
+
+  return {
+    goldenSetVersion: goldenSet.version,
+    mode: options.mode,
+    k: goldenSet.k,
+    queries,
+    mean,
+    passed,
+    recordingMisses,
+    recording: options.mode === 'live' ? { goldenSetVersion: goldenSet.version, responses } : undefined
+  };
+}
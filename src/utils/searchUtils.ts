@@ -1,6 +1,17 @@
-import { Candidate, SearchQuery, CandidateMatch, MatchExplanation } from '../types';
+import { Candidate, SearchQuery, CandidateMatch, MatchExplanation, RankingPipelineConfig, CriterionBreakdown, CriterionStatus, MatchCriterion } from '../types';
 import OpenAI from 'openai';
-import { getAIModelForTask, getPromptForTask } from '../config/ai';
+import { getAIModelForTask, getEntityExtractionMode, getPromptForTask } from '../config/ai';
+import { DEFAULT_RANKING_PIPELINE, MATCH_CRITERIA, MATCH_CRITERION_WEIGHTS } from '../config/ranking';
+import { runRankingPipeline } from './rankingPipeline';
+import { CandidatePool, isCandidateSource, resolveCandidatePool } from './candidateSource';
+import { parseRadiusQuery, resolveLocation, distanceToLocation, formatMiles } from './geo';
+import { US_STATES, getStateAbbreviation } from '../data/usStates';
+import { findTaxonomyEntries, getSynonymVariants, textMatchesTerm } from './taxonomy';
+import { isStructuredQuery, buildStructuredSearchQuery, matchesClauses, getPositiveTermValues, describeQueryNode } from './queryParser';
+import { extractEntitiesWithRules } from './ruleBasedExtraction';
+import { getEnglishQueryText, normalizeQueryLanguage } from './queryLanguage';
+import { QueryRelaxation, relaxSearchQuery } from './queryRelaxation';
+import { describeCredentialRequirement, findMatchingCredential, meetsCredentialRequirements, parseCredentialRequirements } from './credentials';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -120,41 +131,13 @@ function basicJobTitleExpansion(jobTitle: string): string[] {
 
   console.log('🔄 Using basic job title expansion for:', jobTitle);
   
-  const lowerTitle = jobTitle.toLowerCase();
-  const expansions: { [key: string]: string[] } = {
-    'registered nurse': ['Registered Nurse', 'RN', 'Staff Nurse', 'Bedside Nurse', 'Clinical Nurse', 'Floor Nurse'],
-    'rn': ['Registered Nurse', 'RN', 'Staff Nurse', 'Clinical Nurse'],
-    'nurse practitioner': ['Nurse Practitioner', 'NP', 'Advanced Practice Nurse', 'APRN', 'Family Nurse Practitioner'],
-    'emergency room nurse': ['Emergency Room Nurse', 'ER Nurse', 'Emergency Nurse', 'Emergency Department Nurse', 'Trauma Nurse'],
-    'clinical nurse specialist': ['Clinical Nurse Specialist', 'CNS', 'Advanced Practice Nurse', 'Specialist Nurse'],
-    'licensed practical nurse': ['Licensed Practical Nurse', 'LPN', 'Licensed Vocational Nurse', 'LVN'],
-    'healthcare administrator': ['Healthcare Administrator', 'Medical Administrator', 'Healthcare Manager', 'Hospital Administrator'],
-    'director of nursing': ['Director of Nursing', 'DON', 'Nursing Director', 'Chief Nursing Officer', 'CNO'],
-    'surgical technologist': ['Surgical Technologist', 'Surgical Tech', 'Operating Room Technician', 'OR Tech'],
-    'medical assistant': ['Medical Assistant', 'MA', 'Clinical Assistant', 'Healthcare Assistant'],
-    'physical therapist': ['Physical Therapist', 'PT', 'Physiotherapist', 'Rehabilitation Therapist', 'Physical Therapy Specialist'],
-    'occupational therapist': ['Occupational Therapist', 'OT', 'Rehabilitation Therapist', 'Occupational Therapy Specialist'],
-    'respiratory therapist': ['Respiratory Therapist', 'RT', 'Pulmonary Therapist', 'Breathing Therapist', 'Respiratory Care Practitioner'],
-    'pharmacist': ['Pharmacist', 'PharmD', 'Clinical Pharmacist', 'Hospital Pharmacist', 'Retail Pharmacist'],
-    'radiologic technologist': ['Radiologic Technologist', 'Radiology Tech', 'X-Ray Technician', 'Medical Imaging Technologist'],
-    'laboratory technician': ['Laboratory Technician', 'Lab Tech', 'Medical Laboratory Technician', 'Clinical Lab Tech'],
-    'social worker': ['Social Worker', 'Medical Social Worker', 'Clinical Social Worker', 'Hospital Social Worker'],
-    'case manager': ['Case Manager', 'Care Coordinator', 'Patient Care Coordinator', 'Discharge Planner']
-  };
-  
-  // Find the best match
-  let bestMatch = null;
-  let maxMatchLength = 0;
-  
-  Object.keys(expansions).forEach(key => {
-    if (lowerTitle.includes(key) && key.length > maxMatchLength) {
-      bestMatch = key;
-      maxMatchLength = key.length;
-    }
-  });
-  
-  if (bestMatch) {
-    const result = [jobTitle, ...expansions[bestMatch]];
+  // Title synonyms from the taxonomy ("RN" = "Registered Nurse" = "Staff Nurse"), plus rewrites of
+  // unit and specialty qualifiers ("ER Nurse" -> "Emergency Department Nurse")
+  const titleEntries = findTaxonomyEntries(jobTitle, ['title']);
+  const variants = getSynonymVariants(jobTitle, ['unit', 'specialty']);
+
+  if (titleEntries.length > 0 || variants.length > 0) {
+    const result = [jobTitle, ...titleEntries.flatMap(entry => [entry.label, ...entry.synonyms]), ...variants];
     console.log('🔄 Basic expansion result:', result);
     return [...new Set(result)]; // Remove duplicates
   }
@@ -180,95 +163,157 @@ export async function extractEntities(query: string): Promise<SearchQuery> {
   }
 
   console.log('🔍 Starting entity extraction for query:', query);
-  
-  // Get AI configuration for entity extraction
+
+  // Fielded/boolean queries are parsed locally; free text goes through AI or rule-based extraction
+  if (isStructuredQuery(query)) {
+    try {
+      const structuredQuery = buildStructuredSearchQuery(query);
+      console.log('✅ Parsed structured query:', structuredQuery);
+      return structuredQuery;
+    } catch (error) {
+      logError('Structured Query Parsing', error, { query });
+      console.log('🔄 Falling back to free-text extraction...');
+    }
+  }
+
+  if (getEntityExtractionMode() === 'rules') {
+    return extractEntitiesWithRules(query);
+  }
+
+  try {
+    return await extractEntitiesWithAI(query);
+  } catch (error) {
+    logError('Entity Extraction', error, { query });
+    console.log('🔄 Falling back to rule-based extraction...');
+    return extractEntitiesWithRules(query);
+  }
+}
+
+/**
+ * Extracts search criteria from free text with the entity extraction model; throws when the
+ * call fails or the response is not valid JSON
+ */
+export async function extractEntitiesWithAI(query: string): Promise<SearchQuery> {
   const modelConfig = getAIModelForTask('entityExtraction');
   const promptConfig = getPromptForTask('entityExtraction');
 
-  try {
-    console.log('📤 Sending entity extraction request to OpenAI...');
-    console.log('🔧 Using model:', modelConfig.model);
-    
-    const completion = await openai.chat.completions.create({
+  console.log('📤 Sending entity extraction request to OpenAI...');
+  console.log('🔧 Using model:', modelConfig.model);
+
+  const completion = await openai.chat.completions.create({
+    model: modelConfig.model,
+    messages: [
+      {
+        role: "system",
+        content: promptConfig.system
+      },
+      {
+        role: "user",
+        content: query
+      }
+    ],
+    temperature: modelConfig.temperature,
+    max_tokens: modelConfig.maxTokens
+  });
+
+  const response = completion.choices[0]?.message?.content;
+  if (!response) {
+    throw new Error('No response from OpenAI');
+  }
+
+  // Log the AI interaction
+  logAIInteraction('Entity Extraction', 
+    `System: ${promptConfig.system}\n\nUser: ${query}`, 
+    response,
+    {
       model: modelConfig.model,
-      messages: [
-        {
-          role: "system",
-          content: promptConfig.system
-        },
-        {
-          role: "user",
-          content: query
-        }
-      ],
       temperature: modelConfig.temperature,
-      max_tokens: modelConfig.maxTokens
-    });
+      max_tokens: modelConfig.maxTokens,
+      usage: completion.usage
+    }
+  );
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      throw new Error('No response from OpenAI');
+  const extractedData = JSON.parse(cleanJSONResponse(response));
+
+  const result = {
+    originalQuery: query,
+    extractedEntities: {
+      jobTitles: extractedData.jobTitles || [],
+      locations: extractedData.locations || [],
+      experienceRange: extractedData.experienceRange || {},
+      skills: extractedData.skills || [],
+      industries: extractedData.industries || [],
+      education: extractedData.education
     }
+  };
 
-    // Log the AI interaction
-    logAIInteraction('Entity Extraction', 
-      `System: ${promptConfig.system}\n\nUser: ${query}`, 
-      response,
-      {
-        model: modelConfig.model,
-        temperature: modelConfig.temperature,
-        max_tokens: modelConfig.maxTokens,
-        usage: completion.usage
-      }
-    );
+  console.log('✅ Entity extraction successful:', result);
+  return withCredentialRequirements(withLocationRadius(withTaxonomyCredentials(normalizeQueryLanguage(result))));
+}
 
-    const extractedData = JSON.parse(cleanJSONResponse(response));
-    
-    const result = {
-      originalQuery: query,
-      extractedEntities: {
-        jobTitles: extractedData.jobTitles || [],
-        locations: extractedData.locations || [],
-        experienceRange: extractedData.experienceRange || {},
-        skills: extractedData.skills || [],
-        industries: extractedData.industries || [],
-        education: extractedData.education
-      }
-    };
+/**
+ * Adds a geo-radius constraint when the query asks for one ("within 50 miles of Fort Worth")
+ */
+function withLocationRadius(searchQuery: SearchQuery): SearchQuery {
+  const locationRadius = parseRadiusQuery(getEnglishQueryText(searchQuery));
+  if (!locationRadius) return searchQuery;
 
-    console.log('✅ Entity extraction successful:', result);
-    return result;
-    
-  } catch (error) {
-    logError('Entity Extraction', error, { query });
-    
-    console.log('🔄 Falling back to basic extraction...');
-    // Fallback to basic extraction
-    const fallbackResult = {
-      originalQuery: query,
-      extractedEntities: {
-        jobTitles: basicJobTitleExtraction(query),
-        locations: basicLocationExtraction(query),
-        experienceRange: basicExperienceExtraction(query),
-        skills: basicSkillsExtraction(query),
-        industries: basicIndustryExtraction(query)
-      }
-    };
-    
-    console.log('🔄 Fallback extraction result:', fallbackResult);
-    return fallbackResult;
-  }
+  console.log('📍 Geo-radius constraint:', locationRadius);
+  const { locations } = searchQuery.extractedEntities;
+  return {
+    ...searchQuery,
+    extractedEntities: {
+      ...searchQuery.extractedEntities,
+      locations: locations && locations.length > 0 ? locations : [locationRadius.center],
+      locationRadius
+    }
+  };
+}
+
+/**
+ * Adds certifications and licenses named in the query that AI extraction left out of skills
+ */
+function withTaxonomyCredentials(searchQuery: SearchQuery): SearchQuery {
+  const { skills } = searchQuery.extractedEntities;
+  const missing = findTaxonomyEntries(getEnglishQueryText(searchQuery), ['certification', 'license'])
+    .filter(entry => !skills.some(skill => typeof skill === 'string' && textMatchesTerm(skill, entry.label)))
+    .map(entry => entry.label);
+  if (missing.length === 0) return searchQuery;
+
+  console.log('🏷️ Adding taxonomy credentials:', missing);
+  return {
+    ...searchQuery,
+    extractedEntities: { ...searchQuery.extractedEntities, skills: [...skills, ...missing] }
+  };
+}
+
+/**
+ * Adds the credential validity the query asks for ("active compact license", "ACLS valid
+ * through 2027")
+ */
+function withCredentialRequirements(searchQuery: SearchQuery): SearchQuery {
+  const credentials = parseCredentialRequirements(getEnglishQueryText(searchQuery));
+  if (credentials.length === 0) return searchQuery;
+
+  console.log('🪪 Credential requirements:', credentials.map(describeCredentialRequirement));
+  return {
+    ...searchQuery,
+    extractedEntities: { ...searchQuery.extractedEntities, credentials }
+  };
 }
 
 // IMPROVED FUZZY SEARCH WITH STREAMING SUPPORT
 export async function searchCandidates(
-  candidates: Candidate[], 
+  pool: CandidatePool, 
   searchQuery: SearchQuery,
-  onPartialResults?: (results: CandidateMatch[]) => void
+  onPartialResults?: (results: CandidateMatch[]) => void,
+  rankingConfig: RankingPipelineConfig = DEFAULT_RANKING_PIPELINE,
+  onRelaxed?: (relaxation: QueryRelaxation) => void,
+  matchProvider?: MatchCompletionProvider
 ): Promise<CandidateMatch[]> {
   // Validate inputs
-  if (!candidates || !Array.isArray(candidates)) {
-    console.error('❌ Invalid candidates array:', candidates);
+  if (!pool || (!Array.isArray(pool) && !isCandidateSource(pool))) {
+    console.error('❌ Invalid candidates array:', pool);
     return [];
   }
 
@@ -279,53 +324,56 @@ export async function searchCandidates(
 
   console.log('🔍 Starting optimized candidate search with streaming...');
   console.log('📊 Search Query:', searchQuery);
-  console.log('👥 Total candidates in database:', candidates.length);
   
   const startTime = Date.now();
+
+  // Paged sources return only the candidates that pass the server-side hard filters
+  const candidates = await resolveCandidatePool(pool, searchQuery);
+  console.log('👥 Total candidates in database:', candidates.length);
   
-  // STEP 1: Apply hard filters to narrow down candidates (more lenient)
-  console.log('🔧 STEP 1: Applying lenient hard filters...');
-  const filteredCandidates = applyLenientHardFilters(candidates, searchQuery);
-  console.log(`✂️ Hard filters reduced candidates from ${candidates.length} to ${filteredCandidates.length}`);
-  
-  if (filteredCandidates.length === 0) {
-    console.log('❌ No candidates passed hard filters, returning empty results');
-    return [];
-  }
-  
-  // STEP 2: Apply simple keyword matching for additional scoring
-  console.log('🔧 STEP 2: Applying simple keyword matching...');
-  const keywordMatches = applySimpleKeywordMatching(filteredCandidates, searchQuery);
-  console.log(`🎯 Keyword matching selected ${keywordMatches.length} candidates for AI analysis`);
-  
-  if (keywordMatches.length === 0) {
-    console.log('❌ No candidates passed keyword matching, returning empty results');
-    return [];
+  // Filters, scorers and the AI rerank budget all come from the project's ranking pipeline
+  let rankedMatches = await runRankingPipeline(candidates, searchQuery, rankingConfig, { onPartialResults, matchProvider });
+
+  // Nobody passed the filters: widen or drop the most restrictive constraints and search again
+  if (rankedMatches.length === 0) {
+    const relaxation = await relaxSearchQuery(pool, searchQuery, rankingConfig);
+    if (relaxation) {
+      onRelaxed?.(relaxation);
+      const relaxedCandidates = await resolveCandidatePool(pool, relaxation.searchQuery);
+      rankedMatches = await runRankingPipeline(relaxedCandidates, relaxation.searchQuery, rankingConfig, { onPartialResults, matchProvider });
+    }
   }
   
-  // STEP 3: AI analysis only on pre-filtered candidates with streaming
-  console.log('🔧 STEP 3: Running AI analysis on keyword-matched candidates...');
-  const candidatesForAI = keywordMatches.slice(0, 5);
-  // const candidatesForBasicMatch = keywordMatches.slice(20);
-  const aiMatches = await runAIAnalysisWithStreaming(candidatesForAI, searchQuery, onPartialResults);
-  
   const endTime = Date.now();
   console.log(`🎯 Search completed in ${endTime - startTime}ms`);
-  console.log(`📊 Final Results: ${aiMatches.length} matches found`);
-  console.log('🏆 Top 3 matches:', aiMatches.slice(0, 3).map(m => ({
+  console.log(`📊 Final Results: ${rankedMatches.length} matches found`);
+  console.log('🏆 Top 3 matches:', rankedMatches.slice(0, 3).map(m => ({
     name: m.candidate.name,
     score: m.explanation.score,
     category: m.explanation.category
   })));
   
-  return aiMatches;
+  return rankedMatches;
 }
 
-function applyLenientHardFilters(candidates: Candidate[], searchQuery: SearchQuery): Candidate[] {
+export function applyLenientHardFilters(candidates: Candidate[], searchQuery: SearchQuery): Candidate[] {
   console.log('🔧 Applying lenient hard filters...');
-  const { extractedEntities } = searchQuery;
+  const { extractedEntities, clauses } = searchQuery;
   
   let filtered = candidates;
+
+  // Boolean clauses are evaluated exactly and replace the entity filters they were derived from
+  const hasIncludeClauses = !!clauses && clauses.include.length > 0;
+  if (clauses && (clauses.include.length > 0 || clauses.exclude.length > 0)) {
+    const beforeCount = filtered.length;
+    filtered = filtered.filter(candidate => !!candidate && matchesClauses(candidate, clauses));
+    console.log(`🧮 Boolean query clauses: ${beforeCount} → ${filtered.length} candidates`);
+  }
+
+  if (hasIncludeClauses) {
+    console.log(`✅ Lenient hard filters complete: ${candidates.length} → ${filtered.length} candidates`);
+    return filtered;
+  }
   
   // Job Title Hard Filter (more lenient - partial matches)
   if (extractedEntities.jobTitles && extractedEntities.jobTitles.length > 0) {
@@ -349,19 +397,36 @@ function applyLenientHardFilters(candidates: Candidate[], searchQuery: SearchQue
           (titleLower.includes('administrator') && candidateTitle.includes('administrator')) ||
           (titleLower.includes('technologist') && candidateTitle.includes('technologist')) ||
           (titleLower.includes('therapist') && candidateTitle.includes('therapist')) ||
-          // Check for abbreviations
-          (titleLower === 'rn' && candidateTitle.includes('nurse')) ||
-          (titleLower === 'np' && candidateTitle.includes('practitioner')) ||
-          (titleLower === 'lpn' && candidateTitle.includes('practical')) ||
-          (titleLower === 'cns' && candidateTitle.includes('specialist'))
+          // Abbreviations and synonyms from the healthcare taxonomy ("RN" = "Staff Nurse")
+          textMatchesTerm(candidate.jobTitle, title)
         );
       });
     });
     console.log(`📋 Job title filter: ${beforeCount} → ${filtered.length} candidates`);
   }
   
-  // Location Hard Filter (more lenient - partial matches)
-  if (extractedEntities.locations && extractedEntities.locations.length > 0) {
+  // Location Hard Filter: distance when the query has a radius, otherwise lenient partial matches
+  const radiusCenter = extractedEntities.locationRadius ? resolveLocation(extractedEntities.locationRadius.center) : null;
+  if (radiusCenter && extractedEntities.locationRadius) {
+    const beforeCount = filtered.length;
+    const { miles } = extractedEntities.locationRadius;
+    filtered = filtered.filter(candidate => {
+      if (!candidate || !candidate.location || typeof candidate.location !== 'string') {
+        console.warn('⚠️ Invalid candidate location:', candidate);
+        return false;
+      }
+
+      const distance = distanceToLocation(candidate.location, radiusCenter);
+      if (distance !== null) return distance <= miles;
+
+      // Locations missing from the gazetteer fall back to string matching
+      const candidateLocation = candidate.location.toLowerCase();
+      return extractedEntities.locations.some(location =>
+        typeof location === 'string' && candidateLocation.includes(location.toLowerCase())
+      );
+    });
+    console.log(`📍 Radius filter (${miles} mi of ${radiusCenter.label}): ${beforeCount} → ${filtered.length} candidates`);
+  } else if (extractedEntities.locations && extractedEntities.locations.length > 0) {
     const beforeCount = filtered.length;
     filtered = filtered.filter(candidate => {
       if (!candidate || !candidate.location || typeof candidate.location !== 'string') {
@@ -370,9 +435,16 @@ function applyLenientHardFilters(candidates: Candidate[], searchQuery: SearchQue
       }
       
       const candidateLocation = candidate.location.toLowerCase();
+      const candidateState = candidate.location.split(',').pop()!.trim();
       return extractedEntities.locations.some(location => {
         if (!location || typeof location !== 'string') return false;
-        
+
+        // Candidate locations are "City, ST": "Texas" matches "Dallas, TX" by its state part
+        const state = getStateAbbreviation(location);
+        if (state && (candidateState.toUpperCase() === state || candidateState.toLowerCase() === US_STATES[state].toLowerCase())) {
+          return true;
+        }
+
         const locationLower = location.toLowerCase();
         return (
           candidateLocation.includes(locationLower) || locationLower.includes(candidateLocation)
@@ -420,17 +492,27 @@ function applyLenientHardFilters(candidates: Candidate[], searchQuery: SearchQue
     });
     console.log(`🏭 Industry filter: ${beforeCount} → ${filtered.length} candidates`);
   }
+
+  // Credential Hard Filter: licenses and certifications must be held and valid on the dates asked for
+  if (extractedEntities.credentials && extractedEntities.credentials.length > 0) {
+    const beforeCount = filtered.length;
+    const now = new Date();
+    filtered = filtered.filter(candidate => meetsCredentialRequirements(candidate, extractedEntities.credentials!, now));
+    console.log(`🪪 Credential filter (${extractedEntities.credentials.map(describeCredentialRequirement).join(', ')}): ${beforeCount} → ${filtered.length} candidates`);
+  }
   
   console.log(`✅ Lenient hard filters complete: ${candidates.length} → ${filtered.length} candidates`);
   return filtered;
 }
 
-function applySimpleKeywordMatching(candidates: Candidate[], searchQuery: SearchQuery): Candidate[] {
+export function applySimpleKeywordMatching(candidates: Candidate[], searchQuery: SearchQuery): Candidate[] {
   console.log('🔧 Applying simple keyword matching for relevance scoring...');
-  const { extractedEntities, originalQuery } = searchQuery;
+  const { extractedEntities, clauses } = searchQuery;
   
-  // Extract all keywords from the original query
-  const queryKeywords = originalQuery.toLowerCase()
+  // Extract all keywords from the query in English (or from the positive terms of a boolean query,
+  // so field names, operators and excluded values never count as matches)
+  const keywordSource = clauses ? getPositiveTermValues(clauses).join(' ') : getEnglishQueryText(searchQuery);
+  const queryKeywords = keywordSource.toLowerCase()
     .split(/\s+/)
     .filter(word => word.length > 2) // Filter out short words
     .filter(word => !['the', 'and', 'or', 'in', 'at', 'with', 'for', 'of', 'to', 'a', 'an'].includes(word));
@@ -510,9 +592,10 @@ function applySimpleKeywordMatching(candidates: Candidate[], searchQuery: Search
     return { candidate, keywordScore };
   });
   
-  // Sort by keyword score and take candidates with meaningful scores
+  // Sort by keyword score and take candidates with meaningful scores. Candidates that already
+  // satisfied boolean include clauses are relevant by definition.
   const sortedCandidates = candidatesWithScores
-    .filter(item => item.keywordScore > 0) // Only candidates with some relevance
+    .filter(item => item.keywordScore > 0 || (clauses && clauses.include.length > 0)) // Only candidates with some relevance
     .sort((a, b) => b.keywordScore - a.keywordScore);
   
   console.log('🎯 Keyword matching scores:');
@@ -572,98 +655,107 @@ async function runAIAnalysisOnAll(
   return matches.filter(match => match.explanation.score >= 25); // Lower threshold for fallback
 }
 
-async function runAIAnalysisWithStreaming(
-  candidates: Candidate[], 
-  searchQuery: SearchQuery,
-  onPartialResults?: (results: CandidateMatch[]) => void
-): Promise<CandidateMatch[]> {
-  console.log(`🤖 Starting AI analysis on ${candidates.length} pre-filtered candidates with streaming...`);
-  
-  const matches: CandidateMatch[] = [];
-  
-  // Process candidates in smaller batches for better performance and streaming
-  const batchSize = 3;
-  for (let i = 0; i < candidates.length; i += batchSize) {
-    const batch = candidates.slice(i, i + batchSize);
-    console.log(`📦 Processing AI batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(candidates.length/batchSize)} (${batch.length} candidates)`);
-    
-    const batchPromises = batch.map((candidate, index) => {
-      console.log(`🔄 Starting AI analysis for candidate ${i + index + 1}: ${candidate.name}`);
-      return calculateMatchWithAI(candidate, searchQuery, i + index + 1);
-    });
-    
-    try {
-      const batchResults = await Promise.all(batchPromises);
-      
-      batch.forEach((candidate, index) => {
-        const explanation = batchResults[index];
-        console.log(`✅ AI analysis complete for ${candidate.name}: Score ${explanation.score}%, Category: ${explanation.category}`);
-        
-        // Include candidates with lower threshold (25% instead of 30%)
-        if (explanation.score >= 25) {
-          matches.push({ candidate, explanation });
-        } else {
-          console.log(`⚠️ Excluding ${candidate.name} due to low AI score: ${explanation.score}%`);
-        }
-      });
-      
-      // Stream partial results after each batch
-      if (onPartialResults && matches.length > 0) {
-        const sortedMatches = matches.sort((a, b) => b.explanation.score - a.explanation.score);
-        onPartialResults(sortedMatches);
-      }
-      
-      // Small delay between batches to respect rate limits
-      if (i + batchSize < candidates.length) {
-        console.log('⏳ Waiting 300ms before next batch...');
-        await new Promise(resolve => setTimeout(resolve, 300));
-      }
-    } catch (error) {
-      logError('AI Batch Processing', error, { batchIndex: Math.floor(i/batchSize), batchSize: batch.length });
-      
-      console.log('🔄 Falling back to basic matching for this batch...');
-      // Fallback to basic matching for this batch
-      batch.forEach(candidate => {
-        const explanation = calculateBasicMatch(candidate, searchQuery);
-        if (explanation.score >= 25) { // Lower threshold
-          matches.push({ candidate, explanation });
-        }
-      });
-      
-      // Stream partial results even for fallback
-      if (onPartialResults && matches.length > 0) {
-        const sortedMatches = matches.sort((a, b) => b.explanation.score - a.explanation.score);
-        onPartialResults(sortedMatches);
+export interface MatchCompletionRequest {
+  model: string;
+  system: string;
+  user: string;
+  candidate: Candidate;
+  searchQuery: SearchQuery;
+}
+
+// Returns the raw JSON text of a match analysis
+export type MatchCompletionProvider = (request: MatchCompletionRequest) => Promise<string>;
+
+/**
+ * One non-streaming match analysis completion from OpenAI
+ */
+export async function requestMatchCompletion(
+  request: Pick<MatchCompletionRequest, 'system' | 'user'>,
+  signal?: AbortSignal
+): Promise<{ content: string | null | undefined; usage?: OpenAI.CompletionUsage }> {
+  const modelConfig = getAIModelForTask('candidateMatching');
+  const completion = await openai.chat.completions.create({
+    model: modelConfig.model,
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.user }
+    ],
+    temperature: modelConfig.temperature,
+    max_tokens: modelConfig.maxTokens
+  }, { signal });
+  return { content: completion.choices[0]?.message?.content, usage: completion.usage };
+}
+
+export interface MatchStreamOptions {
+  onToken?: (partialExplanation: string) => void; // streams the reasons as the model writes them
+  signal?: AbortSignal; // aborting rejects instead of falling back to basic matching
+  matchProvider?: MatchCompletionProvider; // answers instead of OpenAI, e.g. in the offline evaluation (utils/searchEvaluation.ts)
+}
+
+/**
+ * Reasons readable so far from a partially streamed match JSON, including the one being written
+ */
+export function extractStreamingReasons(partial: string): string[] {
+  const start = partial.search(/"reasons"\s*:\s*\[/);
+  if (start === -1) return [];
+
+  const reasons: string[] = [];
+  let i = partial.indexOf('[', start) + 1;
+  while (i < partial.length && partial[i] !== ']') {
+    if (partial[i] !== '"') {
+      i++;
+      continue;
+    }
+
+    let value = '';
+    i++;
+    while (i < partial.length && partial[i] !== '"') {
+      if (partial[i] === '\\') {
+        if (i + 1 >= partial.length) break; // escape split across chunks
+        const escaped = partial[i + 1];
+        value += escaped === 'n' || escaped === 't' ? ' ' : escaped;
+        i += 2;
+        continue;
       }
+      value += partial[i];
+      i++;
     }
+    reasons.push(value);
+    i++;
   }
-  
-  const sortedMatches = matches.sort((a, b) => b.explanation.score - a.explanation.score);
-  console.log(`🎯 AI analysis completed! ${sortedMatches.length} candidates with scores ≥25%`);
-  
-  return sortedMatches;
+  return reasons.filter(Boolean);
 }
 
-export async function calculateMatchWithAI(candidate: Candidate, searchQuery: SearchQuery, candidateNumber: number): Promise<MatchExplanation> {
+export async function calculateMatchWithAI(
+  candidate: Candidate,
+  searchQuery: SearchQuery,
+  candidateNumber: number,
+  options: MatchStreamOptions = {}
+): Promise<MatchExplanation> {
   // Get AI configuration for candidate matching
   const modelConfig = getAIModelForTask('candidateMatching');
   const promptConfig = getPromptForTask('candidateMatching');
 
+  // Give the model the actual distance rather than asking it to guess geography
+  const radiusCenter = searchQuery.extractedEntities.locationRadius ? resolveLocation(searchQuery.extractedEntities.locationRadius.center) : null;
+  const candidateDistance = radiusCenter ? distanceToLocation(candidate.location, radiusCenter) : null;
+
   const userPrompt = `
 SEARCH QUERY: "${searchQuery.originalQuery}"
 
 EXTRACTED CRITERIA:
 - Job Titles: ${searchQuery.extractedEntities.jobTitles?.join(', ') || 'None specified'}
-- Locations: ${searchQuery.extractedEntities.locations?.join(', ') || 'None specified'}
+- Locations: ${searchQuery.extractedEntities.locations?.join(', ') || 'None specified'}${searchQuery.extractedEntities.locationRadius ? ` (within ${searchQuery.extractedEntities.locationRadius.miles} miles of ${searchQuery.extractedEntities.locationRadius.center})` : ''}
 - Experience Range: ${searchQuery.extractedEntities.experienceRange?.min ? `${searchQuery.extractedEntities.experienceRange.min}+ years` : 'Not specified'}
 - Skills: ${searchQuery.extractedEntities.skills?.join(', ') || 'None specified'}
 - Industries: ${searchQuery.extractedEntities.industries?.join(', ') || 'None specified'}
-- Education: ${searchQuery.extractedEntities.education || 'Not specified'}
+- Education: ${searchQuery.extractedEntities.education || 'Not specified'}${searchQuery.clauses?.exclude.length ? `
+- Must NOT match: ${searchQuery.clauses.exclude.map(describeQueryNode).join('; ')}` : ''}
 
 CANDIDATE PROFILE:
 - Name: ${candidate.name || 'Unknown'}
 - Job Title: ${candidate.jobTitle || 'Unknown'}
-- Location: ${candidate.location || 'Unknown'}
+- Location: ${candidate.location || 'Unknown'}${candidateDistance !== null ? ` (${formatMiles(candidateDistance)} from ${searchQuery.extractedEntities.locationRadius?.center})` : ''}
 - Experience: ${candidate.experience || 0} years
 - Skills: ${candidate.skills?.join(', ') || 'None listed'}
 - Industry: ${candidate.industry || 'Unknown'}
@@ -677,23 +769,47 @@ Evaluate this match and provide detailed scoring with specific reasons.`;
     console.log(`📤 Sending match analysis request for candidate #${candidateNumber}: ${candidate.name}`);
     console.log('🔧 Using model:', modelConfig.model);
     
-    const completion = await openai.chat.completions.create({
-      model: modelConfig.model,
-      messages: [
-        {
-          role: "system",
-          content: promptConfig.system
-        },
-        {
-          role: "user",
-          content: userPrompt
+    const messages = [
+      {
+        role: "system" as const,
+        content: promptConfig.system
+      },
+      {
+        role: "user" as const,
+        content: userPrompt
+      }
+    ];
+
+    let response: string | null | undefined;
+    let usage: OpenAI.CompletionUsage | undefined;
+    if (options.matchProvider) {
+      response = await options.matchProvider({ model: modelConfig.model, system: promptConfig.system, user: userPrompt, candidate, searchQuery });
+      const reasons = extractStreamingReasons(response).join(' · ');
+      if (reasons) options.onToken?.(reasons);
+    } else if (options.onToken) {
+      // Stream tokens and surface the reasons while the JSON is still being written
+      const stream = await openai.chat.completions.create({
+        model: modelConfig.model,
+        messages,
+        temperature: modelConfig.temperature,
+        max_tokens: modelConfig.maxTokens,
+        stream: true
+      }, { signal: options.signal });
+
+      response = '';
+      let streamed = '';
+      for await (const chunk of stream) {
+        response += chunk.choices[0]?.delta?.content || '';
+        const partial = extractStreamingReasons(response).join(' · ');
+        if (partial && partial !== streamed) {
+          streamed = partial;
+          options.onToken(partial);
         }
-      ],
-      temperature: modelConfig.temperature,
-      max_tokens: modelConfig.maxTokens
-    });
+      }
+    } else {
+      ({ content: response, usage } = await requestMatchCompletion({ system: promptConfig.system, user: userPrompt }, options.signal));
+    }
 
-    const response = completion.choices[0]?.message?.content;
     if (!response) {
       throw new Error('No response from OpenAI');
     }
@@ -706,7 +822,8 @@ Evaluate this match and provide detailed scoring with specific reasons.`;
         model: modelConfig.model,
         temperature: modelConfig.temperature,
         max_tokens: modelConfig.maxTokens,
-        usage: completion.usage,
+        usage,
+        streamed: !!options.onToken,
         candidate: candidate.name
       }
     );
@@ -716,13 +833,20 @@ Evaluate this match and provide detailed scoring with specific reasons.`;
     const explanation = {
       score: Math.min(100, Math.max(0, result.score || 0)),
       reasons: result.reasons || ['Match analysis completed'],
-      category: result.category || (result.score >= 90 ? 'excellent' : result.score >= 70 ? 'good' : 'potential')
+      category: result.category || (result.score >= 90 ? 'excellent' : result.score >= 70 ? 'good' : 'potential'),
+      // Left out when the model omits it: a keyword breakdown would not explain the AI score
+      breakdown: normalizeMatchBreakdown(result.breakdown) ?? undefined
     };
 
     console.log(`✅ AI analysis complete for ${candidate.name}:`, explanation);
     return explanation;
     
   } catch (error) {
+    // A cancelled search should stop, not spend time on fallback scoring
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
     logError(`Match Analysis for ${candidate.name}`, error, { 
       candidateNumber, 
       candidateName: candidate.name,
@@ -737,160 +861,46 @@ Evaluate this match and provide detailed scoring with specific reasons.`;
   }
 }
 
-// Enhanced fallback functions
-function basicJobTitleExtraction(query: string): string[] {
-  if (!query || typeof query !== 'string') {
-    console.warn('⚠️ Invalid query for job title extraction:', query);
-    return [];
-  }
+const CRITERION_STATUSES: CriterionStatus[] = ['matched', 'partial', 'missing', 'not-specified'];
 
-  console.log('🔄 Using basic job title extraction for:', query);
-  
-  const lowerQuery = query.toLowerCase();
-  const expansions: { [key: string]: string[] } = {
-    'registered nurse': ['Registered Nurse', 'RN', 'Staff Nurse', 'Bedside Nurse'],
-    'rn': ['Registered Nurse', 'RN', 'Staff Nurse'],
-    'nurse practitioner': ['Nurse Practitioner', 'NP', 'Advanced Practice Nurse'],
-    'emergency room nurse': ['Emergency Room Nurse', 'ER Nurse', 'Emergency Nurse'],
-    'clinical nurse specialist': ['Clinical Nurse Specialist', 'CNS'],
-    'licensed practical nurse': ['Licensed Practical Nurse', 'LPN'],
-    'healthcare administrator': ['Healthcare Administrator', 'Medical Administrator'],
-    'director of nursing': ['Director of Nursing', 'DON', 'Nursing Director'],
-    'physical therapist': ['Physical Therapist', 'PT', 'Physiotherapist'],
-    'occupational therapist': ['Occupational Therapist', 'OT'],
-    'respiratory therapist': ['Respiratory Therapist', 'RT']
-  };
-  
-  const found = new Set<string>();
-  Object.entries(expansions).forEach(([key, values]) => {
-    if (lowerQuery.includes(key)) {
-      values.forEach(value => found.add(value));
-    }
-  });
-  
-  const result = Array.from(found);
-  console.log('🔄 Basic job titles extracted:', result);
-  return result;
-}
+/**
+ * Validates a breakdown returned by the model: unknown criteria are dropped, points are
+ * clamped to the criterion weight and derived from the status when missing, and criteria the
+ * model left out are listed as not-specified. Returns null when nothing usable is left.
+ */
+export function normalizeMatchBreakdown(raw: unknown): CriterionBreakdown[] | null {
+  if (!Array.isArray(raw)) return null;
 
-function basicLocationExtraction(query: string): string[] {
-  if (!query || typeof query !== 'string') {
-    console.warn('⚠️ Invalid query for location extraction:', query);
-    return [];
-  }
+  const byCriterion = new Map<MatchCriterion, CriterionBreakdown>();
+  raw.forEach(item => {
+    const criterion = item?.criterion as MatchCriterion;
+    if (!MATCH_CRITERIA.includes(criterion) || byCriterion.has(criterion)) return;
 
-  console.log('🔄 Using basic location extraction for:', query);
-  
-  const lowerQuery = query.toLowerCase();
-  const expansions: { [key: string]: string[] } = {
-    'new york': ['New York', 'NY', 'New York City', 'NYC'],
-    'ny': ['New York', 'NY'],
-    'los angeles': ['Los Angeles', 'LA', 'California'],
-    'la': ['Los Angeles', 'LA'],
-    'london': ['London', 'UK', 'United Kingdom'],
-    'toronto': ['Toronto', 'Canada'],
-    'chicago': ['Chicago', 'IL', 'Illinois'],
-    'miami': ['Miami', 'FL', 'Florida']
-  };
-  
-  const found = new Set<string>();
-  Object.entries(expansions).forEach(([key, values]) => {
-    if (lowerQuery.includes(key)) {
-      values.forEach(value => found.add(value));
-    }
-  });
-  
-  const result = Array.from(found);
-  console.log('🔄 Basic locations extracted:', result);
-  return result;
-}
+    const weight = MATCH_CRITERION_WEIGHTS[criterion];
+    const status: CriterionStatus = CRITERION_STATUSES.includes(item.status) ? item.status : 'missing';
+    const fallbackPoints = status === 'matched' ? weight : status === 'partial' ? Math.round(weight / 2) : 0;
+    const points = typeof item.points === 'number' && Number.isFinite(item.points) ? item.points : fallbackPoints;
 
-function basicExperienceExtraction(query: string): { min?: number; max?: number } {
-  if (!query || typeof query !== 'string') {
-    console.warn('⚠️ Invalid query for experience extraction:', query);
-    return {};
-  }
-
-  console.log('🔄 Using basic experience extraction for:', query);
-  
-  const patterns = [
-    /(\d+)\+\s*years?/i,
-    /(\d+)\s*to\s*(\d+)\s*years?/i,
-    /(\d+)-(\d+)\s*years?/i,
-    /at least\s*(\d+)\s*years?/i,
-    /minimum\s*(\d+)\s*years?/i
-  ];
-  
-  for (const pattern of patterns) {
-    const match = query.match(pattern);
-    if (match) {
-      let result;
-      if (pattern.source.includes('+') || pattern.source.includes('least') || pattern.source.includes('minimum')) {
-        result = { min: parseInt(match[1]) };
-      } else if (match[2]) {
-        result = { min: parseInt(match[1]), max: parseInt(match[2]) };
-      }
-      console.log('🔄 Basic experience extracted:', result);
-      return result || {};
-    }
-  }
-  
-  console.log('🔄 No experience requirements found');
-  return {};
-}
-
-function basicSkillsExtraction(query: string): string[] {
-  if (!query || typeof query !== 'string') {
-    console.warn('⚠️ Invalid query for skills extraction:', query);
-    return [];
-  }
-
-  console.log('🔄 Using basic skills extraction for:', query);
-  
-  const lowerQuery = query.toLowerCase();
-  const skillMappings: { [key: string]: string[] } = {
-    'pediatric': ['Pediatric Care', 'Pediatric Nursing', 'Child Healthcare'],
-    'oncology': ['Oncology', 'Cancer Care', 'Chemotherapy'],
-    'icu': ['ICU', 'Intensive Care', 'Critical Care'],
-    'emergency': ['Emergency Medicine', 'Trauma Care', 'Emergency Response'],
-    'spanish': ['Spanish Language', 'Bilingual', 'Spanish Fluency'],
-    'bilingual': ['Bilingual', 'Multilingual'],
-    'ehr': ['Electronic Health Records', 'EHR', 'Medical Records'],
-    'surgery': ['Surgical', 'Operating Room', 'Perioperative Care'],
-    'physical therapy': ['Physical Therapy', 'Rehabilitation', 'PT'],
-    'occupational therapy': ['Occupational Therapy', 'Rehabilitation', 'OT'],
-    'respiratory therapy': ['Respiratory Therapy', 'Pulmonary Care', 'RT']
-  };
-  
-  const found = new Set<string>();
-  Object.entries(skillMappings).forEach(([key, values]) => {
-    if (lowerQuery.includes(key)) {
-      values.forEach(value => found.add(value));
-    }
+    byCriterion.set(criterion, {
+      criterion,
+      status,
+      weight,
+      points: Math.min(weight, Math.max(0, Math.round(points))),
+      detail: typeof item.detail === 'string' ? item.detail : ''
+    });
   });
-  
-  const result = Array.from(found);
-  console.log('🔄 Basic skills extracted:', result);
-  return result;
-}
-
-function basicIndustryExtraction(query: string): string[] {
-  if (!query || typeof query !== 'string') {
-    console.warn('⚠️ Invalid query for industry extraction:', query);
-    return [];
-  }
 
-  console.log('🔄 Using basic industry extraction for:', query);
-  
-  const lowerQuery = query.toLowerCase();
-  const industryPatterns = ['healthcare', 'hospital', 'clinic', 'medical', 'nursing', 'therapy', 'rehabilitation'];
-  const result = industryPatterns.filter(industry => lowerQuery.includes(industry));
-  
-  console.log('🔄 Basic industries extracted:', result);
-  return result;
+  if (byCriterion.size === 0) return null;
+  return MATCH_CRITERIA.map(criterion => byCriterion.get(criterion) ?? {
+    criterion,
+    status: 'not-specified',
+    weight: MATCH_CRITERION_WEIGHTS[criterion],
+    points: 0,
+    detail: 'Not assessed by the AI analysis'
+  });
 }
 
-function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): MatchExplanation {
+export function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): MatchExplanation {
   if (!candidate) {
     console.warn('⚠️ Invalid candidate for basic match calculation:', candidate);
     return {
@@ -904,6 +914,10 @@ function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): Ma
   
   let score = 0;
   const reasons: string[] = [];
+  const breakdown: CriterionBreakdown[] = [];
+  const addCriterion = (criterion: MatchCriterion, status: CriterionStatus, points: number, detail: string) => {
+    breakdown.push({ criterion, status, weight: MATCH_CRITERION_WEIGHTS[criterion], points, detail });
+  };
   const { extractedEntities } = searchQuery;
   
   // Job title matching (40% weight) - more lenient
@@ -919,40 +933,59 @@ function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): Ma
       titleLower.includes(candidateTitleLower) ||
       // Check for common keywords
       (titleLower.includes('nurse') && candidateTitleLower.includes('nurse')) ||
-      (titleLower.includes('administrator') && candidateTitleLower.includes('administrator'))
+      (titleLower.includes('administrator') && candidateTitleLower.includes('administrator')) ||
+      textMatchesTerm(candidate.jobTitle, title)
     );
   });
   
   if (jobTitleMatch) {
     score += 40;
     reasons.push(`Job title alignment: ${candidate.jobTitle || 'Unknown'}`);
+    addCriterion('title', 'matched', 40, `${candidate.jobTitle || 'Unknown'} matches ${extractedEntities.jobTitles.slice(0, 3).join(', ')}`);
   } else if (!extractedEntities.jobTitles || extractedEntities.jobTitles.length === 0) {
     // If no job titles specified, give some base score
     score += 20;
     reasons.push(`Healthcare professional: ${candidate.jobTitle || 'Unknown'}`);
+    addCriterion('title', 'not-specified', 20, `No title required; ${candidate.jobTitle || 'Unknown'}`);
+  } else {
+    addCriterion('title', 'missing', 0, `${candidate.jobTitle || 'Unknown'} is not one of ${extractedEntities.jobTitles.slice(0, 3).join(', ')}`);
   }
   
-  // Location matching (25% weight) - more lenient
-  const locationMatch = extractedEntities.locations?.some(location => {
-    if (!location || typeof location !== 'string' || !candidate.location || typeof candidate.location !== 'string') {
-      return false;
-    }
-    
-    const locationLower = location.toLowerCase();
-    const candidateLocationLower = candidate.location.toLowerCase();
-    return (
-      candidateLocationLower.includes(locationLower) ||
-      locationLower.includes(candidateLocationLower)
-    );
-  });
+  // Location matching (25% weight) - by distance for radius searches, otherwise more lenient string matching
+  const radiusCenter = extractedEntities.locationRadius ? resolveLocation(extractedEntities.locationRadius.center) : null;
+  const distance = radiusCenter && candidate.location ? distanceToLocation(candidate.location, radiusCenter) : null;
+  const locationMatch = distance !== null && extractedEntities.locationRadius
+    ? distance <= extractedEntities.locationRadius.miles
+    : extractedEntities.locations?.some(location => {
+      if (!location || typeof location !== 'string' || !candidate.location || typeof candidate.location !== 'string') {
+        return false;
+      }
+      
+      const locationLower = location.toLowerCase();
+      const candidateLocationLower = candidate.location.toLowerCase();
+      return (
+        candidateLocationLower.includes(locationLower) ||
+        locationLower.includes(candidateLocationLower)
+      );
+    });
   
-  if (locationMatch) {
+  if (locationMatch && distance !== null && radiusCenter) {
+    score += 25;
+    reasons.push(`Within ${extractedEntities.locationRadius?.miles} miles of ${radiusCenter.label}: ${candidate.location} (${formatMiles(distance)})`);
+    addCriterion('location', 'matched', 25, `${candidate.location} is ${formatMiles(distance)} from ${radiusCenter.label}`);
+  } else if (locationMatch) {
     score += 25;
     reasons.push(`Located in target area: ${candidate.location || 'Unknown'}`);
+    addCriterion('location', 'matched', 25, `${candidate.location || 'Unknown'} is in ${extractedEntities.locations.join(', ')}`);
   } else if (!extractedEntities.locations || extractedEntities.locations.length === 0) {
     // If no location specified, give some base score
     score += 15;
     reasons.push(`Available location: ${candidate.location || 'Unknown'}`);
+    addCriterion('location', 'not-specified', 15, `No location required; based in ${candidate.location || 'Unknown'}`);
+  } else {
+    addCriterion('location', 'missing', 0, distance !== null && radiusCenter
+      ? `${candidate.location} is ${formatMiles(distance)} from ${radiusCenter.label}`
+      : `${candidate.location || 'Unknown'} is outside ${extractedEntities.locations.join(', ')}`);
   }
   
   // Experience matching (20% weight) - more lenient
@@ -966,14 +999,19 @@ function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): Ma
     if (candidateExp >= minExp && candidateExp <= maxExp) {
       score += 20;
       reasons.push(`Experience level: ${candidateExp} years meets requirements`);
+      addCriterion('experience', 'matched', 20, `${candidateExp} years is within the requested range`);
     } else if (candidateExp >= minExp - 2) {
       score += 10;
       reasons.push(`Close experience match: ${candidateExp} years`);
+      addCriterion('experience', 'partial', 10, `${candidateExp} years is close to the requested range`);
+    } else {
+      addCriterion('experience', 'missing', 0, `${candidateExp} years is below the ${extractedEntities.experienceRange.min ?? 0}+ years requested`);
     }
   } else {
     // If no experience specified, give base score
     score += 15;
     reasons.push(`${candidate.experience || 0} years of experience`);
+    addCriterion('experience', 'not-specified', 15, `No experience required; ${candidate.experience || 0} years`);
   }
   
   // Skills matching (15% weight) - more lenient
@@ -985,25 +1023,59 @@ function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): Ma
     return candidate.skills.some(candidateSkill => {
       if (!candidateSkill || typeof candidateSkill !== 'string') return false;
       return candidateSkill.toLowerCase().includes(skill.toLowerCase()) ||
-             skill.toLowerCase().includes(candidateSkill.toLowerCase());
+             skill.toLowerCase().includes(candidateSkill.toLowerCase()) ||
+             textMatchesTerm(candidateSkill, skill);
     });
   }) || [];
   
+  const requestedSkills = extractedEntities.skills?.filter(skill => typeof skill === 'string' && skill) || [];
   if (skillMatches.length > 0) {
-    score += Math.min(15, skillMatches.length * 5);
+    const skillPoints = Math.min(15, skillMatches.length * 5);
+    score += skillPoints;
     reasons.push(`Relevant skills: ${skillMatches.join(', ')}`);
+    const missingSkills = requestedSkills.filter(skill => !skillMatches.includes(skill));
+    addCriterion('skills', missingSkills.length === 0 ? 'matched' : 'partial', skillPoints,
+      `Has ${skillMatches.join(', ')}${missingSkills.length > 0 ? `; missing ${missingSkills.join(', ')}` : ''}`);
   } else {
     // Give some score for having skills listed
     score += 5;
     const candidateSkills = candidate.skills && Array.isArray(candidate.skills) ? candidate.skills : [];
     reasons.push(`Professional skills: ${candidateSkills.slice(0, 2).join(', ') || 'Various skills'}`);
+    addCriterion('skills', requestedSkills.length > 0 ? 'missing' : 'not-specified', 5, requestedSkills.length > 0
+      ? `None of ${requestedSkills.join(', ')}`
+      : `No skills required; lists ${candidateSkills.slice(0, 3).join(', ') || 'no skills'}`);
   }
   
   // Add base score for healthcare industry
+  const requestedIndustries = (extractedEntities.industries || []).filter(industry => typeof industry === 'string' && industry);
   if (candidate.industry === 'Healthcare') {
     score += 10;
     reasons.push('Healthcare industry experience');
   }
+  const industryMatch = requestedIndustries.some(industry => candidate.industry?.toLowerCase().includes(industry.toLowerCase()));
+  addCriterion('industry',
+    requestedIndustries.length === 0 ? 'not-specified' : industryMatch ? 'matched' : candidate.industry === 'Healthcare' ? 'partial' : 'missing',
+    candidate.industry === 'Healthcare' ? 10 : 0,
+    `${candidate.industry || 'Unknown'} industry${requestedIndustries.length > 0 ? ` (requested ${requestedIndustries.join(', ')})` : ''}`);
+
+  // Education only counts when the query asks for it
+  if (extractedEntities.education) {
+    const educationMatch = !!candidate.education && candidate.education.toLowerCase().includes(extractedEntities.education.toLowerCase());
+    if (educationMatch) {
+      score += MATCH_CRITERION_WEIGHTS.education;
+      reasons.push(`Education: ${candidate.education}`);
+    }
+    addCriterion('education', educationMatch ? 'matched' : 'missing', educationMatch ? MATCH_CRITERION_WEIGHTS.education : 0,
+      `${candidate.education || 'No education listed'} (requested ${extractedEntities.education})`);
+  } else {
+    addCriterion('education', 'not-specified', 0, candidate.education || 'No education listed');
+  }
+  
+  // Credentials are a hard filter; the reasons name the record that meets each requirement
+  (extractedEntities.credentials || []).forEach(requirement => {
+    const credential = findMatchingCredential(candidate, requirement);
+    if (credential) reasons.push(`${describeCredentialRequirement(requirement)}: ${credential}`);
+  });
   
   // Availability bonus
   if (candidate.availability === 'available') {
@@ -1027,7 +1099,7 @@ function calculateBasicMatch(candidate: Candidate, searchQuery: SearchQuery): Ma
   // Ensure minimum score of 30 for any healthcare professional
   const finalScore = Math.max(score, 30);
   
-  const result = { score: finalScore, reasons, category };
+  const result = { score: finalScore, reasons, category, breakdown };
   console.log(`🔄 Basic match result for ${candidate.name || 'Unknown'}:`, result);
   return result;
 }
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { Candidate, SearchQuery } from '../types';
+import { getPositiveTermValues } from './queryParser';
+import { getEnglishQueryText } from './queryLanguage';
+
+// Local retrieval index over the candidate pool: BM25 for lexical relevance plus TF-IDF
+// cosine similarity, with healthcare phrases folded into shared concept tokens so that
+// e.g. "critical care" and "ICU" match each other. Nothing here calls OpenAI.
+
+export interface SemanticMatch {
+  candidateId: string;
+  score: number; // 0-1 blend of BM25 (relative to the best match) and TF-IDF cosine similarity
+}
+
+interface IndexedDocument {
+  signature: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Phrases that mean the same thing in candidate profiles. The first entry names the concept.
+const CONCEPT_SYNONYMS: string[][] = [
+  ['icu', 'critical care', 'intensive care', 'ccu', 'cvicu', 'micu', 'sicu'],
+  ['emergency', 'er', 'ed', 'emergency room', 'emergency department', 'trauma'],
+  ['nicu', 'neonatal intensive care', 'neonatal'],
+  ['pediatrics', 'pediatric', 'peds', 'picu'],
+  ['operating room', 'or', 'surgical', 'perioperative', 'periop'],
+  ['med surg', 'med-surg', 'medical surgical', 'medical-surgical'],
+  ['labor and delivery', 'l&d', 'obstetrics', 'ob'],
+  ['registered nurse', 'rn'],
+  ['licensed practical nurse', 'lpn', 'lvn', 'licensed vocational nurse'],
+  ['nursing assistant', 'cna', 'certified nursing assistant'],
+  ['nurse practitioner', 'np', 'aprn', 'fnp'],
+  ['physical therapy', 'physical therapist', 'pt', 'physiotherapy'],
+  ['occupational therapy', 'occupational therapist', 'ot'],
+  ['respiratory therapy', 'respiratory therapist', 'rt', 'rrt'],
+  ['acls', 'advanced cardiac life support'],
+  ['bls', 'basic life support', 'cpr'],
+  ['pals', 'pediatric advanced life support'],
+  ['electronic health records', 'ehr', 'emr', 'epic', 'cerner'],
+  ['telemetry', 'tele', 'cardiac monitoring'],
+  ['geriatrics', 'geriatric', 'long-term care', 'ltc', 'skilled nursing', 'snf'],
+  ['oncology', 'cancer care', 'chemotherapy'],
+  ['behavioral health', 'psychiatric', 'mental health', 'psych']
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'with', 'who', 'years', 'year', 'experience', 'looking', 'find', 'me'
+]);
+
+// Field weights applied to term frequencies (a simple BM25F)
+const FIELD_WEIGHTS = { jobTitle: 3, skills: 2, summary: 1, education: 1 };
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Abbreviations that are also everyday words only count when written in capitals ("OR nurse", not "or")
+const CASE_SENSITIVE_ABBREVIATIONS = new Set(['or', 'er', 'ed', 'ob', 'ot', 'pt']);
+
+const buildPattern = (phrases: string[], flags: string): RegExp | null =>
+  phrases.length > 0
+    ? new RegExp(`(^|[^a-zA-Z0-9&])(${phrases.map(escapeRegExp).join('|')})(?=$|[^a-zA-Z0-9&])`, flags)
+    : null;
+
+const CONCEPT_PATTERNS = CONCEPT_SYNONYMS.map(group => ({
+  token: `concept:${group[0].replace(/\s+/g, '_')}`,
+  pattern: buildPattern(group.filter(phrase => !CASE_SENSITIVE_ABBREVIATIONS.has(phrase)), 'i'),
+  abbreviationPattern: buildPattern(group.filter(phrase => CASE_SENSITIVE_ABBREVIATIONS.has(phrase)).map(phrase => phrase.toUpperCase()), '')
+}));
+
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Splits text into normalized terms, adding a concept token for every synonym group it mentions
+ */
+export function analyzeText(text: string): string[] {
+  if (!text || typeof text !== 'string') return [];
+
+  const lower = text.toLowerCase();
+  const terms = lower
+    .split(/[^a-z0-9&+#]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+
+  CONCEPT_PATTERNS.forEach(({ token, pattern, abbreviationPattern }) => {
+    if (pattern?.test(text) || abbreviationPattern?.test(text)) terms.push(token);
+  });
+
+  return terms;
+}
+
+const candidateSignature = (candidate: Candidate): string =>
+  [candidate.jobTitle, (candidate.skills || []).join('|'), candidate.summary, candidate.education].join('\u0000');
+
+export class SemanticIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private revision = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // Bumped on every change, so callers can tell when cached scores are stale
+  get version(): number {
+    return this.revision;
+  }
+
+  /**
+   * Adds or refreshes candidates. Candidates whose indexed fields have not changed are skipped.
+   */
+  upsert(candidates: Candidate[]): number {
+    let changed = 0;
+
+    candidates.forEach(candidate => {
+      if (!candidate?.id) return;
+
+      const signature = candidateSignature(candidate);
+      if (this.documents.get(candidate.id)?.signature === signature) return;
+
+      this.remove(candidate.id);
+
+      const termFrequencies = new Map<string, number>();
+      let length = 0;
+      (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).forEach(field => {
+        const value = field === 'skills' ? (candidate.skills || []).join(', ') : candidate[field];
+        analyzeText(value).forEach(term => {
+          termFrequencies.set(term, (termFrequencies.get(term) || 0) + FIELD_WEIGHTS[field]);
+          length += FIELD_WEIGHTS[field];
+        });
+      });
+
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+      this.documents.set(candidate.id, { signature, termFrequencies, length });
+      this.totalLength += length;
+      this.revision++;
+      changed++;
+    });
+
+    return changed;
+  }
+
+  remove(candidateId: string): void {
+    const document = this.documents.get(candidateId);
+    if (!document) return;
+
+    document.termFrequencies.forEach((_, term) => {
+      const frequency = (this.documentFrequencies.get(term) || 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequencies.set(term, frequency);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    });
+    this.totalLength -= document.length;
+    this.documents.delete(candidateId);
+    this.revision++;
+  }
+
+  /**
+   * Drops every indexed candidate, e.g. when switching to another project's pool
+   */
+  clear(): void {
+    this.documents.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+    this.revision++;
+  }
+
+  /**
+   * Scores indexed candidates against a free-text query. Only candidates with some
+   * relevance are returned, best first; `restrictTo` limits scoring to a subset of ids.
+   */
+  search(query: string, restrictTo?: Set<string>): SemanticMatch[] {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const idf = (term: string) => {
+      const frequency = this.documentFrequencies.get(term) || 0;
+      return Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+    };
+    const queryNorm = Math.sqrt(queryTerms.reduce((sum, term) => sum + idf(term) ** 2, 0)) || 1;
+
+    const scored: { candidateId: string; bm25: number; cosine: number }[] = [];
+    this.documents.forEach((document, candidateId) => {
+      if (restrictTo && !restrictTo.has(candidateId)) return;
+
+      let bm25 = 0;
+      let dot = 0;
+      queryTerms.forEach(term => {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) return;
+
+        const termIdf = idf(term);
+        bm25 += termIdf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+        dot += termIdf * frequency * termIdf;
+      });
+      if (bm25 === 0) return;
+
+      let documentNorm = 0;
+      document.termFrequencies.forEach((frequency, term) => {
+        documentNorm += (frequency * idf(term)) ** 2;
+      });
+      scored.push({ candidateId, bm25, cosine: dot / (queryNorm * Math.sqrt(documentNorm || 1)) });
+    });
+
+    // Blend BM25 (normalized to the best match) with TF-IDF cosine similarity
+    const maxBm25 = Math.max(...scored.map(item => item.bm25), 0) || 1;
+    return scored
+      .map(item => ({ candidateId: item.candidateId, score: 0.5 * (item.bm25 / maxBm25) + 0.5 * Math.min(1, item.cosine) }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+// Shared index for the current project's candidates; kept current by bulkCreateCandidates and the
+// search stages, and cleared by resetCandidateIndex when project data is reloaded
+export const candidateIndex = new SemanticIndex();
+
+/**
+ * Empties the shared index so another project's candidates (and their term frequencies) do
+ * not leak into scores. Candidates are re-indexed the next time they are searched.
+ */
+export function resetCandidateIndex(): void {
+  if (candidateIndex.size === 0) return;
+  candidateIndex.clear();
+  console.log('🧠 Semantic index: cleared');
+}
+
+/**
+ * Adds candidates to the shared index, returning how many were new or changed
+ */
+export function indexCandidates(candidates: Candidate[]): number {
+  const changed = candidateIndex.upsert(candidates);
+  if (changed > 0) {
+    console.log(`🧠 Semantic index: indexed ${changed} candidates (${candidateIndex.size} total)`);
+  }
+  return changed;
+}
+
+/**
+ * Returns the text a search query should be matched on semantically
+ */
+export function getSemanticQueryText(searchQuery: SearchQuery): string {
+  const { extractedEntities, clauses } = searchQuery;
+  const parts = clauses ? getPositiveTermValues(clauses) : [getEnglishQueryText(searchQuery)];
+  return [
+    ...parts,
+    ...(extractedEntities.jobTitles || []),
+    ...(extractedEntities.skills || [])
+  ].join(' ');
+}
+
+/**
+ * Scores a candidate pool against a search query using the shared index
+ */
+export function semanticSearch(candidates: Candidate[], searchQuery: SearchQuery): SemanticMatch[] {
+  indexCandidates(candidates);
+  return candidateIndex.search(getSemanticQueryText(searchQuery), new Set(candidates.map(candidate => candidate.id)));
+}
+
+const scoreCache = new WeakMap<SearchQuery, { version: number; candidateIds?: Set<string>; scores: Map<string, number> }>();
+
+/**
+ * Returns semantic scores (0-1) for the indexed candidates relevant to a query, cached per query
+ * and pool. `candidateIds` limits scoring to the pool being ranked, as in semanticSearch.
+ */
+export function getSemanticScores(searchQuery: SearchQuery, candidateIds?: Set<string>): Map<string, number> {
+  const cached = scoreCache.get(searchQuery);
+  if (cached && cached.version === candidateIndex.version && cached.candidateIds === candidateIds) return cached.scores;
+
+  const matches = candidateIndex.search(getSemanticQueryText(searchQuery), candidateIds);
+  const scores = new Map(matches.map(match => [match.candidateId, match.score]));
+  scoreCache.set(searchQuery, { version: candidateIndex.version, candidateIds, scores });
+  return scores;
+}
@@ -0,0 +1,46 @@
+import { Candidate, SearchQuery } from '../types';
+import { resolveLocation } from './geo';
+
+// "More like this": a search built from a candidate's own profile. Title, experience band and
+// area become hard filters; skills only score, so similar people with partly different skills
+// still rank. The profile text also drives semantic retrieval through the query text.
+
+export const SIMILAR_RADIUS_MILES = 50;
+
+const MAX_SIMILAR_SKILLS = 6;
+
+// Years of experience either side of the candidate's own
+const SIMILAR_EXPERIENCE_SPREAD = 3;
+
+/**
+ * Search criteria for candidates similar to the given one. The candidate itself and the
+ * excluded ids (e.g. already shortlisted candidates) never appear in the results.
+ */
+export function buildSimilarCandidateQuery(candidate: Candidate, excludeCandidateIds: string[] = []): SearchQuery {
+  const skills = (candidate.skills || []).filter(skill => typeof skill === 'string' && skill.trim()).slice(0, MAX_SIMILAR_SKILLS);
+  const hasLocation = !!candidate.location && candidate.location !== 'Unknown';
+  const experience = candidate.experience || 0;
+
+  const queryParts = [candidate.jobTitle];
+  if (skills.length > 0) queryParts.push(`with ${skills.join(', ')}`);
+  if (hasLocation) queryParts.push(`near ${candidate.location}`);
+
+  return {
+    originalQuery: queryParts.join(' '),
+    extractedEntities: {
+      jobTitles: candidate.jobTitle && candidate.jobTitle !== 'Unknown' ? [candidate.jobTitle] : [],
+      locations: hasLocation ? [candidate.location] : [],
+      // Gazetteer locations widen to a radius; others fall back to matching the location text
+      locationRadius: hasLocation && resolveLocation(candidate.location)
+        ? { center: candidate.location, miles: SIMILAR_RADIUS_MILES }
+        : undefined,
+      experienceRange: {
+        min: Math.max(0, experience - SIMILAR_EXPERIENCE_SPREAD),
+        max: experience + SIMILAR_EXPERIENCE_SPREAD
+      },
+      skills,
+      industries: candidate.industry ? [candidate.industry] : []
+    },
+    excludeCandidateIds: Array.from(new Set([candidate.id, ...excludeCandidateIds]))
+  };
+}
@@ -0,0 +1,168 @@
+import { readZipEntries } from './zip';
+
+// Reads candidate spreadsheets in the browser without a spreadsheet library: CSV/TSV are parsed
+// directly, and XLSX (a zip of XML parts) is unzipped by utils/zip.ts and read with DOMParser.
+// Only the first worksheet is read, and every cell comes back as text.
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][]; // padded to the number of headers
+  rowNumbers: number[]; // spreadsheet row of each data row, the first row being 1
+  sheetName?: string; // XLSX only
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter used most often outside quotes in the first line
+ */
+const detectDelimiter = (text: string): string => {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  return CSV_DELIMITERS.reduce((best, delimiter) => ((counts.get(delimiter) || 0) > (counts.get(best) || 0) ? delimiter : best));
+};
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, line breaks and doubled quotes. The
+ * delimiter (comma, semicolon or tab) is detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Text of a shared string or inline string, skipping phonetic guides
+const getStringText = (element: Element) =>
+  Array.from(element.getElementsByTagName('t'))
+    .filter(t => t.parentElement?.tagName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+// "AB12" -> 27 (zero-based column index)
+const getColumnIndex = (reference: string) =>
+  reference.replace(/\d+$/, '').toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Rows of the first worksheet of an XLSX workbook. Dates stay as Excel serial numbers unless
+ * the cell holds text.
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<{ rows: string[][]; sheetName?: string }> {
+  const parts = await readZipEntries(buffer, name => name === 'xl/workbook.xml' || name === 'xl/_rels/workbook.xml.rels' || name === 'xl/sharedStrings.xml');
+
+  const workbook = parts.get('xl/workbook.xml');
+  const firstSheet = workbook ? parseXml(workbook).getElementsByTagName('sheet')[0] : undefined;
+  const relationshipId = firstSheet?.getAttribute('r:id');
+  const relationships = parts.get('xl/_rels/workbook.xml.rels');
+  const target = relationships && relationshipId
+    ? Array.from(parseXml(relationships).getElementsByTagName('Relationship')).find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target')
+    : null;
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+
+  const sheet = (await readZipEntries(buffer, name => name === sheetPath)).get(sheetPath);
+  if (!sheet) throw new Error('The workbook has no readable worksheet');
+
+  const sharedStringsXml = parts.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map(getStringText) : [];
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(parseXml(sheet).getElementsByTagName('row'))) {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const column = reference ? getColumnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      let text = value;
+      if (type === 's') text = sharedStrings[Number(value)] || '';
+      else if (type === 'inlineStr') text = getStringText(cell);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      while (row.length < column) row.push('');
+      row[column] = text;
+    });
+    // Keep blank rows in place so row numbers match the spreadsheet
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+
+  return { rows, sheetName: firstSheet?.getAttribute('name') || undefined };
+}
+
+/**
+ * Header row and data rows of a CSV, TSV or XLSX file. The header is the first non-blank row;
+ * blank rows after it are dropped.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  console.log('📄 Reading spreadsheet:', file.name);
+
+  let rows: string[][];
+  let sheetName: string | undefined;
+  if (extension === 'xlsx') {
+    ({ rows, sheetName } = await parseXlsx(await file.arrayBuffer()));
+  } else if (extension === 'xls') {
+    throw new Error('Legacy .xls files are not supported. Save the sheet as .xlsx or CSV and try again.');
+  } else {
+    rows = parseCsv(await file.text());
+  }
+
+  const isBlank = (row: string[]) => row.every(cell => !cell || !cell.trim());
+  const headerIndex = rows.findIndex(row => !isBlank(row));
+  if (headerIndex < 0) throw new Error('The file has no rows');
+
+  const headers = rows[headerIndex].map((header, index) => (header || '').trim() || `Column ${index + 1}`);
+  const dataRows: string[][] = [];
+  const rowNumbers: number[] = [];
+  rows.forEach((row, index) => {
+    if (index <= headerIndex || isBlank(row)) return;
+    dataRows.push(headers.map((_, column) => (row[column] || '').trim()));
+    rowNumbers.push(index + 1);
+  });
+
+  console.log(`✅ Read ${dataRows.length} rows with ${headers.length} columns`);
+  return { headers, rows: dataRows, rowNumbers, sheetName };
+}
@@ -1,47 +1,102 @@
-import { Candidate, SearchQuery, CandidateMatch, MatchExplanation } from '../types';
-import { searchCandidates } from './searchUtils';
+import { SearchQuery, CandidateMatch, RankingPipelineConfig } from '../types';
+import { calculateMatchWithAI } from './searchUtils';
+import { runRankingPipeline, applyScoringStages, getAIRerankBudget } from './rankingPipeline';
+import { CandidatePool, resolveCandidatePool } from './candidateSource';
+import { DEFAULT_RANKING_PIPELINE } from '../config/ranking';
+
+// Candidates scored by the AI at the same time
+const STREAM_CONCURRENCY = 3;
+
+export interface ExplanationStreamHandlers {
+  onToken: (candidateId: string, partialExplanation: string) => void;
+  onComplete: (match: CandidateMatch) => void; // AI-scored match with the ranking boosts applied
+  onError?: (candidateId: string) => void;
+}
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
 
 /**
- * Streaming search that provides real-time updates as candidates are processed
+ * Re-scores the top matches within the AI budget, streaming each explanation as the model
+ * writes it. Stops early when the signal is aborted; matches not yet scored keep their
+ * basic scores. Returns every match, best first.
+ */
+export async function streamMatchExplanations(
+  matches: CandidateMatch[],
+  searchQuery: SearchQuery,
+  rankingConfig: RankingPipelineConfig,
+  handlers: ExplanationStreamHandlers,
+  signal?: AbortSignal
+): Promise<CandidateMatch[]> {
+  const updatedMatches = [...matches];
+  const aiCount = Math.min(getAIRerankBudget(rankingConfig), updatedMatches.length);
+  const poolIds = new Set(matches.map(match => match.candidate.id));
+
+  for (let i = 0; i < aiCount && !signal?.aborted; i += STREAM_CONCURRENCY) {
+    const batch = updatedMatches.slice(i, Math.min(i + STREAM_CONCURRENCY, aiCount));
+    console.log(`📦 Streaming AI batch ${Math.floor(i / STREAM_CONCURRENCY) + 1}/${Math.ceil(aiCount / STREAM_CONCURRENCY)} (${batch.length} candidates)`);
+
+    await Promise.all(batch.map(async (match, index) => {
+      const { candidate } = match;
+      try {
+        const explanation = await calculateMatchWithAI(candidate, searchQuery, i + index + 1, {
+          onToken: text => handlers.onToken(candidate.id, text),
+          signal
+        });
+        const scored = { ...applyScoringStages({ candidate, explanation }, searchQuery, rankingConfig, poolIds), streamingExplanation: undefined };
+        updatedMatches[i + index] = scored;
+        handlers.onComplete(scored);
+      } catch (error) {
+        if (!isAbortError(error) && !signal?.aborted) {
+          console.log(`⚠️ AI analysis failed for ${candidate.name}, keeping basic score`);
+        }
+        updatedMatches[i + index] = { ...match, streamingExplanation: undefined };
+        handlers.onError?.(candidate.id);
+      }
+    }));
+  }
+
+  if (signal?.aborted) {
+    console.log('🛑 AI analysis cancelled');
+  }
+  return updatedMatches.sort((a, b) => b.explanation.score - a.explanation.score);
+}
+
+/**
+ * Streaming search: basic-scored matches are reported immediately, then updated as the AI
+ * explanations stream in for the candidates within the AI budget
  */
 export async function searchCandidatesWithStreaming(
-  candidates: Candidate[],
+  pool: CandidatePool,
   searchQuery: SearchQuery,
-  onUpdate: (matches: CandidateMatch[]) => void
+  onUpdate: (matches: CandidateMatch[]) => void,
+  rankingConfig: RankingPipelineConfig = DEFAULT_RANKING_PIPELINE,
+  signal?: AbortSignal
 ): Promise<CandidateMatch[]> {
   console.log('🔄 Starting streaming search...');
-  
-  // Validate inputs
-  if (!candidates || !Array.isArray(candidates)) {
-    console.error('❌ Invalid candidates array:', candidates);
-    return [];
-  }
 
   if (!searchQuery || !searchQuery.originalQuery) {
     console.error('❌ Invalid search query:', searchQuery);
     return [];
   }
 
-  // Use the existing search function but with streaming updates
-  const allMatches = await searchCandidates(candidates, searchQuery, onUpdate);
-  
-  // Simulate streaming by sending updates in batches
-  const batchSize = 5;
-  const streamingMatches: CandidateMatch[] = [];
-  
-  for (let i = 0; i < allMatches.length; i += batchSize) {
-    const batch = allMatches.slice(i, i + batchSize);
-    streamingMatches.push(...batch);
-    
-    // Send update with current matches
-    onUpdate([...streamingMatches]);
-    
-    // Small delay to simulate streaming
-    if (i + batchSize < allMatches.length) {
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-  }
-  
-  console.log('✅ Streaming search completed with', streamingMatches.length, 'total matches');
-  return streamingMatches;
-}
\ No newline at end of file
+  const candidates = await resolveCandidatePool(pool, searchQuery);
+  const aiBudget = getAIRerankBudget(rankingConfig);
+  let current: CandidateMatch[] = (await runRankingPipeline(candidates, searchQuery, rankingConfig, { skipKinds: ['rerank'] }))
+    .map((match, index) => (index < aiBudget ? { ...match, streamingExplanation: 'Analyzing...' } : match));
+  onUpdate(current);
+
+  const update = (candidateId: string, change: (match: CandidateMatch) => CandidateMatch) => {
+    if (signal?.aborted) return;
+    current = current.map(match => (match.candidate.id === candidateId ? change(match) : match));
+    onUpdate(current);
+  };
+
+  const finalMatches = await streamMatchExplanations(current, searchQuery, rankingConfig, {
+    onToken: (candidateId, text) => update(candidateId, match => ({ ...match, streamingExplanation: text })),
+    onComplete: scored => update(scored.candidate.id, () => scored),
+    onError: candidateId => update(candidateId, match => ({ ...match, streamingExplanation: undefined }))
+  }, signal);
+
+  console.log('✅ Streaming search completed with', finalMatches.length, 'total matches');
+  return finalMatches;
+}
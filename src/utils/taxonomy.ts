@@ -0,0 +1,185 @@
+import { Project } from '../lib/supabase';
+import { Taxonomy, TaxonomyCategory, TaxonomyEntry } from '../types';
+import { HEALTHCARE_TAXONOMY } from '../data/healthcareTaxonomy';
+
+// Per-project additions stored in projects.settings.taxonomy. An entry with an existing id
+// adds synonyms to that entry; an entry with a new id is added to the taxonomy.
+export interface TaxonomyExtension {
+  baseVersion?: string; // base taxonomy version the extension was saved against
+  entries: TaxonomyEntry[];
+}
+
+export const TAXONOMY_CATEGORY_LABELS: Record<TaxonomyCategory, string> = {
+  title: 'Job Titles',
+  specialty: 'Specialties',
+  unit: 'Units',
+  certification: 'Certifications',
+  license: 'Licenses',
+  skill: 'Skills'
+};
+
+// Abbreviations that are also everyday words only count when written in capitals ("OR nurse", not "or")
+const CASE_SENSITIVE_ABBREVIATIONS = new Set(['or', 'er', 'ed', 'ob', 'ot', 'pt', 'pa', 'ma', 'mt', 'rt', 'tele']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (phrases: string[], flags: string): RegExp | null =>
+  phrases.length > 0
+    ? new RegExp(`(^|[^a-zA-Z0-9&/-])(${phrases.map(escapeRegExp).join('|')})(?=$|[^a-zA-Z0-9&/-])`, flags)
+    : null;
+
+interface CompiledEntry {
+  entry: TaxonomyEntry;
+  pattern: RegExp | null;
+  abbreviationPattern: RegExp | null;
+}
+
+const compiledCache = new WeakMap<Taxonomy, { compiled: CompiledEntry[]; byTerm: Map<string, TaxonomyEntry> }>();
+
+const compile = (taxonomy: Taxonomy) => {
+  const cached = compiledCache.get(taxonomy);
+  if (cached) return cached;
+
+  const byTerm = new Map<string, TaxonomyEntry>();
+  const compiled = taxonomy.entries.map(entry => {
+    const phrases = [entry.label, ...entry.synonyms].filter(Boolean);
+    phrases.forEach(phrase => {
+      const key = phrase.toLowerCase();
+      if (!byTerm.has(key)) byTerm.set(key, entry);
+    });
+    // Longest phrases first so "ICU Nurse" style alternations prefer the full phrase
+    const sorted = [...phrases].sort((a, b) => b.length - a.length);
+    return {
+      entry,
+      pattern: buildPattern(sorted.filter(phrase => !CASE_SENSITIVE_ABBREVIATIONS.has(phrase.toLowerCase())), 'i'),
+      abbreviationPattern: buildPattern(sorted.filter(phrase => CASE_SENSITIVE_ABBREVIATIONS.has(phrase.toLowerCase())).map(phrase => phrase.toUpperCase()), '')
+    };
+  });
+
+  const result = { compiled, byTerm };
+  compiledCache.set(taxonomy, result);
+  return result;
+};
+
+/**
+ * Merges a project's taxonomy extension into the base healthcare taxonomy
+ */
+export function getProjectTaxonomy(projectSettings?: Project['settings']): Taxonomy {
+  const extension: TaxonomyExtension | undefined = projectSettings?.taxonomy;
+  if (!extension || !Array.isArray(extension.entries) || extension.entries.length === 0) {
+    return HEALTHCARE_TAXONOMY;
+  }
+
+  const entries = HEALTHCARE_TAXONOMY.entries.map(entry => ({ ...entry, synonyms: [...entry.synonyms] }));
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+
+  extension.entries.forEach(addition => {
+    if (!addition?.id) return;
+    const existing = byId.get(addition.id);
+    const synonyms = (addition.synonyms || []).map(synonym => synonym.trim()).filter(Boolean);
+    if (existing) {
+      synonyms.forEach(synonym => {
+        if (!existing.synonyms.some(current => current.toLowerCase() === synonym.toLowerCase())) {
+          existing.synonyms.push(synonym);
+        }
+      });
+    } else if (addition.label?.trim() && addition.category) {
+      const entry = { id: addition.id, category: addition.category, label: addition.label.trim(), synonyms };
+      entries.push(entry);
+      byId.set(entry.id, entry);
+    }
+  });
+
+  return { version: `${HEALTHCARE_TAXONOMY.version}+project`, entries };
+}
+
+// Taxonomy used by extraction and matching; App swaps in the current project's taxonomy
+let activeTaxonomy: Taxonomy = HEALTHCARE_TAXONOMY;
+
+export const setActiveTaxonomy = (taxonomy: Taxonomy) => {
+  activeTaxonomy = taxonomy;
+};
+
+export const getActiveTaxonomy = (): Taxonomy => activeTaxonomy;
+
+/**
+ * Entries whose label or synonyms appear in the text, in taxonomy order
+ */
+export function findTaxonomyEntries(text: string, categories?: TaxonomyCategory[], taxonomy: Taxonomy = activeTaxonomy): TaxonomyEntry[] {
+  if (!text || typeof text !== 'string') return [];
+
+  return compile(taxonomy).compiled
+    .filter(({ entry }) => !categories || categories.includes(entry.category))
+    .filter(({ pattern, abbreviationPattern }) => pattern?.test(text) || abbreviationPattern?.test(text))
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Rewrites of the text with each mentioned taxonomy phrase swapped for its synonyms,
+ * e.g. "ER Nurse" -> "Emergency Department Nurse", "Emergency Room Nurse", ...
+ */
+export function getSynonymVariants(text: string, categories?: TaxonomyCategory[], taxonomy: Taxonomy = activeTaxonomy): string[] {
+  if (!text || typeof text !== 'string') return [];
+
+  const variants = new Set<string>();
+  compile(taxonomy).compiled
+    .filter(({ entry }) => !categories || categories.includes(entry.category))
+    .forEach(({ entry, pattern, abbreviationPattern }) => {
+      const match = pattern?.exec(text) || abbreviationPattern?.exec(text);
+      if (!match) return;
+      const start = match.index + match[1].length;
+      const end = start + match[2].length;
+      [entry.label, ...entry.synonyms].forEach(phrase => {
+        variants.add(`${text.slice(0, start)}${phrase}${text.slice(end)}`.trim());
+      });
+    });
+
+  variants.delete(text);
+  return Array.from(variants);
+}
+
+/**
+ * The entry a term names exactly (label or synonym, case-insensitive), if any
+ */
+export function getTaxonomyEntry(term: string, taxonomy: Taxonomy = activeTaxonomy): TaxonomyEntry | undefined {
+  if (!term || typeof term !== 'string') return undefined;
+  return compile(taxonomy).byTerm.get(term.trim().toLowerCase());
+}
+
+/**
+ * A term plus every synonym of its taxonomy entry, e.g. "RN" -> Registered Nurse, Staff Nurse, ...
+ */
+export function expandTerm(term: string, taxonomy: Taxonomy = activeTaxonomy): string[] {
+  const entry = getTaxonomyEntry(term, taxonomy);
+  if (!entry) return [term];
+  return Array.from(new Set([term, entry.label, ...entry.synonyms]));
+}
+
+/**
+ * Every phrase textMatchesTerm accepts for a term: its own synonyms plus those of related entries
+ */
+export function expandTermWithRelated(term: string, taxonomy: Taxonomy = activeTaxonomy): string[] {
+  const entry = getTaxonomyEntry(term, taxonomy);
+  if (!entry) return [term];
+
+  const phrases = new Set([term]);
+  taxonomy.entries
+    .filter(item => item === entry || entry.related?.includes(item.id) || item.related?.includes(entry.id))
+    .forEach(item => [item.label, ...item.synonyms].forEach(phrase => phrases.add(phrase)));
+  return Array.from(phrases);
+}
+
+/**
+ * Whether the text mentions the term or any of its taxonomy synonyms
+ */
+export function textMatchesTerm(text: string, term: string, taxonomy: Taxonomy = activeTaxonomy): boolean {
+  if (!text || !term) return false;
+  if (text.toLowerCase().includes(term.toLowerCase())) return true;
+
+  const entry = getTaxonomyEntry(term, taxonomy);
+  if (!entry) return false;
+  // Related entries count in both directions (ICU unit <-> Critical Care specialty)
+  return compile(taxonomy).compiled
+    .filter(item => item.entry === entry || entry.related?.includes(item.entry.id) || item.entry.related?.includes(entry.id))
+    .some(item => item.pattern?.test(text) || item.abbreviationPattern?.test(text));
+}
@@ -0,0 +1,22 @@
+import JSZip from 'jszip';
+
+// Reads the XML parts of Office Open XML files (XLSX, DOCX) with JSZip.
+
+/**
+ * Text of the named zip entries that exist in the archive
+ */
+export const readZipEntries = async (buffer: ArrayBuffer, names: (name: string) => boolean): Promise<Map<string, string>> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error('The file is not a valid zip archive (XLSX or DOCX)');
+  }
+
+  const entries = new Map<string, string>();
+  const files = Object.values(zip.files).filter(file => !file.dir && names(file.name));
+  for (const file of files) {
+    entries.set(file.name, await file.async('string'));
+  }
+  return entries;
+};
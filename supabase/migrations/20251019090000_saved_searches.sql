@@ -0,0 +1,65 @@
+/*
+  # Add saved searches with new-match alerts
+
+  1. New Tables
+    - `saved_searches`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `project_id` (uuid, references projects)
+      - `name` (text) - recruiter-facing name for the standing search
+      - `query` (text) - original query text
+      - `extracted_entities` (jsonb) - criteria the search re-runs with
+      - `clauses` (jsonb) - boolean query clauses, for fielded queries
+      - `last_result_ids` (jsonb) - candidate ids returned by the last run
+      - `new_match_ids` (jsonb) - candidate ids not yet seen by the recruiter
+      - `last_run_at` (timestamptz)
+      - `digest_enabled` (boolean) - include in the daily digest
+      - `last_digest_at` (timestamptz)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `saved_searches`
+    - Users can only read and modify their own saved searches
+*/
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  query text NOT NULL,
+  extracted_entities jsonb DEFAULT '{}'::jsonb,
+  clauses jsonb,
+  last_result_ids jsonb DEFAULT '[]'::jsonb,
+  new_match_ids jsonb DEFAULT '[]'::jsonb,
+  last_run_at timestamptz,
+  digest_enabled boolean DEFAULT false,
+  last_digest_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS saved_searches_user_project_idx ON saved_searches(user_id, project_id);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own saved searches"
+  ON saved_searches FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved searches"
+  ON saved_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches"
+  ON saved_searches FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches"
+  ON saved_searches FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,18 @@
+/*
+  # Add cache key to searches
+
+  1. Schema Changes
+    - Add `cache_key` (text) to `searches`: hash of the normalized search criteria, the
+      candidate pool fingerprint and the AI/ranking configuration (see src/utils/searchCache.ts)
+    - Index `(project_id, cache_key)` for cache lookups
+
+  2. Security
+    - No changes to RLS policies needed
+
+  3. Notes
+    - Existing rows keep a NULL cache key and are never returned as cache hits
+*/
+
+ALTER TABLE searches ADD COLUMN IF NOT EXISTS cache_key text;
+
+CREATE INDEX IF NOT EXISTS searches_project_cache_key_idx ON searches(project_id, cache_key);
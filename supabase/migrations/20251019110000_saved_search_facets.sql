@@ -0,0 +1,16 @@
+/*
+  # Add facet selections to saved searches
+
+  1. Schema Changes
+    - Add `facets` (jsonb) to `saved_searches`: facet sidebar selections (location, availability,
+      industry, education level, experience, source, last active) applied on top of the search
+      results, keyed by facet (see src/utils/facets.ts)
+
+  2. Security
+    - No changes to RLS policies needed
+
+  3. Notes
+    - Existing saved searches keep a NULL value and run unrefined
+*/
+
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS facets jsonb;
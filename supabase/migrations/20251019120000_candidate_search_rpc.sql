@@ -0,0 +1,122 @@
+/*
+  # Server-side candidate filtering
+
+  1. Extensions
+    - `pg_trgm` for fuzzy/substring job title matching
+
+  2. Schema Changes
+    - Add `search_vector` (tsvector) to `candidates`: weighted full-text document over job title (A),
+      skills (B), summary/industry/education (C) and location (D)
+    - Add `skill_tokens` (text[]) to `candidates`: lowercased skills plus their individual words,
+      so "ACLS" is contained in a candidate listing "ACLS Certification"
+    - Both columns are maintained by a trigger and backfilled for existing rows
+    - GIN indexes on `search_vector`, `skill_tokens` and `job_title` (trigram), and a btree index
+      on `(project_id, experience)`
+
+  3. New Functions
+    - `search_candidates(...)` returns the candidates of a project that pass the hard filters,
+      most relevant first. Pagination and total counts come from PostgREST
+      (`.range()` with `count: 'exact'`), see `searchCandidatePool` in src/lib/supabase.ts
+
+  4. Security
+    - The function runs as the caller (SECURITY INVOKER), so the existing RLS policies on
+      `candidates` still apply
+
+  5. Notes
+    - Filters are deliberately at least as lenient as the client-side hard filters
+      (src/utils/searchUtils.ts), which still run on the returned rows, so results are unchanged
+      for pools small enough to load in full
+    - Skill filters match whole skills or whole words of a skill
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS skill_tokens text[] DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION candidates_search_fields_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.job_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.skills, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.summary, '') || ' ' || coalesce(NEW.industry, '') || ' ' || coalesce(NEW.education, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.location, '')), 'D');
+
+  NEW.skill_tokens := coalesce((
+    SELECT array_agg(DISTINCT token)
+    FROM unnest(coalesce(NEW.skills, '{}')) AS skill,
+         LATERAL unnest(array_append(regexp_split_to_array(lower(skill), '[^a-z0-9+#]+'), lower(trim(skill)))) AS token
+    WHERE token <> ''
+  ), '{}');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS candidates_search_fields_trigger ON candidates;
+CREATE TRIGGER candidates_search_fields_trigger
+  BEFORE INSERT OR UPDATE OF job_title, skills, summary, industry, education, location ON candidates
+  FOR EACH ROW EXECUTE FUNCTION candidates_search_fields_update();
+
+-- Backfill existing rows through the trigger
+UPDATE candidates SET job_title = job_title;
+
+CREATE INDEX IF NOT EXISTS candidates_search_vector_idx ON candidates USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS candidates_skill_tokens_idx ON candidates USING gin(skill_tokens);
+CREATE INDEX IF NOT EXISTS candidates_job_title_trgm_idx ON candidates USING gin(job_title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS candidates_project_experience_idx ON candidates(project_id, experience);
+
+CREATE OR REPLACE FUNCTION search_candidates(
+  p_project_id uuid,
+  p_titles text[] DEFAULT NULL,
+  p_locations text[] DEFAULT NULL,
+  p_min_experience integer DEFAULT NULL,
+  p_max_experience integer DEFAULT NULL,
+  p_industries text[] DEFAULT NULL,
+  p_skills text[] DEFAULT NULL,
+  p_text text DEFAULT NULL
+)
+RETURNS SETOF candidates
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT c.*
+  FROM candidates c
+  WHERE c.project_id = p_project_id
+    -- Any requested title: substring either way, or close trigram similarity
+    AND (
+      p_titles IS NULL OR cardinality(p_titles) = 0 OR EXISTS (
+        SELECT 1 FROM unnest(p_titles) AS title
+        WHERE c.job_title ILIKE '%' || title || '%'
+           OR title ILIKE '%' || c.job_title || '%'
+           OR similarity(c.job_title, title) > 0.4
+      )
+    )
+    AND (
+      p_locations IS NULL OR cardinality(p_locations) = 0 OR EXISTS (
+        SELECT 1 FROM unnest(p_locations) AS loc
+        WHERE c.location ILIKE '%' || loc || '%' OR loc ILIKE '%' || c.location || '%'
+      )
+    )
+    AND (p_min_experience IS NULL OR c.experience >= p_min_experience)
+    AND (p_max_experience IS NULL OR c.experience <= p_max_experience)
+    AND (
+      p_industries IS NULL OR cardinality(p_industries) = 0 OR EXISTS (
+        SELECT 1 FROM unnest(p_industries) AS ind
+        WHERE c.industry ILIKE '%' || ind || '%'
+      )
+    )
+    -- Every required skill, by whole skill or whole word
+    AND (p_skills IS NULL OR c.skill_tokens @> p_skills)
+  ORDER BY
+    CASE WHEN p_text IS NULL OR p_text = '' THEN 0
+      ELSE ts_rank(c.search_vector, websearch_to_tsquery('english', p_text)) END DESC,
+    c.last_active DESC NULLS LAST,
+    c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_candidates(uuid, text[], text[], integer, integer, text[], text[], text) TO authenticated;
@@ -0,0 +1,118 @@
+/*
+  # Duplicate candidate review and merge
+
+  1. New Tables
+    - `candidate_duplicate_dismissals`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `candidate_a_id`, `candidate_b_id` (uuid, references candidates) - the pair, smaller id first
+      - `dismissed_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - Pairs a recruiter marked as "not duplicates", so they leave the review queue
+
+  2. New Functions
+    - `merge_candidates(p_survivor_id, p_duplicate_id, p_updates)` in one transaction:
+      - applies the consolidated fields (`p_updates`, jsonb) to the surviving candidate
+      - re-points `shortlist_candidates` and `campaign_candidates` rows from the duplicate to the
+        survivor; rows that would list the survivor twice in the same shortlist or campaign are
+        dropped instead
+      - deletes the duplicate candidate
+
+  3. Security
+    - Enable RLS on `candidate_duplicate_dismissals`; users manage dismissals in their own projects
+    - `merge_candidates` runs as the caller (SECURITY INVOKER), so existing RLS on candidates,
+      shortlists and campaigns still applies
+
+  4. Notes
+    - Duplicate detection itself runs in the browser (src/utils/duplicates.ts)
+*/
+
+CREATE TABLE IF NOT EXISTS candidate_duplicate_dismissals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  candidate_a_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  candidate_b_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  dismissed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (candidate_a_id, candidate_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS candidate_duplicate_dismissals_project_idx ON candidate_duplicate_dismissals(project_id);
+
+ALTER TABLE candidate_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read dismissals in own projects"
+  ON candidate_duplicate_dismissals FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert dismissals in own projects"
+  ON candidate_duplicate_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete dismissals in own projects"
+  ON candidate_duplicate_dismissals FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_updates jsonb DEFAULT '{}'::jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  survivor candidates;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM candidates s JOIN candidates d ON d.project_id = s.project_id
+    WHERE s.id = p_survivor_id AND d.id = p_duplicate_id
+  ) THEN
+    RAISE EXCEPTION 'Both candidates must exist in the same project';
+  END IF;
+
+  UPDATE candidates SET
+    name = coalesce(p_updates->>'name', name),
+    email = coalesce(p_updates->>'email', email),
+    phone = coalesce(p_updates->>'phone', phone),
+    job_title = coalesce(p_updates->>'job_title', job_title),
+    location = coalesce(p_updates->>'location', location),
+    experience = coalesce((p_updates->>'experience')::integer, experience),
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'skills')) ELSE skills END,
+    industry = coalesce(p_updates->>'industry', industry),
+    education = coalesce(p_updates->>'education', education),
+    summary = coalesce(p_updates->>'summary', summary),
+    availability = coalesce(p_updates->>'availability', availability),
+    source = coalesce(p_updates->>'source', source),
+    last_active = coalesce((p_updates->>'last_active')::timestamptz, last_active),
+    metadata = coalesce(p_updates->'metadata', metadata),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  -- Drop memberships the survivor already has, then move the rest over
+  DELETE FROM shortlist_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM shortlist_candidates s WHERE s.shortlist_id = d.shortlist_id AND s.candidate_id = p_survivor_id);
+  UPDATE shortlist_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM campaign_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM campaign_candidates s WHERE s.campaign_id = d.campaign_id AND s.candidate_id = p_survivor_id);
+  UPDATE campaign_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM candidates WHERE id = p_duplicate_id;
+
+  SELECT * INTO survivor FROM candidates WHERE id = p_survivor_id;
+  RETURN survivor;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_candidates(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # Link shortlisted candidates to job postings
+
+  1. Schema Changes
+    - Add `job_posting_id` (uuid, references job_postings) to `shortlist_candidates`: the posting
+      a candidate was shortlisted for, set when candidates are added from a posting's matches
+      (`campaign_candidates` already has the same column)
+    - Index on `job_posting_id`
+
+  2. Security
+    - No changes to RLS policies needed
+
+  3. Notes
+    - Existing rows keep a NULL value; deleting a posting keeps the shortlist entries
+*/
+
+ALTER TABLE shortlist_candidates
+  ADD COLUMN IF NOT EXISTS job_posting_id uuid REFERENCES job_postings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS shortlist_candidates_job_posting_idx ON shortlist_candidates(job_posting_id);
@@ -0,0 +1,141 @@
+/*
+  # Relevance feedback on search results
+
+  1. New Tables
+    - `search_feedback`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users)
+      - `search_key` (text) - hash of the normalized search criteria (see utils/searchCache.ts)
+      - `query` (text) - the search as the recruiter typed it
+      - `extracted_entities` (jsonb) - the criteria the results were scored against
+      - `candidate_id` (uuid, references candidates)
+      - `vote` (text) - 'up' or 'down'
+      - `score` (integer) - the candidate's match score when rated
+      - `breakdown` (jsonb) - per-criterion points from the match explanation, if any
+      - `created_at`, `updated_at` (timestamptz)
+    - One vote per user, search and candidate; voting again replaces it
+
+  2. Changed Functions
+    - `merge_candidates(p_survivor_id, p_duplicate_id, p_updates)`: also re-points the duplicate's
+      `search_feedback` rows to the survivor; a vote that would rate the survivor twice in the same
+      search is dropped instead
+
+  3. Security
+    - Enable RLS on `search_feedback`; users manage their own feedback in their own projects
+
+  4. Notes
+    - Votes rerank the open results in the browser (src/utils/relevanceFeedback.ts)
+    - `score` and `breakdown` are kept so liked and disliked candidates can be compared per
+      criterion when tuning the weights in MATCH_CRITERION_WEIGHTS
+*/
+
+CREATE TABLE IF NOT EXISTS search_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  search_key text NOT NULL,
+  query text NOT NULL DEFAULT '',
+  extracted_entities jsonb,
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  vote text NOT NULL CHECK (vote IN ('up', 'down')),
+  score integer,
+  breakdown jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, search_key, candidate_id)
+);
+
+CREATE INDEX IF NOT EXISTS search_feedback_project_search_idx ON search_feedback(project_id, search_key);
+
+ALTER TABLE search_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own search feedback"
+  ON search_feedback FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert search feedback in own projects"
+  ON search_feedback FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own search feedback"
+  ON search_feedback FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own search feedback"
+  ON search_feedback FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_updates jsonb DEFAULT '{}'::jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  survivor candidates;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM candidates s JOIN candidates d ON d.project_id = s.project_id
+    WHERE s.id = p_survivor_id AND d.id = p_duplicate_id
+  ) THEN
+    RAISE EXCEPTION 'Both candidates must exist in the same project';
+  END IF;
+
+  UPDATE candidates SET
+    name = coalesce(p_updates->>'name', name),
+    email = coalesce(p_updates->>'email', email),
+    phone = coalesce(p_updates->>'phone', phone),
+    job_title = coalesce(p_updates->>'job_title', job_title),
+    location = coalesce(p_updates->>'location', location),
+    experience = coalesce((p_updates->>'experience')::integer, experience),
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'skills')) ELSE skills END,
+    industry = coalesce(p_updates->>'industry', industry),
+    education = coalesce(p_updates->>'education', education),
+    summary = coalesce(p_updates->>'summary', summary),
+    availability = coalesce(p_updates->>'availability', availability),
+    source = coalesce(p_updates->>'source', source),
+    last_active = coalesce((p_updates->>'last_active')::timestamptz, last_active),
+    metadata = coalesce(p_updates->'metadata', metadata),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  -- Drop memberships the survivor already has, then move the rest over
+  DELETE FROM shortlist_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM shortlist_candidates s WHERE s.shortlist_id = d.shortlist_id AND s.candidate_id = p_survivor_id);
+  UPDATE shortlist_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM campaign_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM campaign_candidates s WHERE s.campaign_id = d.campaign_id AND s.candidate_id = p_survivor_id);
+  UPDATE campaign_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  -- Votes on the duplicate count for the survivor, unless the same user already rated the
+  -- survivor in the same search
+  DELETE FROM search_feedback d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM search_feedback s WHERE s.user_id = d.user_id AND s.search_key = d.search_key AND s.candidate_id = p_survivor_id);
+  UPDATE search_feedback SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM candidates WHERE id = p_duplicate_id;
+
+  SELECT * INTO survivor FROM candidates WHERE id = p_survivor_id;
+  RETURN survivor;
+END;
+$$;
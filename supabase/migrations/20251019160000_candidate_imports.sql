@@ -0,0 +1,65 @@
+/*
+  # Candidate imports
+
+  1. New Tables
+    - `candidate_imports`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users)
+      - `file_name` (text) - the uploaded CSV or XLSX file
+      - `status` (text) - 'running', 'completed' or 'failed'
+      - `total_rows` (integer) - data rows in the file
+      - `imported_count`, `skipped_count`, `failed_count`, `warning_count` (integer)
+      - `column_mapping` (jsonb) - spreadsheet header -> candidate field
+      - `errors` (jsonb) - row-level validation and insert errors, `[{ row, message }]`
+      - `created_at`, `completed_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `candidate_imports`; users manage imports in their own projects
+
+  3. Notes
+    - Imported candidates carry `metadata.import_id`, so an import can be traced back from
+      any candidate it created
+    - Rows are written in chunks (src/utils/candidateImport.ts); a chunk the database rejects
+      is reported in `errors` and does not stop the rest of the import
+*/
+
+CREATE TABLE IF NOT EXISTS candidate_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  total_rows integer NOT NULL DEFAULT 0,
+  imported_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  warning_count integer NOT NULL DEFAULT 0,
+  column_mapping jsonb,
+  errors jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS candidate_imports_project_idx ON candidate_imports(project_id, created_at DESC);
+
+ALTER TABLE candidate_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read imports in own projects"
+  ON candidate_imports FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can create imports in own projects"
+  ON candidate_imports FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own imports"
+  ON candidate_imports FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
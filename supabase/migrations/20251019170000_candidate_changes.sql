@@ -0,0 +1,192 @@
+/*
+  # Candidate edits and change history
+
+  1. New Tables
+    - `candidate_changes`
+      - `id` (uuid, primary key)
+      - `candidate_id` (uuid, references candidates)
+      - `project_id` (uuid, references projects)
+      - `changed_by` (uuid, references auth.users)
+      - `changed_by_name` (text) - the editor's name or email at the time of the change
+      - `field` (text) - the candidate column that changed
+      - `previous_value`, `new_value` (jsonb)
+      - `created_at` (timestamptz)
+    - One row per changed field, so every correction keeps the value it replaced
+
+  2. New Functions
+    - `update_candidate(p_candidate_id, p_updates)` in one transaction:
+      - applies the edited fields (`p_updates`, jsonb); a key set to null clears an optional field
+      - records a `candidate_changes` row for each field whose value actually changed
+      - returns the updated candidate
+
+  3. Changed Functions
+    - `merge_candidates(p_survivor_id, p_duplicate_id, p_updates)`: also copies the duplicate's
+      `candidate_changes` to the survivor before the duplicate (and its history) is deleted
+
+  4. Security
+    - Enable RLS on `candidate_changes`; users read and add history in their own projects.
+      There are no update or delete policies, so history cannot be rewritten
+    - `update_candidate` runs as the caller (SECURITY INVOKER), so existing RLS on candidates
+      still applies
+
+  5. Notes
+    - `name`, `job_title` and `location` cannot be cleared
+    - Deleting a candidate deletes its history
+*/
+
+CREATE TABLE IF NOT EXISTS candidate_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_name text,
+  field text NOT NULL,
+  previous_value jsonb,
+  new_value jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS candidate_changes_candidate_idx ON candidate_changes(candidate_id, created_at DESC);
+
+ALTER TABLE candidate_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read candidate changes in own projects"
+  ON candidate_changes FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert candidate changes in own projects"
+  ON candidate_changes FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION update_candidate(
+  p_candidate_id uuid,
+  p_updates jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  previous candidates;
+  updated candidates;
+  editor_name text;
+BEGIN
+  SELECT * INTO previous FROM candidates WHERE id = p_candidate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Candidate % not found', p_candidate_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(ARRAY['name', 'job_title', 'location']) AS required(field)
+    WHERE p_updates ? required.field AND coalesce(trim(p_updates->>required.field), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Name, job title and location cannot be blank';
+  END IF;
+
+  UPDATE candidates SET
+    name = CASE WHEN p_updates ? 'name' THEN p_updates->>'name' ELSE name END,
+    email = CASE WHEN p_updates ? 'email' THEN nullif(p_updates->>'email', '') ELSE email END,
+    phone = CASE WHEN p_updates ? 'phone' THEN nullif(p_updates->>'phone', '') ELSE phone END,
+    job_title = CASE WHEN p_updates ? 'job_title' THEN p_updates->>'job_title' ELSE job_title END,
+    location = CASE WHEN p_updates ? 'location' THEN p_updates->>'location' ELSE location END,
+    experience = CASE WHEN p_updates ? 'experience' THEN coalesce((p_updates->>'experience')::integer, 0) ELSE experience END,
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(coalesce(nullif(p_updates->'skills', 'null'::jsonb), '[]'::jsonb))) ELSE skills END,
+    industry = CASE WHEN p_updates ? 'industry' THEN nullif(p_updates->>'industry', '') ELSE industry END,
+    education = CASE WHEN p_updates ? 'education' THEN nullif(p_updates->>'education', '') ELSE education END,
+    summary = CASE WHEN p_updates ? 'summary' THEN nullif(p_updates->>'summary', '') ELSE summary END,
+    availability = CASE WHEN p_updates ? 'availability' THEN p_updates->>'availability' ELSE availability END,
+    source = CASE WHEN p_updates ? 'source' THEN nullif(p_updates->>'source', '') ELSE source END,
+    metadata = CASE WHEN p_updates ? 'metadata' THEN p_updates->'metadata' ELSE metadata END,
+    updated_at = now()
+  WHERE id = p_candidate_id
+  RETURNING * INTO updated;
+
+  SELECT coalesce(nullif(full_name, ''), email) INTO editor_name FROM profiles WHERE id = auth.uid();
+
+  -- Compare the stored values, so keys sent unchanged leave no history
+  INSERT INTO candidate_changes (candidate_id, project_id, changed_by, changed_by_name, field, previous_value, new_value)
+  SELECT updated.id, updated.project_id, auth.uid(), editor_name, key, to_jsonb(previous)->key, to_jsonb(updated)->key
+  FROM jsonb_object_keys(p_updates) AS key
+  WHERE key IN ('name', 'email', 'phone', 'job_title', 'location', 'experience', 'skills', 'industry',
+                'education', 'summary', 'availability', 'source', 'metadata')
+    AND to_jsonb(previous)->key IS DISTINCT FROM to_jsonb(updated)->key;
+
+  RETURN updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_candidate(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_updates jsonb DEFAULT '{}'::jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  survivor candidates;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM candidates s JOIN candidates d ON d.project_id = s.project_id
+    WHERE s.id = p_survivor_id AND d.id = p_duplicate_id
+  ) THEN
+    RAISE EXCEPTION 'Both candidates must exist in the same project';
+  END IF;
+
+  UPDATE candidates SET
+    name = coalesce(p_updates->>'name', name),
+    email = coalesce(p_updates->>'email', email),
+    phone = coalesce(p_updates->>'phone', phone),
+    job_title = coalesce(p_updates->>'job_title', job_title),
+    location = coalesce(p_updates->>'location', location),
+    experience = coalesce((p_updates->>'experience')::integer, experience),
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'skills')) ELSE skills END,
+    industry = coalesce(p_updates->>'industry', industry),
+    education = coalesce(p_updates->>'education', education),
+    summary = coalesce(p_updates->>'summary', summary),
+    availability = coalesce(p_updates->>'availability', availability),
+    source = coalesce(p_updates->>'source', source),
+    last_active = coalesce((p_updates->>'last_active')::timestamptz, last_active),
+    metadata = coalesce(p_updates->'metadata', metadata),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  -- Drop memberships the survivor already has, then move the rest over
+  DELETE FROM shortlist_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM shortlist_candidates s WHERE s.shortlist_id = d.shortlist_id AND s.candidate_id = p_survivor_id);
+  UPDATE shortlist_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM campaign_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM campaign_candidates s WHERE s.campaign_id = d.campaign_id AND s.candidate_id = p_survivor_id);
+  UPDATE campaign_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  -- Votes on the duplicate count for the survivor, unless the same user already rated the
+  -- survivor in the same search
+  DELETE FROM search_feedback d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM search_feedback s WHERE s.user_id = d.user_id AND s.search_key = d.search_key AND s.candidate_id = p_survivor_id);
+  UPDATE search_feedback SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  -- History rows cannot be updated, so the duplicate's are copied to the survivor before the
+  -- delete below cascades to them
+  INSERT INTO candidate_changes (candidate_id, project_id, changed_by, changed_by_name, field, previous_value, new_value, created_at)
+  SELECT p_survivor_id, project_id, changed_by, changed_by_name, field, previous_value, new_value, created_at
+  FROM candidate_changes WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM candidates WHERE id = p_duplicate_id;
+
+  SELECT * INTO survivor FROM candidates WHERE id = p_survivor_id;
+  RETURN survivor;
+END;
+$$;
@@ -0,0 +1,215 @@
+/*
+  # Licenses, certifications and work history on candidates
+
+  1. Schema Changes
+    - Add to `candidates` (jsonb arrays, default empty):
+      - `licenses` - `[{ type, state, number, compact, expiresOn }]`, e.g. an RN license issued
+        by TX under the Nurse Licensure Compact
+      - `certifications` - `[{ name, issuer, expiresOn }]`, e.g. ACLS from the American Heart
+        Association
+      - `work_history` - `[{ title, employer, location, startDate, endDate, current }]`, most
+        recent first
+    - Dates are ISO strings: `YYYY-MM-DD` for expiry dates, `YYYY-MM` for employment dates
+
+  2. Changed Functions
+    - `candidates_search_fields_update()`: certification names and license names ("RN License",
+      "Compact License") are indexed with the skills in `search_vector` and `skill_tokens`, so
+      server-side filtering and ranking see credentials that are not listed as skills
+    - `update_candidate(p_candidate_id, p_updates)`: also edits `licenses`, `certifications` and
+      `work_history`, with change history
+    - `merge_candidates(p_survivor_id, p_duplicate_id, p_updates)`: also applies consolidated
+      `licenses`, `certifications` and `work_history`; still moves search feedback and change
+      history to the survivor
+
+  3. Security
+    - No policy changes; both functions still run as the caller
+
+  4. Notes
+    - Credential validity ("active compact license", "ACLS valid through 2027") is checked by the
+      client-side hard filters (src/utils/credentials.ts), which run on every returned row
+*/
+
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS licenses jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(licenses) = 'array');
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS certifications jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(certifications) = 'array');
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS work_history jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(work_history) = 'array');
+
+CREATE OR REPLACE FUNCTION candidates_search_fields_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  credential_names text[];
+  searchable_skills text[];
+BEGIN
+  credential_names := ARRAY(
+    SELECT item->>'name' FROM jsonb_array_elements(coalesce(NEW.certifications, '[]'::jsonb)) AS item
+    WHERE coalesce(item->>'name', '') <> ''
+    UNION ALL
+    SELECT (item->>'type') || ' License' FROM jsonb_array_elements(coalesce(NEW.licenses, '[]'::jsonb)) AS item
+    WHERE coalesce(item->>'type', '') <> ''
+    UNION ALL
+    SELECT 'Compact License' FROM jsonb_array_elements(coalesce(NEW.licenses, '[]'::jsonb)) AS item
+    WHERE coalesce((item->>'compact')::boolean, false)
+  );
+  searchable_skills := coalesce(NEW.skills, '{}') || credential_names;
+
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.job_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(searchable_skills, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.summary, '') || ' ' || coalesce(NEW.industry, '') || ' ' || coalesce(NEW.education, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.location, '')), 'D');
+
+  NEW.skill_tokens := coalesce((
+    SELECT array_agg(DISTINCT token)
+    FROM unnest(searchable_skills) AS skill,
+         LATERAL unnest(array_append(regexp_split_to_array(lower(skill), '[^a-z0-9+#]+'), lower(trim(skill)))) AS token
+    WHERE token <> ''
+  ), '{}');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS candidates_search_fields_trigger ON candidates;
+CREATE TRIGGER candidates_search_fields_trigger
+  BEFORE INSERT OR UPDATE OF job_title, skills, summary, industry, education, location, licenses, certifications ON candidates
+  FOR EACH ROW EXECUTE FUNCTION candidates_search_fields_update();
+
+CREATE OR REPLACE FUNCTION update_candidate(
+  p_candidate_id uuid,
+  p_updates jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  previous candidates;
+  updated candidates;
+  editor_name text;
+BEGIN
+  SELECT * INTO previous FROM candidates WHERE id = p_candidate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Candidate % not found', p_candidate_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(ARRAY['name', 'job_title', 'location']) AS required(field)
+    WHERE p_updates ? required.field AND coalesce(trim(p_updates->>required.field), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Name, job title and location cannot be blank';
+  END IF;
+
+  UPDATE candidates SET
+    name = CASE WHEN p_updates ? 'name' THEN p_updates->>'name' ELSE name END,
+    email = CASE WHEN p_updates ? 'email' THEN nullif(p_updates->>'email', '') ELSE email END,
+    phone = CASE WHEN p_updates ? 'phone' THEN nullif(p_updates->>'phone', '') ELSE phone END,
+    job_title = CASE WHEN p_updates ? 'job_title' THEN p_updates->>'job_title' ELSE job_title END,
+    location = CASE WHEN p_updates ? 'location' THEN p_updates->>'location' ELSE location END,
+    experience = CASE WHEN p_updates ? 'experience' THEN coalesce((p_updates->>'experience')::integer, 0) ELSE experience END,
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(coalesce(nullif(p_updates->'skills', 'null'::jsonb), '[]'::jsonb))) ELSE skills END,
+    industry = CASE WHEN p_updates ? 'industry' THEN nullif(p_updates->>'industry', '') ELSE industry END,
+    education = CASE WHEN p_updates ? 'education' THEN nullif(p_updates->>'education', '') ELSE education END,
+    summary = CASE WHEN p_updates ? 'summary' THEN nullif(p_updates->>'summary', '') ELSE summary END,
+    availability = CASE WHEN p_updates ? 'availability' THEN p_updates->>'availability' ELSE availability END,
+    source = CASE WHEN p_updates ? 'source' THEN nullif(p_updates->>'source', '') ELSE source END,
+    licenses = CASE WHEN p_updates ? 'licenses' THEN coalesce(nullif(p_updates->'licenses', 'null'::jsonb), '[]'::jsonb) ELSE licenses END,
+    certifications = CASE WHEN p_updates ? 'certifications' THEN coalesce(nullif(p_updates->'certifications', 'null'::jsonb), '[]'::jsonb) ELSE certifications END,
+    work_history = CASE WHEN p_updates ? 'work_history' THEN coalesce(nullif(p_updates->'work_history', 'null'::jsonb), '[]'::jsonb) ELSE work_history END,
+    metadata = CASE WHEN p_updates ? 'metadata' THEN p_updates->'metadata' ELSE metadata END,
+    updated_at = now()
+  WHERE id = p_candidate_id
+  RETURNING * INTO updated;
+
+  SELECT coalesce(nullif(full_name, ''), email) INTO editor_name FROM profiles WHERE id = auth.uid();
+
+  -- Compare the stored values, so keys sent unchanged leave no history
+  INSERT INTO candidate_changes (candidate_id, project_id, changed_by, changed_by_name, field, previous_value, new_value)
+  SELECT updated.id, updated.project_id, auth.uid(), editor_name, key, to_jsonb(previous)->key, to_jsonb(updated)->key
+  FROM jsonb_object_keys(p_updates) AS key
+  WHERE key IN ('name', 'email', 'phone', 'job_title', 'location', 'experience', 'skills', 'industry',
+                'education', 'summary', 'availability', 'source', 'licenses', 'certifications',
+                'work_history', 'metadata')
+    AND to_jsonb(previous)->key IS DISTINCT FROM to_jsonb(updated)->key;
+
+  RETURN updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_updates jsonb DEFAULT '{}'::jsonb
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  survivor candidates;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM candidates s JOIN candidates d ON d.project_id = s.project_id
+    WHERE s.id = p_survivor_id AND d.id = p_duplicate_id
+  ) THEN
+    RAISE EXCEPTION 'Both candidates must exist in the same project';
+  END IF;
+
+  UPDATE candidates SET
+    name = coalesce(p_updates->>'name', name),
+    email = coalesce(p_updates->>'email', email),
+    phone = coalesce(p_updates->>'phone', phone),
+    job_title = coalesce(p_updates->>'job_title', job_title),
+    location = coalesce(p_updates->>'location', location),
+    experience = coalesce((p_updates->>'experience')::integer, experience),
+    skills = CASE WHEN p_updates ? 'skills' THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'skills')) ELSE skills END,
+    industry = coalesce(p_updates->>'industry', industry),
+    education = coalesce(p_updates->>'education', education),
+    summary = coalesce(p_updates->>'summary', summary),
+    availability = coalesce(p_updates->>'availability', availability),
+    source = coalesce(p_updates->>'source', source),
+    last_active = coalesce((p_updates->>'last_active')::timestamptz, last_active),
+    licenses = coalesce(p_updates->'licenses', licenses),
+    certifications = coalesce(p_updates->'certifications', certifications),
+    work_history = coalesce(p_updates->'work_history', work_history),
+    metadata = coalesce(p_updates->'metadata', metadata),
+    updated_at = now()
+  WHERE id = p_survivor_id;
+
+  -- Drop memberships the survivor already has, then move the rest over
+  DELETE FROM shortlist_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM shortlist_candidates s WHERE s.shortlist_id = d.shortlist_id AND s.candidate_id = p_survivor_id);
+  UPDATE shortlist_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM campaign_candidates d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM campaign_candidates s WHERE s.campaign_id = d.campaign_id AND s.candidate_id = p_survivor_id);
+  UPDATE campaign_candidates SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  -- Votes on the duplicate count for the survivor, unless the same user already rated the
+  -- survivor in the same search
+  DELETE FROM search_feedback d
+  WHERE d.candidate_id = p_duplicate_id
+    AND EXISTS (SELECT 1 FROM search_feedback s WHERE s.user_id = d.user_id AND s.search_key = d.search_key AND s.candidate_id = p_survivor_id);
+  UPDATE search_feedback SET candidate_id = p_survivor_id WHERE candidate_id = p_duplicate_id;
+
+  -- History rows cannot be updated, so the duplicate's are copied to the survivor before the
+  -- delete below cascades to them
+  INSERT INTO candidate_changes (candidate_id, project_id, changed_by, changed_by_name, field, previous_value, new_value, created_at)
+  SELECT p_survivor_id, project_id, changed_by, changed_by_name, field, previous_value, new_value, created_at
+  FROM candidate_changes WHERE candidate_id = p_duplicate_id;
+
+  DELETE FROM candidates WHERE id = p_duplicate_id;
+
+  SELECT * INTO survivor FROM candidates WHERE id = p_survivor_id;
+  RETURN survivor;
+END;
+$$;